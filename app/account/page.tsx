@@ -0,0 +1,370 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import dynamic from 'next/dynamic'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Monitor, Smartphone, Tablet, LogOut } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import LoaderOne from '@/components/LoaderOne'
+import type { ActiveSessionView } from '@/types/auth'
+import type { FaceChallenge, FaceEnrollmentStatus, FaceFrame } from '@/types/face'
+
+// The camera and face models only run in the browser
+const FaceCapture = dynamic(() => import('@/components/FaceCapture'), { ssr: false })
+
+const DEVICE_ICONS = {
+  desktop: Monitor,
+  mobile: Smartphone,
+  tablet: Tablet,
+  unknown: Monitor
+}
+
+// Changes the password, sets up face login, and lists the devices signed in to the account and signs them out
+export default function AccountPage() {
+  const router = useRouter()
+  const [sessions, setSessions] = useState<ActiveSessionView[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [passwordError, setPasswordError] = useState('')
+  const [faceStatus, setFaceStatus] = useState<FaceEnrollmentStatus | null>(null)
+  const [showFaceCapture, setShowFaceCapture] = useState(false)
+
+  const fetchSessions = async () => {
+    try {
+      const response = await fetch('/api/auth/sessions')
+      if (response.status === 401) {
+        router.push('/login')
+        return
+      }
+
+      const data = await response.json()
+      if (response.ok) {
+        setSessions(data.sessions)
+      } else {
+        toast.error(data.error || 'Failed to load sessions')
+      }
+    } catch (error) {
+      console.error('Error loading sessions:', error)
+      toast.error('Failed to load sessions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchFaceStatus = async () => {
+    try {
+      const response = await fetch('/api/auth/face')
+      if (response.ok) {
+        setFaceStatus(await response.json())
+      }
+    } catch (error) {
+      console.error('Error loading face login status:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchSessions()
+    fetchFaceStatus()
+  }, [])
+
+  const getEnrollmentChallenge = async (): Promise<FaceChallenge> => {
+    const response = await fetch('/api/auth/face/challenge', { method: 'POST' })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Could not start the camera check')
+    }
+    return data
+  }
+
+  const enrollFace = async (challenge: FaceChallenge, frames: FaceFrame[]) => {
+    const response = await fetch('/api/auth/face', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ challenge_token: challenge.challenge_token, frames })
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to set up face login')
+    }
+
+    setFaceStatus(data)
+    setShowFaceCapture(false)
+    toast.success('Face login is set up')
+  }
+
+  const removeFace = async () => {
+    setBusy(true)
+    try {
+      const response = await fetch('/api/auth/face', { method: 'DELETE' })
+      const data = await response.json()
+
+      if (response.ok) {
+        setFaceStatus(data)
+        toast.success('Face login removed')
+      } else {
+        toast.error(data.error || 'Failed to remove face login')
+      }
+    } catch (error) {
+      console.error('Error removing face login:', error)
+      toast.error('Failed to remove face login')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const revokeSession = async (session: ActiveSessionView) => {
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/auth/sessions/${session.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to sign out the session')
+      } else if (session.current) {
+        router.push('/login')
+      } else {
+        toast.success('Session signed out')
+        await fetchSessions()
+      }
+    } catch (error) {
+      console.error('Error revoking session:', error)
+      toast.error('Failed to sign out the session')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const revokeAll = async (keepCurrent: boolean) => {
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/auth/sessions${keepCurrent ? '?keepCurrent=true' : ''}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to sign out sessions')
+      } else if (!keepCurrent) {
+        router.push('/login')
+      } else {
+        toast.success(`Signed out ${data.revoked} other ${data.revoked === 1 ? 'session' : 'sessions'}`)
+        await fetchSessions()
+      }
+    } catch (error) {
+      console.error('Error revoking sessions:', error)
+      toast.error('Failed to sign out sessions')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const changePassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setPasswordError('')
+
+    if (newPassword !== confirmPassword) {
+      setPasswordError('The passwords do not match')
+      return
+    }
+
+    setBusy(true)
+    try {
+      const response = await fetch('/api/auth/change-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ current_password: currentPassword, new_password: newPassword })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        toast.success(data.message)
+        setCurrentPassword('')
+        setNewPassword('')
+        setConfirmPassword('')
+      } else {
+        setPasswordError(data.error || 'Unable to change your password')
+      }
+    } catch (error) {
+      console.error('Error changing password:', error)
+      setPasswordError('Network error. Please check your connection and try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const formatDate = (timestamp: string) => new Date(timestamp).toLocaleString()
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Your account</h1>
+            <p className="text-sm text-gray-600">Your password and the devices signed in to your account</p>
+          </div>
+          <Button variant="outline" onClick={() => router.back()}>Back</Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Password</CardTitle>
+            <CardDescription>
+              Use at least 8 characters with upper and lower case letters, a number and a symbol. Recent passwords cannot be reused.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={changePassword} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="current-password">Current password</Label>
+                <Input
+                  id="current-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  required
+                  disabled={busy}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  required
+                  disabled={busy}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm new password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  disabled={busy}
+                />
+              </div>
+
+              {passwordError && (
+                <div className="text-red-500 text-sm p-3 bg-red-50 rounded-md border border-red-100">{passwordError}</div>
+              )}
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={busy}>Change password</Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {faceStatus?.eligible && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Face login</CardTitle>
+              <CardDescription>
+                {faceStatus.enrolled
+                  ? `Set up ${formatDate(faceStatus.updatedAt!)}. You can sign in by looking at the camera.`
+                  : 'Sign in by looking at the camera instead of typing your password.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {showFaceCapture ? (
+                <FaceCapture
+                  getChallenge={getEnrollmentChallenge}
+                  onCapture={enrollFace}
+                  onCancel={() => setShowFaceCapture(false)}
+                  submitLabel="Save my face"
+                />
+              ) : (
+                <>
+                  {faceStatus.missingConsent.length > 0 && (
+                    <p className="mb-4 text-sm text-gray-600">
+                      Ask a parent to allow {faceStatus.missingConsent.join(' and ')} recording on their dashboard before setting up face login.
+                    </p>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    {faceStatus.enrolled && (
+                      <Button variant="outline" disabled={busy} onClick={removeFace}>Remove face login</Button>
+                    )}
+                    <Button
+                      disabled={busy || faceStatus.missingConsent.length > 0}
+                      onClick={() => setShowFaceCapture(true)}
+                    >
+                      {faceStatus.enrolled ? 'Set up again' : 'Set up face login'}
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Active sessions</CardTitle>
+            <CardDescription>
+              If you don't recognise a device, sign it out and change your password.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <div className="flex justify-center py-6">
+                <LoaderOne />
+              </div>
+            ) : sessions.length === 0 ? (
+              <p className="text-sm text-gray-500">No active sessions</p>
+            ) : (
+              sessions.map(session => {
+                const DeviceIcon = DEVICE_ICONS[session.device.type]
+                return (
+                  <div key={session.id} className="flex items-center justify-between border rounded-lg p-4">
+                    <div className="flex items-center gap-3">
+                      <DeviceIcon className="h-5 w-5 text-gray-500" />
+                      <div>
+                        <div className="font-medium flex items-center gap-2">
+                          {session.device.browser} on {session.device.os}
+                          {session.current && <Badge className="bg-green-100 text-green-800">This device</Badge>}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {session.ip_address || 'Unknown IP'} • Last active {formatDate(session.last_activity)} • Signed in {formatDate(session.created_at)}
+                        </div>
+                      </div>
+                    </div>
+                    <Button variant="outline" size="sm" disabled={busy} onClick={() => revokeSession(session)}>
+                      Sign out
+                    </Button>
+                  </div>
+                )
+              })
+            )}
+
+            {sessions.length > 0 && (
+              <div className="flex justify-end gap-2 pt-2">
+                <Button variant="outline" disabled={busy || sessions.every(session => session.current)} onClick={() => revokeAll(true)}>
+                  Sign out other devices
+                </Button>
+                <Button variant="destructive" disabled={busy} onClick={() => revokeAll(false)}>
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign out everywhere
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
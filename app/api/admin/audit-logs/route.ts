@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/middleware/auth-middleware'
+import { auditLogService } from '@/lib/services/audit-log-service'
+import { SecurityAuditLog, SecurityAuditLogFilter, SecurityEventType } from '@/types/auth'
+
+/**
+ * Security Audit Log API Endpoint
+ * Newest first; filter by user (id, username or email), event type, risk level and date range
+ */
+
+const RISK_LEVELS: SecurityAuditLog['risk_level'][] = ['low', 'medium', 'high', 'critical']
+
+// Plain dates cover the whole day; full timestamps are used as given
+function parseBoundary(value: string | null, endOfDay: boolean): string | null | undefined {
+  if (!value) return undefined
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`)
+    : new Date(value)
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+export const GET = requirePermission('audit_logs:read')(async (request) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '50')
+    const user = searchParams.get('user')
+    const eventType = searchParams.get('eventType')
+    const riskLevel = searchParams.get('riskLevel')
+    const from = parseBoundary(searchParams.get('from'), false)
+    const to = parseBoundary(searchParams.get('to'), true)
+
+    if (riskLevel && !RISK_LEVELS.includes(riskLevel as SecurityAuditLog['risk_level'])) {
+      return NextResponse.json({ error: 'Invalid riskLevel' }, { status: 400 })
+    }
+    if (from === null || to === null) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 })
+    }
+
+    const filter: SecurityAuditLogFilter = {
+      eventType: (eventType || undefined) as SecurityEventType | undefined,
+      riskLevel: (riskLevel || undefined) as SecurityAuditLog['risk_level'] | undefined,
+      from,
+      to
+    }
+
+    if (user) {
+      const userId = await auditLogService.resolveUserId(user)
+      if (!userId) {
+        return NextResponse.json({ logs: [], total: 0, hasMore: false, page: 1, limit })
+      }
+      filter.userId = userId
+    }
+
+    const result = await auditLogService.getLogs(filter, page || 1, limit || 50)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error fetching audit logs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch audit logs' },
+      { status: 500 }
+    )
+  }
+})
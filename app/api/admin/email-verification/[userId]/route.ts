@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, requirePermission } from '@/lib/middleware/auth-middleware'
+import { emailVerificationService } from '@/lib/services/email-verification-service'
+import { EmailVerificationError } from '@/types/auth'
+
+/**
+ * Verification Email Resend API Endpoint
+ * Sends the user a new email verification link on an administrator's behalf
+ */
+
+export const POST = requirePermission('users:manage')(async (
+  request,
+  { params }: { params: { userId: string } }
+) => {
+  try {
+    await emailVerificationService.resendForUser(params.userId, getAuthUser(request)!.userId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof EmailVerificationError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error resending verification email:', error)
+    return NextResponse.json(
+      { error: 'Failed to resend verification email' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, requirePermission } from '@/lib/middleware/auth-middleware'
+import { accountLockoutService } from '@/lib/services/account-lockout-service'
+import { AccountLockoutError } from '@/types/auth'
+
+/**
+ * Account Unlock API Endpoint
+ * Ends every active lockout of the user and resets their failed login count
+ */
+
+export const DELETE = requirePermission('users:manage')(async (
+  request,
+  { params }: { params: { userId: string } }
+) => {
+  try {
+    await accountLockoutService.unlockByAdmin(params.userId, getAuthUser(request)!.userId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AccountLockoutError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error unlocking account:', error)
+    return NextResponse.json(
+      { error: 'Failed to unlock account' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/middleware/auth-middleware'
+import { accountLockoutService } from '@/lib/services/account-lockout-service'
+
+/**
+ * Account Lockouts API Endpoint
+ * Accounts that are currently locked after repeated failed logins
+ */
+
+export const GET = requirePermission('users:manage')(async () => {
+  try {
+    const lockouts = await accountLockoutService.getLockedAccounts()
+
+    return NextResponse.json({ lockouts })
+  } catch (error) {
+    console.error('Error fetching account lockouts:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch account lockouts' },
+      { status: 500 }
+    )
+  }
+})
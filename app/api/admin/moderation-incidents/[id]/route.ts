@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, requirePermission } from '@/lib/middleware/auth-middleware'
+import { moderationService } from '@/lib/services/moderation-service'
+import { ModerationError } from '@/types/moderation'
+
+/**
+ * Moderation Incident Review API Endpoint
+ * Closes an incident as reviewed (followed up) or dismissed (a false alarm),
+ * with an optional note for other staff
+ */
+
+export const PATCH = requirePermission('moderation:review')(async (
+  request,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const { status, note } = await request.json()
+    const incident = await moderationService.reviewIncident(params.id, getAuthUser(request)!.userId, status, note)
+
+    return NextResponse.json({ incident })
+  } catch (error) {
+    if (error instanceof ModerationError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error reviewing moderation incident:', error)
+    return NextResponse.json(
+      { error: 'Failed to review moderation incident' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/middleware/auth-middleware'
+import { moderationService } from '@/lib/services/moderation-service'
+import { ModerationIncidentStatus } from '@/types/moderation'
+
+/**
+ * Moderation Incidents API Endpoint
+ * Messages and replies the child-safety filter blocked, newest first.
+ * ?status=open|reviewed|dismissed narrows the list; ?studentId= shows one student
+ */
+
+const STATUSES: ModerationIncidentStatus[] = ['open', 'reviewed', 'dismissed']
+
+export const GET = requirePermission('moderation:review')(async (request) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const limit = searchParams.get('limit')
+
+    if (status && !STATUSES.includes(status as ModerationIncidentStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${STATUSES.join(', ')}`, code: 'INVALID_STATUS' },
+        { status: 400 }
+      )
+    }
+
+    const incidents = await moderationService.listIncidents(
+      {
+        status: (status as ModerationIncidentStatus) || undefined,
+        userId: searchParams.get('studentId') || undefined
+      },
+      limit ? Number(limit) : undefined
+    )
+
+    return NextResponse.json({ incidents })
+  } catch (error) {
+    console.error('Error fetching moderation incidents:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch moderation incidents' },
+      { status: 500 }
+    )
+  }
+})
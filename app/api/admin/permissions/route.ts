@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, requirePermission } from '@/lib/middleware/auth-middleware'
+import { rbacService } from '@/lib/services/rbac-service'
+import { RBACError, UserRole } from '@/types/auth'
+
+/**
+ * Permissions API Endpoint
+ * The permission catalogue and which roles hold each permission
+ */
+
+export const GET = requirePermission('permissions:manage')(async () => {
+  try {
+    const [permissions, roleGrants] = await Promise.all([
+      rbacService.getPermissions(),
+      rbacService.getRoleGrants()
+    ])
+
+    return NextResponse.json({ permissions, roleGrants })
+  } catch (error) {
+    console.error('Error fetching permissions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch permissions' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = requirePermission('permissions:manage')(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { resource, action, description } = body
+
+    if (typeof resource !== 'string' || typeof action !== 'string') {
+      return NextResponse.json({ error: 'resource and action are required' }, { status: 400 })
+    }
+
+    const permission = await rbacService.createPermission({
+      resource,
+      action,
+      description: typeof description === 'string' ? description : ''
+    })
+
+    return NextResponse.json({ success: true, permission }, { status: 201 })
+  } catch (error) {
+    if (error instanceof RBACError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error creating permission:', error)
+    return NextResponse.json(
+      { error: 'Failed to create permission' },
+      { status: 500 }
+    )
+  }
+})
+
+// Grant or revoke a permission for a role
+export const PATCH = requirePermission('permissions:manage')(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { role, permissionId, granted } = body
+
+    if (!role || !permissionId || typeof granted !== 'boolean') {
+      return NextResponse.json({ error: 'role, permissionId and granted are required' }, { status: 400 })
+    }
+
+    if (granted) {
+      await rbacService.assignRolePermission(role as UserRole, permissionId, getAuthUser(request)!.userId)
+    } else {
+      await rbacService.revokeRolePermission(role as UserRole, permissionId)
+    }
+
+    return NextResponse.json({ success: true, roleGrants: await rbacService.getRoleGrants() })
+  } catch (error) {
+    if (error instanceof RBACError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error updating role permission:', error)
+    return NextResponse.json(
+      { error: 'Failed to update role permission' },
+      { status: 500 }
+    )
+  }
+})
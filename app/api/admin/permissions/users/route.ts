@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, requirePermission } from '@/lib/middleware/auth-middleware'
+import { rbacService } from '@/lib/services/rbac-service'
+import { RBACError } from '@/types/auth'
+
+/**
+ * User Permissions API Endpoint
+ * Direct, optionally expiring, grants to individual users
+ */
+
+export const GET = requirePermission('permissions:manage')(async (request) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const userId = searchParams.get('userId')
+    if (!userId) {
+      return NextResponse.json({ error: 'userId is required' }, { status: 400 })
+    }
+
+    const grants = await rbacService.getUserGrants(userId)
+
+    return NextResponse.json({ grants })
+  } catch (error) {
+    console.error('Error fetching user permissions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch user permissions' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = requirePermission('permissions:manage')(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { userId, permissionId, expiresAt } = body
+
+    if (!userId || !permissionId) {
+      return NextResponse.json({ error: 'userId and permissionId are required' }, { status: 400 })
+    }
+
+    await rbacService.assignUserPermission(userId, permissionId, getAuthUser(request)!.userId, expiresAt || undefined)
+
+    return NextResponse.json({ success: true, grants: await rbacService.getUserGrants(userId) }, { status: 201 })
+  } catch (error) {
+    if (error instanceof RBACError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error granting user permission:', error)
+    return NextResponse.json(
+      { error: 'Failed to grant user permission' },
+      { status: 500 }
+    )
+  }
+})
+
+export const DELETE = requirePermission('permissions:manage')(async (request) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const userId = searchParams.get('userId')
+    const permissionId = searchParams.get('permissionId')
+    if (!userId || !permissionId) {
+      return NextResponse.json({ error: 'userId and permissionId are required' }, { status: 400 })
+    }
+
+    await rbacService.revokeUserPermission(userId, permissionId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking user permission:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke user permission' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,20 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { supabaseQuizService } from '@/lib/services/supabase-quiz-service'
-import { JWTManager } from '@/lib/middleware/auth-middleware'
+import { requirePermission } from '@/lib/middleware/auth-middleware'
 
-export async function GET(request: NextRequest) {
+export const GET = requirePermission('questions:read')(async (request) => {
   try {
-    // Verify authentication and admin role
-    const token = request.cookies.get('auth-token')?.value
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const decoded = JWTManager.verifyAccessToken(token)
-    if (!decoded || (decoded.role !== 'admin' && decoded.role !== 'teacher')) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
-
     // Get query parameters
     const { searchParams } = new URL(request.url)
     const type = searchParams.get('type')
@@ -53,21 +42,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-export async function PUT(request: NextRequest) {
+export const PUT = requirePermission('questions:manage')(async (request) => {
   try {
-    // Verify authentication and admin role
-    const token = request.cookies.get('auth-token')?.value
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const decoded = JWTManager.verifyAccessToken(token)
-    if (!decoded || (decoded.role !== 'admin' && decoded.role !== 'teacher')) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
-
     const body = await request.json()
     const { id, ...updates } = body
 
@@ -90,21 +68,10 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = requirePermission('questions:manage')(async (request) => {
   try {
-    // Verify authentication and admin role
-    const token = request.cookies.get('auth-token')?.value
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const decoded = JWTManager.verifyAccessToken(token)
-    if (!decoded || (decoded.role !== 'admin' && decoded.role !== 'teacher')) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
-
     const { searchParams } = new URL(request.url)
     const id = searchParams.get('id')
 
@@ -127,21 +94,10 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = requirePermission('questions:manage')(async (request) => {
   try {
-    // Verify authentication and admin role
-    const token = request.cookies.get('auth-token')?.value
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const decoded = JWTManager.verifyAccessToken(token)
-    if (!decoded || (decoded.role !== 'admin' && decoded.role !== 'teacher')) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
-
     const body = await request.json()
     
     // Validate required fields
@@ -166,4 +122,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
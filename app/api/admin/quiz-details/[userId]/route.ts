@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { DatabaseManager } from '@/lib/database/database-manager'
-import { JWTManager } from '@/lib/middleware/auth-middleware'
+import { requirePermission } from '@/lib/middleware/auth-middleware'
 
 interface QuizResult {
   id: string
@@ -23,31 +23,11 @@ interface DetailedQuizResult extends QuizResult {
   answers: QuizAnswer[]
 }
 
-export async function GET(
-  request: NextRequest,
+export const GET = requirePermission('analytics:read')(async (
+  _request,
   { params }: { params: { userId: string } }
-) {
+) => {
   try {
-    // Verify authentication and admin role
-    let token = request.cookies.get('auth-token')?.value
-    
-    // If no cookie token, check Authorization header
-    if (!token) {
-      const authHeader = request.headers.get('authorization')
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const decoded = JWTManager.verifyAccessToken(token)
-    if (!decoded || decoded.role !== 'admin') {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
-
     const userId = params.userId
     if (!userId) {
       return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 })
@@ -99,4 +79,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
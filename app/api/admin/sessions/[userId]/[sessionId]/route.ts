@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, getClientInfo, requirePermission } from '@/lib/middleware/auth-middleware'
+import { sessionService } from '@/lib/services/session-service'
+import { SessionError } from '@/types/auth'
+
+/**
+ * User Session Revoke API Endpoint
+ * Signs out one session of a user
+ */
+
+export const DELETE = requirePermission('users:manage')(async (
+  request,
+  { params }: { params: { userId: string; sessionId: string } }
+) => {
+  try {
+    await sessionService.revokeSession(params.userId, params.sessionId, {
+      revokedBy: getAuthUser(request)!.userId,
+      ...getClientInfo(request)
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error revoking user session:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign out session' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, getClientInfo, requirePermission } from '@/lib/middleware/auth-middleware'
+import { sessionService } from '@/lib/services/session-service'
+
+/**
+ * User Sessions API Endpoint
+ * GET lists a user's signed-in devices; DELETE signs all of them out
+ */
+
+export const GET = requirePermission('users:manage')(async (
+  _request,
+  { params }: { params: { userId: string } }
+) => {
+  try {
+    const sessions = await sessionService.listSessions(params.userId)
+
+    return NextResponse.json({ success: true, sessions })
+  } catch (error) {
+    console.error('Error listing user sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to list sessions' },
+      { status: 500 }
+    )
+  }
+})
+
+export const DELETE = requirePermission('users:manage')(async (
+  request,
+  { params }: { params: { userId: string } }
+) => {
+  try {
+    const revoked = await sessionService.revokeAllSessions(params.userId, {
+      revokedBy: getAuthUser(request)!.userId,
+      ...getClientInfo(request)
+    })
+
+    return NextResponse.json({ success: true, revoked })
+  } catch (error) {
+    console.error('Error revoking user sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign out sessions' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,20 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { DatabaseManager } from '@/lib/database/database-manager'
-import { JWTManager } from '@/lib/middleware/auth-middleware'
+import { requirePermission } from '@/lib/middleware/auth-middleware'
 
-export async function GET(request: NextRequest) {
+export const GET = requirePermission('analytics:read')(async () => {
   try {
-    // Verify authentication and admin role
-    const token = request.cookies.get('auth-token')?.value
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const decoded = JWTManager.verifyAccessToken(token)
-    if (!decoded || decoded.role !== 'admin') {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
-
     const dbManager = DatabaseManager.getInstance()
     await dbManager.initializeIfNeeded()
     const adapter = dbManager.getAdapter()
@@ -73,5 +62,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
   
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/middleware/auth-middleware'
+import { teacherService } from '@/lib/services/teacher-service'
+import { TeacherAssignmentError } from '@/types/teacher'
+
+/**
+ * Teacher Assignments API Endpoint
+ * Admin management of which students belong to which teacher's classes
+ */
+
+export const GET = requirePermission('teacher_assignments:manage')(async (request) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const assignments = await teacherService.listAssignments(searchParams.get('teacherId') || undefined)
+
+    return NextResponse.json({ assignments })
+  } catch (error) {
+    console.error('Error fetching teacher assignments:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch teacher assignments' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = requirePermission('teacher_assignments:manage')(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { teacherId, studentId, className, subject, academicYear } = body
+
+    if (!teacherId || !studentId) {
+      return NextResponse.json({ error: 'teacherId and studentId are required' }, { status: 400 })
+    }
+
+    const assignment = await teacherService.assignStudent({
+      teacherId,
+      studentId,
+      className,
+      subject,
+      academicYear
+    })
+
+    return NextResponse.json({ success: true, assignment }, { status: 201 })
+  } catch (error) {
+    if (error instanceof TeacherAssignmentError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error creating teacher assignment:', error)
+    return NextResponse.json(
+      { error: 'Failed to create teacher assignment' },
+      { status: 500 }
+    )
+  }
+})
+
+export const DELETE = requirePermission('teacher_assignments:manage')(async (request) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Assignment ID is required' }, { status: 400 })
+    }
+
+    await teacherService.removeAssignment(id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof TeacherAssignmentError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error deleting teacher assignment:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete teacher assignment' },
+      { status: 500 }
+    )
+  }
+})
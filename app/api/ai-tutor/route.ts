@@ -1,51 +1,170 @@
 import { NextResponse } from 'next/server'
-import OpenAI from 'openai'
-import { ChatCompletionMessageParam } from 'openai/resources/chat'
-import { retryOpenAICall } from '@/lib/retry-utils'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { llmManager } from '@/lib/llm/llm-manager'
+import { tutorService } from '@/lib/services/tutor-service'
+import { tutorConversationService } from '@/lib/services/tutor-conversation-service'
+import { moderationService } from '@/lib/services/moderation-service'
+import { LLMError, LLMMessage, LLMProviderName, TutorStreamEvent } from '@/types/llm'
+import { TutorError, TutorQuestion, TutorStage, TutorTurn } from '@/types/tutor'
 
-// Enable Edge Runtime for better performance and longer timeouts (30s vs 10s)
-export const runtime = 'edge'
-
-// Configure OpenAI client with timeout and retry settings
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-  timeout: 60000, // 60 seconds
-  maxRetries: 3
-})
+// Runs on the Node.js runtime rather than the edge: withAuth checks the
+// session in the database. The reply is still streamed as Server-Sent Events
+export const maxDuration = 60
 
 // Define types for better type safety
 interface AITutorRequest {
   mode: 'proactive' | 'reactive'
-  messages: { role: string; content: string }[]
+  // Optional: a request with only a question asks the tutor to start on it
+  messages?: { role: string; content: string }[]
+  // The stored conversation to continue (X-Tutor-Conversation of an earlier
+  // reply); a new one is started without it. Also groups the attempts at a question
+  conversationId?: string
   currentQuestion?: {
     text: string
     options: string[]
-    correct_answer?: string
     id?: string | number
   }
 }
 
-// We'll use the OpenAI SDK's built-in types for message roles
+function isMessageList(value: unknown): value is { role: string; content: string }[] {
+  return Array.isArray(value) && value.every(message =>
+    message && typeof message === 'object' && typeof message.role === 'string' && typeof message.content === 'string'
+  )
+}
+
+// What the model may say at each stage of a question. Before the reveal it
+// is not given the correct answer at all, so it cannot let it slip
+function getStageInstructions(
+  turn: TutorTurn,
+  question: TutorQuestion,
+  grammarType: string,
+  encouragement: string
+): string {
+  const tryEachOption = question.options
+    .map(option => `'${question.text.replace(/_{3,}/, option)}'`)
+    .join(' - does that sound right? ')
+  const keepAnswerSecret = 'You have NOT been told the correct answer. NEVER say or suggest which option is right.'
+  const lastWrong = turn.wrongAnswers[turn.wrongAnswers.length - 1]
+
+  switch (turn.stage) {
+    case 'correct':
+      return turn.answer && turn.answer.index === turn.correctAnswer?.index
+        ? `STAGE: CORRECT. The student just chose option ${turn.correctAnswer.letter} ("${turn.correctAnswer.option}"), which is CORRECT! Respond with EXCITEMENT and PRAISE like "YES! That's right! Great job!" and say in one short sentence why it fits.`
+        : `STAGE: CORRECT. The student already found the correct answer, option ${turn.correctAnswer?.letter} ("${turn.correctAnswer?.option}"). Answer their question about it briefly and encourage them to go on to the next question.`
+    case 'reveal':
+      return `STAGE: REVEAL. The student has tried ${turn.wrongAnswers.length} times (${turn.wrongAnswers.map(answer => `"${answer}"`).join(', ')}). Kindly tell them the correct answer is option ${turn.correctAnswer?.letter}: "${turn.correctAnswer?.option}", and explain WHY in simple terms a child would understand, with one more short example sentence.`
+    case 'hint':
+      return `${turn.answer
+        ? `STAGE: HINT. The student chose "${lastWrong}", which is WRONG. Start with "Good try!"`
+        : `STAGE: HINT. The student already tried "${lastWrong}", which was wrong.`} Say why "${lastWrong}" does not fit this sentence, give one more specific hint formatted as [HIGHLIGHT]your hint[/HIGHLIGHT], and ask them to try again. ${keepAnswerSecret}`
+    case 'explain':
+    default:
+      return `STAGE: EXPLAIN. Explain what the question is asking and show how each option sounds in the sentence, like this: [HIGHLIGHT]This question is asking you to fill in the blank with the correct ${grammarType}. Try each word: ${tryEachOption} - does this make sense?[/HIGHLIGHT] Then end with: "${encouragement}"${turn.answer ? ' If the student names an option, do not say whether it is right or wrong; ask them to try each option in the sentence.' : ''} ${keepAnswerSecret}`
+  }
+}
+
+// Sends the reply as Server-Sent Events (see lib/tutor-stream.ts) and hands
+// the whole text to onComplete before the done event. Headers are already
+// sent by the time a chunk fails, so a failure part way through is reported
+// as an error event instead of a status code
+function streamTutorReply(
+  chunks: AsyncIterable<string>,
+  provider: LLMProviderName | undefined,
+  onComplete: (reply: string) => Promise<void>,
+  headers: Record<string, string>
+): NextResponse {
+  const encoder = new TextEncoder()
+  const sendEvent = (controller: ReadableStreamDefaultController, event: TutorStreamEvent) => {
+    controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+  }
+
+  const readable = new ReadableStream({
+    async start(controller) {
+      try {
+        let reply = ''
+        for await (const content of chunks) {
+          reply += content
+          sendEvent(controller, { type: 'token', text: content })
+        }
+
+        // The student already has the reply, so failing to store it is only logged
+        try {
+          await onComplete(reply)
+        } catch (error) {
+          console.error('[AI-TUTOR STREAM] Failed to store the reply:', error)
+        }
+
+        sendEvent(controller, { type: 'done', provider })
+        console.log('[AI-TUTOR STREAM] Completed streaming response:', reply.length, 'characters')
+      } catch (error) {
+        console.error('[AI-TUTOR STREAM] Error:', error)
+        sendEvent(controller, { type: 'error', error: 'The AI response was interrupted' })
+      } finally {
+        controller.close()
+      }
+    },
+  })
+
+  return new NextResponse(readable, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // Stops nginx-style proxies from buffering the stream
+      'X-Accel-Buffering': 'no',
+      ...headers,
+    },
+  })
+}
 
-export async function POST(req: Request) {
+export const POST = withAuth(async (req) => {
   try {
-    // Parse request with type safety and add logging
-    const requestData = await req.json()
-    console.log('[AI-TUTOR API] Received request:', JSON.stringify(requestData, null, 2))
-    
-    const { mode, currentQuestion, messages } = requestData as AITutorRequest
-    
+    // Parse request with type safety; what the student wrote is not logged
+    const requestData: AITutorRequest = await req.json()
+    const { mode, currentQuestion, conversationId } = requestData
+    const messages = requestData.messages ?? []
+    if (!isMessageList(messages)) {
+      return NextResponse.json(
+        { error: 'messages must be a list of { role, content } with text content' },
+        { status: 400 }
+      )
+    }
+    console.log('[AI-TUTOR API] Received request:', { mode, messages: messages?.length || 0, hasQuestion: Boolean(currentQuestion) })
+
+    const { userId } = getAuthUser(req)!
+    const conversation = await tutorConversationService.resolveConversation(userId, conversationId)
 
+    // What the student has just said; empty when the client only wants the tutor to start
+    const lastMessage = messages[messages.length - 1]
+    const latestMessage = lastMessage?.role === 'user' ? String(lastMessage.content) : ''
+
+    // Screened before it is graded or reaches the model. A blocked message is
+    // answered with a safe response and left out of the transcript
+    const moderationContext = { userId, route: 'ai-tutor' as const, conversationId: conversation.id }
+    const inputCheck = latestMessage ? await moderationService.screen(latestMessage, 'input', moderationContext) : null
+    if (inputCheck?.flagged) {
+      await tutorConversationService.recordMessage(conversation.id, {
+        role: 'user',
+        content: moderationService.getRedactedMessage()
+      })
+
+      const safeResponse = moderationService.getSafeResponse(inputCheck, 'input')
+      return streamTutorReply(
+        (async function* () { yield safeResponse })(),
+        undefined,
+        async reply => { await tutorConversationService.recordMessage(conversation.id, { role: 'assistant', content: reply }) },
+        { 'X-Tutor-Conversation': conversation.id, 'X-Moderation': 'blocked' }
+      )
+    }
 
     // Enhanced system prompts with context awareness
     let baseSystemPrompt = mode === 'proactive' 
       ? "You are a friendly English tutor for kids aged 8-12. Use simple words and short sentences. Explain grammar in a fun, easy way that children can understand."
       : "You are a friendly English tutor helping kids aged 8-12 with their quiz questions. Use simple words and short sentences. Be encouraging and positive."
 
-    // Convert message roles to valid OpenAI roles
-    // Define a more specific type to handle the function message case
-    const convertedMessages: ChatCompletionMessageParam[] = messages.map(msg => {
-      // Ensure role is one of the valid OpenAI roles
+    // Convert message roles to valid chat roles; earlier messages the filter blocks are replaced
+    const convertedMessages: LLMMessage[] = await moderationService.redactHistory(messages.map(msg => {
+      // Ensure role is one of the valid chat roles
       const role = (msg.role === 'user' || msg.role === 'assistant' || msg.role === 'system') 
         ? msg.role 
         : 'user'; // Default to user if role is not valid
@@ -56,10 +175,10 @@ export async function POST(req: Request) {
         role: role as 'user' | 'assistant' | 'system',
         content: msg.content
       };
-    })
+    }), moderationContext)
 
     // Create properly typed messages array
-    const systemMessages: ChatCompletionMessageParam[] = [];
+    const systemMessages: LLMMessage[] = [];
     
     // Add proactive instruction if needed
     if (mode === 'proactive') {
@@ -71,57 +190,28 @@ export async function POST(req: Request) {
     
     // Build a comprehensive system prompt
     let fullSystemPrompt = baseSystemPrompt
+    let tutorStage: TutorStage | undefined
+    let questionId: string | undefined
     
     // Add current question context if available
     if (currentQuestion && currentQuestion.text && currentQuestion.options && currentQuestion.options.length > 0) {
-      console.log('Processing question context:', JSON.stringify(currentQuestion, null, 2))
+      console.log('[AI-TUTOR] Question context:', currentQuestion.id ?? 'no id')
+
+      // Grade the student's latest message here and only tell the model what this stage allows
+      const question = await tutorService.resolveQuestion(currentQuestion)
+      const turn = await tutorService.planTurn(userId, conversation.id, question, latestMessage)
+      tutorStage = turn.stage
+      // Only questions from the database have an ID a transcript can look up
+      questionId = question.correctIndex >= 0 ? question.id : undefined
+
+      console.log('[AI-TUTOR] Stage:', turn.stage, 'answer:', turn.answer?.letter, 'wrong attempts:', turn.wrongAnswers.length)
       
       // Format options with their letter choices for clearer reference
-      const formattedOptions = currentQuestion.options.map((option, index) => {
+      const formattedOptions = question.options.map((option, index) => {
         const optionLetter = String.fromCharCode(65 + index); // A, B, C, D...
         return `${optionLetter}\n${option}`;
       }).join('\n\n');
       
-      console.log('Formatted options:', formattedOptions)
-      
-      // Add detailed context-specific instructions to the system prompt - child-friendly with answer checking
-      // First, log the options and correct answer for debugging
-      console.log('Question options:', JSON.stringify(currentQuestion.options));
-      console.log('Correct answer from data:', JSON.stringify(currentQuestion.correct_answer));
-      
-      // Determine the correct answer index and letter
-      let correctAnswerIndex = -1;
-      let correctAnswerText = '';
-      
-      // If correct_answer is provided directly, use it
-      if (currentQuestion.correct_answer) {
-        correctAnswerText = currentQuestion.correct_answer;
-        // Find the index of the correct answer in the options array
-        correctAnswerIndex = currentQuestion.options.findIndex(option => 
-          option.toLowerCase().trim() === currentQuestion.correct_answer?.toLowerCase().trim()
-        );
-        
-        // If we couldn't find the index, try to see if correct_answer is actually a letter (A, B, C, D)
-        if (correctAnswerIndex === -1 && currentQuestion.correct_answer.length === 1) {
-          const letterCode = currentQuestion.correct_answer.toUpperCase().charCodeAt(0);
-          if (letterCode >= 65 && letterCode <= 68) { // A-D
-            correctAnswerIndex = letterCode - 65;
-            if (correctAnswerIndex < currentQuestion.options.length) {
-              correctAnswerText = currentQuestion.options[correctAnswerIndex];
-            }
-          }
-        }
-      } 
-      // Otherwise, assume the first option (A) is correct
-      else if (currentQuestion.options && currentQuestion.options.length > 0) {
-        correctAnswerIndex = 0;
-        correctAnswerText = currentQuestion.options[0];
-      }
-      
-      const correctAnswerLetter = correctAnswerIndex >= 0 ? String.fromCharCode(65 + correctAnswerIndex) : 'A';
-      
-      console.log('Determined correct answer:', correctAnswerLetter, correctAnswerText);
-      
       // Function to identify grammar type based on answer options
       const identifyGrammarType = (options: string[]): string => {
         const allOptions = options.map(opt => opt.toLowerCase().trim());
@@ -178,7 +268,7 @@ export async function POST(req: Request) {
         return 'word';
       };
       
-      const grammarType = identifyGrammarType(currentQuestion.options);
+      const grammarType = identifyGrammarType(question.options);
       
       // Array of varied closing encouragement messages
       const encouragementVariations = [
@@ -195,210 +285,74 @@ export async function POST(req: Request) {
       // Randomly select an encouragement message
       const randomEncouragement = encouragementVariations[Math.floor(Math.random() * encouragementVariations.length)];
       
-      fullSystemPrompt += `\n\nIMPORTANT: The student is looking at this question:\n\n"${currentQuestion.text}"\n\nThe options are:\n${formattedOptions}\n\nThe correct answer is option ${correctAnswerLetter}: "${correctAnswerText}"\n\nWhen helping the student:\n1. ALWAYS talk about this exact question\n2. Keep your answer SHORT - no more than 2-3 short sentences total\n3. Use SIMPLE words an 8-year-old would understand\n4. CAREFULLY CHECK if the student's answer matches ANY of these patterns - if it does, it's CORRECT!\n   - The exact word "${correctAnswerText}" (case insensitive)\n   - Just the letter "${correctAnswerLetter}" alone (case insensitive)\n   - Any phrase containing "answer is ${correctAnswerLetter}" (case insensitive)\n   - Any phrase containing "answer ${correctAnswerLetter}" (case insensitive)\n   - Any phrase containing "option ${correctAnswerLetter}" (case insensitive)\n   - Any phrase containing "${correctAnswerLetter}" (case insensitive)\n   - Any phrase containing "${correctAnswerText}" (case insensitive)\n   - Any phrase containing "${correctAnswerLetter}." (case insensitive)\n   - Any phrase containing "${correctAnswerLetter})" (case insensitive)\n   - Any phrase containing "i think ${correctAnswerLetter}" (case insensitive)\n   - Any phrase containing "i choose ${correctAnswerLetter}" (case insensitive)\n   - Any phrase containing "i select ${correctAnswerLetter}" (case insensitive)\n   - Any phrase containing "i pick ${correctAnswerLetter}" (case insensitive)\n   - ANY single letter response that matches "${correctAnswerLetter}" (case insensitive)\n5. EXTREMELY IMPORTANT: If the student just types the letter "${correctAnswerLetter}" by itself, it is DEFINITELY CORRECT!\n6. IF the student gives the CORRECT answer, respond with EXCITEMENT and PRAISE like "YES! That's right! Great job!"\n7. CRITICAL: When the student asks "what's the question" or similar phrases asking about the question, ONLY repeat the question text without giving ANY hints or clues about the answer. DO NOT mention the correct answer or option letter in your response.\n8. FOLLOW THIS 3-STEP TEACHING APPROACH FOR WRONG ANSWERS:
-   - STEP 1: When the student asks "please explain the question" or "help me understand", provide concrete examples by showing how each option would sound in the actual sentence. Use this format: [HIGHLIGHT]This question is asking you to fill in the blank with the correct ${grammarType}. Try each word: '[question with option A]' - does that sound right? '[question with option B]' - how about that one? '[question with option C]' - what about this? '[question with option D]' - does this make sense?[/HIGHLIGHT] Then use this encouraging closing: "${randomEncouragement}" DO NOT reveal the correct answer.
-   - STEP 2: After the student's FIRST WRONG ANSWER, do NOT give the correct answer. Instead, give a more specific hint and encourage them to try again. Say something like "Good try! Let's think about it differently..." and give a more specific hint.
-   - STEP 3: Only after the student gives a SECOND WRONG ANSWER should you reveal the correct answer. When you do, ALWAYS explain WHY it's correct in simple terms a child would understand.\n9. Be super encouraging - use words like "You can do it!" and "Great thinking!"\n10. IMPORTANT: When the student asks for help or says "teach me", ALWAYS include a HIGHLIGHTED HINT in your response. Format it like this: [HIGHLIGHT]Your hint here[/HIGHLIGHT]. This will be displayed in a special highlighted box.\n11. PAY CLOSE ATTENTION to the question context! If the question contains words like "either/or", the answer is almost certainly "or". If it's about joining things together, it's likely "and".\n12. EXTREMELY IMPORTANT: NEVER give away the correct answer after just one wrong attempt from the student. Always give them a second chance with a better hint.`
+      fullSystemPrompt += `\n\nIMPORTANT: The student is looking at this question:\n\n"${question.text}"\n\nThe options are:\n${formattedOptions}\n\nWhen helping the student:\n1. ALWAYS talk about this exact question\n2. Keep your answer SHORT - no more than 2-3 short sentences total\n3. Use SIMPLE words an 8-year-old would understand\n4. CRITICAL: When the student asks "what's the question" or similar phrases asking about the question, ONLY repeat the question text without giving ANY hints or clues about the answer.\n5. Be super encouraging - use words like "You can do it!" and "Great thinking!"\n6. The student's answers have already been checked for you. Follow this instruction for your reply:\n${getStageInstructions(turn, question, grammarType, randomEncouragement)}`
       
       // Add this as the first system message
       systemMessages.push({
         role: "system",
         content: fullSystemPrompt
       });
-      
-      // Add a user message that forces the AI to acknowledge the context
-      systemMessages.push({
-        role: "user",
-        content: "Please help me understand this question."
-      });
-      
-      // Add example responses for correct, first wrong, and second wrong answers
-      // Example 1: Correct answer by word
-      systemMessages.push({
-        role: "user",
-        content: `The answer is ${correctAnswerText}`
-      });
-      
-      systemMessages.push({
-        role: "assistant",
-        content: `YES! That's exactly right! "${correctAnswerText}" is the perfect answer. Great job! 🎉`
-      });
-      
-      // Example 2: Correct answer by letter with 'the answer is'
-      systemMessages.push({
-        role: "user",
-        content: `The answer is ${correctAnswerLetter}`
-      });
-      
-      systemMessages.push({
-        role: "assistant",
-        content: `YES! That's exactly right! Option ${correctAnswerLetter} ("${correctAnswerText}") is the perfect answer. Great job! 🎉`
-      });
-      
-      // Example 3: Correct answer by just the letter
-      systemMessages.push({
-        role: "user",
-        content: `${correctAnswerLetter}`
-      });
-      
-      systemMessages.push({
-        role: "assistant",
-        content: `YES! That's exactly right! Option ${correctAnswerLetter} ("${correctAnswerText}") is the perfect answer. Great job! 🎉`
-      });
-      
-      // Example 4: Correct answer with letter and period
-      systemMessages.push({
-        role: "user",
-        content: `${correctAnswerLetter}.`
-      });
-      
-      systemMessages.push({
-        role: "assistant",
-        content: `YES! That's exactly right! Option ${correctAnswerLetter} ("${correctAnswerText}") is the perfect answer. Great job! 🎉`
-      });
-      
-      // Example 5: Correct answer with "I think"
-      systemMessages.push({
-        role: "user",
-        content: `I think ${correctAnswerLetter}`
-      });
-      
-      systemMessages.push({
-        role: "assistant",
-        content: `YES! That's exactly right! Option ${correctAnswerLetter} ("${correctAnswerText}") is the perfect answer. Great job! 🎉`
-      });
-      
-      // Example 6: Student asking for help with concrete examples
-      systemMessages.push({
-        role: "user",
-        content: `Help me with this question please`
-      });
-      
-      systemMessages.push({
-        role: "assistant",
-        content: `This question is asking you to fill in the blank with the correct ${grammarType}. [HIGHLIGHT]Try each word: '${currentQuestion.text.replace('_____', currentQuestion.options[0])}' - does that sound right? '${currentQuestion.text.replace('_____', currentQuestion.options[1])}' - how about that one? '${currentQuestion.text.replace('_____', currentQuestion.options[2])}' - what about this? '${currentQuestion.text.replace('_____', currentQuestion.options[3])}' - does this make sense?[/HIGHLIGHT] ${randomEncouragement}`
-      });
-      
-      // Example 7: Student asking to be taught with concrete examples
-      systemMessages.push({
-        role: "user",
-        content: `Please explain the question to me`
-      });
-      
-      systemMessages.push({
-        role: "assistant",
-        content: `This question is asking you to fill in the blank with the correct ${grammarType}. [HIGHLIGHT]Try each word: '${currentQuestion.text.replace('_____', currentQuestion.options[0])}' - does that sound right? '${currentQuestion.text.replace('_____', currentQuestion.options[1])}' - how about that one? '${currentQuestion.text.replace('_____', currentQuestion.options[2])}' - what about this? '${currentQuestion.text.replace('_____', currentQuestion.options[3])}' - does this make sense?[/HIGHLIGHT] ${randomEncouragement}`
-      });
-      
-      // Example 8: First wrong answer example - give a hint, not the answer
-      systemMessages.push({
-        role: "user",
-        content: `I think the answer is [wrong answer]`
-      });
-      
-      systemMessages.push({
-        role: "assistant",
-        content: `Good try! Let's think about it differently. [HIGHLIGHT]When we want to connect two things in a sentence, we need a special word.[/HIGHLIGHT] Look at each option carefully and try again - you can do it!`
-      });
-      
-      // Example 9: Second wrong answer example - now give the answer
-      systemMessages.push({
-        role: "user",
-        content: `Is it [another wrong answer]?`
-      });
-      
-      systemMessages.push({
-        role: "assistant",
-        content: `The correct answer is "${correctAnswerText}" (option ${correctAnswerLetter}). When we like two things, we use "${correctAnswerText}" to connect them. Like "I like pizza ${correctAnswerText} ice cream." Now you know for next time! 😄`
-      });
-      
-      // Example 10: Sequence showing first wrong answer followed by correct answer
-      systemMessages.push({
-        role: "user",
-        content: `I think it's [wrong answer]`
-      });
-      
-      systemMessages.push({
-        role: "assistant",
-        content: `Good try! Let's think about it differently. [HIGHLIGHT]This word is used when we want to join two things together.[/HIGHLIGHT] Try again - I know you can get it!`
-      });
-      
-      systemMessages.push({
-        role: "user",
-        content: `${correctAnswerLetter}`
-      });
-      
-      systemMessages.push({
-        role: "assistant",
-        content: `YES! That's exactly right! Option ${correctAnswerLetter} ("${correctAnswerText}") is the perfect answer. Great job figuring it out! 🎉`
-      });
     }
     
+    if (latestMessage) {
+      await tutorConversationService.recordMessage(conversation.id, {
+        role: 'user',
+        content: latestMessage,
+        question_id: questionId
+      })
+    }
+
     // If we have a question context but no user messages, add a default message
-    if (currentQuestion && (!messages || messages.length === 0)) {
+    if (currentQuestion && messages.length === 0) {
       convertedMessages.push({
         role: "user",
         content: "Please explain this question to me."
       });
     }
     
-    // Log the final messages being sent to OpenAI
-    console.log('Final messages to OpenAI:', JSON.stringify([
-      ...systemMessages,
-      ...convertedMessages
-    ], null, 2))
+    console.log('[AI-TUTOR] Sending', systemMessages.length + convertedMessages.length, 'messages to the model')
     
-    // Create streaming completion with retry logic
-    const stream = await retryOpenAICall(
-      () => openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [...systemMessages, ...convertedMessages],
-        temperature: 0.3, // Lower temperature for more focused and consistent responses
-        max_tokens: 1000, // Increased but well within the 16,384 limit
-        presence_penalty: 0.1, // Slight penalty to prevent repetition
-        frequency_penalty: 0.1, // Slight penalty to encourage diverse vocabulary
-        stream: true, // Enable streaming for real-time responses
-      }),
-      'AI Tutor chat completion'
-    )
-
-    console.log('[AI-TUTOR STREAM] Started streaming response')
-
-    // Create a readable stream to handle the OpenAI stream
-    const encoder = new TextEncoder()
-    const readable = new ReadableStream({
-      async start(controller) {
-        try {
-          for await (const chunk of stream) {
-            const content = chunk.choices[0]?.delta?.content || ''
-            if (content) {
-              console.log('[AI-TUTOR STREAM] Chunk:', content)
-              controller.enqueue(encoder.encode(content))
-            }
-          }
-          console.log('[AI-TUTOR STREAM] Completed streaming response')
-        } catch (error) {
-          console.error('[AI-TUTOR STREAM] Error:', error)
-          controller.error(error)
-        } finally {
-          controller.close()
-        }
-      },
+    // Stream from the first provider that answers, with retries on each
+    const { chunks, provider } = await llmManager.stream('ai-tutor', {
+      messages: [...systemMessages, ...convertedMessages],
+      temperature: 0.3, // Lower temperature for more focused and consistent responses
+      maxTokens: 1000, // Increased but well within the 16,384 limit
+      presencePenalty: 0.1, // Slight penalty to prevent repetition
+      frequencyPenalty: 0.1, // Slight penalty to encourage diverse vocabulary
     })
 
-    // Return streaming response
-    return new Response(readable, {
-      headers: {
-        'Content-Type': 'text/plain; charset=utf-8',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
+    console.log(`[AI-TUTOR STREAM] Started streaming response from ${provider}`)
+
+    // Each sentence of the reply is screened before it is sent on
+    return streamTutorReply(
+      moderationService.screenStream(chunks, moderationContext),
+      provider,
+      async reply => {
+        await tutorConversationService.recordMessage(conversation.id, {
+          role: 'assistant',
+          content: reply,
+          question_id: questionId,
+          hint_stage: tutorStage
+        })
       },
-    })
+      {
+        'X-LLM-Provider': provider,
+        'X-Tutor-Conversation': conversation.id,
+        ...(tutorStage ? { 'X-Tutor-Stage': tutorStage } : {}),
+      }
+    )
   } catch (error) {
+    if (error instanceof TutorError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
+
     console.error('AI Tutor API Error:', error)
     return NextResponse.json(
       { error: 'Failed to get AI response' },
-      { status: 500 }
+      { status: error instanceof LLMError ? error.statusCode : 500 }
     )
   }
-}
+}, { requireAuth: true })
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { twoFactorService } from '@/lib/services/two-factor-service'
+import { TwoFactorError } from '@/types/auth'
+
+/**
+ * Two-Factor Backup Codes API Endpoint
+ * Replaces all backup codes; the new set is only returned this once
+ */
+
+export const POST = withAuth(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    if (!body.code) {
+      return NextResponse.json({ error: 'Verification code is required' }, { status: 400 })
+    }
+
+    const backupCodes = await twoFactorService.regenerateBackupCodes(getAuthUser(request)!.userId, String(body.code))
+
+    return NextResponse.json({ success: true, backupCodes })
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error regenerating backup codes:', error)
+    return NextResponse.json(
+      { error: 'Failed to regenerate backup codes' },
+      { status: 500 }
+    )
+  }
+}, { requireAuth: true })
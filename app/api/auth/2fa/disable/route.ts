@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { twoFactorService } from '@/lib/services/two-factor-service'
+import { TwoFactorError } from '@/types/auth'
+
+/**
+ * Two-Factor Disable API Endpoint
+ * Needs a current code; roles that require 2FA cannot turn it off
+ */
+
+export const POST = withAuth(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    if (!body.code) {
+      return NextResponse.json({ error: 'Verification code is required' }, { status: 400 })
+    }
+
+    const user = getAuthUser(request)!
+    await twoFactorService.disable(user.userId, user.role, String(body.code))
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error disabling two-factor authentication:', error)
+    return NextResponse.json(
+      { error: 'Failed to disable two-factor authentication' },
+      { status: 500 }
+    )
+  }
+}, { requireAuth: true })
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { twoFactorService } from '@/lib/services/two-factor-service'
+import { TwoFactorError } from '@/types/auth'
+
+/**
+ * Two-Factor Enable API Endpoint
+ * Confirms setup with a first code and returns the one-time backup codes
+ */
+
+export const POST = withAuth(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { code, challenge_token } = body
+
+    const userId = challenge_token
+      ? twoFactorService.verifyChallengeToken(challenge_token)
+      : getAuthUser(request)?.userId
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+    if (!code) {
+      return NextResponse.json({ error: 'Verification code is required' }, { status: 400 })
+    }
+
+    const backupCodes = await twoFactorService.confirmEnrollment(userId, String(code))
+
+    return NextResponse.json({ success: true, backupCodes })
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error enabling two-factor authentication:', error)
+    return NextResponse.json(
+      { error: 'Failed to enable two-factor authentication' },
+      { status: 500 }
+    )
+  }
+})
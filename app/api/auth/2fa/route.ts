@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { twoFactorService } from '@/lib/services/two-factor-service'
+
+/**
+ * Two-Factor Status API Endpoint
+ * Whether the caller has 2FA enabled, and whether their role requires it
+ */
+
+export const GET = withAuth(async (request) => {
+  try {
+    const user = getAuthUser(request)!
+    const status = await twoFactorService.getStatus(user.userId, user.role)
+
+    return NextResponse.json(status)
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch two-factor status' },
+      { status: 500 }
+    )
+  }
+}, { requireAuth: true })
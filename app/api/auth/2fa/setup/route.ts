@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { getDbAdapter } from '@/lib/database/database-manager'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { twoFactorService } from '@/lib/services/two-factor-service'
+import { TwoFactorError } from '@/types/auth'
+
+/**
+ * Two-Factor Setup API Endpoint
+ * Issues a new TOTP secret. Signed-in users use their session; users whose
+ * role requires 2FA can call this mid-login with the challenge_token.
+ */
+
+export const POST = withAuth(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const userId = body.challenge_token
+      ? twoFactorService.verifyChallengeToken(body.challenge_token)
+      : getAuthUser(request)?.userId
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const adapter = await getDbAdapter()
+    const user = await adapter.getUserById(userId)
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const enrollment = await twoFactorService.beginEnrollment(user)
+
+    return NextResponse.json(enrollment)
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error starting two-factor setup:', error)
+    return NextResponse.json(
+      { error: 'Failed to start two-factor setup' },
+      { status: 500 }
+    )
+  }
+})
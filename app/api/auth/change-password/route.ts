@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { getAuthSession, getAuthUser, getClientInfo, withAuth } from '@/lib/middleware/auth-middleware'
+import { passwordPolicyService } from '@/lib/services/password-policy-service'
+import { sessionService } from '@/lib/services/session-service'
+import { PasswordChangeError } from '@/types/auth'
+
+/**
+ * Change Password API Endpoint
+ * Changes the caller's password; the password_change_token from a login
+ * with an expired password stands in for a session. Every other session
+ * of the account is signed out once the password has changed
+ */
+
+export const POST = withAuth(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { current_password, new_password, password_change_token } = body
+
+    const userId = password_change_token
+      ? passwordPolicyService.verifyChangeToken(password_change_token)
+      : getAuthUser(request)?.userId
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+    if (!current_password || typeof current_password !== 'string' || !new_password || typeof new_password !== 'string') {
+      return NextResponse.json({ error: 'Current and new password are required' }, { status: 400 })
+    }
+
+    await passwordPolicyService.changePassword(userId, current_password, new_password, getClientInfo(request))
+    await sessionService.revokeAllSessions(userId, {
+      revokedBy: userId,
+      currentSessionId: getAuthSession(request)?.id,
+      ...getClientInfo(request)
+    }, { keepCurrent: true })
+
+    return NextResponse.json({
+      success: true,
+      message: password_change_token
+        ? 'Your password has been changed. Sign in with your new password.'
+        : 'Your password has been changed.'
+    })
+  } catch (error) {
+    if (error instanceof PasswordChangeError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error changing password:', error)
+    return NextResponse.json(
+      { error: 'Failed to change password' },
+      { status: 500 }
+    )
+  }
+}, { rateLimitKey: 'password-change' })
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/middleware/auth-middleware'
+import { faceRecognitionService } from '@/lib/services/face-recognition-service'
+
+/**
+ * Face Login Challenge API Endpoint
+ * Issues the liveness action to perform while signing in as the username.
+ * Any username gets one, so the response says nothing about the account.
+ */
+
+export const POST = withAuth(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+
+    if (typeof body.username !== 'string' || !body.username.trim()) {
+      return NextResponse.json({ error: 'Username is required' }, { status: 400 })
+    }
+
+    return NextResponse.json(await faceRecognitionService.createChallenge({ purpose: 'login', username: body.username }))
+  } catch (error) {
+    console.error('Error creating face login challenge:', error)
+    return NextResponse.json(
+      { error: 'Failed to start face login' },
+      { status: 500 }
+    )
+  }
+}, { rateLimitKey: 'login' })
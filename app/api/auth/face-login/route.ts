@@ -0,0 +1,143 @@
+import { NextResponse } from 'next/server';
+import { getAuthInstance } from '@/lib/auth-instance';
+import { getClientIP, withAuth } from '@/lib/middleware/auth-middleware';
+
+/**
+ * Face Login API Endpoint
+ * Signs a student in with the frames captured while they answered a face
+ * login challenge, and sets the same cookies as /api/login
+ */
+
+export const POST = withAuth(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { username, challenge_token, frames } = body;
+
+    if (typeof username !== 'string' || !username.trim()) {
+      return NextResponse.json(
+        { error: 'Username is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof challenge_token !== 'string') {
+      return NextResponse.json(
+        { error: 'challenge_token is required' },
+        { status: 400 }
+      );
+    }
+
+    const ip_address = getClientIP(request);
+    const user_agent = request.headers.get('user-agent') || 'unknown';
+
+    const authService = await getAuthInstance();
+
+    const loginResult = await authService.loginWithFace({
+      username,
+      challenge_token,
+      frames,
+      ip_address,
+      user_agent
+    });
+
+    if (loginResult.success) {
+      const response = NextResponse.json({
+        success: true,
+        message: 'Login successful',
+        user: {
+          id: loginResult.user?.id,
+          username: loginResult.user?.username,
+          email: loginResult.user?.email,
+          role: loginResult.user?.role,
+          full_name: loginResult.user?.full_name
+        },
+        userRole: loginResult.user?.role
+      });
+
+      if (loginResult.token) {
+        response.cookies.set('auth-token', loginResult.token, {
+          httpOnly: true,
+          secure: process.env.NODE_ENV === 'production',
+          sameSite: 'strict',
+          maxAge: 24 * 60 * 60 // 24 hours
+        });
+      }
+
+      if (loginResult.refreshToken) {
+        response.cookies.set('refresh-token', loginResult.refreshToken, {
+          httpOnly: true,
+          secure: process.env.NODE_ENV === 'production',
+          sameSite: 'strict',
+          maxAge: 7 * 24 * 60 * 60 // 7 days
+        });
+      }
+
+      if (loginResult.sessionToken) {
+        response.cookies.set('session-token', loginResult.sessionToken, {
+          httpOnly: true,
+          secure: process.env.NODE_ENV === 'production',
+          sameSite: 'strict',
+          maxAge: 7 * 24 * 60 * 60 // 7 days
+        });
+      }
+
+      return response;
+    }
+
+    if (loginResult.requires_verification) {
+      return NextResponse.json(
+        {
+          error: 'Please verify your email address before signing in',
+          message: loginResult.message,
+          requires_verification: true
+        },
+        { status: 403 }
+      );
+    }
+
+    if (loginResult.error === 'Account is temporarily locked') {
+      return NextResponse.json(
+        {
+          error: 'Account is temporarily locked due to multiple failed login attempts',
+          message: loginResult.message
+        },
+        { status: 423 }
+      );
+    }
+
+    if (loginResult.error === 'Too many failed attempts from this IP address') {
+      return NextResponse.json(
+        { error: 'Too many login attempts. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    if (loginResult.error === 'Login failed') {
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+
+    // The capture failed the liveness check; the message says what to do differently
+    if (loginResult.error === 'Face capture rejected') {
+      return NextResponse.json(
+        { error: loginResult.message },
+        { status: 401 }
+      );
+    }
+
+    // Unknown or restricted account, or a face that does not match
+    return NextResponse.json(
+      { error: 'Face not recognized' },
+      { status: 401 }
+    );
+
+  } catch (error) {
+    console.error('Face login error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { rateLimitKey: 'login' });
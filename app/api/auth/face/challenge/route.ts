@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { faceRecognitionService } from '@/lib/services/face-recognition-service'
+
+/**
+ * Face Enrolment Challenge API Endpoint
+ * Issues the liveness action the caller performs while their face is
+ * captured for enrolment
+ */
+
+export const POST = withAuth(async (request) => {
+  try {
+    const user = getAuthUser(request)!
+
+    if (!faceRecognitionService.isEligible(user.role)) {
+      return NextResponse.json(
+        { error: 'Face login is not available for this account', code: 'NOT_ELIGIBLE' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json(await faceRecognitionService.createChallenge({ purpose: 'enroll', userId: user.userId }))
+  } catch (error) {
+    console.error('Error creating face enrolment challenge:', error)
+    return NextResponse.json(
+      { error: 'Failed to start face capture' },
+      { status: 500 }
+    )
+  }
+}, { requireAuth: true })
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, getClientInfo, withAuth } from '@/lib/middleware/auth-middleware'
+import { faceRecognitionService } from '@/lib/services/face-recognition-service'
+import { RecordingConsentError } from '@/types/consent'
+import { FaceRecognitionError } from '@/types/face'
+
+/**
+ * Face Login Enrolment API Endpoint
+ * GET shows whether the caller has a face set up for login; POST stores the
+ * face from a capture that answered an enrolment challenge, which a student
+ * needs a parent's webcam consent for; DELETE removes it
+ */
+
+const errorResponse = (error: unknown, message: string) => {
+  if (error instanceof FaceRecognitionError || error instanceof RecordingConsentError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+  }
+  console.error(`${message}:`, error)
+  return NextResponse.json({ error: message }, { status: 500 })
+}
+
+export const GET = withAuth(async (request) => {
+  try {
+    const user = getAuthUser(request)!
+    const status = await faceRecognitionService.getStatus(user.userId, user.role)
+
+    return NextResponse.json(status)
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch face login status')
+  }
+}, { requireAuth: true })
+
+export const POST = withAuth(async (request) => {
+  try {
+    const user = getAuthUser(request)!
+    const body = await request.json().catch(() => ({}))
+
+    if (typeof body.challenge_token !== 'string') {
+      return NextResponse.json({ error: 'challenge_token is required' }, { status: 400 })
+    }
+
+    const status = await faceRecognitionService.enroll(
+      user.userId,
+      user.role,
+      body.challenge_token,
+      body.frames,
+      getClientInfo(request)
+    )
+
+    return NextResponse.json({ success: true, ...status })
+  } catch (error) {
+    return errorResponse(error, 'Failed to set up face login')
+  }
+}, { requireAuth: true })
+
+export const DELETE = withAuth(async (request) => {
+  try {
+    const user = getAuthUser(request)!
+    const status = await faceRecognitionService.remove(user.userId, user.role, getClientInfo(request))
+
+    return NextResponse.json({ success: true, ...status })
+  } catch (error) {
+    return errorResponse(error, 'Failed to remove face login')
+  }
+}, { requireAuth: true })
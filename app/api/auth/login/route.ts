@@ -2,20 +2,21 @@
  * Enhanced Login API Route
  * 
  * Provides secure authentication with rate limiting, session management,
- * and comprehensive security features. Updated to support both SQLite and Supabase.
+ * and comprehensive security features. Credentials are checked by the same
+ * auth service as /api/login; this route adds CSRF tokens and token refresh.
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { securityService } from '@/lib/services/security-service';
-import { JWTManager, SessionManager } from '@/lib/middleware/auth-middleware';
+import { getClientIP, JWTManager, SessionManager, withAuth } from '@/lib/middleware/auth-middleware';
+import { getAuthInstance, LoginResponse as AuthServiceLoginResponse } from '@/lib/auth-instance';
 import { AuthCredentials, LoginResponse } from '@/types/auth';
-import { DatabaseManager } from '@/lib/database/database-manager';
 
 // ============================================================================
 // Login Handler
 // ============================================================================
 
-export async function POST(request: NextRequest): Promise<NextResponse> {
+export const POST = withAuth(async (request) => {
   try {
     // Get client information
     const clientIP = getClientIP(request);
@@ -23,19 +24,15 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
     // Parse request body
     const body: AuthCredentials = await request.json();
-    const { username, password, role, remember_me = false, email } = body;
+    const { username, password, role, remember_me = false, email, two_factor_code } = body;
 
     // Validate input
     if ((!username && !email) || !password || !role) {
       return createErrorResponse('Missing required fields', 400);
     }
 
-    // Sanitize input
-    const sanitizedUsername = username ? securityService.sanitizeInput(username) : '';
-    const sanitizedEmail = email ? securityService.sanitizeInput(email) : '';
-
     // Rate limiting check
-    const rateLimitResult = securityService.checkLoginAttempt(clientIP);
+    const rateLimitResult = await securityService.checkLoginAttempt(clientIP);
     if (!rateLimitResult.allowed) {
       return createErrorResponse(
         'Too many login attempts. Please try again later.',
@@ -48,124 +45,82 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    const dbManager = DatabaseManager.getInstance();
-    await dbManager.initializeIfNeeded();
-    
-    try {
-      let authResult: any;
-      let user: any;
-
-      // Use Supabase authentication only
-      const adapter = dbManager.getAdapter();
-      authResult = await (adapter as any).authenticateWithCustomAuth(
-        sanitizedEmail || sanitizedUsername,
-        password
-      );
+    // Lockout, verification, two-factor and password-age checks all happen in the auth service
+    const authService = await getAuthInstance();
+    const loginResult = await authService.login({
+      username: username ? securityService.sanitizeInput(username) : undefined,
+      email: email ? securityService.sanitizeInput(email) : undefined,
+      password,
+      two_factor_code,
+      ip_address: clientIP,
+      user_agent: userAgent
+    });
+
+    if (!loginResult.success || !loginResult.user || !loginResult.token || !loginResult.refreshToken || !loginResult.sessionToken) {
+      return createLoginFailureResponse(loginResult);
+    }
 
-      if (!authResult.user) {
-        return createErrorResponse(
-          authResult.error?.message || 'Invalid credentials',
-          401
-        );
-      }
+    const user = loginResult.user;
+    const sessionToken = loginResult.sessionToken;
 
-      user = authResult.user.profile;
+    // Generate CSRF token
+    const csrfToken = securityService.generateCSRFToken(sessionToken);
 
-      // Generate JWT tokens
-      const sessionData = {
-        userId: user.id,
+    // Prepare response
+    const loginResponse: LoginResponse = {
+      success: true,
+      user: {
+        id: user.id,
         username: user.username,
+        email: user.email,
         role: user.role,
-        email: user.email
-      };
-
-      const tokens = JWTManager.generateTokens(sessionData);
-
-      // Create session
-      const sessionToken = await SessionManager.createSession(
-        user.id,
-        tokens.accessToken,
-        tokens.refreshToken,
-        clientIP,
-        userAgent
-      );
+        first_name: user.first_name,
+        last_name: user.last_name,
+        avatar_url: user.avatar_url,
+        account_status: user.account_status,
+        email_verified: user.email_verified,
+        last_login: user.last_login,
+        created_at: user.created_at,
+        updated_at: user.updated_at,
+        login_attempts: user.login_attempts || 0,
+        preferences: user.preferences || {}
+      },
+      token: loginResult.token,
+      refresh_token: loginResult.refreshToken,
+      expires_in: getExpiresIn(loginResult.token)
+    };
 
-      // Generate CSRF token
-      const csrfToken = securityService.generateCSRFToken(sessionToken);
-
-      // Prepare response
-      const loginResponse: LoginResponse = {
-        success: true,
-        user: {
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          role: user.role,
-          first_name: user.first_name,
-          last_name: user.last_name,
-          avatar_url: user.avatar_url,
-          account_status: user.account_status,
-          email_verified: user.email_verified,
-          last_login: user.last_login,
-          created_at: user.created_at,
-          updated_at: user.updated_at,
-          login_attempts: user.login_attempts || 0,
-          preferences: user.preferences || {}
-        },
-        token: tokens.accessToken,
-        refresh_token: tokens.refreshToken,
-        expires_in: 3600 // 1 hour
-      };
-
-      // Create response with secure cookies
-      const response = NextResponse.json(loginResponse, { status: 200 });
-
-      // Set secure cookies
-      const cookieOptions = {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict' as const,
-        path: '/',
-        maxAge: remember_me ? 30 * 24 * 60 * 60 : 7 * 24 * 60 * 60 // 30 days or 7 days
-      };
-
-      response.cookies.set('auth-token', tokens.accessToken, cookieOptions);
-      response.cookies.set('refresh-token', tokens.refreshToken, {
-        ...cookieOptions,
-        maxAge: remember_me ? 30 * 24 * 60 * 60 : 7 * 24 * 60 * 60
-      });
-      response.cookies.set('session-token', sessionToken, cookieOptions);
-
-      // For Supabase, also set the Supabase session cookie if available
-      if (authResult.session) {
-        response.cookies.set('sb-access-token', authResult.session.access_token, cookieOptions);
-        response.cookies.set('sb-refresh-token', authResult.session.refresh_token, cookieOptions);
-      }
-
-      // Set CSRF token in cookie (not httpOnly for client access)
-      response.cookies.set('csrf-token', csrfToken, {
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        path: '/',
-        maxAge: 60 * 60 // 1 hour
-      });
-
-      // Add security headers
-      addSecurityHeaders(response);
-
-      // Reset rate limit on successful authentication
-      securityService.resetRateLimit(clientIP, 'login');
-
-      return response;
-
-    } catch (authError) {
-      console.error('Authentication error:', authError);
-      
-      return createErrorResponse(
-        'Authentication failed',
-        500
-      );
-    }
+    // Create response with secure cookies
+    const response = NextResponse.json(loginResponse, { status: 200 });
+
+    // Set secure cookies
+    const cookieOptions = {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict' as const,
+      path: '/',
+      maxAge: remember_me ? 30 * 24 * 60 * 60 : 7 * 24 * 60 * 60 // 30 days or 7 days
+    };
+
+    response.cookies.set('auth-token', loginResult.token, cookieOptions);
+    response.cookies.set('refresh-token', loginResult.refreshToken, cookieOptions);
+    response.cookies.set('session-token', sessionToken, cookieOptions);
+
+    // Set CSRF token in cookie (not httpOnly for client access)
+    response.cookies.set('csrf-token', csrfToken, {
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      path: '/',
+      maxAge: 60 * 60 // 1 hour
+    });
+
+    // Add security headers
+    addSecurityHeaders(response);
+
+    // Reset rate limit on successful authentication
+    await securityService.resetRateLimit(clientIP, 'login');
+
+    return response;
 
   } catch (error) {
     console.error('Login API error:', error);
@@ -175,13 +130,13 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       500
     );
   }
-}
+});
 
 // ============================================================================
 // Logout Handler
 // ============================================================================
 
-export async function DELETE(request: NextRequest): Promise<NextResponse> {
+export const DELETE = withAuth(async (request) => {
   try {
     // Get session token from cookie
     const sessionToken = request.cookies.get('session-token')?.value;
@@ -194,16 +149,6 @@ export async function DELETE(request: NextRequest): Promise<NextResponse> {
       securityService.removeCSRFToken(sessionToken);
     }
 
-    // Sign out from Supabase
-    try {
-      const dbManager = DatabaseManager.getInstance();
-      await dbManager.initializeIfNeeded();
-      const dbAdapter = dbManager.getAdapter();
-      await (dbAdapter as any).signOutFromSupabase();
-    } catch (error) {
-      console.error('Supabase sign out error:', error);
-    }
-
     // Create response
     const response = NextResponse.json(
       { success: true, message: 'Logged out successfully' },
@@ -229,10 +174,6 @@ export async function DELETE(request: NextRequest): Promise<NextResponse> {
       maxAge: 0
     });
 
-    // Clear Supabase cookies
-    response.cookies.set('sb-access-token', '', cookieOptions);
-    response.cookies.set('sb-refresh-token', '', cookieOptions);
-
     // Add security headers
     addSecurityHeaders(response);
 
@@ -246,13 +187,13 @@ export async function DELETE(request: NextRequest): Promise<NextResponse> {
       500
     );
   }
-}
+});
 
 // ============================================================================
 // Token Refresh Handler
 // ============================================================================
 
-export async function PUT(request: NextRequest): Promise<NextResponse> {
+export const PUT = withAuth(async (request) => {
   try {
     // Get refresh token from cookie
     const refreshToken = request.cookies.get('refresh-token')?.value;
@@ -261,28 +202,10 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
       return createErrorResponse('Refresh token not found', 401);
     }
 
-    let refreshResult: any;
-
-    // Try to refresh the Supabase session
-    try {
-      const dbManager = DatabaseManager.getInstance();
-      await dbManager.initializeIfNeeded();
-      const dbAdapter = dbManager.getAdapter();
-      const supabaseRefresh = await (dbAdapter as any).refreshSupabaseSession();
-      
-      if (supabaseRefresh.error || !supabaseRefresh.session) {
-        return createErrorResponse('Invalid refresh token', 401);
-      }
-
-      // Also refresh our internal session
-      refreshResult = await SessionManager.refreshSession(refreshToken);
-      
-      if (!refreshResult) {
-        return createErrorResponse('Invalid refresh token', 401);
-      }
-    } catch (error) {
-      console.error('Supabase refresh error:', error);
-      return createErrorResponse('Token refresh failed', 401);
+    // Rotates the session: the old refresh token stops working
+    const refreshResult = await SessionManager.refreshSession(refreshToken);
+    if (!refreshResult) {
+      return createErrorResponse('Invalid refresh token', 401);
     }
 
     // Generate new CSRF token
@@ -294,7 +217,7 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
       tokens: {
         accessToken: refreshResult.accessToken,
         refreshToken: refreshResult.refreshToken,
-        expiresIn: 15 * 60, // 15 minutes
+        expiresIn: getExpiresIn(refreshResult.accessToken),
         tokenType: 'Bearer'
       },
       session: {
@@ -338,27 +261,12 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
       500
     );
   }
-}
+});
 
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for');
-  const realIP = request.headers.get('x-real-ip');
-  
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
-  
-  if (realIP) {
-    return realIP;
-  }
-  
-  return 'unknown';
-}
-
 function createErrorResponse(
   message: string,
   status: number,
@@ -387,6 +295,64 @@ function createErrorResponse(
   return response;
 }
 
+/**
+ * Turn a login that did not produce a session into the response for it. A
+ * correct password may still need a second factor, a new password or a
+ * verified email, which are reported with 200 or 403 and their tokens.
+ */
+function createLoginFailureResponse(result: AuthServiceLoginResponse): NextResponse {
+  if (result.requires_2fa || result.requires_2fa_setup || result.requires_password_change) {
+    const body: LoginResponse = {
+      success: false,
+      message: result.message,
+      requires_2fa: result.requires_2fa,
+      requires_2fa_setup: result.requires_2fa_setup,
+      challenge_token: result.challenge_token,
+      requires_password_change: result.requires_password_change,
+      password_change_token: result.password_change_token
+    };
+
+    const response = NextResponse.json(body, { status: 200 });
+    addSecurityHeaders(response);
+
+    return response;
+  }
+
+  if (result.requires_verification) {
+    const body: LoginResponse = {
+      success: false,
+      error: 'Please verify your email address before signing in',
+      message: result.message,
+      requires_verification: true
+    };
+
+    const response = NextResponse.json(body, { status: 403 });
+    addSecurityHeaders(response);
+
+    return response;
+  }
+
+  switch (result.error) {
+    case 'Account is temporarily locked':
+      return createErrorResponse(
+        'Account is temporarily locked. Use the unlock link sent to your email or contact support.',
+        423
+      );
+    case 'Too many failed attempts from this IP address':
+      return createErrorResponse('Too many failed attempts from this IP address. Please try again later.', 429);
+    case 'Login failed':
+      return createErrorResponse('Authentication failed', 500);
+    default:
+      return createErrorResponse(result.error || 'Invalid credentials', 401);
+  }
+}
+
+// Seconds until the access token expires
+function getExpiresIn(accessToken: string): number {
+  const expiry = JWTManager.getTokenExpiry(accessToken);
+  return expiry ? Math.max(0, Math.round((expiry - Date.now()) / 1000)) : 0;
+}
+
 function addSecurityHeaders(response: NextResponse): void {
   const securityHeaders = securityService.getSecurityHeaders();
   
@@ -1,21 +1,17 @@
 import { NextResponse } from 'next/server';
 import { getAuthInstance } from '@/lib/auth-instance';
+import { clearAuthCookies, getClientInfo, withAuth } from '@/lib/middleware/auth-middleware';
 
-export async function POST(req: Request) {
+export const POST = withAuth(async (request) => {
   try {
-    // Get the AuthIntegration instance
     const authService = await getAuthInstance();
 
     // Get token from cookies
-    const cookieHeader = req.headers.get('cookie');
-    const authToken = cookieHeader
-      ?.split(';')
-      ?.find(c => c.trim().startsWith('auth-token='))
-      ?.split('=')[1];
+    const authToken = request.cookies.get('auth-token')?.value;
 
     if (authToken) {
-      // Logout using AuthIntegration service
-      await authService.logout(authToken);
+      // Ends the session behind the token, so it stops working on every route
+      await authService.logout(authToken, getClientInfo(request));
     }
 
     // Create response
@@ -25,21 +21,7 @@ export async function POST(req: Request) {
     );
 
     // Clear authentication cookies
-    response.cookies.set('auth-token', '', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 0,
-      path: '/'
-    });
-
-    response.cookies.set('refresh-token', '', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 0,
-      path: '/'
-    });
+    clearAuthCookies(response);
 
     return response;
 
@@ -50,4 +32,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { getClientInfo, withAuth } from '@/lib/middleware/auth-middleware'
+import { passwordResetService } from '@/lib/services/password-reset-service'
+import { PasswordResetError } from '@/types/auth'
+
+/**
+ * Password Reset Confirm API Endpoint
+ * Sets a new password with the single-use token from the reset email
+ */
+
+export const POST = withAuth(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { token, password } = body
+
+    if (!token || typeof token !== 'string' || !password || typeof password !== 'string') {
+      return NextResponse.json({ error: 'Token and new password are required' }, { status: 400 })
+    }
+
+    await passwordResetService.confirmReset(token, password, getClientInfo(request))
+
+    return NextResponse.json({ success: true, message: 'Your password has been reset. You can sign in with it now.' })
+  } catch (error) {
+    if (error instanceof PasswordResetError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error resetting password:', error)
+    return NextResponse.json(
+      { error: 'Failed to reset password' },
+      { status: 500 }
+    )
+  }
+}, { rateLimitKey: 'password-reset' })
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { getClientInfo, withAuth } from '@/lib/middleware/auth-middleware'
+import { passwordResetService } from '@/lib/services/password-reset-service'
+
+/**
+ * Password Reset Request API Endpoint
+ * Emails a reset link; the response is the same whether or not the account exists
+ */
+
+export const POST = withAuth(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { email } = body
+
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json({ error: 'Email or username is required' }, { status: 400 })
+    }
+
+    await passwordResetService.requestReset(email, getClientInfo(request))
+
+    return NextResponse.json({
+      success: true,
+      message: 'If an account matches, we have sent it a link to reset the password.'
+    })
+  } catch (error) {
+    console.error('Error requesting password reset:', error)
+    return NextResponse.json(
+      { error: 'Failed to request password reset' },
+      { status: 500 }
+    )
+  }
+}, { rateLimitKey: 'password-reset' })
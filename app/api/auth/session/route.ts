@@ -4,14 +4,14 @@
  * Provides endpoints for session validation, refresh, and logout
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { SessionManager } from '@/lib/middleware/auth-middleware';
+import { NextResponse } from 'next/server';
+import { clearAuthCookies, SessionManager, withAuth } from '@/lib/middleware/auth-middleware';
 
 // ============================================================================
 // GET - Validate Session
 // ============================================================================
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request) => {
   try {
     // Extract session token from cookie or header
     const sessionToken = request.cookies.get('session-token')?.value ||
@@ -52,13 +52,13 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // ============================================================================
 // POST - Refresh Session
 // ============================================================================
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request) => {
   try {
     const { refreshToken } = await request.json();
 
@@ -106,13 +106,13 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // ============================================================================
 // DELETE - Logout / Invalidate Session
 // ============================================================================
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request) => {
   try {
     const sessionToken = request.cookies.get('session-token')?.value ||
                         request.headers.get('authorization')?.replace('Bearer ', '');
@@ -122,19 +122,13 @@ export async function DELETE(request: NextRequest) {
       await SessionManager.invalidateSession(sessionToken);
     }
 
-    // Clear session cookie
+    // The access and refresh tokens belong to the ended session, so clear them too
     const response = NextResponse.json({
       success: true,
       message: 'Session invalidated successfully'
     });
 
-    response.cookies.set('session-token', '', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 0,
-      path: '/'
-    });
+    clearAuthCookies(response);
 
     return response;
 
@@ -145,4 +139,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
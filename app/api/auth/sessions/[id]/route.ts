@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { clearAuthCookies, getAuthSession, getAuthUser, getClientInfo, withAuth } from '@/lib/middleware/auth-middleware'
+import { sessionService } from '@/lib/services/session-service'
+import { SessionError } from '@/types/auth'
+
+/**
+ * Session Revoke API Endpoint
+ * Signs out one of the caller's sessions
+ */
+
+export const DELETE = withAuth(async (
+  request,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const userId = getAuthUser(request)!.userId
+
+    await sessionService.revokeSession(userId, params.id, {
+      revokedBy: userId,
+      ...getClientInfo(request)
+    })
+
+    const response = NextResponse.json({ success: true })
+    if (params.id === getAuthSession(request)?.id) {
+      clearAuthCookies(response)
+    }
+    return response
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error revoking session:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign out session' },
+      { status: 500 }
+    )
+  }
+}, { requireAuth: true })
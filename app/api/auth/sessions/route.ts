@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { clearAuthCookies, getAuthSession, getAuthUser, getClientInfo, withAuth } from '@/lib/middleware/auth-middleware'
+import { sessionService } from '@/lib/services/session-service'
+
+/**
+ * Active Sessions API Endpoint
+ * GET lists the caller's signed-in devices; DELETE signs all of them out,
+ * or all but the current one with ?keepCurrent=true
+ */
+
+export const GET = withAuth(async (request) => {
+  try {
+    const sessions = await sessionService.listSessions(getAuthUser(request)!.userId, getAuthSession(request)?.id)
+
+    return NextResponse.json({ success: true, sessions })
+  } catch (error) {
+    console.error('Error listing sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to list sessions' },
+      { status: 500 }
+    )
+  }
+}, { requireAuth: true })
+
+export const DELETE = withAuth(async (request) => {
+  try {
+    const userId = getAuthUser(request)!.userId
+    const keepCurrent = new URL(request.url).searchParams.get('keepCurrent') === 'true'
+
+    const revoked = await sessionService.revokeAllSessions(userId, {
+      revokedBy: userId,
+      currentSessionId: getAuthSession(request)?.id,
+      ...getClientInfo(request)
+    }, { keepCurrent })
+
+    const response = NextResponse.json({ success: true, revoked })
+    if (!keepCurrent) {
+      clearAuthCookies(response)
+    }
+    return response
+  } catch (error) {
+    console.error('Error revoking sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign out sessions' },
+      { status: 500 }
+    )
+  }
+}, { requireAuth: true })
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { getClientInfo, withAuth } from '@/lib/middleware/auth-middleware'
+import { accountLockoutService } from '@/lib/services/account-lockout-service'
+import { AccountLockoutError } from '@/types/auth'
+
+/**
+ * Account Unlock API Endpoint
+ * Redeems the single-use token from the lockout email; no session required
+ */
+
+export const POST = withAuth(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { token } = body
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json({ error: 'Unlock token is required' }, { status: 400 })
+    }
+
+    await accountLockoutService.unlockWithToken(token, getClientInfo(request))
+
+    return NextResponse.json({ success: true, message: 'Your account has been unlocked. You can sign in again.' })
+  } catch (error) {
+    if (error instanceof AccountLockoutError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error unlocking account with token:', error)
+    return NextResponse.json(
+      { error: 'Failed to unlock account' },
+      { status: 500 }
+    )
+  }
+}, { rateLimitKey: 'account-unlock' })
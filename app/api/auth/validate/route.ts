@@ -1,17 +1,13 @@
 import { NextResponse } from 'next/server';
 import { getAuthInstance } from '@/lib/auth-instance';
+import { withAuth } from '@/lib/middleware/auth-middleware';
 
-export async function GET(req: Request) {
+export const GET = withAuth(async (req) => {
   try {
-    // Get the AuthIntegration instance
     const authService = await getAuthInstance();
 
     // Get token from cookies
-    const cookieHeader = req.headers.get('cookie');
-    const authToken = cookieHeader
-      ?.split(';')
-      ?.find(c => c.trim().startsWith('auth-token='))
-      ?.split('=')[1];
+    const authToken = req.cookies.get('auth-token')?.value;
 
     if (!authToken) {
       return NextResponse.json(
@@ -20,7 +16,7 @@ export async function GET(req: Request) {
       );
     }
 
-    // Validate session using AuthIntegration service
+    // Same checks as withAuth: signature, live session, account status
     const sessionResult = await authService.validateSession(authToken);
 
     if (!sessionResult.valid) {
@@ -45,11 +41,10 @@ export async function GET(req: Request) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(req: Request) {
+export const POST = withAuth(async (req) => {
   try {
-    // Get the AuthIntegration instance
     const authService = await getAuthInstance();
 
     const body = await req.json();
@@ -62,7 +57,7 @@ export async function POST(req: Request) {
       );
     }
 
-    // Validate session using AuthIntegration service
+    // Same checks as withAuth: signature, live session, account status
     const sessionResult = await authService.validateSession(token);
 
     if (!sessionResult.valid) {
@@ -87,4 +82,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
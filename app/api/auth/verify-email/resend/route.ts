@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { getClientInfo, withAuth } from '@/lib/middleware/auth-middleware'
+import { emailVerificationService } from '@/lib/services/email-verification-service'
+
+/**
+ * Email Verification Resend API Endpoint
+ * Emails a new verification link; the response is the same whether or not the account exists
+ */
+
+export const POST = withAuth(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { email } = body
+
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json({ error: 'Email or username is required' }, { status: 400 })
+    }
+
+    await emailVerificationService.resend(email, getClientInfo(request))
+
+    return NextResponse.json({
+      success: true,
+      message: 'If an unverified account matches, we have sent it a new verification link.'
+    })
+  } catch (error) {
+    console.error('Error resending verification email:', error)
+    return NextResponse.json(
+      { error: 'Failed to resend verification email' },
+      { status: 500 }
+    )
+  }
+}, { rateLimitKey: 'email-verification' })
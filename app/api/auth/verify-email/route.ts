@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { getClientInfo, withAuth } from '@/lib/middleware/auth-middleware'
+import { emailVerificationService } from '@/lib/services/email-verification-service'
+import { EmailVerificationError } from '@/types/auth'
+
+/**
+ * Email Verification API Endpoint
+ * Verifies the email address with the single-use token from the verification email
+ */
+
+export const POST = withAuth(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { token } = body
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json({ error: 'Verification token is required' }, { status: 400 })
+    }
+
+    await emailVerificationService.verify(token, getClientInfo(request))
+
+    return NextResponse.json({ success: true, message: 'Your email address is verified. You can sign in now.' })
+  } catch (error) {
+    if (error instanceof EmailVerificationError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error verifying email:', error)
+    return NextResponse.json(
+      { error: 'Failed to verify email address' },
+      { status: 500 }
+    )
+  }
+}, { rateLimitKey: 'email-verification' })
@@ -1,16 +1,25 @@
-import OpenAI from 'openai'
 import { NextResponse } from 'next/server'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { llmManager } from '@/lib/llm/llm-manager'
+import { moderationService } from '@/lib/services/moderation-service'
+import { LLMError, LLMMessage } from '@/types/llm'
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
-
-export async function POST(req: Request) {
+export const POST = withAuth(async (req) => {
   try {
     const { messages } = await req.json()
+    const { userId } = getAuthUser(req)!
+
+    // The student's message is screened before the model sees it, and the reply before it is returned
+    const moderationContext = { userId, route: 'chat' as const }
+    const lastMessage = messages[messages.length - 1]
+    if (lastMessage?.role === 'user') {
+      const inputCheck = await moderationService.screen(String(lastMessage.content), 'input', moderationContext)
+      if (inputCheck.flagged) {
+        return NextResponse.json({ text: moderationService.getSafeResponse(inputCheck, 'input'), provider: null, moderated: true })
+      }
+    }
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const { text, provider } = await llmManager.complete('chat', {
       messages: [
         {
           role: 'system',
@@ -22,18 +31,26 @@ Guidelines:
 3. Be encouraging and supportive
 4. Focus on helping the student learn`
         },
-        ...messages.map((msg: any) => ({
-          role: msg.role === 'user' ? 'user' : 'assistant',
+        ...await moderationService.redactHistory<LLMMessage>(messages.map((msg: any) => ({
+          role: msg.role === 'user' ? 'user' as const : 'assistant' as const,
           content: msg.content
-        }))
+        })), moderationContext)
       ],
       temperature: 0.7,
-      max_tokens: 500,
+      maxTokens: 500,
     })
 
-    return NextResponse.json({ text: response.choices[0].message.content })
+    const outputCheck = await moderationService.screen(text, 'output', moderationContext)
+    if (outputCheck.flagged) {
+      return NextResponse.json({ text: moderationService.getSafeResponse(outputCheck, 'output'), provider, moderated: true })
+    }
+
+    return NextResponse.json({ text, provider })
   } catch (error) {
-    console.error('OpenAI API error:', error)
-    return NextResponse.json({ error: 'Failed to get response' }, { status: 500 })
+    console.error('LLM API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get response' },
+      { status: error instanceof LLMError ? error.statusCode : 500 }
+    )
   }
-}
+}, { requireAuth: true })
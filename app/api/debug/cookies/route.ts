@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
+import { requireRole } from '@/lib/middleware/auth-middleware'
 
-export async function GET() {
+export const GET = requireRole('admin')(async () => {
   try {
     const cookieStore = cookies()
     const allCookies = cookieStore.getAll()
@@ -36,4 +37,4 @@ export async function GET() {
     console.error('Cookie debug error:', error)
     return NextResponse.json({ error: 'Failed to debug cookies' }, { status: 500 })
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
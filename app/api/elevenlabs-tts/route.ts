@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { ElevenLabsClient } from 'elevenlabs'
 import { retryWithBackoff } from '@/lib/retry-utils'
+import { withAuth } from '@/lib/middleware/auth-middleware'
 
 // Note: ElevenLabs client requires Node.js runtime, cannot use Edge Runtime
 // Using Node.js runtime with extended timeout configuration
@@ -35,7 +36,7 @@ interface ElevenLabsTTSRequest {
   use_speaker_boost?: boolean
 }
 
-export async function POST(req: Request) {
+export const POST = withAuth(async (req) => {
   // Input validation
   let body: ElevenLabsTTSRequest
   try {
@@ -206,4 +207,4 @@ export async function POST(req: Request) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}, { requireAuth: true })
\ No newline at end of file
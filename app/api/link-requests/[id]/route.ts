@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, requireRole } from '@/lib/middleware/auth-middleware'
+import { parentService } from '@/lib/services/parent-service'
+import { ParentLinkError } from '@/types/parent'
+
+/**
+ * Decide a parent link request. Approval creates the parent-child link.
+ */
+
+export const PATCH = requireRole(['parent', 'admin'])(async (
+  request,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const user = getAuthUser(request)!
+
+    const body = await request.json().catch(() => ({}))
+    const { action } = body
+
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json({ error: "action must be 'approve' or 'reject'" }, { status: 400 })
+    }
+
+    const linkRequest = await parentService.decideLinkRequest(
+      user.userId,
+      user.role,
+      params.id,
+      action === 'approve'
+    )
+
+    return NextResponse.json({ success: true, request: linkRequest })
+  } catch (error) {
+    if (error instanceof ParentLinkError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error deciding link request:', error)
+    return NextResponse.json(
+      { error: 'Failed to update link request' },
+      { status: 500 }
+    )
+  }
+})
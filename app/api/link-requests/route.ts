@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, requireRole, withAuth } from '@/lib/middleware/auth-middleware'
+import { parentService } from '@/lib/services/parent-service'
+import { ParentLinkError } from '@/types/parent'
+
+/**
+ * Parent Link Requests API Endpoint
+ * Parents request a link to a child account; admins and the child's primary
+ * guardian see the pending requests they can approve. Creating one answers
+ * the same whether or not a student matched, and is rate limited
+ */
+
+const RELATIONSHIP_TYPES = ['parent', 'guardian', 'caregiver']
+
+export const GET = requireRole(['parent', 'admin'])(async (request) => {
+  try {
+    const user = getAuthUser(request)!
+
+    const requests = await parentService.getLinkRequests(user.userId, user.role)
+
+    return NextResponse.json(requests)
+  } catch (error) {
+    console.error('Error fetching link requests:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch link requests' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = withAuth(async (request) => {
+  try {
+    const user = getAuthUser(request)!
+
+    const body = await request.json().catch(() => ({}))
+    const { childIdentifier, relationshipType, message } = body
+
+    if (!childIdentifier || typeof childIdentifier !== 'string') {
+      return NextResponse.json({ error: 'Child username or email is required' }, { status: 400 })
+    }
+
+    if (relationshipType !== undefined && !RELATIONSHIP_TYPES.includes(relationshipType)) {
+      return NextResponse.json({ error: 'Invalid relationship type' }, { status: 400 })
+    }
+
+    await parentService.requestLink(user.userId, childIdentifier, relationshipType, message)
+
+    return NextResponse.json({
+      success: true,
+      message: 'If a student account matches, a link request has been sent for approval'
+    }, { status: 202 })
+  } catch (error) {
+    if (error instanceof ParentLinkError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error creating link request:', error)
+    return NextResponse.json(
+      { error: 'Failed to create link request' },
+      { status: 500 }
+    )
+  }
+}, { requireAuth: true, allowedRoles: ['parent'], rateLimitKey: 'link-request' })
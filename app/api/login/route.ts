@@ -1,10 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { getAuthInstance } from '@/lib/auth-instance';
+import { getClientIP, withAuth } from '@/lib/middleware/auth-middleware';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request) => {
   try {
     const body = await request.json();
-    const { username, email, password } = body;
+    const { username, email, password, two_factor_code } = body;
 
     // Input validation
     if (!password) {
@@ -22,25 +23,19 @@ export async function POST(request: NextRequest) {
     }
 
     // Get client information for security logging
-    const ip_address = request.headers.get('x-forwarded-for') || 
-                      request.headers.get('x-real-ip') || 
-                      'unknown';
+    const ip_address = getClientIP(request);
     const user_agent = request.headers.get('user-agent') || 'unknown';
 
-    // Use Supabase authentication
-    console.log('🔐 Attempting Supabase authentication...');
     const authService = await getAuthInstance();
-    console.log('✅ Auth service instance obtained');
-    
+
     const loginResult = await authService.login({
       username,
       email,
       password,
+      two_factor_code,
       ip_address,
       user_agent
     });
-    
-    console.log('🔍 Auth result:', loginResult);
 
     if (loginResult.success) {
       // Create response with user data
@@ -76,18 +71,69 @@ export async function POST(request: NextRequest) {
         });
       }
 
+      if (loginResult.sessionToken) {
+        response.cookies.set('session-token', loginResult.sessionToken, {
+          httpOnly: true,
+          secure: process.env.NODE_ENV === 'production',
+          sameSite: 'strict',
+          maxAge: 7 * 24 * 60 * 60 // 7 days
+        });
+      }
+
       return response;
     }
 
+    // Password was accepted; the client still has to supply or set up a second factor
+    if (loginResult.requires_2fa || loginResult.requires_2fa_setup) {
+      return NextResponse.json({
+        success: false,
+        message: loginResult.message,
+        requires_2fa: Boolean(loginResult.requires_2fa),
+        requires_2fa_setup: Boolean(loginResult.requires_2fa_setup),
+        challenge_token: loginResult.challenge_token
+      });
+    }
+
+    // Password was accepted but has expired; the client sets a new one with the change token
+    if (loginResult.requires_password_change) {
+      return NextResponse.json({
+        success: false,
+        message: loginResult.message,
+        requires_password_change: true,
+        password_change_token: loginResult.password_change_token
+      });
+    }
+
+    if (loginResult.error === 'Invalid two-factor code') {
+      return NextResponse.json(
+        { error: 'Invalid two-factor code', requires_2fa: true },
+        { status: 401 }
+      );
+    }
+
+    if (loginResult.requires_verification) {
+      return NextResponse.json(
+        {
+          error: 'Please verify your email address before signing in',
+          message: loginResult.message,
+          requires_verification: true
+        },
+        { status: 403 }
+      );
+    }
+
     // Handle specific error types from auth
-    if (loginResult.error === 'Account locked') {
+    if (loginResult.error === 'Account is temporarily locked') {
       return NextResponse.json(
-        { error: 'Account is temporarily locked due to multiple failed login attempts' },
+        {
+          error: 'Account is temporarily locked due to multiple failed login attempts',
+          message: loginResult.message
+        },
         { status: 423 }
       );
     }
     
-    if (loginResult.error === 'Rate limit exceeded') {
+    if (loginResult.error === 'Too many failed attempts from this IP address') {
       return NextResponse.json(
         { error: 'Too many login attempts. Please try again later.' },
         { status: 429 }
@@ -107,4 +153,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { rateLimitKey: 'login' });
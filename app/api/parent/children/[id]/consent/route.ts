@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, getClientInfo, requireRole } from '@/lib/middleware/auth-middleware'
+import { RECORDING_CONSENT_SCOPES, recordingConsentService } from '@/lib/services/recording-consent-service'
+import { RecordingConsentError } from '@/types/consent'
+
+/**
+ * Recording Consent API Endpoint
+ * GET shows which recording scopes of a linked child have consent; POST
+ * grants scopes under the current policy; DELETE revokes the ?scope= given,
+ * or every scope when none is
+ */
+
+const errorResponse = (error: unknown, message: string) => {
+  if (error instanceof RecordingConsentError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+  }
+  console.error(`${message}:`, error)
+  return NextResponse.json({ error: message }, { status: 500 })
+}
+
+export const GET = requireRole('parent')(async (
+  request,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const status = await recordingConsentService.getStatusForParent(getAuthUser(request)!.userId, params.id)
+
+    return NextResponse.json(status)
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch recording consent')
+  }
+})
+
+export const POST = requireRole('parent')(async (
+  request,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+
+    if (!Array.isArray(body.scopes)) {
+      return NextResponse.json({ error: 'scopes must be an array' }, { status: 400 })
+    }
+
+    const status = await recordingConsentService.grant(
+      getAuthUser(request)!.userId,
+      params.id,
+      body.scopes,
+      getClientInfo(request)
+    )
+
+    return NextResponse.json({ success: true, ...status })
+  } catch (error) {
+    return errorResponse(error, 'Failed to grant recording consent')
+  }
+})
+
+export const DELETE = requireRole('parent')(async (
+  request,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const requested = new URL(request.url).searchParams.getAll('scope')
+    const scopes = requested.length > 0 ? requested : RECORDING_CONSENT_SCOPES
+
+    const status = await recordingConsentService.revoke(
+      getAuthUser(request)!.userId,
+      params.id,
+      scopes,
+      getClientInfo(request)
+    )
+
+    return NextResponse.json({ success: true, ...status })
+  } catch (error) {
+    return errorResponse(error, 'Failed to revoke recording consent')
+  }
+})
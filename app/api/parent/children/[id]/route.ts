@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, requireRole } from '@/lib/middleware/auth-middleware'
+import { parentService } from '@/lib/services/parent-service'
+import { ParentLinkError } from '@/types/parent'
+
+/**
+ * Child Overview API Endpoint
+ * Progress, quiz results, incorrect answers and notifications of one linked
+ * child. Sections the link does not permit are returned as null.
+ */
+
+export const GET = requireRole('parent')(async (
+  request,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const user = getAuthUser(request)!
+
+    const overview = await parentService.getChildOverview(user.userId, params.id)
+
+    return NextResponse.json(overview)
+  } catch (error) {
+    if (error instanceof ParentLinkError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error fetching child overview:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch child overview' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, requireRole } from '@/lib/middleware/auth-middleware'
+import { parentService } from '@/lib/services/parent-service'
+
+/**
+ * Parent Children API Endpoint
+ * Lists the children linked to the calling parent with their link permissions
+ */
+
+export const GET = requireRole('parent')(async (request) => {
+  try {
+    const user = getAuthUser(request)!
+
+    const children = await parentService.getChildren(user.userId)
+
+    return NextResponse.json({ children })
+  } catch (error) {
+    console.error('Error fetching linked children:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch linked children' },
+      { status: 500 }
+    )
+  }
+})
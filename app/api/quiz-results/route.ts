@@ -1,22 +1,15 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { getDbAdapter } from '@/lib/database/database-manager'
-import { JWTManager } from '@/lib/middleware/auth-middleware'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { quizSessionService } from '@/lib/services/quiz-session-service'
+import { QuizSessionError } from '@/types/quiz'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request) => {
   try {
-    // Get token from cookie and verify authentication
-    const token = request.cookies.get('auth-token')?.value
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const decoded = JWTManager.verifyAccessToken(token)
-    if (!decoded || !decoded.userId) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-    }
+    const user = getAuthUser(request)!
 
     const dbAdapter = await getDbAdapter()
-    const results = await dbAdapter.getQuizResultsByUserId(decoded.userId, 10)
+    const results = await dbAdapter.getQuizResultsByUserId(user.userId, 10)
 
     return NextResponse.json(results)
   } catch (error) {
@@ -26,50 +19,30 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}, { requireAuth: true })
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request) => {
   try {
-    // Get token from cookie and verify authentication
-    const token = request.cookies.get('auth-token')?.value
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
+    const user = getAuthUser(request)!
 
-    const decoded = JWTManager.verifyAccessToken(token)
-    if (!decoded || !decoded.userId) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
+    // Scores are computed on the server from the quiz session; anything
+    // the client claims about its score is ignored
+    const { sessionId } = await request.json()
+    if (!sessionId) {
+      return NextResponse.json({ error: 'sessionId is required' }, { status: 400 })
     }
 
-    const { score, correctAnswers, totalQuestions, answers } = await request.json()
-
-    const dbAdapter = await getDbAdapter()
-
-    // Create quiz result with the actual logged-in user's ID
-    const quizResult = await dbAdapter.createQuizResult({
-      user_id: decoded.userId,
-      score,
-      correct_answers: correctAnswers,
-      total_questions: totalQuestions
-    })
+    const summary = await quizSessionService.finalizeSession(user.userId, sessionId)
 
-    // Insert detailed answers
-    for (const answer of answers) {
-      await dbAdapter.createQuizAnswer({
-        quiz_result_id: quizResult.id,
-        question_text: answer.questionText,
-        selected_answer: answer.selectedAnswer,
-        correct_answer: answer.correctAnswer,
-        is_correct: answer.isCorrect
-      })
-    }
-
-    return NextResponse.json({ success: true, quizResultId: quizResult.id })
+    return NextResponse.json({ success: true, ...summary })
   } catch (error) {
+    if (error instanceof QuizSessionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
     console.error('Error saving quiz results:', error)
     return NextResponse.json(
       { error: 'Failed to save quiz results' },
       { status: 500 }
     )
   }
-}
+}, { requireAuth: true })
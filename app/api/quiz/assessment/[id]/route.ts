@@ -1,61 +1,106 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { DatabaseManager } from '@/lib/database/database-manager'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { studentAccessService } from '@/lib/services/student-access-service'
 
-export async function GET(
-  _request: NextRequest,
+const PASSING_SCORE = 70
+
+export const GET = withAuth(async (
+  request,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
-    const quizResultId = parseInt(params.id)
-    
-    if (isNaN(quizResultId)) {
-      return NextResponse.json({ error: 'Invalid quiz result ID' }, { status: 400 })
-    }
+    const user = getAuthUser(request)!
 
     const dbManager = DatabaseManager.getInstance()
     await dbManager.initializeIfNeeded()
     const adapter = dbManager.getAdapter()
-    
-    // Get quiz result data using adapter
-    const quizResults = await adapter.getQuizResultsByUserId(quizResultId.toString())
-    const quizResult = quizResults.find(result => result.id === quizResultId.toString())
+
+    // "latest" resolves to the caller's most recent result
+    const quizResult = params.id === 'latest'
+      ? (await adapter.getQuizResultsByUserId(user.userId, 1))[0] || null
+      : await adapter.getQuizResultById(params.id)
 
     if (!quizResult) {
       return NextResponse.json({ error: 'Quiz result not found' }, { status: 404 })
     }
 
-    // Calculate score percentage
-    const scorePercentage = Math.round((quizResult.correct_answers / quizResult.total_questions) * 100)
-
-    // Mock question details for now (since we don't have detailed question tracking yet)
-    const questions = []
-    for (let i = 1; i <= quizResult.total_questions; i++) {
-      questions.push({
-        number: i,
-        correct: i <= quizResult.correct_answers, // First 'correct_answers' questions are correct
-        question: `Question ${i}`,
-        options: ['Option A', 'Option B', 'Option C', 'Option D'],
-        answer: 'Option A',
-        userAnswer: i <= quizResult.correct_answers ? 'Option A' : 'Option B'
-      })
+    const canView = await studentAccessService.canViewStudentData(
+      user.userId,
+      user.role,
+      quizResult.user_id,
+      'quiz_results'
+    )
+    if (!canView) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
+    const [answers, history] = await Promise.all([
+      adapter.getQuizAnswersByResultId(quizResult.id),
+      adapter.getQuizResultsByUserId(quizResult.user_id)
+    ])
+
+    // Unanswered questions have no answered_at and keep their stored order at the end
+    const orderedAnswers = [...answers].sort((a, b) => {
+      if (!a.answered_at || !b.answered_at) return (a.answered_at ? 0 : 1) - (b.answered_at ? 0 : 1)
+      return new Date(a.answered_at).getTime() - new Date(b.answered_at).getTime()
+    })
+
+    const questionIds = orderedAnswers.map(answer => answer.question_id).filter(Boolean)
+    const storedQuestions = await adapter.getQuestionsByIds(questionIds)
+    const questionsById = new Map<string, any>(storedQuestions.map(q => [String(q.id), q]))
+
+    const questions = orderedAnswers.map((answer, index) => {
+      const question = answer.question_id ? questionsById.get(String(answer.question_id)) : undefined
+      const options = question
+        ? [question.option_1, question.option_2, question.option_3, question.option_4].filter(Boolean)
+        : []
+
+      return {
+        number: index + 1,
+        questionId: answer.question_id || null,
+        question: answer.question_text,
+        options,
+        answer: answer.correct_answer,
+        correctAnswer: answer.correct_answer,
+        userAnswer: answer.selected_answer,
+        correct: answer.is_correct,
+        type: question?.type || 'general',
+        category: String(question?.new_category_id || 'general'),
+        timeTaken: answer.time_taken_seconds ?? null
+      }
+    })
+
+    const score = quizResult.total_questions > 0
+      ? Math.round((quizResult.correct_answers / quizResult.total_questions) * 100)
+      : 0
+
+    // Improvement is measured against the attempt right before this one
+    const attempts = [...history].sort((a, b) => new Date(a.completed_at).getTime() - new Date(b.completed_at).getTime())
+    const position = attempts.findIndex(result => result.id === quizResult.id)
+    const previous = position > 0 ? attempts[position - 1] : null
+    const averageScore = attempts.length > 0
+      ? Math.round(attempts.reduce((sum, result) => sum + (Number(result.score) || 0), 0) / attempts.length)
+      : score
+
     const assessmentData = {
       id: quizResult.id,
-      score: scorePercentage,
+      userId: quizResult.user_id,
+      score,
       totalQuestions: quizResult.total_questions,
       correctAnswers: quizResult.correct_answers,
-      timeTaken: '2:30', // Mock time since we don't have total_time in schema
-      passingScore: 70,
-      questions: questions,
-      completedAt: new Date(quizResult.completed_at).toLocaleDateString()
+      totalTime: quizResult.duration_seconds ?? null,
+      startedAt: quizResult.started_at || null,
+      completedAt: quizResult.completed_at,
+      passingScore: PASSING_SCORE,
+      averageScore,
+      improvementRate: previous ? score - Math.round(Number(previous.score) || 0) : 0,
+      questions
     }
 
     return NextResponse.json(assessmentData)
   } catch (error) {
     console.error('Error fetching quiz assessment:', error)
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    console.error('Error details:', errorMessage)
-    return NextResponse.json({ error: 'Internal server error', details: errorMessage }, { status: 500 })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
\ No newline at end of file
+}, { requireAuth: true })
@@ -1,10 +1,14 @@
 import { NextResponse } from 'next/server'
 import { DatabaseManager } from '@/lib/database/database-manager'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { studentAccessService } from '@/lib/services/student-access-service'
 
-export async function POST(request: Request) {
+export const POST = withAuth(async (request) => {
   try {
+    // Answers are always stored for the signed-in user
+    const userId = getAuthUser(request)!.userId
     const body = await request.json()
-    const { userId, incorrectAnswers } = body
+    const { incorrectAnswers } = body
 
     const dbManager = DatabaseManager.getInstance()
     await dbManager.initializeIfNeeded()
@@ -28,18 +32,17 @@ export async function POST(request: Request) {
       { status: 500 }
     )
   }
-}
+}, { requireAuth: true })
 
-export async function GET(request: Request) {
+export const GET = withAuth(async (request) => {
   try {
+    const user = getAuthUser(request)!
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
+    const userId = searchParams.get('userId') || user.userId
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      )
+    // Other students' answers need the same access as their quiz results
+    if (!(await studentAccessService.canViewStudentData(user.userId, user.role, userId, 'quiz_results'))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
     const dbManager = DatabaseManager.getInstance()
@@ -56,4 +59,4 @@ export async function GET(request: Request) {
       { status: 500 }
     )
   }
-}
+}, { requireAuth: true })
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { quizSessionService } from '@/lib/services/quiz-session-service'
+import { QuizSessionError } from '@/types/quiz'
+
+/**
+ * Quiz Session Answers API Endpoint
+ * Scores a single answer on the server; each question is accepted once.
+ * Only whether it was right is returned, the correct answer comes with the
+ * finalised result
+ */
+
+export const POST = withAuth(async (
+  request,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const user = getAuthUser(request)!
+
+    const { questionId, selectedAnswer, responseTimeMs } = await request.json()
+
+    if (questionId === undefined || typeof selectedAnswer !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required fields: questionId, selectedAnswer' },
+        { status: 400 }
+      )
+    }
+
+    const result = await quizSessionService.submitAnswer(
+      user.userId,
+      params.id,
+      String(questionId),
+      selectedAnswer,
+      typeof responseTimeMs === 'number' ? responseTimeMs : undefined
+    )
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof QuizSessionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error recording quiz answer:', error)
+    return NextResponse.json(
+      { error: 'Failed to record quiz answer' },
+      { status: 500 }
+    )
+  }
+}, { requireAuth: true })
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { quizSessionService } from '@/lib/services/quiz-session-service'
+import { QuizSessionError } from '@/types/quiz'
+
+/**
+ * Quiz Sessions API Endpoint
+ * Issues a server-side quiz session with questions picked by the server;
+ * answers are scored against it and the result is finalised through
+ * POST /api/quiz-results
+ */
+
+export const POST = withAuth(async (request) => {
+  try {
+    const user = getAuthUser(request)!
+
+    const body = await request.json().catch(() => ({}))
+    const count = body.count === undefined || body.count === null ? undefined : parseInt(String(body.count), 10)
+    if (count !== undefined && Number.isNaN(count)) {
+      return NextResponse.json({ error: 'count must be a number' }, { status: 400 })
+    }
+
+    const { session, questions } = await quizSessionService.startSession(user.userId, count)
+
+    return NextResponse.json({
+      success: true,
+      sessionId: session.id,
+      questions,
+      expiresAt: session.expires_at
+    })
+  } catch (error) {
+    if (error instanceof QuizSessionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error starting quiz session:', error)
+    return NextResponse.json(
+      { error: 'Failed to start quiz session' },
+      { status: 500 }
+    )
+  }
+}, { requireAuth: true })
@@ -1,12 +1,15 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { 
   uploadVideoToCloudinary, 
   uploadScreenRecordingToCloudinary, 
   uploadWebcamRecordingToCloudinary
 } from '@/lib/cloudinary-utils';
 import type { CloudinaryUploadResult } from '@/lib/cloudinary-utils';
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware';
+import { recordingConsentService } from '@/lib/services/recording-consent-service';
+import { RecordingConsentError } from '@/types/consent';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request) => {
   try {
     console.log('🎥 Cloudinary upload request received');
 
@@ -14,9 +17,14 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData();
     const file = formData.get('video') as File;
     const recordingType = formData.get('type') as string || 'webcam';
-    const userId = formData.get('userId') as string;
+    // Recordings are tagged with the signed-in user, not a client-supplied ID
+    const user = getAuthUser(request)!;
+    const userId = user.userId;
     const sessionId = formData.get('sessionId') as string;
 
+    // A student's recording needs a parent's consent for everything it captures
+    await recordingConsentService.assertUploadAllowed(userId, user.role, recordingType === 'screen' ? 'screen' : 'webcam');
+
     if (!file) {
       console.error('❌ No video file provided');
       return NextResponse.json(
@@ -127,6 +135,10 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(response, { status: 200 });
 
   } catch (error) {
+    if (error instanceof RecordingConsentError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode });
+    }
+
     console.error('❌ Cloudinary upload error:', error);
     
     // Handle specific Cloudinary errors
@@ -161,7 +173,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { requireAuth: true });
 
 // Handle OPTIONS request for CORS
 export async function OPTIONS() {
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { recordingConsentService } from '@/lib/services/recording-consent-service'
+
+/**
+ * Recording Consent Status API Endpoint
+ * The consent scopes the caller still needs before each kind of recording
+ * can be uploaded, so the recorders can explain why they are unavailable
+ */
+
+export const GET = withAuth(async (request) => {
+  try {
+    const user = getAuthUser(request)!
+
+    const [webcam, screen, voice, face] = await Promise.all([
+      recordingConsentService.getMissingScopes(user.userId, user.role, 'webcam'),
+      recordingConsentService.getMissingScopes(user.userId, user.role, 'screen'),
+      recordingConsentService.getMissingScopes(user.userId, user.role, 'voice'),
+      recordingConsentService.getMissingScopes(user.userId, user.role, 'face')
+    ])
+
+    return NextResponse.json({
+      policyVersion: recordingConsentService.getPolicyVersion(),
+      missing: { webcam, screen, voice, face }
+    })
+  } catch (error) {
+    console.error('Error fetching recording consent status:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch recording consent status' },
+      { status: 500 }
+    )
+  }
+}, { requireAuth: true })
@@ -1,15 +1,22 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { writeFile, mkdir } from 'fs/promises'
 import { existsSync } from 'fs'
 import path from 'path'
 import { v4 as uuidv4 } from 'uuid'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { recordingConsentService } from '@/lib/services/recording-consent-service'
+import { RecordingConsentError } from '@/types/consent'
 
 // Define the directory for storing screen recordings
 const SCREEN_RECORDINGS_DIR = path.join(process.cwd(), 'public', 'recordings', 'screen')
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request) => {
   console.log('Screen recording API endpoint called');
   try {
+    // Screen recordings of a student need a parent's consent for the screen and voice
+    const user = getAuthUser(request)!
+    await recordingConsentService.assertUploadAllowed(user.userId, user.role, 'screen')
+
     // Ensure the screen recordings directory exists
     console.log('Checking if directory exists:', SCREEN_RECORDINGS_DIR);
     if (!existsSync(SCREEN_RECORDINGS_DIR)) {
@@ -60,6 +67,9 @@ export async function POST(request: NextRequest) {
       path: publicPath
     })
   } catch (error) {
+    if (error instanceof RecordingConsentError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
     console.error('Error handling screen recording upload:', error)
     console.error('Error details:', JSON.stringify(error, Object.getOwnPropertyNames(error)));
     return NextResponse.json(
@@ -67,4 +77,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}, { requireAuth: true })
@@ -1,14 +1,21 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { writeFile, mkdir } from 'fs/promises'
 import { existsSync } from 'fs'
 import path from 'path'
 import { v4 as uuidv4 } from 'uuid'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { recordingConsentService } from '@/lib/services/recording-consent-service'
+import { RecordingConsentError } from '@/types/consent'
 
 // Define the directory for storing recordings
 const RECORDINGS_DIR = path.join(process.cwd(), 'public', 'recordings')
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request) => {
   try {
+    // Webcam recordings of a student need a parent's consent for video and voice
+    const user = getAuthUser(request)!
+    await recordingConsentService.assertUploadAllowed(user.userId, user.role, 'webcam')
+
     // Ensure the recordings directory exists
     if (!existsSync(RECORDINGS_DIR)) {
       await mkdir(RECORDINGS_DIR, { recursive: true })
@@ -48,10 +55,13 @@ export async function POST(request: NextRequest) {
       path: publicPath
     })
   } catch (error) {
+    if (error instanceof RecordingConsentError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
     console.error('Error handling recording upload:', error)
     return NextResponse.json(
       { error: 'Failed to save recording' },
       { status: 500 }
     )
   }
-}
+}, { requireAuth: true })
@@ -1,29 +1,18 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
 import { SupabaseSmartQuestionService } from '@/lib/services/supabase-smart-question-service'
-import jwt from 'jsonwebtoken'
 
 /**
  * Enhanced Smart Questions API Endpoint
- * Provides intelligent question selection based on user history and performance
+ * Provides intelligent question selection based on user history and performance.
+ * Answers are recorded by quiz sessions, which grade them on the server
  */
 
 const smartQuestionService = new SupabaseSmartQuestionService();
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request) => {
   try {
-    // Extract user ID from JWT token
-    const token = request.cookies.get('auth-token')?.value;
-    if (!token) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    }
-
-    let userId: string;
-    try {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-jwt-secret-key') as any;
-      userId = decoded.userId;
-    } catch (error) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
-    }
+    const userId = getAuthUser(request)!.userId;
 
     // Get query parameters
     const { searchParams } = new URL(request.url);
@@ -32,22 +21,13 @@ export async function GET(request: NextRequest) {
     const category = searchParams.get('category');
 
     // Get smart questions
-    const questions = await smartQuestionService.getSmartQuestions(userId, count);
-
-    // Filter by difficulty if specified
-    let filteredQuestions = questions;
-    if (difficulty) {
-      const difficultyLevel = parseInt(difficulty);
-      filteredQuestions = questions.filter(q => q.difficulty_level === difficultyLevel);
-    }
-
-    // Filter by category if specified
-    if (category) {
-      filteredQuestions = filteredQuestions.filter(q => q.category === category);
-    }
+    const questions = await smartQuestionService.getSmartQuestions(userId, count, {
+      difficulty: difficulty ? parseInt(difficulty) : undefined,
+      category: category || undefined
+    });
 
-    // Format questions for frontend
-    const formattedQuestions = filteredQuestions.map(question => ({
+    // Format questions for frontend; answers are only checked on the server
+    const formattedQuestions = questions.map(question => ({
       id: question.id,
       uuid: question.uuid,
       question_text: question.question_text,
@@ -57,12 +37,17 @@ export async function GET(request: NextRequest) {
         question.option_3,
         question.option_4
       ].filter(opt => opt && opt.trim().length > 0),
-      correct_option: question.correct_option,
       type: question.type,
       difficulty_level: question.difficulty_level,
       category: question.category
     }));
 
+    // Explain each pick so teachers can audit the scheduler
+    const selectionReasons = questions.map(question => ({
+      uuid: question.uuid,
+      ...question.selection
+    }));
+
     // Record question presentations to prevent immediate repetition
     if (formattedQuestions.length > 0) {
       const questionUuids = formattedQuestions.map(q => q.uuid);
@@ -75,7 +60,10 @@ export async function GET(request: NextRequest) {
       metadata: {
         total_selected: formattedQuestions.length,
         user_id: userId,
-        selection_method: 'smart_algorithm'
+        selection_method: 'spaced_repetition',
+        due_reviews: selectionReasons.filter(r => r.reason === 'due_review').length,
+        new_items: selectionReasons.filter(r => r.reason === 'new_item').length,
+        selection_reasons: selectionReasons
       }
     });
 
@@ -86,62 +74,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
-
-export async function POST(request: NextRequest) {
-  try {
-    // Extract user ID from JWT token
-    const token = request.cookies.get('auth-token')?.value;
-    if (!token) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    }
-
-    let userId: string;
-    try {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-jwt-secret-key') as any;
-      userId = decoded.userId;
-    } catch (error) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
-    }
-
-    // Parse request body
-    const body = await request.json();
-    const { 
-      question_uuid, 
-      user_answer, 
-      correct_answer, 
-      is_correct, 
-      response_time_ms 
-    } = body;
-
-    // Validate required fields
-    if (!question_uuid || user_answer === undefined || correct_answer === undefined || is_correct === undefined) {
-      return NextResponse.json(
-        { error: 'Missing required fields: question_uuid, user_answer, correct_answer, is_correct' },
-        { status: 400 }
-      );
-    }
-
-    // Record the answer
-    await smartQuestionService.recordAnswer(
-      userId,
-      question_uuid,
-      user_answer,
-      correct_answer,
-      is_correct,
-      response_time_ms
-    );
-
-    return NextResponse.json({
-      success: true,
-      message: 'Answer recorded successfully'
-    });
-
-  } catch (error) {
-    console.error('Error recording answer:', error);
-    return NextResponse.json(
-      { error: 'Failed to record answer' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+}, { requireAuth: true })
@@ -1,5 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { retryOpenAICall } from '@/lib/retry-utils';
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware';
+import { recordingConsentService } from '@/lib/services/recording-consent-service';
+import { RecordingConsentError } from '@/types/consent';
 
 // Increase function timeout to handle longer OpenAI API calls
 export const maxDuration = 300; // 5 minutes (maximum for Hobby plan)
@@ -8,8 +11,12 @@ export const maxDuration = 300; // 5 minutes (maximum for Hobby plan)
 const SUPPORTED_FORMATS = ['mp3', 'mp4', 'mpeg', 'mpga', 'm4a', 'wav', 'webm']
 const MAX_FILE_SIZE = 25 * 1024 * 1024 // 25MB limit for Whisper API
 
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req) => {
   try {
+    // A student's voice is only sent for transcription with a parent's consent
+    const user = getAuthUser(req)!
+    await recordingConsentService.assertUploadAllowed(user.userId, user.role, 'voice')
+
     // Parse the form data
     const formData = await req.formData()
     const audioFile = formData.get('audio') as File
@@ -243,6 +250,10 @@ export async function POST(req: NextRequest) {
     }
 
   } catch (error: any) {
+    if (error instanceof RecordingConsentError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+
     console.error('[STT] OpenAI Whisper API error:', {
       message: error.message,
       status: error.status,
@@ -289,14 +300,14 @@ export async function POST(req: NextRequest) {
       )
     }
   }
-}
+}, { requireAuth: true });
 
 // Health check endpoint
-export async function GET() {
+export const GET = withAuth(async () => {
   return NextResponse.json({
     status: 'healthy',
     service: 'speech-to-text',
     supported_formats: SUPPORTED_FORMATS,
     max_file_size_mb: MAX_FILE_SIZE / (1024 * 1024)
   })
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import OpenAI from 'openai'
+import { withAuth } from '@/lib/middleware/auth-middleware'
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -17,7 +18,7 @@ interface TTSRequest {
 
 // This endpoint is maintained for backward compatibility
 // New code should use /api/text-to-speech instead
-export async function POST(req: Request) {
+export const POST = withAuth(async (req) => {
   // Input validation
   let body: TTSRequest
   try {
@@ -81,4 +82,4 @@ export async function POST(req: Request) {
       )
     }
   }
-}
+}, { requireAuth: true })
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, requireRole } from '@/lib/middleware/auth-middleware'
+import { teacherService } from '@/lib/services/teacher-service'
+
+/**
+ * Teacher Classes API Endpoint
+ * Returns the calling teacher's classes with each assigned student's quiz
+ * history and weak grammar areas
+ */
+
+export const GET = requireRole('teacher')(async (request) => {
+  try {
+    const user = getAuthUser(request)!
+
+    // Rosters are always scoped to the teacher in the token
+    const classes = await teacherService.getClasses(user.userId)
+
+    return NextResponse.json({ classes })
+  } catch (error) {
+    console.error('Error fetching teacher classes:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch classes' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server'
 import OpenAI from 'openai'
+import { requireRole } from '@/lib/middleware/auth-middleware'
 
-export async function GET() {
+export const GET = requireRole('admin')(async () => {
   try {
     console.log('[OpenAI Health Check] Starting connectivity test...')
     
@@ -65,4 +66,4 @@ export async function GET() {
       hasApiKey: !!process.env.OPENAI_API_KEY
     }, { status: 500 })
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,11 +1,12 @@
 import { NextResponse } from 'next/server'
 import OpenAI from 'openai'
 import { retryOpenAICall } from '@/lib/retry-utils'
+import { requireRole } from '@/lib/middleware/auth-middleware'
 
 // Increase function timeout to handle longer OpenAI API calls
 export const maxDuration = 300; // 5 minutes (maximum for Hobby plan)
 
-export async function GET() {
+export const GET = requireRole('admin')(async () => {
   console.log('[TEST-OPENAI] Starting OpenAI connection test...')
   
   try {
@@ -157,10 +158,10 @@ export async function GET() {
       environment: process.env.VERCEL_ENV || 'local'
     }, { status: 500 })
   }
-}
+})
 
-export async function POST() {
+export const POST = requireRole('admin')(async () => {
   return NextResponse.json({
     message: 'Use GET method to test OpenAI connection'
   }, { status: 405 })
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import OpenAI from 'openai'
+import { requireRole } from '@/lib/middleware/auth-middleware'
 
 // Simple TTS test without retry logic to isolate the issue
 
@@ -8,7 +9,7 @@ const openai = new OpenAI({
   timeout: 60000, // 60 seconds timeout
 })
 
-export async function POST(req: Request) {
+export const POST = requireRole('admin')(async (req) => {
   try {
     const { text = "Hello world test" } = await req.json()
     
@@ -56,4 +57,4 @@ export async function POST(req: Request) {
       type: error.type
     }, { status: 500 })
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,9 +1,10 @@
 import { NextResponse } from 'next/server';
+import { requireRole } from '@/lib/middleware/auth-middleware';
 
-export async function GET() {
+export const GET = requireRole('admin')(async () => {
   return NextResponse.json({ message: 'Test API working' });
-}
+});
 
-export async function POST() {
+export const POST = requireRole('admin')(async () => {
   return NextResponse.json({ message: 'Test POST API working' });
-}
\ No newline at end of file
+});
\ No newline at end of file
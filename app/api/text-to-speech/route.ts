@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import OpenAI from 'openai'
 import { retryOpenAICall } from '@/lib/retry-utils'
+import { withAuth } from '@/lib/middleware/auth-middleware'
 
 // Using Node.js runtime for better OpenAI API compatibility
 
@@ -19,7 +20,7 @@ interface TTSRequest {
   speed?: number
 }
 
-export async function POST(req: Request) {
+export const POST = withAuth(async (req) => {
   // Input validation
   let body: TTSRequest
   try {
@@ -125,4 +126,4 @@ export async function POST(req: Request) {
       )
     }
   }
-}
+}, { requireAuth: true })
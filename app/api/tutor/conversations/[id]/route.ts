@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { tutorConversationService } from '@/lib/services/tutor-conversation-service'
+import { TutorError } from '@/types/tutor'
+
+/**
+ * Tutor Transcript API Endpoint
+ * Every message of one tutor conversation. The student uses it to resume
+ * the chat; for anyone else allowed to see it the transcript is read-only
+ */
+
+export const GET = withAuth(async (
+  request,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const user = getAuthUser(request)!
+    const transcript = await tutorConversationService.getTranscript(user, params.id)
+
+    return NextResponse.json(transcript)
+  } catch (error) {
+    if (error instanceof TutorError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error fetching tutor transcript:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch tutor transcript' },
+      { status: 500 }
+    )
+  }
+}, { requireAuth: true })
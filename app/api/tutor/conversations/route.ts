@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
+import { tutorConversationService } from '@/lib/services/tutor-conversation-service'
+import { TutorError } from '@/types/tutor'
+
+/**
+ * Tutor Conversations API Endpoint
+ * A student's chats with the AI tutor, most recently active first. Students
+ * see their own; admins, assigned teachers and parents allowed to view the
+ * child's progress pass ?studentId=
+ */
+
+export const GET = withAuth(async (request) => {
+  try {
+    const user = getAuthUser(request)!
+    const { searchParams } = new URL(request.url)
+    const limit = searchParams.get('limit')
+
+    const result = await tutorConversationService.listForViewer(
+      user,
+      searchParams.get('studentId') || undefined,
+      limit ? Number(limit) : undefined
+    )
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof TutorError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error fetching tutor conversations:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch tutor conversations' },
+      { status: 500 }
+    )
+  }
+}, { requireAuth: true })
@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
+import { getAuthUser, withAuth } from '@/lib/middleware/auth-middleware'
 import { SupabaseSmartQuestionService } from '@/lib/services/supabase-smart-question-service'
-import jwt from 'jsonwebtoken'
 
 /**
  * User Analytics API Endpoint
@@ -9,21 +9,9 @@ import jwt from 'jsonwebtoken'
 
 const smartQuestionService = new SupabaseSmartQuestionService();
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request) => {
   try {
-    // Extract user ID from JWT token
-  const token = request.cookies.get('auth-token')?.value;
-    if (!token) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    }
-
-    let userId: number;
-    try {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-jwt-secret-key') as any;
-      userId = decoded.userId;
-    } catch (error) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
-    }
+    const userId = getAuthUser(request)!.userId;
 
     // Get user analytics
     const analytics = await smartQuestionService.getUserAnalytics(userId);
@@ -58,4 +46,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, { requireAuth: true })
@@ -1,36 +1,10 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { getDbAdapter } from '@/lib/database/database-manager';
-import jwt from 'jsonwebtoken';
-
-// Verify admin authentication
-async function verifyAdminAuth(request: NextRequest) {
-  try {
-    const token = request.cookies.get('auth-token')?.value;
-    if (!token) {
-      return { error: 'No authentication token', status: 401 };
-    }
-
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-jwt-secret-key') as any;
-    if (decoded.role !== 'admin') {
-      return { error: 'Admin access required', status: 403 };
-    }
-
-    return { success: true, userId: decoded.userId };
-  } catch (error) {
-    return { error: 'Invalid authentication token', status: 401 };
-  }
-}
+import { requirePermission } from '@/lib/middleware/auth-middleware';
+import { emailVerificationService } from '@/lib/services/email-verification-service';
 
 // GET - List all users (admin only)
-export async function GET(request: NextRequest) {
-  const authResult = await verifyAdminAuth(request);
-  if (!authResult.success) {
-    return NextResponse.json(
-      { error: authResult.error },
-      { status: authResult.status }
-    );
-  }
-
+export const GET = requirePermission('users:read')(async (request) => {
   try {
     const dbAdapter = await getDbAdapter();
     
@@ -39,7 +13,7 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '50');
     
-    const users = await dbAdapter.getUsersWithPagination(page, limit);
+    const users = await dbAdapter.getUsersWithPagination((page - 1) * limit, limit);
 
     return NextResponse.json({ success: true, users });
   } catch (error) {
@@ -49,18 +23,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST - Create new user (admin only)
-export async function POST(request: NextRequest) {
-  const authResult = await verifyAdminAuth(request);
-  if (!authResult.success) {
-    return NextResponse.json(
-      { error: authResult.error },
-      { status: authResult.status }
-    );
-  }
-
+export const POST = requirePermission('users:manage')(async (request) => {
   try {
     const body = await request.json();
     const { username, password, role, email, full_name } = body;
@@ -74,9 +40,17 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate role
-    if (!['student', 'admin', 'parent'].includes(role)) {
+    if (!['student', 'admin', 'parent', 'teacher'].includes(role)) {
+      return NextResponse.json(
+        { error: 'Invalid role. Must be student, admin, parent, or teacher' },
+        { status: 400 }
+      );
+    }
+
+    const requiresVerification = emailVerificationService.isRequiredFor(role);
+    if (requiresVerification && !email) {
       return NextResponse.json(
-        { error: 'Invalid role. Must be student, admin, or parent' },
+        { error: `An email address is required to verify ${role} accounts` },
         { status: 400 }
       );
     }
@@ -104,28 +78,37 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Create new user using Supabase Auth
+    // Create new user using Supabase Auth, or directly when the adapter has no Supabase Auth
     const userEmail = email || `${username}@futurelearner.com`;
+    const userData = {
+      username,
+      role: role as 'student' | 'admin' | 'parent' | 'teacher',
+      full_name: full_name || undefined,
+      email: userEmail
+    };
     const supabaseAdapter = dbAdapter as any; // Cast to access Supabase-specific methods
-    const { user: authUser, error: authError } = await supabaseAdapter.signUpWithSupabase(
-      userEmail,
-      password,
-      {
-        username,
-        role: role as 'student' | 'admin' | 'parent',
-        full_name: full_name || undefined,
-        email: userEmail
+    let newUser;
+
+    if (typeof supabaseAdapter.signUpWithSupabase === 'function') {
+      const { user: authUser, error: authError } = await supabaseAdapter.signUpWithSupabase(userEmail, password, userData);
+
+      if (authError) {
+        return NextResponse.json(
+          { error: `Failed to create user: ${authError.message}` },
+          { status: 400 }
+        );
       }
-    );
 
-    if (authError) {
-      return NextResponse.json(
-        { error: `Failed to create user: ${authError.message}` },
-        { status: 400 }
-      );
+      newUser = authUser.profile;
+    } else {
+      newUser = await dbAdapter.createUser({ ...userData, account_status: 'active' });
+      await dbAdapter.updatePassword(newUser.id, password);
     }
 
-    const newUser = authUser.profile;
+    // The account stays pending until the emailed link is opened
+    if (requiresVerification) {
+      newUser = await emailVerificationService.startVerification(newUser);
+    }
 
     return NextResponse.json({
       success: true,
@@ -136,6 +119,8 @@ export async function POST(request: NextRequest) {
         role: newUser.role,
         email: newUser.email,
         full_name: newUser.full_name,
+        email_verified: newUser.email_verified,
+        account_status: newUser.account_status,
         created_at: newUser.created_at
       }
     });
@@ -147,18 +132,10 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // PUT - Update user (admin only)
-export async function PUT(request: NextRequest) {
-  const authResult = await verifyAdminAuth(request);
-  if (!authResult.success) {
-    return NextResponse.json(
-      { error: authResult.error },
-      { status: authResult.status }
-    );
-  }
-
+export const PUT = requirePermission('users:manage')(async (request) => {
   try {
     const body = await request.json();
     const { id, username, role, email, full_name, password } = body;
@@ -183,9 +160,9 @@ export async function PUT(request: NextRequest) {
     }
 
     // Validate role if provided
-    if (role && !['student', 'admin', 'parent'].includes(role)) {
+    if (role && !['student', 'admin', 'parent', 'teacher'].includes(role)) {
       return NextResponse.json(
-        { error: 'Invalid role. Must be student, admin, or parent' },
+        { error: 'Invalid role. Must be student, admin, parent, or teacher' },
         { status: 400 }
       );
     }
@@ -236,6 +213,8 @@ export async function PUT(request: NextRequest) {
         role: updatedUser.role,
         email: updatedUser.email,
         full_name: updatedUser.full_name,
+        email_verified: updatedUser.email_verified,
+        account_status: updatedUser.account_status,
         created_at: updatedUser.created_at
       }
     });
@@ -247,18 +226,10 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE - Delete user (admin only)
-export async function DELETE(request: NextRequest) {
-  const authResult = await verifyAdminAuth(request);
-  if (!authResult.success) {
-    return NextResponse.json(
-      { error: authResult.error },
-      { status: authResult.status }
-    );
-  }
-
+export const DELETE = requirePermission('users:manage')(async (request) => {
   try {
     const { searchParams } = new URL(request.url);
     const userId = searchParams.get('id');
@@ -297,4 +268,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
@@ -15,10 +15,12 @@ import {
   isHybridSpeechRecognitionSupported
 } from '@/lib/speech-utils'
 import { speakText } from '@/lib/tts-utils'
+import { readTutorStream, createSentenceQueue, parseTutorReply, TutorStreamHandlers } from '@/lib/tutor-stream'
+import type { TutorTranscript } from '@/types/tutor'
 
 // Define types for context-aware functionality
 interface QuestionContext {
-  id?: number
+  id?: string | number
   question_text?: string
   text?: string // For compatibility with different naming conventions
   options?: string[]
@@ -39,6 +41,9 @@ type Message = {
   highlightedHint?: string // Optional highlighted hint for special formatting
 }
 
+// The stored conversation this tab is in, so a refresh picks the chat up again
+const TUTOR_CONVERSATION_KEY = 'tutor-conversation-id'
+
 // Props interface with optional contextual information
 interface ChatContentProps {
   questionContext?: QuestionContext
@@ -79,6 +84,8 @@ export default function ChatContent({ questionContext, enableContextAwareness =
   // Store the question text in a ref to ensure we have access to the latest value
   const questionTextRef = useRef<string>('')
   const audioRef = useRef<HTMLAudioElement | null>(null)
+  // The stored conversation; the server starts one with the first message
+  const conversationIdRef = useRef<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const messagesContainerRef = useRef<HTMLDivElement>(null)
 
@@ -128,6 +135,57 @@ export default function ChatContent({ questionContext, enableContextAwareness =
     };
   }, [])
 
+  // Resume this tab's conversation after a refresh
+  useEffect(() => {
+    const storedId = sessionStorage.getItem(TUTOR_CONVERSATION_KEY)
+    if (!storedId) return
+    conversationIdRef.current = storedId
+
+    const resumeConversation = async () => {
+      try {
+        const response = await fetch(`/api/tutor/conversations/${encodeURIComponent(storedId)}`)
+        if (!response.ok) {
+          throw new Error(`Failed to load the tutor conversation: ${response.status}`)
+        }
+
+        const transcript: TutorTranscript = await response.json()
+        const resumed: Message[] = transcript.messages.map(message => {
+          // Replies are stored with their highlight markers
+          const reply = message.role === 'assistant' ? parseTutorReply(message.content) : undefined
+          return {
+            role: message.role,
+            content: reply ? reply.content : message.content,
+            highlightedHint: reply?.highlightedHint,
+            timestamp: new Date(message.created_at).toLocaleTimeString('en-US', { hour12: false }),
+            id: message.id
+          }
+        })
+
+        // The welcome message stays first; anything said while loading goes after
+        setMessages(prev => [
+          ...prev.filter(message => message.id === 'initial'),
+          ...resumed,
+          ...prev.filter(message => message.id !== 'initial')
+        ])
+      } catch (error) {
+        console.error('Error resuming tutor conversation:', error)
+        forgetConversation()
+      }
+    }
+
+    resumeConversation()
+  }, [])
+
+  const rememberConversation = (conversationId: string) => {
+    conversationIdRef.current = conversationId
+    sessionStorage.setItem(TUTOR_CONVERSATION_KEY, conversationId)
+  }
+
+  const forgetConversation = () => {
+    conversationIdRef.current = null
+    sessionStorage.removeItem(TUTOR_CONVERSATION_KEY)
+  }
+
   // Reset audio finished state when question context changes
   useEffect(() => {
     setHasAudioFinished(false)
@@ -319,34 +377,44 @@ export default function ChatContent({ questionContext, enableContextAwareness =
       // Get AI response from the API
       // Use the current messages state plus the new user message
       const currentMessages = [...messages, userMessage]
-      const aiResponse = await getAIResponse(currentMessages)
-      
-      // Create AI response message
-      const responseMessage: Message = {
-        role: 'assistant',
-        content: typeof aiResponse === 'string' ? aiResponse : aiResponse.content,
-        timestamp: getCurrentTime(),
-        id: `ai-${Date.now()}`,
-        highlightedHint: typeof aiResponse === 'object' ? aiResponse.highlightedHint : undefined
+      const responseId = `ai-${Date.now()}`
+      const responseTimestamp = getCurrentTime()
+
+      // Show the reply as it streams in, adding its message with the first chunk
+      const showResponse = (content: string, highlightedHint?: string) => {
+        const responseMessage: Message = {
+          role: 'assistant',
+          content,
+          timestamp: responseTimestamp,
+          id: responseId,
+          highlightedHint
+        }
+        setMessages(prevMessages => prevMessages.some(message => message.id === responseId)
+          ? prevMessages.map(message => message.id === responseId ? responseMessage : message)
+          : [...prevMessages, responseMessage])
       }
-      
-      // Log for debugging
-      console.log('AI response message:', responseMessage)
-      
-      // Update messages state with the AI response
-      setMessages(prevMessages => {
-        const updatedMessages = [...prevMessages, responseMessage];
-        console.log('Updated messages state after AI response:', updatedMessages);
-        return updatedMessages;
+
+      // Start speaking with the first sentence instead of waiting for the whole reply
+      const speech = createSentenceQueue(speakSentence)
+      const aiResponse = await getAIResponse(currentMessages, {
+        onUpdate: reply => showResponse(reply.content, reply.highlightedHint),
+        onSentence: sentence => speech.push(sentence)
       })
-      
+
+      if (typeof aiResponse === 'string') {
+        // The request failed; replace anything shown so far with the error
+        speech.cancel()
+        showResponse(aiResponse)
+        await generateSpeech(aiResponse)
+      } else {
+        console.log('AI response message:', aiResponse)
+        await speech.finish()
+        setIsAiSpeaking(false)
+        setHasAudioFinished(true)
+      }
+
       // Scroll to bottom after adding AI response
       forceScrollToBottom()
-      
-      // Generate speech from AI response - don't process initial message
-      if (responseMessage.id !== 'initial') {
-        await generateSpeech(responseMessage.content)
-      }
     } catch (error) {
       console.error('Error getting AI response:', error)
       toast({
@@ -397,12 +465,13 @@ export default function ChatContent({ questionContext, enableContextAwareness =
 
   
   // Function to get AI response from the API with streaming support
-  const getAIResponse = async (messageHistory: Message[]) => {
+  const getAIResponse = async (messageHistory: Message[], handlers: TutorStreamHandlers = {}) => {
     try {
       console.log('Current messages:', messageHistory)
       
       const requestBody: any = {
         mode: 'reactive',
+        conversationId: conversationIdRef.current || undefined,
         messages: messageHistory.map(msg => ({
           role: msg.role,
           content: msg.content
@@ -419,7 +488,9 @@ export default function ChatContent({ questionContext, enableContextAwareness =
             text: questionText,
             options: questionOptions
           }, null, 2))
+          // The server looks the answer up by id and grades replies itself
           requestBody.currentQuestion = {
+            id: questionContext.id,
             text: questionText,
             options: questionOptions
           }
@@ -446,46 +517,18 @@ export default function ChatContent({ questionContext, enableContextAwareness =
       console.log('AI Tutor API Response Status:', response.status)
       console.log('AI Tutor API Response Headers:', Object.fromEntries(response.headers))
 
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error('API response not OK:', response.status, response.statusText)
-        console.error('Error response body:', errorText)
-        throw new Error(`Failed to get AI response: ${response.status} ${response.statusText} - ${errorText}`)
-      }
-      
-      // Handle streaming response
-      if (response.body) {
-        const reader = response.body.getReader()
-        const decoder = new TextDecoder()
-        let content = ''
-        
-        try {
-          while (true) {
-            const { done, value } = await reader.read()
-            if (done) break
-            
-            const chunk = decoder.decode(value, { stream: true })
-            content += chunk
-            console.log('Streaming chunk:', chunk)
-          }
-        } finally {
-          reader.releaseLock()
-        }
-        
-        console.log('Final streaming content:', content)
-        
-        // Process the complete response to extract any highlighted hints
-        const highlightRegex = /\[HIGHLIGHT\](.*?)\[\/HIGHLIGHT\]/
-        const highlightMatch = content.match(highlightRegex)
-        
-        // Return both the content and any highlighted hint
-        return {
-          content: content.replace(highlightRegex, '$1'),
-          highlightedHint: highlightMatch ? highlightMatch[1] : undefined
-        }
-      } else {
-        throw new Error('No response body received')
+      const conversationId = response.headers.get('X-Tutor-Conversation')
+      if (conversationId) {
+        rememberConversation(conversationId)
+      } else if (response.status === 404) {
+        // The stored conversation is gone; the next message starts a new one
+        forgetConversation()
       }
+
+      // Render and speak the reply while it streams in
+      const reply = await readTutorStream(response, handlers)
+      console.log('Final streaming content:', reply.content)
+      return reply
     } catch (error) {
       console.error('Error getting AI response:', error)
       console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace')
@@ -594,6 +637,26 @@ export default function ChatContent({ questionContext, enableContextAwareness =
     }
   }
 
+  // Speaks one sentence of a streamed reply and resolves once it has played.
+  // isAiSpeaking stays on between sentences and is cleared by handleUserInput
+  // when the whole reply is done
+  const speakSentence = (sentence: string) => new Promise<void>((resolve, reject) => {
+    speakText(
+      sentence,
+      'nova',
+      () => setIsAiSpeaking(true),
+      resolve,
+      (error) => {
+        setIsAiSpeaking(false)
+        toast({
+          description: 'Audio playback failed. Please try again.',
+          variant: "destructive"
+        })
+        reject(error)
+      }
+    ).then(() => setHasUserInteracted(true)).catch(reject)
+  })
+
   const isPlaying = isListening || isAiSpeaking
 
   // Calculate the height for the fixed control bar and message container
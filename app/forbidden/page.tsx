@@ -0,0 +1,27 @@
+import Link from 'next/link'
+import { headers } from 'next/headers'
+import { ShieldAlert } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { isRole, roleHomeRoutes } from '@/lib/config/route-access'
+
+// Shown by the middleware, with a 403 status, when a signed-in user opens a page their role can't use
+export default function ForbiddenPage() {
+  const role = headers().get('x-user-role')
+  const home = isRole(role) ? roleHomeRoutes[role] : '/login'
+
+  return (
+    <div className="min-h-screen bg-white flex items-center justify-center py-8 px-4">
+      <Card className="w-full max-w-md p-6 space-y-4 text-center">
+        <ShieldAlert className="h-10 w-10 text-red-500 mx-auto" />
+        <h2 className="text-2xl font-bold text-gray-900">You don&apos;t have access to this page</h2>
+        <p className="text-sm text-gray-600">
+          This area is for a different kind of account. If you think you should be able to see it, ask your administrator.
+        </p>
+        <Button asChild className="w-full">
+          <Link href={home}>Go to your dashboard</Link>
+        </Button>
+      </Card>
+    </div>
+  )
+}
@@ -9,9 +9,12 @@ import { Card } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { toast } from "@/components/ui/use-toast"
 import Image from 'next/image'
+import Link from 'next/link'
 import AudioVisualizer from '@/components/AudioVisualizer'
 import { AudioCaption } from '@/components/AudioCaption'
 import LoaderOne from '@/components/LoaderOne'
+import { isRole, roleHomeRoutes } from '@/lib/config/route-access'
+import type { FaceLoginUser } from '@/components/FaceRecognition'
 import dynamic from 'next/dynamic'
 
 // Import FaceRecognition component with SSR disabled
@@ -27,11 +30,20 @@ export default function LoginPage() {
   const [isLoading, setIsLoading] = useState(false)
   const [isPlaying, setIsPlaying] = useState(false)
   const [showCamera, setShowCamera] = useState(false)
-  const [faceSuccess, setFaceSuccess] = useState(false)
-  const [faceMessage, setFaceMessage] = useState('')
   const [activeTab, setActiveTab] = useState('credentials')
   const [isMounted, setIsMounted] = useState(false)
   const [showPassword, setShowPassword] = useState(false)
+  // Second factor: 'code' asks for a TOTP/backup code, 'setup' enrols, 'backup' shows new backup codes once
+  const [twoFactorStep, setTwoFactorStep] = useState<'code' | 'setup' | 'backup' | null>(null)
+  const [twoFactorCode, setTwoFactorCode] = useState('')
+  const [challengeToken, setChallengeToken] = useState('')
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUri: string } | null>(null)
+  const [needsVerification, setNeedsVerification] = useState(false)
+  // Set when the password was right but has expired; only the change-password step accepts it
+  const [passwordChangeToken, setPasswordChangeToken] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmNewPassword, setConfirmNewPassword] = useState('')
+  const [backupCodes, setBackupCodes] = useState<string[]>([])
   const audioRef = useRef<HTMLAudioElement | null>(null)
   const router = useRouter()
   
@@ -85,9 +97,33 @@ export default function LoginPage() {
     }
   }
 
+  const handleResendVerification = async () => {
+    try {
+      const response = await fetch('/api/auth/verify-email/resend', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: username })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setNeedsVerification(false)
+        toast({
+          title: "Verification email sent",
+          description: data.message
+        })
+      } else {
+        setError(data.error || 'Unable to send a verification email. Please try again.')
+      }
+    } catch (error) {
+      setError('Network error. Please check your connection and try again.')
+    }
+  }
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
+    setNeedsVerification(false)
     setIsLoading(true)
 
     // Client-side validation
@@ -100,7 +136,8 @@ export default function LoginPage() {
     try {
       const loginData = {
         username,
-        password
+        password,
+        ...(twoFactorStep === 'code' && twoFactorCode ? { two_factor_code: twoFactorCode.trim() } : {})
       };
 
       const response = await fetch('/api/login', {
@@ -114,6 +151,27 @@ export default function LoginPage() {
 
       const data = await response.json()
 
+      if (response.ok && data.requires_2fa_setup) {
+        setChallengeToken(data.challenge_token)
+        await startTwoFactorSetup(data.challenge_token)
+        return
+      }
+
+      if (response.ok && data.requires_password_change) {
+        setError('')
+        setNewPassword('')
+        setConfirmNewPassword('')
+        setPasswordChangeToken(data.password_change_token)
+        return
+      }
+
+      if (response.ok && data.requires_2fa) {
+        setError('')
+        setTwoFactorCode('')
+        setTwoFactorStep('code')
+        return
+      }
+
       if (response.ok) {
         // Clear any previous errors
         setError('')
@@ -126,17 +184,11 @@ export default function LoginPage() {
         
         // Redirect based on user role from the response
         const userRole = data.user?.role;
-        if (userRole === 'teacher' || userRole === 'admin') {
-          router.push('/admin-dashboard')
-        } else if (userRole === 'parent') {
-          router.push('/parent-dashboard')
-        } else {
-          router.push('/tutorial')
-        }
+        router.push(isRole(userRole) ? roleHomeRoutes[userRole] : roleHomeRoutes.student)
       } else {
         // Enhanced error handling for different status codes
         if (response.status === 423) {
-          setError('Account is temporarily locked due to multiple failed login attempts. Please try again later.')
+          setError('Account is temporarily locked due to multiple failed login attempts. Use the unlock link we emailed you, or try again later.')
           toast({
             title: "Account Locked",
             description: "Your account has been temporarily locked for security reasons.",
@@ -149,6 +201,11 @@ export default function LoginPage() {
             description: "Please wait before attempting to login again.",
             variant: "destructive"
           })
+        } else if (response.status === 403 && data.requires_verification) {
+          setError('Please verify your email address first. Open the link we emailed you, or send a new one below.')
+          setNeedsVerification(true)
+        } else if (response.status === 401 && data.requires_2fa) {
+          setError('That code did not work. Enter the current code from your authenticator app or a backup code.')
         } else if (response.status === 401) {
           setError('Invalid username or password. Please check your credentials and try again.')
         } else {
@@ -168,15 +225,115 @@ export default function LoginPage() {
     }
   }
   
+  const startTwoFactorSetup = async (token: string) => {
+    const response = await fetch('/api/auth/2fa/setup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ challenge_token: token }),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      setError(data.error || 'Unable to start two-factor setup. Please try again.')
+      return
+    }
+
+    setError('')
+    setTwoFactorCode('')
+    setEnrollment(data)
+    setTwoFactorStep('setup')
+  }
+
+  const handleConfirmTwoFactorSetup = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsLoading(true)
+
+    try {
+      const response = await fetch('/api/auth/2fa/enable', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: twoFactorCode.trim(), challenge_token: challengeToken }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'That code did not work. Please try again.')
+        return
+      }
+
+      setBackupCodes(data.backupCodes || [])
+      setTwoFactorCode('')
+      setTwoFactorStep('backup')
+    } catch (error) {
+      console.error('Two-factor setup error:', error)
+      setError('Network error. Please check your connection and try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleExpiredPasswordChange = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (newPassword !== confirmNewPassword) {
+      setError('The passwords do not match')
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/auth/change-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          current_password: password,
+          new_password: newPassword,
+          password_change_token: passwordChangeToken
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Unable to change your password. Please try again.')
+        return
+      }
+
+      // Back to the login form, ready to sign in with the new password
+      setPassword(newPassword)
+      setPasswordChangeToken('')
+      setTwoFactorStep(null)
+      setTwoFactorCode('')
+      toast({
+        title: "Password Changed",
+        description: data.message,
+      })
+    } catch (error) {
+      console.error('Password change error:', error)
+      setError('Network error. Please check your connection and try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const cancelTwoFactor = () => {
+    setTwoFactorStep(null)
+    setTwoFactorCode('')
+    setChallengeToken('')
+    setEnrollment(null)
+    setBackupCodes([])
+    setError('')
+  }
+
   // Handle successful face recognition
-  const handleFaceSuccess = () => {
+  const handleFaceSuccess = (user: FaceLoginUser) => {
     toast({
-      title: "Success",
-      description: "Face recognized! Logging you in...",
+      title: "Login Successful",
+      description: `Welcome back, ${user.full_name || user.username}!`,
     })
-    
-    // Redirect to tutorial page
-    router.push('/tutorial')
+
+    router.push(isRole(user.role) ? roleHomeRoutes[user.role] : roleHomeRoutes.student)
   }
 
   return (
@@ -228,13 +385,10 @@ export default function LoginPage() {
                 <TabsContent value="face">
                   <Card className="p-6">
                     {showCamera ? (
-                      <FaceRecognition 
+                      <FaceRecognition
+                        username={username}
                         onSuccess={handleFaceSuccess}
                         onCancel={() => setShowCamera(false)}
-                        isLoading={isLoading}
-                        setIsLoading={setIsLoading}
-                        setFaceMessage={setFaceMessage}
-                        setFaceSuccess={setFaceSuccess}
                       />
                     ) : (
                       <div className="flex flex-col items-center text-center space-y-4">
@@ -261,12 +415,19 @@ export default function LoginPage() {
                           <p className="text-sm text-gray-500 mt-1">Quick and easy way to log in without typing!</p>
                         </div>
 
-                        {faceMessage && (
-                          <div className={`text-sm ${faceSuccess ? "text-green-600" : "text-blue-600"}`}>{faceMessage}</div>
-                        )}
+                        <div className="w-full text-left space-y-2">
+                          <Label htmlFor="face-username">Username</Label>
+                          <Input
+                            id="face-username"
+                            autoComplete="username"
+                            value={username}
+                            onChange={(e) => setUsername(e.target.value)}
+                            placeholder="Enter your username"
+                          />
+                        </div>
 
-                        <Button className="w-full" onClick={() => { setShowCamera(true); playWelcomeAudio(); }} disabled={isLoading}>
-                          {isLoading ? <LoaderOne /> : 'Start Face Login'}
+                        <Button className="w-full" onClick={() => { setShowCamera(true); playWelcomeAudio(); }} disabled={!username.trim()}>
+                          Start Face Login
                         </Button>
                       </div>
                     )}
@@ -275,6 +436,146 @@ export default function LoginPage() {
 
                 <TabsContent value="credentials">
                   <Card className="p-6">
+                    {passwordChangeToken ? (
+                      <form onSubmit={handleExpiredPasswordChange} className="space-y-4">
+                        <div>
+                          <h3 className="text-lg font-semibold">Your password has expired</h3>
+                          <p className="text-sm text-gray-500 mt-1">
+                            Choose a new password you have not used before, then sign in with it.
+                          </p>
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label htmlFor="expired-new-password">New password</Label>
+                          <Input
+                            id="expired-new-password"
+                            type="password"
+                            autoComplete="new-password"
+                            value={newPassword}
+                            onChange={(e) => setNewPassword(e.target.value)}
+                            required
+                            disabled={isLoading}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="expired-confirm-password">Confirm new password</Label>
+                          <Input
+                            id="expired-confirm-password"
+                            type="password"
+                            autoComplete="new-password"
+                            value={confirmNewPassword}
+                            onChange={(e) => setConfirmNewPassword(e.target.value)}
+                            required
+                            disabled={isLoading}
+                          />
+                        </div>
+
+                        {error && (
+                          <div className="text-red-500 text-sm p-3 bg-red-50 rounded-md border border-red-100">{error}</div>
+                        )}
+
+                        <Button className="w-full" type="submit" disabled={isLoading}>
+                          {isLoading ? <LoaderOne /> : 'Change password'}
+                        </Button>
+                        <Button type="button" variant="link" className="w-full text-sm" onClick={() => { setPasswordChangeToken(''); setError('') }}>
+                          ← Back to login
+                        </Button>
+                      </form>
+                    ) : twoFactorStep === 'setup' && enrollment ? (
+                      <form onSubmit={handleConfirmTwoFactorSetup} className="space-y-4">
+                        <div>
+                          <h3 className="text-lg font-semibold">Set up two-factor authentication</h3>
+                          <p className="text-sm text-gray-500 mt-1">
+                            Your account needs a second sign-in step. Add this key to an authenticator app, then enter the 6-digit code it shows.
+                          </p>
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label>Setup key</Label>
+                          <div className="font-mono text-sm break-all p-3 bg-gray-50 rounded-md border">{enrollment.secret}</div>
+                          <a href={enrollment.otpauthUri} className="text-sm text-blue-600 hover:underline">
+                            Open in authenticator app
+                          </a>
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label htmlFor="two-factor-setup-code">Verification code</Label>
+                          <Input
+                            id="two-factor-setup-code"
+                            inputMode="numeric"
+                            autoComplete="one-time-code"
+                            placeholder="123456"
+                            value={twoFactorCode}
+                            onChange={(e) => setTwoFactorCode(e.target.value)}
+                            required
+                            disabled={isLoading}
+                          />
+                        </div>
+
+                        {error && (
+                          <div className="text-red-500 text-sm p-3 bg-red-50 rounded-md border border-red-100">{error}</div>
+                        )}
+
+                        <Button className="w-full" type="submit" disabled={isLoading}>
+                          {isLoading ? <LoaderOne /> : 'Turn on two-factor authentication'}
+                        </Button>
+                        <Button type="button" variant="link" className="w-full text-sm" onClick={cancelTwoFactor}>
+                          ← Back to login
+                        </Button>
+                      </form>
+                    ) : twoFactorStep === 'backup' ? (
+                      <div className="space-y-4">
+                        <div>
+                          <h3 className="text-lg font-semibold">Save your backup codes</h3>
+                          <p className="text-sm text-gray-500 mt-1">
+                            Each code works once if you lose your authenticator. They will not be shown again.
+                          </p>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2 font-mono text-sm p-3 bg-gray-50 rounded-md border">
+                          {backupCodes.map(code => (
+                            <span key={code}>{code}</span>
+                          ))}
+                        </div>
+
+                        <Button className="w-full" onClick={() => setTwoFactorStep('code')}>
+                          I have saved these codes
+                        </Button>
+                      </div>
+                    ) : twoFactorStep === 'code' ? (
+                      <form onSubmit={handleLogin} className="space-y-4">
+                        <div>
+                          <h3 className="text-lg font-semibold">Two-factor authentication</h3>
+                          <p className="text-sm text-gray-500 mt-1">
+                            Enter the code from your authenticator app, or one of your backup codes.
+                          </p>
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label htmlFor="two-factor-code">Authentication code</Label>
+                          <Input
+                            id="two-factor-code"
+                            autoComplete="one-time-code"
+                            placeholder="123456"
+                            value={twoFactorCode}
+                            onChange={(e) => setTwoFactorCode(e.target.value)}
+                            required
+                            disabled={isLoading}
+                          />
+                        </div>
+
+                        {error && (
+                          <div className="text-red-500 text-sm p-3 bg-red-50 rounded-md border border-red-100">{error}</div>
+                        )}
+
+                        <Button className="w-full" type="submit" disabled={isLoading}>
+                          {isLoading ? <LoaderOne /> : 'Verify'}
+                        </Button>
+                        <Button type="button" variant="link" className="w-full text-sm" onClick={cancelTwoFactor}>
+                          ← Back to login
+                        </Button>
+                      </form>
+                    ) : (
                     <form onSubmit={handleLogin} className="space-y-4">
                       {/* Username input */}
                       <div className="space-y-2">
@@ -336,6 +637,12 @@ export default function LoginPage() {
                           {error}
                         </div>
                       )}
+
+                      {needsVerification && (
+                        <Button type="button" variant="outline" className="w-full" onClick={handleResendVerification}>
+                          Resend verification email
+                        </Button>
+                      )}
                       
                       <Button 
                         className="w-full" 
@@ -347,9 +654,14 @@ export default function LoginPage() {
 
                       {/* Additional help text */}
                       <div className="text-xs text-gray-500 text-center mt-4">
-                        <p>Forgot your password? Ask your teacher or parent for help.</p>
+                        <p>
+                          Forgot your password?{' '}
+                          <Link href="/reset-password" className="text-blue-600 hover:underline">Reset it by email</Link>
+                          {' '}or ask your teacher or parent for help.
+                        </p>
                       </div>
                     </form>
+                    )}
                   </Card>
                 </TabsContent>
               </Tabs>
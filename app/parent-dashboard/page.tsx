@@ -0,0 +1,5 @@
+import ParentDashboard from '@/components/parent-dashboard'
+
+export default function ParentDashboardPage() {
+  return <ParentDashboard />
+}
@@ -0,0 +1,166 @@
+'use client'
+
+import { Suspense, useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card } from "@/components/ui/card"
+import LoaderOne from '@/components/LoaderOne'
+
+// Without a token the page asks for the account; with one it sets the new password
+function ResetPassword() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsLoading(true)
+
+    try {
+      const response = await fetch('/api/auth/password-reset/request', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage(data.message)
+      } else {
+        setError(data.error || 'Unable to send a reset link. Please try again.')
+      }
+    } catch (error) {
+      setError('Network error. Please check your connection and try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (password !== confirmPassword) {
+      setError('The passwords do not match')
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/auth/password-reset/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage(data.message)
+      } else {
+        setError(data.error || 'Unable to reset your password. Please try again.')
+      }
+    } catch (error) {
+      setError('Network error. Please check your connection and try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (message) {
+    return (
+      <Card className="w-full max-w-md p-6 space-y-4 text-center">
+        <h2 className="text-2xl font-bold text-gray-900">{token ? 'Password reset' : 'Check your email'}</h2>
+        <p className="text-sm text-gray-600">{message}</p>
+        <Button asChild className="w-full">
+          <Link href="/login">Back to sign in</Link>
+        </Button>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="w-full max-w-md p-6">
+      <form onSubmit={token ? handleConfirm : handleRequest} className="space-y-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">{token ? 'Choose a new password' : 'Reset your password'}</h2>
+          <p className="mt-2 text-sm text-gray-600">
+            {token
+              ? 'Use at least 8 characters with upper and lower case letters, a number and a symbol.'
+              : "Enter your email or username and we'll email you a link to reset your password."}
+          </p>
+        </div>
+
+        {token ? (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">New password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm new password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                disabled={isLoading}
+              />
+            </div>
+          </>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="reset-email">Email or username</Label>
+            <Input
+              id="reset-email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              disabled={isLoading}
+            />
+          </div>
+        )}
+
+        {error && (
+          <div className="text-red-500 text-sm p-3 bg-red-50 rounded-md border border-red-100">{error}</div>
+        )}
+
+        <Button className="w-full" type="submit" disabled={isLoading}>
+          {isLoading ? <LoaderOne /> : token ? 'Reset password' : 'Send reset link'}
+        </Button>
+
+        <div className="text-xs text-center">
+          <Link href="/login" className="text-blue-600 hover:underline">Back to sign in</Link>
+        </div>
+      </form>
+    </Card>
+  )
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen bg-white flex items-center justify-center py-8 px-4">
+      <Suspense fallback={<LoaderOne />}>
+        <ResetPassword />
+      </Suspense>
+    </div>
+  )
+}
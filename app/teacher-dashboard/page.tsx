@@ -0,0 +1,5 @@
+import TeacherDashboard from '@/components/teacher-dashboard'
+
+export default function TeacherDashboardPage() {
+  return <TeacherDashboard />
+}
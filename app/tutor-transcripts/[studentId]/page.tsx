@@ -0,0 +1,5 @@
+import TutorTranscripts from '@/components/tutor-transcripts'
+
+export default function TutorTranscriptsPage({ params }: { params: { studentId: string } }) {
+  return <TutorTranscripts studentId={params.studentId} />
+}
@@ -11,21 +11,22 @@ import ChatContent from "@/app/chat/ChatContent"
 import SimpleWebcamRecorder from "@/components/SimpleWebcamRecorder"
 import ScreenRecorder from "@/components/ScreenRecorder"
 
+// Questions come from the quiz session without their answers
 interface Question {
-  id: number
-  uuid: string
+  id: string
+  uuid?: string
   question_text: string
   options: string[]
-  correct_option: number
-  type: string
-  difficulty_level: number
+  difficulty_level?: number
   category?: string
 }
 
 interface Answer {
-  questionId: number
+  questionId: string
   selectedAnswer: string
   isCorrect: boolean
+  // Filled in once the session is finalised
+  correctAnswer?: string
 }
 
 export default function TutorialPage() {
@@ -44,110 +45,91 @@ export default function TutorialPage() {
     },
   ])
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const questionShownAtRef = useRef<number>(Date.now())
+  const quizSessionIdRef = useRef<string | null>(null)
 
-  // Fisher-Yates shuffle algorithm to randomize question order
-  // This ensures each tutorial session has a unique sequence, maximizing use of all 100 questions
-  const shuffleArray = <T,>(array: T[]): T[] => {
-    const shuffled = [...array] // Create a copy to avoid mutating the original
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1))
-      ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
-    }
-    return shuffled
-  }
-
+  // The server picks the questions for a new quiz session and scores the
+  // answers, so the browser never sees the correct options
   useEffect(() => {
-    const fetchSmartQuestions = async () => {
+    const startQuizSession = async () => {
       try {
-        // Try to fetch smart questions first
-        const response = await fetch('/api/smart-questions?count=5')
+        const response = await fetch('/api/quiz/sessions', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ count: 5 })
+        })
         if (!response.ok) {
-          throw new Error('Failed to fetch smart questions')
+          throw new Error('Failed to start quiz session')
         }
         const data = await response.json()
-        
-        if (data.success && Array.isArray(data.questions) && data.questions.length > 0) {
-          setQuestions(data.questions);
+
+        if (Array.isArray(data.questions) && data.questions.length > 0) {
+          quizSessionIdRef.current = data.sessionId
+          setQuestions(data.questions)
           setMessages(prev => [...prev, {
             role: 'ai',
             content: `Great! I've selected ${data.questions.length} personalized questions based on your learning progress. Let's begin!`
           }])
         } else {
-          throw new Error('No smart questions received')
+          throw new Error('No questions received')
         }
       } catch (error) {
-        console.error('Failed to fetch smart questions, falling back to regular questions:', error)
-        
-        // Fallback to regular questions API
-        try {
-          const response = await fetch('/api/questions')
-          if (!response.ok) {
-            throw new Error('Failed to fetch fallback questions')
-          }
-          const data = await response.json()
-          if (Array.isArray(data) && data.length > 0) {
-            // Convert old format to new format for compatibility
-            const convertedQuestions = data.map((q: any) => ({
-              id: q.id,
-              uuid: q.id.toString(), // Fallback UUID
-              question_text: q.question_text,
-              options: q.options,
-              correct_option: q.options.indexOf(q.correct_answer) + 1,
-              type: 'multiple_choice',
-              difficulty_level: 2,
-              category: 'general'
-            }));
-            
-            const shuffledQuestions = shuffleArray([...convertedQuestions]);
-            setQuestions(shuffledQuestions);
-            setMessages(prev => [...prev, {
-              role: 'ai',
-              content: 'I\'ve prepared some practice questions for you. Let\'s get started!'
-            }])
-          } else {
-            throw new Error('No questions received')
-          }
-        } catch (fallbackError) {
-          console.error('Failed to fetch fallback questions:', fallbackError)
-          setMessages(prev => [...prev, {
-            role: 'ai',
-            content: 'Sorry, I had trouble loading the questions. Please refresh the page.'
-          }])
-        }
+        console.error('Error starting quiz session:', error)
+        setMessages(prev => [...prev, {
+          role: 'ai',
+          content: 'Sorry, I had trouble loading the questions. Please refresh the page.'
+        }])
       } finally {
         setLoading(false)
       }
     }
 
-    fetchSmartQuestions()
+    startQuizSession()
   }, [])
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
   }, [messages])
 
+  // Response time is measured from when the question appears
+  useEffect(() => {
+    questionShownAtRef.current = Date.now()
+  }, [currentQuestionIndex, questions])
+
   const handleAnswer = async (selectedAnswer: string) => {
     const currentQuestion = questions[currentQuestionIndex]
-    if (!currentQuestion) return
+    if (!currentQuestion || !quizSessionIdRef.current) return
+
+    const responseTime = Date.now() - questionShownAtRef.current
 
-    const startTime = Date.now()
-    
-    // Determine correct answer based on question format
-    let correctAnswer: string
     let isCorrect: boolean
-    
-    if (currentQuestion.correct_option && currentQuestion.options) {
-      // New smart question format
-      correctAnswer = currentQuestion.options[currentQuestion.correct_option - 1]
-      isCorrect = selectedAnswer === correctAnswer
-    } else {
-      // Fallback format compatibility
-      correctAnswer = (currentQuestion as any).correct_answer || selectedAnswer
-      isCorrect = selectedAnswer === correctAnswer
+    try {
+      const response = await fetch(`/api/quiz/sessions/${quizSessionIdRef.current}/answers`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ questionId: currentQuestion.id, selectedAnswer, responseTimeMs: responseTime })
+      })
+      if (!response.ok) {
+        throw new Error(`Failed to submit answer: ${response.status}`)
+      }
+      const result = await response.json()
+      isCorrect = result.isCorrect
+    } catch (error) {
+      console.error('Failed to submit answer to quiz session:', error)
+      setMessages((prev) => [
+        ...prev,
+        {
+          role: "ai",
+          content: "Sorry, I couldn't check that answer. Please try again.",
+        },
+      ])
+      return
     }
 
-    const responseTime = Date.now() - startTime
-
     setUserAnswers((prev) => [
       ...prev,
       {
@@ -157,35 +139,13 @@ export default function TutorialPage() {
       },
     ])
 
-    // Record answer to smart question system
-    if (currentQuestion.uuid) {
-      try {
-        await fetch('/api/smart-questions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            question_uuid: currentQuestion.uuid,
-            user_answer: selectedAnswer,
-            correct_answer: correctAnswer,
-            is_correct: isCorrect,
-            response_time_ms: responseTime
-          })
-        })
-      } catch (error) {
-        console.error('Failed to record answer:', error)
-        // Continue with the tutorial even if recording fails
-      }
-    }
-
     setMessages((prev) => [
       ...prev,
       {
         role: "ai",
         content: isCorrect
           ? "Correct! Well done! Let's try another question."
-          : `Not quite. The correct answer is "${correctAnswer}". Let's keep practicing!`,
+          : "Not quite. You'll see the right answer at the end. Let's keep practicing!",
       },
     ])
 
@@ -199,46 +159,31 @@ export default function TutorialPage() {
 
   const saveQuizResults = async () => {
     try {
-      const { score, correct: correctAnswers, total } = calculateScore()
-      
-      const answers = userAnswers.map((answer) => {
-        const question = questions.find(q => q.id === answer.questionId)
-        let correctAnswer = ''
-        
-        if (question) {
-          if (question.correct_option && question.options) {
-            // New smart question format
-            correctAnswer = question.options[question.correct_option - 1]
-          } else {
-            // Fallback format compatibility
-            correctAnswer = (question as any).correct_answer || ''
-          }
-        }
-        
-        return {
-          questionText: question?.question_text || '',
-          selectedAnswer: answer.selectedAnswer,
-          correctAnswer,
-          isCorrect: answer.isCorrect
-        }
-      })
+      if (!quizSessionIdRef.current) {
+        throw new Error('No quiz session to finalise')
+      }
 
       const response = await fetch('/api/quiz-results', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          score,
-          correctAnswers,
-          totalQuestions: total,
-          answers
-        }),
+        body: JSON.stringify({ sessionId: quizSessionIdRef.current }),
       })
 
       if (!response.ok) {
         throw new Error('Failed to save quiz results')
       }
+
+      // The correct answers are only given out with the finalised result
+      const summary = await response.json()
+      const correctAnswers = new Map<string, string>(
+        (summary.answers || []).map((answer: { questionId: string; correctAnswer: string }) => [answer.questionId, answer.correctAnswer])
+      )
+      setUserAnswers(prev => prev.map(answer => ({
+        ...answer,
+        correctAnswer: correctAnswers.get(answer.questionId)
+      })))
     } catch (error) {
       console.error('Error saving quiz results:', error)
       // Optionally show an error message to the user
@@ -355,10 +300,7 @@ export default function TutorialPage() {
                         <>
                           <span className="font-medium text-gray-700">Correct:</span>
                           <span className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 text-xs">
-                            {questions[index].correct_option && questions[index].options 
-                              ? questions[index].options[questions[index].correct_option - 1]
-                              : (questions[index] as any).correct_answer || 'N/A'
-                            }
+                            {answer.correctAnswer || 'N/A'}
                           </span>
                         </>
                       )}
@@ -563,10 +505,7 @@ export default function TutorialPage() {
                 questionContext={{
                   id: questions[currentQuestionIndex].id,
                   text: questions[currentQuestionIndex].question_text,
-                  options: questions[currentQuestionIndex].options,
-                  correct_answer: questions[currentQuestionIndex].correct_option && questions[currentQuestionIndex].options
-                    ? questions[currentQuestionIndex].options[questions[currentQuestionIndex].correct_option - 1]
-                    : (questions[currentQuestionIndex] as any).correct_answer || ''
+                  options: questions[currentQuestionIndex].options
                 }}
                 enableContextAwareness={true}
                 isFirstQuestion={currentQuestionIndex === 0}
@@ -0,0 +1,69 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import LoaderOne from '@/components/LoaderOne'
+
+// Redeems the unlock link from the account lockout email
+function UnlockAccount() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const [status, setStatus] = useState<'pending' | 'success' | 'error'>('pending')
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    if (!token) {
+      setStatus('error')
+      setMessage('This unlock link is missing its token. Open the link from your email again.')
+      return
+    }
+
+    fetch('/api/auth/unlock', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token })
+    })
+      .then(async response => {
+        const data = await response.json()
+        setStatus(response.ok ? 'success' : 'error')
+        setMessage(response.ok ? data.message : data.error || 'Unable to unlock your account.')
+      })
+      .catch(() => {
+        setStatus('error')
+        setMessage('Network error. Please check your connection and try again.')
+      })
+  }, [token])
+
+  return (
+    <Card className="w-full max-w-md p-6 space-y-4 text-center">
+      <h2 className="text-2xl font-bold text-gray-900">Unlock your account</h2>
+
+      {status === 'pending' ? (
+        <div className="flex justify-center py-4">
+          <LoaderOne />
+        </div>
+      ) : (
+        <p className={`text-sm ${status === 'success' ? 'text-green-600' : 'text-red-600'}`}>{message}</p>
+      )}
+
+      {status !== 'pending' && (
+        <Button asChild className="w-full">
+          <Link href="/login">Back to sign in</Link>
+        </Button>
+      )}
+    </Card>
+  )
+}
+
+export default function UnlockAccountPage() {
+  return (
+    <div className="min-h-screen bg-white flex items-center justify-center py-8 px-4">
+      <Suspense fallback={<LoaderOne />}>
+        <UnlockAccount />
+      </Suspense>
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card } from "@/components/ui/card"
+import LoaderOne from '@/components/LoaderOne'
+
+// Redeems the link from the verification email, and offers a new link when it fails
+function VerifyEmail() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const [status, setStatus] = useState<'pending' | 'success' | 'error'>('pending')
+  const [message, setMessage] = useState('')
+  const [email, setEmail] = useState('')
+  const [isSending, setIsSending] = useState(false)
+  const [resendMessage, setResendMessage] = useState('')
+
+  useEffect(() => {
+    if (!token) {
+      setStatus('error')
+      setMessage('This verification link is missing its token. Open the link from your email again.')
+      return
+    }
+
+    fetch('/api/auth/verify-email', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token })
+    })
+      .then(async response => {
+        const data = await response.json()
+        setStatus(response.ok ? 'success' : 'error')
+        setMessage(response.ok ? data.message : data.error || 'Unable to verify your email address.')
+      })
+      .catch(() => {
+        setStatus('error')
+        setMessage('Network error. Please check your connection and try again.')
+      })
+  }, [token])
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSending(true)
+
+    try {
+      const response = await fetch('/api/auth/verify-email/resend', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
+      })
+      const data = await response.json()
+      setResendMessage(response.ok ? data.message : data.error || 'Unable to send a new link. Please try again.')
+    } catch (error) {
+      setResendMessage('Network error. Please check your connection and try again.')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-md p-6 space-y-4 text-center">
+      <h2 className="text-2xl font-bold text-gray-900">Verify your email</h2>
+
+      {status === 'pending' ? (
+        <div className="flex justify-center py-4">
+          <LoaderOne />
+        </div>
+      ) : (
+        <p className={`text-sm ${status === 'success' ? 'text-green-600' : 'text-red-600'}`}>{message}</p>
+      )}
+
+      {status === 'error' && (
+        resendMessage ? (
+          <p className="text-sm text-gray-600">{resendMessage}</p>
+        ) : (
+          <form onSubmit={handleResend} className="space-y-2 text-left">
+            <Label htmlFor="verify-email">Email or username</Label>
+            <Input
+              id="verify-email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              disabled={isSending}
+            />
+            <Button variant="outline" className="w-full" type="submit" disabled={isSending}>
+              {isSending ? <LoaderOne /> : 'Send a new link'}
+            </Button>
+          </form>
+        )
+      )}
+
+      {status !== 'pending' && (
+        <Button asChild className="w-full">
+          <Link href="/login">Back to sign in</Link>
+        </Button>
+      )}
+    </Card>
+  )
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen bg-white flex items-center justify-center py-8 px-4">
+      <Suspense fallback={<LoaderOne />}>
+        <VerifyEmail />
+      </Suspense>
+    </div>
+  )
+}
@@ -7,6 +7,7 @@ import { toast } from "@/components/ui/use-toast"
 import VoiceVisualizer from '@/components/VoiceVisualizer'
 import ErrorMessage from '@/components/ui/error-message'
 import { playTextToSpeech, getVoiceForMode } from '@/lib/tts-utils'
+import { readTutorStream, createSentenceQueue, TutorStreamHandlers } from '@/lib/tutor-stream'
 import { startSpeechRecognition, stopSpeechRecognition, isSpeechRecognitionSupported } from '@/lib/speech-utils'
 
 interface Message {
@@ -40,6 +41,8 @@ export default function AICourseAssistant({ mode, currentQuestion, quizResults }
   const recognitionRef = useRef<any>(null)
   const audioRef = useRef<HTMLAudioElement>(null)
   const previousMode = useRef<'proactive' | 'reactive' | 'assessment'>(mode)
+  // The stored conversation; the server starts one with the first request
+  const conversationIdRef = useRef<string | null>(null)
 
   const getCurrentTime = () => {
     return new Date().toLocaleTimeString('en-US', { hour12: false })
@@ -82,19 +85,8 @@ export default function AICourseAssistant({ mode, currentQuestion, quizResults }
     setIsLoading(true)
 
     try {
-      // Get AI response
-      const aiResponse = await getAIResponse([...messages, newMessage])
-      
-      const responseMessage: Message = {
-        role: 'assistant' as const,
-        content: aiResponse,
-        timestamp: getCurrentTime(),
-        id: `ai-${Date.now()}`
-      }
-      setMessages(prev => [...prev, responseMessage])
-
-      // Generate and play audio response
-      await playAudioResponse(aiResponse)
+      // Get AI response, showing and speaking it as it streams in
+      await streamAIResponse([...messages, newMessage], `ai-${Date.now()}`, true)
     } catch (error) {
       console.error('Error in handleUserInput:', error)
       toast({
@@ -137,7 +129,34 @@ export default function AICourseAssistant({ mode, currentQuestion, quizResults }
     }
   }
 
-  const getAIResponse = async (messageHistory: Message[]) => {
+  // Plays one sentence of a streamed reply and resolves once it has finished.
+  // isAiSpeaking stays on between sentences; streamAIResponse clears it
+  const speakSentence = (sentence: string, delayMs: number) => new Promise<void>((resolve, reject) => {
+    if (!audioRef.current) {
+      reject(new Error('Audio element not available'))
+      return
+    }
+
+    playTextToSpeech(
+      sentence,
+      audioRef.current,
+      getVoiceForMode(mode),
+      () => setIsAiSpeaking(true),
+      resolve,
+      (error) => {
+        console.error('Audio playback error:', error)
+        setIsAiSpeaking(false)
+        toast({
+          description: 'Failed to play audio response. Please try again.',
+          variant: "destructive"
+        })
+        reject(error)
+      },
+      delayMs
+    ).catch(reject)
+  })
+
+  const getAIResponse = async (messageHistory: Message[], handlers: TutorStreamHandlers = {}) => {
     try {
       const response = await fetch('/api/ai-tutor', {
         method: 'POST',
@@ -146,6 +165,7 @@ export default function AICourseAssistant({ mode, currentQuestion, quizResults }
         },
         body: JSON.stringify({
           mode,
+          conversationId: conversationIdRef.current || undefined,
           currentQuestion,
           messages: messageHistory.map(msg => ({
             role: msg.role,
@@ -154,38 +174,53 @@ export default function AICourseAssistant({ mode, currentQuestion, quizResults }
         }),
       })
 
-      if (!response.ok) throw new Error('Failed to get AI response')
-      
-      // Handle streaming response
-      if (response.body) {
-        const reader = response.body.getReader()
-        const decoder = new TextDecoder()
-        let content = ''
-        
-        try {
-          while (true) {
-            const { done, value } = await reader.read()
-            if (done) break
-            
-            const chunk = decoder.decode(value, { stream: true })
-            content += chunk
-          }
-        } finally {
-          reader.releaseLock()
-        }
-        
-        // Process the complete response to extract any highlighted hints
-        const highlightRegex = /\[HIGHLIGHT\](.*?)\[\/HIGHLIGHT\]/
-        return content.replace(highlightRegex, '$1')
-      } else {
-        throw new Error('No response body received')
-      }
+      conversationIdRef.current = response.headers.get('X-Tutor-Conversation') || conversationIdRef.current
+
+      // The highlight markers are dropped; the hint is read out with the rest
+      const reply = await readTutorStream(response, handlers)
+      return reply.content
     } catch (error) {
       console.error('Error getting AI response:', error)
       return 'I apologize, but I encountered an error. Please try again.'
     }
   }
 
+  // Adds the reply to the messages as it streams in and, if speak is set,
+  // starts reading it out with the first complete sentence
+  const streamAIResponse = async (messageHistory: Message[], id: string, speak: boolean): Promise<void> => {
+    const timestamp = getCurrentTime()
+    const showResponse = (content: string) => {
+      const responseMessage: Message = { role: 'assistant' as const, content, timestamp, id }
+      setMessages(prev => prev.some(message => message.id === id)
+        ? prev.map(message => message.id === id ? responseMessage : message)
+        : [...prev, responseMessage])
+    }
+
+    // Only the first sentence waits for speech recognition to let go of the audio
+    let playedCount = 0
+    const speech = createSentenceQueue(sentence => speakSentence(sentence, playedCount++ === 0 ? 500 : 0))
+    let sentenceCount = 0
+    const speakNext = (sentence: string) => {
+      sentenceCount++
+      speech.push(sentence)
+    }
+
+    const aiResponse = await getAIResponse(messageHistory, {
+      onUpdate: reply => showResponse(reply.content),
+      onSentence: speak ? speakNext : undefined
+    })
+
+    // On failure getAIResponse returns an apology, which replaces anything shown so far
+    showResponse(aiResponse)
+    if (!speak) return
+
+    if (sentenceCount === 0) {
+      speakNext(aiResponse)
+    }
+    await speech.finish()
+    setIsAiSpeaking(false)
+  }
+
   useEffect(() => {
     const initializeChat = async () => {
       if (!hasInitialized.current) {
@@ -193,24 +228,9 @@ export default function AICourseAssistant({ mode, currentQuestion, quizResults }
           hasInitialized.current = true
           setIsLoading(true)
           
-          // Get initial AI response
-          const initialResponse = await getAIResponse([])
-          
-          // Create message object
-          const message: Message = {
-            role: 'assistant' as const,
-            content: initialResponse,
-            timestamp: getCurrentTime(),
-            id: 'initial'
-          }
-          
-          setMessages([message])
+          // Get initial AI response, automatically speaking it in proactive mode
+          await streamAIResponse([], 'initial', mode === 'proactive')
           setIsLoading(false)
-          
-          // Automatically speak the initial message in proactive mode
-          if (mode === 'proactive') {
-            await playAudioResponse(initialResponse)
-          }
         } catch (error) {
           console.error('Error initializing chat:', error)
           setIsLoading(false)
@@ -251,20 +271,8 @@ export default function AICourseAssistant({ mode, currentQuestion, quizResults }
             id: `hint-${Date.now()}`
           }
           
-          // Get AI response for the hint
-          const hintResponse = await getAIResponse([...messages, hintRequest])
-          
-          // Create and add the assistant message with the hint
-          const message: Message = {
-            role: 'assistant' as const,
-            content: hintResponse,
-            timestamp: getCurrentTime(),
-            id: `hint-response-${Date.now()}`
-          }
-          setMessages(prev => [...prev, message])
-
-          // Automatically speak hints in proactive mode
-          await playAudioResponse(hintResponse)
+          // Get AI response for the hint; hints are spoken automatically in proactive mode
+          await streamAIResponse([...messages, hintRequest], `hint-response-${Date.now()}`, true)
         } catch (error) {
           console.error('Error getting hint:', error)
           toast({
@@ -317,13 +325,10 @@ export default function AICourseAssistant({ mode, currentQuestion, quizResults }
             id: 'mode-change'
           }
         } else {
-          const initialResponse = await getAIResponse([])
-          initialMessage = {
-            role: 'assistant' as const,
-            content: initialResponse,
-            timestamp: getCurrentTime(),
-            id: 'mode-change'
-          }
+          // The proactive lesson streams in and is spoken as it arrives
+          await streamAIResponse([], 'mode-change', true)
+          setIsLoading(false)
+          return
         }
 
         setMessages([initialMessage])
@@ -4,6 +4,7 @@ import { useState, useRef, useCallback, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { CirclePlay, StopCircle, Upload } from 'lucide-react'
 import { useToast } from '@/components/ui/use-toast'
+import { useRecordingConsent } from '@/hooks/useRecordingConsent'
 import { useCloudinaryUpload } from '@/hooks/useCloudinaryUpload'
 import { WebcamRecorderProps } from '@/types/cloudinary'
 import dynamic from 'next/dynamic'
@@ -41,6 +42,7 @@ export default function CircularWebcamRecorder({
   uploadToCloudinary = true,
 }: CircularWebcamRecorderProps) {
   const { toast } = useToast()
+  const { ensureConsent } = useRecordingConsent()
   const webcamRef = useRef<any>(null)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
   const [isRecording, setIsRecording] = useState(false)
@@ -80,7 +82,7 @@ export default function CircularWebcamRecorder({
   }, [])
 
   // Start recording function
-  const handleStartRecording = useCallback(() => {
+  const handleStartRecording = useCallback(async () => {
     if (!webcamRef.current?.stream) {
       toast({
         title: "Camera Error",
@@ -90,6 +92,8 @@ export default function CircularWebcamRecorder({
       return
     }
 
+    if (!(await ensureConsent('webcam')) || !webcamRef.current?.stream) return
+
     // Reset recording state
     setRecordedChunks([])
     setRecordingDuration(0)
@@ -156,7 +160,7 @@ export default function CircularWebcamRecorder({
         variant: "destructive"
       })
     }
-  }, [onRecordingStart, toast])
+  }, [ensureConsent, onRecordingStart, toast])
 
   // Handle data chunks from recorder
   const handleDataAvailable = useCallback(({ data }: BlobEvent) => {
@@ -0,0 +1,110 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from "@/components/ui/button"
+import LoaderOne from '@/components/LoaderOne'
+import { useFaceCapture } from '@/hooks/useFaceCapture'
+import type { FaceChallenge, FaceFrame, FaceLivenessAction } from '@/types/face'
+
+const CAPTURE_DURATION_MS = 5000
+
+const ACTION_PROMPTS: Record<FaceLivenessAction, string> = {
+  blink: 'Look at the camera and blink slowly a couple of times',
+  turn_head: 'Look at the camera, then slowly turn your head to one side and back'
+}
+
+interface FaceCaptureProps {
+  getChallenge: () => Promise<FaceChallenge>;
+  // Throw to show the error's message and let the user try again
+  onCapture: (challenge: FaceChallenge, frames: FaceFrame[]) => Promise<void>;
+  onCancel: () => void;
+  submitLabel: string;
+}
+
+// Camera view that asks for a liveness action and records the face while it is done
+export default function FaceCapture({ getChallenge, onCapture, onCancel, submitLabel }: FaceCaptureProps) {
+  const webcamRef = useRef<any>(null)
+  const [WebcamComponent, setWebcamComponent] = useState<any>(null)
+  const [busy, setBusy] = useState(false)
+  const [prompt, setPrompt] = useState('')
+  const [error, setError] = useState('')
+  const { modelsReady, modelError, capture } = useFaceCapture()
+
+  useEffect(() => {
+    // Only import the webcam component on the client side
+    async function loadWebcam() {
+      try {
+        const webcamModule = await import('react-webcam')
+        setWebcamComponent(() => webcamModule.default)
+      } catch (error) {
+        console.error('Failed to load webcam component:', error)
+      }
+    }
+
+    loadWebcam()
+  }, [])
+
+  const startCapture = async () => {
+    const video: HTMLVideoElement | undefined = webcamRef.current?.video
+    if (!video) return
+
+    setBusy(true)
+    setError('')
+    try {
+      const challenge = await getChallenge()
+      setPrompt(ACTION_PROMPTS[challenge.action])
+
+      const frames = await capture(video, CAPTURE_DURATION_MS)
+      setPrompt('Checking...')
+      await onCapture(challenge, frames)
+    } catch (error) {
+      console.error('Face capture error:', error)
+      setError(error instanceof Error ? error.message : 'Something went wrong. Please try again.')
+    } finally {
+      setPrompt('')
+      setBusy(false)
+    }
+  }
+
+  if (!WebcamComponent) {
+    return (
+      <div className="w-full aspect-video bg-gray-100 rounded-lg flex items-center justify-center">
+        <p className="text-gray-500">Camera loading...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="w-full aspect-video bg-gray-100 rounded-lg overflow-hidden relative">
+        <WebcamComponent
+          ref={webcamRef}
+          audio={false}
+          mirrored={true}
+          videoConstraints={{
+            width: 640,
+            height: 480,
+            facingMode: "user"
+          }}
+          className="w-full h-full object-cover"
+        />
+        {prompt && (
+          <div className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-sm text-center p-3">{prompt}</div>
+        )}
+      </div>
+
+      {(error || modelError) && (
+        <div className="text-red-500 text-sm p-3 bg-red-50 rounded-md border border-red-100">{error || modelError}</div>
+      )}
+
+      <div className="flex gap-3">
+        <Button variant="outline" className="flex-1" onClick={onCancel} disabled={busy}>
+          Cancel
+        </Button>
+        <Button className="flex-1" onClick={startCapture} disabled={busy || !modelsReady}>
+          {busy || (!modelsReady && !modelError) ? <LoaderOne /> : submitLabel}
+        </Button>
+      </div>
+    </div>
+  )
+}
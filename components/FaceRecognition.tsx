@@ -1,145 +1,66 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { Button } from "@/components/ui/button"
-import LoaderOne from '@/components/LoaderOne'
+import FaceCapture from '@/components/FaceCapture'
+import type { FaceChallenge, FaceFrame } from '@/types/face'
+
+export interface FaceLoginUser {
+  id: string;
+  username: string;
+  role: string;
+  full_name?: string;
+}
 
 interface FaceRecognitionProps {
-  onSuccess: () => void;
+  username: string;
+  onSuccess: (user: FaceLoginUser) => void;
   onCancel: () => void;
-  isLoading: boolean;
-  setIsLoading: (loading: boolean) => void;
-  setFaceMessage: (message: string) => void;
-  setFaceSuccess: (success: boolean) => void;
 }
 
-export default function FaceRecognition({
-  onSuccess,
-  onCancel,
-  isLoading,
-  setIsLoading,
-  setFaceMessage,
-  setFaceSuccess
-}: FaceRecognitionProps) {
-  const [mounted, setMounted] = useState(false)
-  const [WebcamComponent, setWebcamComponent] = useState<any>(null)
+// Signs the user in by comparing their face with the one they enrolled
+export default function FaceRecognition({ username, onSuccess, onCancel }: FaceRecognitionProps) {
+  const getChallenge = async (): Promise<FaceChallenge> => {
+    const response = await fetch('/api/auth/face-login/challenge', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username })
+    })
+    const data = await response.json()
 
-  useEffect(() => {
-    // Only import the webcam component on the client side
-    async function loadWebcam() {
-      try {
-        // Dynamic import of the webcam component
-        const webcamModule = await import('react-webcam')
-        setWebcamComponent(() => webcamModule.default)
-        setMounted(true)
-      } catch (error) {
-        console.error('Failed to load webcam component:', error)
-      }
-    }
-    
-    loadWebcam()
-  }, [])
-
-  // Handle face detection with Google ML Kit (simulated for demo)
-  const detectFaceWithMLKit = async () => {
-    setIsLoading(true)
-    setFaceMessage('Detecting your face...')
-    
-    try {
-      // For demo purposes, we'll simulate the face detection process
-      await new Promise(resolve => setTimeout(resolve, 1500))
-      
-      setFaceMessage('Analyzing facial features...')
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      // Improved success rate for better development experience (95% success rate)
-      const randomValue = Math.random()
-      const success = randomValue > 0.05 // 95% success rate for demo
-      
-      // Add debugging information
-      console.log('Face detection attempt:', { randomValue, success, threshold: 0.05 })
-      
-      if (success) {
-        setFaceSuccess(true)
-        setFaceMessage('Hi there! Taking you to your learning space...')
-        
-        // Call the success callback after a short delay
-        setTimeout(() => {
-          onSuccess()
-        }, 1500)
-      } else {
-        throw new Error('Face not recognized - please ensure good lighting and face the camera directly')
-      }
-    } catch (error) {
-      console.error('Face detection error:', error)
-      setFaceMessage('Face not recognized. Please ensure good lighting and try again.')
-      setFaceSuccess(false)
-      
-      // Reset after a delay
-      setTimeout(() => {
-        setFaceMessage('')
-      }, 4000)
-    } finally {
-      setIsLoading(false)
+    if (!response.ok) {
+      throw new Error(response.status === 429 ? 'Too many login attempts. Please wait a few minutes.' : data.error || 'Could not start face login')
     }
+    return data
   }
 
-  // Skip face recognition for development purposes
-  const skipFaceRecognition = () => {
-    setFaceMessage('Skipping face recognition...')
-    setFaceSuccess(true)
-    setTimeout(() => {
-      onSuccess()
-    }, 500)
-  }
+  const login = async (challenge: FaceChallenge, frames: FaceFrame[]) => {
+    const response = await fetch('/api/auth/face-login', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Requested-With': 'XMLHttpRequest'
+      },
+      body: JSON.stringify({ username, challenge_token: challenge.challenge_token, frames })
+    })
+    const data = await response.json()
 
-  if (!mounted || !WebcamComponent) {
-    return (
-      <div className="w-full aspect-video bg-gray-100 rounded-lg flex items-center justify-center">
-        <p className="text-gray-500">Camera loading...</p>
-      </div>
-    )
+    if (response.status === 423) {
+      throw new Error('Your account is locked for now. Ask a grown-up to help, or try again later.')
+    }
+    if (!response.ok) {
+      throw new Error(data.error === 'Face not recognized'
+        ? 'We could not recognise your face. Check the lighting and try again, or use your password.'
+        : data.error || 'Face login failed')
+    }
+
+    onSuccess(data.user)
   }
 
   return (
-    <div className="space-y-4">
-      <div className="w-full aspect-video bg-gray-100 rounded-lg overflow-hidden relative">
-        <WebcamComponent
-          audio={false}
-          mirrored={true}
-          screenshotFormat="image/jpeg"
-          videoConstraints={{
-            width: 640,
-            height: 480,
-            facingMode: "user"
-          }}
-          className="w-full h-full object-cover"
-          onUserMedia={() => console.log('Webcam ready')}
-        />
-
-      </div>
-
-      <div className="space-y-3">
-        <div className="flex gap-3">
-          <Button variant="outline" className="flex-1" onClick={onCancel} disabled={isLoading}>
-            Cancel
-          </Button>
-          <Button className="flex-1" onClick={detectFaceWithMLKit} disabled={isLoading}>
-            {isLoading ? <LoaderOne /> : 'Verify Face'}
-          </Button>
-        </div>
-        
-        {/* Development skip option */}
-        <Button 
-          variant="ghost" 
-          size="sm" 
-          className="w-full text-xs text-gray-500 hover:text-gray-700" 
-          onClick={skipFaceRecognition}
-          disabled={isLoading}
-        >
-          Skip Face Recognition (Dev Mode)
-        </Button>
-      </div>
-    </div>
+    <FaceCapture
+      getChallenge={getChallenge}
+      onCapture={login}
+      onCancel={onCancel}
+      submitLabel="Verify Face"
+    />
   )
 }
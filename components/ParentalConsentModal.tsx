@@ -6,35 +6,55 @@ import { Button } from '@/components/ui/button'
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
 import { Label } from '@/components/ui/label'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import { Checkbox } from '@/components/ui/checkbox'
 import { CheckCircle, XCircle } from 'lucide-react'
+import type { RecordingConsentScope } from '@/types/consent'
+
+const SCOPE_LABELS: Record<RecordingConsentScope, string> = {
+  webcam: 'Webcam video',
+  screen: 'Screen capture',
+  voice: 'Voice (microphone audio)'
+}
 
 interface ParentalConsentModalProps {
   isOpen: boolean
   onClose: () => void
-  onConsent: (granted: boolean) => void
+  // The scopes are the ones ticked when granting, and empty when declining
+  onConsent: (granted: boolean, scopes: RecordingConsentScope[]) => void
+  childName?: string
+  policyVersion?: string
+  initialScopes?: RecordingConsentScope[]
 }
 
 export default function ParentalConsentModal({
   isOpen,
   onClose,
   onConsent,
+  childName,
+  policyVersion,
+  initialScopes = ['webcam', 'screen', 'voice'],
 }: ParentalConsentModalProps) {
   const [consentChoice, setConsentChoice] = useState<string>('')
+  const [scopes, setScopes] = useState<RecordingConsentScope[]>(initialScopes)
+
+  const toggleScope = (scope: RecordingConsentScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(s => s !== scope))
+  }
+
+  const canSubmit = consentChoice === 'deny' || (consentChoice === 'grant' && scopes.length > 0)
 
   const handleSubmit = () => {
-    console.log('Submit clicked with choice:', consentChoice)
     if (consentChoice === 'grant') {
-      console.log('Calling onConsent(true)')
-      onConsent(true)
+      onConsent(true, scopes)
     } else if (consentChoice === 'deny') {
-      console.log('Calling onConsent(false)')
-      onConsent(false)
+      onConsent(false, [])
     }
-    onClose()
+    handleClose()
   }
 
   const handleClose = () => {
     setConsentChoice('')
+    setScopes(initialScopes)
     onClose()
   }
 
@@ -45,6 +65,13 @@ export default function ParentalConsentModal({
           <DialogTitle className="text-2xl font-bold text-center text-red-600">
             PARENTAL AUTHORIZATION FOR VIDEO RECORDING
           </DialogTitle>
+          {(childName || policyVersion) && (
+            <p className="text-sm text-center text-gray-600">
+              {childName && <>For <strong>{childName}</strong></>}
+              {childName && policyVersion && ' • '}
+              {policyVersion && <>Policy version {policyVersion}</>}
+            </p>
+          )}
         </DialogHeader>
         
         <ScrollArea className="flex-1 px-6 border border-gray-200 mx-6 rounded-md">
@@ -129,7 +156,7 @@ export default function ParentalConsentModal({
                 YOUR RIGHTS AS A PARENT/GUARDIAN:
               </h3>
               <div className="space-y-2 text-gray-700">
-                <p><strong>Right to Withdraw Consent:</strong> You may withdraw your consent at any time by contacting us. Upon withdrawal, we will cease using the content and make reasonable efforts to remove it from public platforms, though we cannot guarantee complete removal from third-party sites where it may have been shared.</p>
+                <p><strong>Right to Withdraw Consent:</strong> You may withdraw your consent at any time from your parent dashboard, for all or some kinds of recording. Upon withdrawal, we will cease using the content and make reasonable efforts to remove it from public platforms, though we cannot guarantee complete removal from third-party sites where it may have been shared.</p>
                 <p><strong>Right to Access:</strong> You may request access to all recordings featuring your child.</p>
                 <p><strong>Right to Deletion:</strong> You may request the deletion of specific recordings or all recordings featuring your child.</p>
                 <p><strong>Right to Opt-Out:</strong> You may choose not to provide consent, and your child will still have access to all learning activities without recording.</p>
@@ -172,10 +199,7 @@ export default function ParentalConsentModal({
           
           <RadioGroup 
             value={consentChoice} 
-            onValueChange={(value) => {
-              console.log('Radio group value changed to:', value)
-              setConsentChoice(value)
-            }} 
+            onValueChange={setConsentChoice}
             className="space-y-4"
           >
             <div className="flex items-start space-x-3 p-4 border-2 border-green-200 rounded-lg hover:border-green-400 transition-colors">
@@ -186,13 +210,29 @@ export default function ParentalConsentModal({
                   <span className="font-bold text-green-700">I GRANT CONSENT</span>
                 </div>
                 <p className="text-sm text-gray-600">
-                  I am the parent/legal guardian of the child named below. I have read, understood, and agree to the terms 
+                  I am the parent/legal guardian of the child named above. I have read, understood, and agree to the terms 
                   outlined in this authorization form. I consent to the recording and public sharing of my child's learning 
                   activities as described above.
                 </p>
               </Label>
             </div>
 
+            {consentChoice === 'grant' && (
+              <div className="ml-8 space-y-2">
+                <p className="text-sm font-medium text-gray-700">Allow these kinds of recording:</p>
+                {(Object.keys(SCOPE_LABELS) as RecordingConsentScope[]).map(scope => (
+                  <div key={scope} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`consent-${scope}`}
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    />
+                    <Label htmlFor={`consent-${scope}`} className="text-sm cursor-pointer">{SCOPE_LABELS[scope]}</Label>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="flex items-start space-x-3 p-4 border-2 border-red-200 rounded-lg hover:border-red-400 transition-colors">
               <RadioGroupItem value="deny" id="deny" className="mt-1" />
               <Label htmlFor="deny" className="flex-1 cursor-pointer">
@@ -218,14 +258,14 @@ export default function ParentalConsentModal({
             </Button>
             <Button 
               onClick={handleSubmit}
-              disabled={!consentChoice}
+              disabled={!canSubmit}
               className={`px-8 ${
-                !consentChoice 
+                !canSubmit 
                   ? 'bg-gray-300 text-gray-500 cursor-not-allowed' 
                   : 'bg-blue-600 hover:bg-blue-700 text-white'
               }`}
             >
-              {!consentChoice ? 'Please Select an Option Above' : 'Submit Decision'}
+              {!consentChoice ? 'Please Select an Option Above' : !canSubmit ? 'Select at Least One Kind' : 'Submit Decision'}
             </Button>
           </div>
         </div>
@@ -6,7 +6,7 @@ import { Monitor, Square, Upload } from 'lucide-react'
 import { useToast } from '@/components/ui/use-toast'
 import { useCloudinaryUpload } from '@/hooks/useCloudinaryUpload'
 import { ScreenRecorderProps } from '@/types/cloudinary'
-import ParentalConsentModal from './ParentalConsentModal'
+import { useRecordingConsent } from '@/hooks/useRecordingConsent'
 
 export default function ScreenRecorder({
   onRecordingStart,
@@ -21,11 +21,10 @@ export default function ScreenRecorder({
   className = '',
 }: ScreenRecorderProps) {
   const { toast } = useToast()
+  const { ensureConsent } = useRecordingConsent()
   const [isRecording, setIsRecording] = useState(false)
   const [recordedChunks, setRecordedChunks] = useState<Blob[]>([])
   const [recordingDuration, setRecordingDuration] = useState(0)
-  const [showConsentModal, setShowConsentModal] = useState(false)
-  const [hasParentalConsent, setHasParentalConsent] = useState(false)
   const [recordingMimeType] = useState<string>('video/webm')
   const [fileExtension] = useState<string>('webm')
   const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null)
@@ -56,7 +55,7 @@ export default function ScreenRecorder({
     }
   }, [])
 
-  // Start actual recording function (called after consent is granted)
+  // Start actual recording function (called once parental consent is confirmed)
   const startActualRecording = useCallback(async () => {
     console.log('Starting screen recording...');
     try {
@@ -207,26 +206,6 @@ export default function ScreenRecorder({
     }
   }, [onRecordingStart, toast])
 
-  // Handle consent modal response
-  const handleConsentResponse = useCallback((granted: boolean) => {
-    console.log('Consent response received:', granted)
-    setHasParentalConsent(granted)
-    setShowConsentModal(false)
-    
-    if (granted) {
-      console.log('Consent granted, starting recording...')
-      // Proceed with recording
-      startActualRecording()
-    } else {
-      console.log('Consent denied')
-      toast({
-        title: "Recording Cancelled",
-        description: "Parental consent is required to record screen activities.",
-        variant: "destructive"
-      })
-    }
-  }, [toast, startActualRecording])
-
   // Handle stop recording
   const handleStopRecording = useCallback(() => {
     console.log('Stopping recording...');
@@ -253,22 +232,13 @@ export default function ScreenRecorder({
   }, [isRecording])
 
   // Handle record button click
-  const handleRecordClick = useCallback(() => {
-    console.log('Record button clicked, isRecording:', isRecording, 'hasParentalConsent:', hasParentalConsent)
+  const handleRecordClick = useCallback(async () => {
     if (isRecording) {
       handleStopRecording()
-    } else {
-      // Check if we already have consent
-      if (hasParentalConsent) {
-        console.log('Already have consent, starting recording directly')
-        startActualRecording()
-      } else {
-        console.log('No consent yet, showing modal')
-        // Show consent modal first
-        setShowConsentModal(true)
-      }
+    } else if (await ensureConsent('screen')) {
+      startActualRecording()
     }
-  }, [isRecording, hasParentalConsent, handleStopRecording, startActualRecording])
+  }, [isRecording, ensureConsent, handleStopRecording, startActualRecording])
 
   // Process recording when chunks are available
   useEffect(() => {
@@ -466,13 +436,6 @@ export default function ScreenRecorder({
           <span className="text-xs">Upload</span>
         </Button>
       )}
-
-      {/* Parental Consent Modal */}
-      <ParentalConsentModal
-        isOpen={showConsentModal}
-        onClose={() => setShowConsentModal(false)}
-        onConsent={handleConsentResponse}
-      />
     </div>
   )
 }
@@ -4,6 +4,7 @@ import { useState, useRef, useCallback, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { CirclePlay, StopCircle, Upload } from 'lucide-react'
 import { useToast } from '@/components/ui/use-toast'
+import { useRecordingConsent } from '@/hooks/useRecordingConsent'
 import { useCloudinaryUpload } from '@/hooks/useCloudinaryUpload'
 import { WebcamRecorderProps } from '@/types/cloudinary'
 
@@ -26,6 +27,7 @@ export default function SimpleWebcamRecorder({
   uploadToCloudinary = true,
 }: SimpleWebcamRecorderProps) {
   const { toast } = useToast()
+  const { ensureConsent } = useRecordingConsent()
   const videoRef = useRef<HTMLVideoElement | null>(null)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
   const streamRef = useRef<MediaStream | null>(null)
@@ -88,7 +90,7 @@ export default function SimpleWebcamRecorder({
   }, [toast])
 
   // Start recording function
-  const handleStartRecording = useCallback(() => {
+  const handleStartRecording = useCallback(async () => {
     if (!streamRef.current) {
       toast({
         title: "Camera Error",
@@ -98,6 +100,8 @@ export default function SimpleWebcamRecorder({
       return
     }
 
+    if (!(await ensureConsent('webcam')) || !streamRef.current) return
+
     // Reset recording state
     setRecordedChunks([])
     setRecordingDuration(0)
@@ -168,7 +172,7 @@ export default function SimpleWebcamRecorder({
         variant: "destructive"
       })
     }
-  }, [toast])
+  }, [ensureConsent, toast])
 
   // Stop recording function
   const handleStopRecording = useCallback(() => {
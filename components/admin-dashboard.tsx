@@ -28,7 +28,17 @@ import {
   Eye,
   CheckCircle,
   XCircle,
-  Volume2
+  Volume2,
+  ShieldCheck,
+  ScrollText,
+  AlertTriangle,
+  Lock,
+  Unlock,
+  Mail,
+  MonitorSmartphone,
+  UserCog,
+  MessageCircle,
+  ShieldAlert
 } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
@@ -44,23 +54,28 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Progress } from '@/components/ui/progress'
 import { Separator } from '@/components/ui/separator'
+import { Checkbox } from '@/components/ui/checkbox'
 import { TTSConfigManager } from '@/lib/tts-config'
 import { testBrowserTTS } from '@/lib/browser-tts'
+import type { ActiveSessionView } from '@/types/auth'
+import type { ModerationIncidentView } from '@/types/moderation'
 
 // Types
 interface User {
   id: number
   username: string
-  role: 'student' | 'admin'
+  role: 'student' | 'admin' | 'parent' | 'teacher'
   email?: string
   full_name?: string
+  email_verified?: boolean
+  account_status?: string
   created_at: string
 }
 
 interface NewUser {
   username: string
   password: string
-  role: 'student' | 'admin'
+  role: 'student' | 'admin' | 'parent' | 'teacher'
   email: string
   full_name: string
 }
@@ -94,8 +109,12 @@ interface StudentProgress {
   name: string
   email: string
   progress: number
+  masteredQuestions: number
+  questionsSeen: number
   totalQuizzes: number
   averageScore: number
+  questionsAnswered: number
+  accuracy: number
   lastActivity: string | null
   status: string
 }
@@ -109,6 +128,72 @@ interface RecentActivity {
   score?: number
 }
 
+interface LinkRequest {
+  id: string
+  parentName: string
+  childName: string
+  relationship_type: string
+  message?: string
+  created_at: string
+}
+
+interface PermissionDefinition {
+  id: string
+  name: string
+  description: string
+  resource: string
+  action: string
+}
+
+interface RoleGrant {
+  id: string
+  role: string
+  permission_id: string
+}
+
+const PERMISSION_ROLES = ['student', 'parent', 'teacher', 'admin']
+
+interface LockedAccount {
+  id: string
+  user_id: string
+  userName: string
+  email: string | null
+  reason: string
+  locked_at: string
+  locked_until?: string
+}
+
+interface AuditLogEntry {
+  id: string
+  user_id?: string
+  userName: string | null
+  event_type: string
+  event_category: string
+  description: string
+  ip_address?: string
+  risk_level: 'low' | 'medium' | 'high' | 'critical'
+  success: boolean
+  created_at: string
+}
+
+interface AuditLogFilters {
+  user: string
+  eventType: string
+  riskLevel: string
+  from: string
+  to: string
+}
+
+const AUDIT_EVENT_TYPES = [
+  'login_success', 'login_failure', 'logout', 'password_change', 'password_reset_request',
+  'password_reset_complete', 'email_verification', 'account_locked', 'account_unlocked',
+  'profile_update', 'permission_change', 'access_denied', 'admin_action', 'suspicious_activity',
+  'data_export', 'account_creation', 'account_deletion', '2fa_enabled', '2fa_disabled', 'session_expired', 'session_revoked',
+  'consent_granted', 'consent_revoked', 'face_enrolled', 'face_removed', 'moderation_reviewed'
+]
+
+const AUDIT_LOG_PAGE_SIZE = 25
+
 interface QuizAnswer {
   id: number
   quiz_result_id: number
@@ -150,6 +235,9 @@ export default function AdminDashboard() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
   const [editingUser, setEditingUser] = useState<User | null>(null)
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null)
+  const [userSessions, setUserSessions] = useState<ActiveSessionView[]>([])
+  const [userSessionsLoading, setUserSessionsLoading] = useState(false)
   
   // Form states
   const [newUser, setNewUser] = useState<NewUser>({
@@ -179,6 +267,19 @@ export default function AdminDashboard() {
   })
   const [studentProgress, setStudentProgress] = useState<StudentProgress[]>([])
   const [recentActivities, setRecentActivities] = useState<RecentActivity[]>([])
+  const [activitiesPage, setActivitiesPage] = useState(1)
+  const [hasMoreActivities, setHasMoreActivities] = useState(false)
+  const [linkRequests, setLinkRequests] = useState<LinkRequest[]>([])
+  const [lockedAccounts, setLockedAccounts] = useState<LockedAccount[]>([])
+  const [moderationIncidents, setModerationIncidents] = useState<ModerationIncidentView[]>([])
+  const [permissions, setPermissions] = useState<PermissionDefinition[]>([])
+  const [roleGrants, setRoleGrants] = useState<RoleGrant[]>([])
+  const [permissionsLoading, setPermissionsLoading] = useState(false)
+  const [auditLogs, setAuditLogs] = useState<AuditLogEntry[]>([])
+  const [auditLogFilters, setAuditLogFilters] = useState<AuditLogFilters>({ user: '', eventType: 'all', riskLevel: 'all', from: '', to: '' })
+  const [auditLogPage, setAuditLogPage] = useState(1)
+  const [auditLogTotal, setAuditLogTotal] = useState(0)
+  const [auditLogsLoading, setAuditLogsLoading] = useState(false)
   const [dashboardLoading, setDashboardLoading] = useState(true)
 
   // Quiz details modal state
@@ -286,13 +387,16 @@ export default function AdminDashboard() {
   }
 
   // Fetch recent activities
-  const fetchRecentActivities = async () => {
+  const fetchRecentActivities = async (page: number = 1) => {
     try {
-      const response = await fetch('/api/admin/recent-activities')
+      const response = await fetch(`/api/admin/recent-activities?page=${page}&limit=10`)
       const data = await response.json()
       
-      if (response.ok && Array.isArray(data)) {
-        setRecentActivities(data)
+      if (response.ok && Array.isArray(data.activities)) {
+        // Later pages are appended to the feed already shown
+        setRecentActivities(prev => page === 1 ? data.activities : [...prev, ...data.activities])
+        setActivitiesPage(page)
+        setHasMoreActivities(Boolean(data.pagination?.hasMore))
       } else {
         console.error('Failed to fetch recent activities:', data.error)
         setRecentActivities([]) // Ensure recentActivities is always an array
@@ -339,6 +443,274 @@ export default function AdminDashboard() {
     }
   }
 
+  // Fetch pending parent link requests
+  const fetchLinkRequests = async () => {
+    try {
+      const response = await fetch('/api/link-requests')
+      const data = await response.json()
+
+      if (response.ok && Array.isArray(data.pendingApprovals)) {
+        setLinkRequests(data.pendingApprovals)
+      } else {
+        console.error('Failed to fetch link requests:', data.error)
+        setLinkRequests([])
+      }
+    } catch (error) {
+      console.error('Error fetching link requests:', error)
+      setLinkRequests([])
+    }
+  }
+
+  // Approve or reject a parent link request
+  const handleLinkRequestDecision = async (requestId: string, action: 'approve' | 'reject') => {
+    try {
+      const response = await fetch(`/api/link-requests/${requestId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        toast.success(action === 'approve' ? 'Link request approved' : 'Link request rejected')
+        fetchLinkRequests()
+      } else {
+        toast.error(data.error || 'Failed to update link request')
+      }
+    } catch (error) {
+      console.error('Error deciding link request:', error)
+      toast.error('Failed to update link request')
+    }
+  }
+
+  // Fetch open incidents from the child-safety filter on the AI tutor
+  const fetchModerationIncidents = async () => {
+    try {
+      const response = await fetch('/api/admin/moderation-incidents?status=open')
+      const data = await response.json()
+
+      if (response.ok && Array.isArray(data.incidents)) {
+        setModerationIncidents(data.incidents)
+      } else {
+        console.error('Failed to fetch moderation incidents:', data.error)
+        setModerationIncidents([])
+      }
+    } catch (error) {
+      console.error('Error fetching moderation incidents:', error)
+      setModerationIncidents([])
+    }
+  }
+
+  // Close an incident once it has been followed up, or as a false alarm
+  const handleReviewIncident = async (incidentId: string, status: 'reviewed' | 'dismissed') => {
+    try {
+      const response = await fetch(`/api/admin/moderation-incidents/${incidentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        toast.success(status === 'reviewed' ? 'Incident marked as reviewed' : 'Incident dismissed')
+        setModerationIncidents(moderationIncidents.filter(incident => incident.id !== incidentId))
+      } else {
+        toast.error(data.error || 'Failed to update incident')
+      }
+    } catch (error) {
+      console.error('Error reviewing moderation incident:', error)
+      toast.error('Failed to update incident')
+    }
+  }
+
+  // Fetch accounts locked after repeated failed logins
+  const fetchLockedAccounts = async () => {
+    try {
+      const response = await fetch('/api/admin/lockouts')
+      const data = await response.json()
+
+      if (response.ok && Array.isArray(data.lockouts)) {
+        setLockedAccounts(data.lockouts)
+      } else {
+        console.error('Failed to fetch locked accounts:', data.error)
+        setLockedAccounts([])
+      }
+    } catch (error) {
+      console.error('Error fetching locked accounts:', error)
+      setLockedAccounts([])
+    }
+  }
+
+  // Unlock an account and reset its failed login count
+  const handleUnlockAccount = async (userId: string) => {
+    try {
+      const response = await fetch(`/api/admin/lockouts/${userId}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (response.ok) {
+        toast.success('Account unlocked')
+        setLockedAccounts(lockedAccounts.filter(lockout => lockout.user_id !== userId))
+      } else {
+        toast.error(data.error || 'Failed to unlock account')
+      }
+    } catch (error) {
+      console.error('Error unlocking account:', error)
+      toast.error('Failed to unlock account')
+    }
+  }
+
+  // Send an unverified user a new email verification link
+  const handleResendVerification = async (userId: number) => {
+    try {
+      const response = await fetch(`/api/admin/email-verification/${userId}`, { method: 'POST' })
+      const data = await response.json()
+
+      if (response.ok) {
+        toast.success('Verification email sent')
+      } else {
+        toast.error(data.error || 'Failed to send verification email')
+      }
+    } catch (error) {
+      console.error('Error resending verification email:', error)
+      toast.error('Failed to send verification email')
+    }
+  }
+
+  // Open the signed-in devices of a user
+  const fetchUserSessions = async (user: User) => {
+    setSessionsUser(user)
+    setUserSessionsLoading(true)
+    try {
+      const response = await fetch(`/api/admin/sessions/${user.id}`)
+      const data = await response.json()
+
+      if (response.ok && Array.isArray(data.sessions)) {
+        setUserSessions(data.sessions)
+      } else {
+        toast.error(data.error || 'Failed to load sessions')
+        setUserSessions([])
+      }
+    } catch (error) {
+      console.error('Error fetching user sessions:', error)
+      setUserSessions([])
+    } finally {
+      setUserSessionsLoading(false)
+    }
+  }
+
+  // Sign out one session of the open user, or all of them without a session ID
+  const handleRevokeUserSession = async (sessionId?: string) => {
+    if (!sessionsUser) return
+
+    try {
+      const url = sessionId ? `/api/admin/sessions/${sessionsUser.id}/${sessionId}` : `/api/admin/sessions/${sessionsUser.id}`
+      const response = await fetch(url, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (response.ok) {
+        toast.success(sessionId ? 'Session signed out' : 'All sessions signed out')
+        setUserSessions(sessionId ? userSessions.filter(session => session.id !== sessionId) : [])
+      } else {
+        toast.error(data.error || 'Failed to sign out')
+      }
+    } catch (error) {
+      console.error('Error revoking user session:', error)
+      toast.error('Failed to sign out')
+    }
+  }
+
+  // Fetch the permission catalogue and role grants
+  const fetchPermissions = async () => {
+    setPermissionsLoading(true)
+    try {
+      const response = await fetch('/api/admin/permissions')
+      const data = await response.json()
+
+      if (response.ok && Array.isArray(data.permissions)) {
+        setPermissions(data.permissions)
+        setRoleGrants(data.roleGrants || [])
+      } else {
+        console.error('Failed to fetch permissions:', data.error)
+        setPermissions([])
+        setRoleGrants([])
+      }
+    } catch (error) {
+      console.error('Error fetching permissions:', error)
+      setPermissions([])
+      setRoleGrants([])
+    } finally {
+      setPermissionsLoading(false)
+    }
+  }
+
+  // Grant or revoke a permission for a role
+  const handleRoleGrantChange = async (role: string, permissionId: string, granted: boolean) => {
+    try {
+      const response = await fetch('/api/admin/permissions', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role, permissionId, granted })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setRoleGrants(data.roleGrants || [])
+        toast.success(granted ? 'Permission granted' : 'Permission revoked')
+      } else {
+        toast.error(data.error || 'Failed to update permission')
+      }
+    } catch (error) {
+      console.error('Error updating role permission:', error)
+      toast.error('Failed to update permission')
+    }
+  }
+
+  // Fetch one page of the security audit log with the current filters
+  const fetchAuditLogs = async (page: number = 1) => {
+    setAuditLogsLoading(true)
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: String(AUDIT_LOG_PAGE_SIZE) })
+      if (auditLogFilters.user.trim()) params.set('user', auditLogFilters.user.trim())
+      if (auditLogFilters.eventType !== 'all') params.set('eventType', auditLogFilters.eventType)
+      if (auditLogFilters.riskLevel !== 'all') params.set('riskLevel', auditLogFilters.riskLevel)
+      if (auditLogFilters.from) params.set('from', auditLogFilters.from)
+      if (auditLogFilters.to) params.set('to', auditLogFilters.to)
+
+      const response = await fetch(`/api/admin/audit-logs?${params.toString()}`)
+      const data = await response.json()
+
+      if (response.ok && Array.isArray(data.logs)) {
+        setAuditLogs(data.logs)
+        setAuditLogTotal(data.total || 0)
+        setAuditLogPage(page)
+      } else {
+        toast.error(data.error || 'Failed to fetch audit log')
+      }
+    } catch (error) {
+      console.error('Error fetching audit log:', error)
+      toast.error('Failed to fetch audit log')
+    } finally {
+      setAuditLogsLoading(false)
+    }
+  }
+
+  const getRiskBadgeClass = (riskLevel: AuditLogEntry['risk_level']) => {
+    switch (riskLevel) {
+      case 'critical':
+        return 'bg-red-600 text-white'
+      case 'high':
+        return 'bg-orange-500 text-white'
+      case 'medium':
+        return 'bg-yellow-500 text-gray-900'
+      default:
+        return isDarkMode ? 'bg-slate-600 text-slate-100' : 'bg-slate-200 text-slate-800'
+    }
+  }
+
+  const hasRoleGrant = (role: string, permissionId: string) => {
+    return roleGrants.some(grant => grant.role === role && grant.permission_id === permissionId)
+  }
+
   // Handle opening quiz details modal
   const handleViewQuizDetails = async (studentId: number) => {
     setIsQuizDetailsOpen(true)
@@ -352,7 +724,9 @@ export default function AdminDashboard() {
       await Promise.all([
         fetchDashboardStats(),
         fetchStudentProgress(),
-        fetchRecentActivities()
+        fetchRecentActivities(),
+        fetchLinkRequests(),
+        fetchModerationIncidents()
       ])
     } catch (error) {
       console.error('Error fetching dashboard data:', error)
@@ -380,7 +754,9 @@ export default function AdminDashboard() {
       const data = await response.json()
 
       if (data.success) {
-        toast.success('User created successfully')
+        toast.success(data.user.account_status === 'pending_verification'
+          ? 'User created. They need to verify their email before signing in.'
+          : 'User created successfully')
         setUsers([data.user, ...users])
         setNewUser({
           username: '',
@@ -601,6 +977,16 @@ export default function AdminDashboard() {
   }, [users, searchTerm, roleFilter])
 
   // Get role badge color
+  const getVerificationBadgeColor = (user: User) => {
+    if (user.email_verified) {
+      return isDarkMode ? 'bg-green-900/30 text-green-300 border-green-500/30' : 'bg-green-50 text-green-700 border-green-200'
+    }
+    if (user.account_status === 'pending_verification') {
+      return isDarkMode ? 'bg-amber-900/30 text-amber-300 border-amber-500/30' : 'bg-amber-50 text-amber-700 border-amber-200'
+    }
+    return isDarkMode ? 'bg-gray-800/50 text-gray-300 border-gray-500/30' : 'bg-gray-50 text-gray-600 border-gray-200'
+  }
+
   const getRoleBadgeColor = (role: string) => {
     switch (role) {
       case 'teacher':
@@ -646,8 +1032,11 @@ export default function AdminDashboard() {
 
   useEffect(() => {
     fetchUsers()
+    fetchLockedAccounts()
     fetchQuestions()
     fetchDashboardData()
+    fetchPermissions()
+    fetchAuditLogs()
     
     // Initialize TTS configuration
     loadTTSConfig()
@@ -722,6 +1111,20 @@ export default function AdminDashboard() {
                 <PieChart className="h-4 w-4 mr-3" />
                 Analytics
               </TabsTrigger>
+              <TabsTrigger 
+                value="permissions" 
+                className={`w-full justify-start px-6 py-3 text-left ${isDarkMode ? 'text-gray-300 hover:text-gray-100 hover:bg-gray-700' : 'text-gray-700 hover:text-gray-900 hover:bg-gray-100'} data-[state=active]:bg-blue-600 data-[state=active]:text-white data-[state=active]:border-r-2 data-[state=active]:border-blue-400`}
+              >
+                <ShieldCheck className="h-4 w-4 mr-3" />
+                Permissions
+              </TabsTrigger>
+              <TabsTrigger 
+                value="audit-log" 
+                className={`w-full justify-start px-6 py-3 text-left ${isDarkMode ? 'text-gray-300 hover:text-gray-100 hover:bg-gray-700' : 'text-gray-700 hover:text-gray-900 hover:bg-gray-100'} data-[state=active]:bg-blue-600 data-[state=active]:text-white data-[state=active]:border-r-2 data-[state=active]:border-blue-400`}
+              >
+                <ScrollText className="h-4 w-4 mr-3" />
+                Audit Log
+              </TabsTrigger>
               <TabsTrigger 
                 value="tts-settings" 
                 className={`w-full justify-start px-6 py-3 text-left ${isDarkMode ? 'text-gray-300 hover:text-gray-100 hover:bg-gray-700' : 'text-gray-700 hover:text-gray-900 hover:bg-gray-100'} data-[state=active]:bg-blue-600 data-[state=active]:text-white data-[state=active]:border-r-2 data-[state=active]:border-blue-400`}
@@ -743,6 +1146,14 @@ export default function AdminDashboard() {
                 {isDarkMode ? <Sun className="h-4 w-4 mr-3" /> : <Moon className="h-4 w-4 mr-3" />}
                 {isDarkMode ? 'Light Mode' : 'Dark Mode'}
               </Button>
+              <Button 
+                variant="outline" 
+                className={`w-full justify-start mb-2 ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700 hover:text-gray-100' : 'border-gray-300 text-gray-700 hover:bg-gray-100 hover:text-gray-900'}`}
+                onClick={() => router.push('/account')}
+              >
+                <UserCog className="h-4 w-4 mr-3" />
+                Account
+              </Button>
               <Button 
                 variant="outline" 
                 className={`w-full justify-start ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700 hover:text-gray-100' : 'border-gray-300 text-gray-700 hover:bg-gray-100 hover:text-gray-900'}`}
@@ -900,7 +1311,7 @@ export default function AdminDashboard() {
                                     <div className={`font-semibold ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>{student.name}</div>
                                     <div className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'} flex items-center gap-2`}>
                                       <BookOpen className="h-3 w-3" />
-                                      {student.totalQuizzes} quizzes • Avg: {student.averageScore}%
+                                      {student.totalQuizzes} quizzes • Avg: {student.averageScore}% • {student.masteredQuestions} mastered
                                     </div>
                                   </div>
                                 </div>
@@ -934,6 +1345,15 @@ export default function AdminDashboard() {
                                       View Details
                                     </Button>
                                   )}
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Tutor chats"
+                                    onClick={() => router.push(`/tutor-transcripts/${student.id}`)}
+                                    className={`${isDarkMode ? 'text-gray-300 hover:text-white' : 'text-gray-600 hover:text-gray-900'}`}
+                                  >
+                                    <MessageCircle className="h-4 w-4" />
+                                  </Button>
                                 </div>
                               </div>
                             </div>
@@ -1037,13 +1457,131 @@ export default function AdminDashboard() {
                             </div>
                           )
                         })}
+                        {hasMoreActivities && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => fetchRecentActivities(activitiesPage + 1)}
+                            className={`w-full ${isDarkMode ? 'text-gray-300 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-300 hover:bg-gray-100'}`}
+                          >
+                            Load more
+                          </Button>
+                        )}
                       </CardContent>
                     </Card>
                   </div>
+
+                  {moderationIncidents.length > 0 && (
+                    <Card className={`${isDarkMode ? 'bg-slate-800 border-slate-600' : 'bg-slate-50 border-slate-200'} shadow-lg`}>
+                      <CardHeader>
+                        <CardTitle className={`flex items-center gap-2 ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>
+                          <ShieldAlert className="h-5 w-5 text-red-500" />
+                          Safety Incidents
+                        </CardTitle>
+                        <CardDescription className={`${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>Messages and AI replies the child-safety filter blocked</CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        {moderationIncidents.map((incident) => (
+                          <div key={incident.id} className={`flex items-center justify-between gap-4 p-3 rounded-lg border ${isDarkMode ? 'border-gray-600' : 'border-gray-200'}`}>
+                            <div className="min-w-0">
+                              <p className={`text-sm font-medium ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>
+                                {incident.userName}
+                                {' · '}{incident.direction === 'input' ? 'student message' : 'AI reply'} on {incident.route}
+                                {' · '}{incident.categories.map(category => category.replace(/_/g, ' ')).join(', ') || 'unchecked'}
+                                <Badge className={`ml-2 ${incident.severity === 'high' ? 'bg-red-100 text-red-800' : incident.severity === 'medium' ? 'bg-orange-100 text-orange-800' : 'bg-gray-100 text-gray-800'}`}>
+                                  {incident.severity}
+                                </Badge>
+                              </p>
+                              <p className={`text-xs truncate ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                                {new Date(incident.created_at).toLocaleString()}
+                                {incident.parents_notified_at ? ' · parents notified' : ''}
+                                {' · '}&ldquo;{incident.content}&rdquo;
+                              </p>
+                            </div>
+                            <div className="flex gap-2 shrink-0">
+                              <Button size="sm" onClick={() => handleReviewIncident(incident.id, 'reviewed')}>
+                                <CheckCircle className="h-4 w-4 mr-1" />
+                                Reviewed
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => handleReviewIncident(incident.id, 'dismissed')}>
+                                <XCircle className="h-4 w-4 mr-1" />
+                                Dismiss
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </CardContent>
+                    </Card>
+                  )}
+
+                  {linkRequests.length > 0 && (
+                    <Card className={`${isDarkMode ? 'bg-slate-800 border-slate-600' : 'bg-slate-50 border-slate-200'} shadow-lg`}>
+                      <CardHeader>
+                        <CardTitle className={`${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>Parent Link Requests</CardTitle>
+                        <CardDescription className={`${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>Parents asking to follow a student account</CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        {linkRequests.map((linkRequest) => (
+                          <div key={linkRequest.id} className={`flex items-center justify-between p-3 rounded-lg border ${isDarkMode ? 'border-gray-600' : 'border-gray-200'}`}>
+                            <div>
+                              <p className={`text-sm font-medium ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>
+                                {linkRequest.parentName} → {linkRequest.childName} ({linkRequest.relationship_type})
+                              </p>
+                              {linkRequest.message && (
+                                <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{linkRequest.message}</p>
+                              )}
+                            </div>
+                            <div className="flex gap-2">
+                              <Button size="sm" onClick={() => handleLinkRequestDecision(linkRequest.id, 'approve')}>
+                                <CheckCircle className="h-4 w-4 mr-1" />
+                                Approve
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => handleLinkRequestDecision(linkRequest.id, 'reject')}>
+                                <XCircle className="h-4 w-4 mr-1" />
+                                Reject
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </CardContent>
+                    </Card>
+                  )}
                 </TabsContent>
 
                 {/* Users Tab */}
                 <TabsContent value="users" className="space-y-6">
+                  {lockedAccounts.length > 0 && (
+                    <Card className={`${isDarkMode ? 'bg-slate-800 border-slate-600' : 'bg-slate-50 border-slate-200'} shadow-lg`}>
+                      <CardHeader>
+                        <CardTitle className={`flex items-center gap-2 ${isDarkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                          <Lock className="h-5 w-5 text-red-500" />
+                          Locked Accounts
+                        </CardTitle>
+                        <CardDescription className={`${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>Accounts locked after repeated failed sign-in attempts</CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        {lockedAccounts.map((lockout) => (
+                          <div key={lockout.id} className={`flex items-center justify-between p-3 rounded-lg border ${isDarkMode ? 'border-slate-600' : 'border-slate-200'}`}>
+                            <div>
+                              <p className={`text-sm font-medium ${isDarkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                                {lockout.userName}{lockout.email ? ` (${lockout.email})` : ''}
+                              </p>
+                              <p className={`text-xs ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                                Locked {new Date(lockout.locked_at).toLocaleString()}
+                                {lockout.locked_until ? ` until ${new Date(lockout.locked_until).toLocaleString()}` : ''}
+                                {' · '}{lockout.reason.replace(/_/g, ' ')}
+                              </p>
+                            </div>
+                            <Button size="sm" variant="outline" onClick={() => handleUnlockAccount(lockout.user_id)}>
+                              <Unlock className="h-4 w-4 mr-1" />
+                              Unlock
+                            </Button>
+                          </div>
+                        ))}
+                      </CardContent>
+                    </Card>
+                  )}
+
                   <Card className={`${isDarkMode ? 'bg-slate-800 border-slate-600' : 'bg-slate-50 border-slate-200'} shadow-lg`}>
                     <CardHeader>
                       <div className="flex items-center justify-between">
@@ -1110,6 +1648,8 @@ export default function AdminDashboard() {
                                     <SelectContent className={`${isDarkMode ? 'bg-slate-700 border-slate-600' : 'bg-white border-slate-200'}`}>
                                       <SelectItem value="student" className={`${isDarkMode ? 'text-slate-100 hover:bg-slate-600' : 'text-slate-900 hover:bg-slate-100'}`}>Student</SelectItem>
                                       <SelectItem value="admin" className={`${isDarkMode ? 'text-slate-100 hover:bg-slate-600' : 'text-slate-900 hover:bg-slate-100'}`}>Admin</SelectItem>
+                                      <SelectItem value="parent" className={`${isDarkMode ? 'text-slate-100 hover:bg-slate-600' : 'text-slate-900 hover:bg-slate-100'}`}>Parent</SelectItem>
+                                      <SelectItem value="teacher" className={`${isDarkMode ? 'text-slate-100 hover:bg-slate-600' : 'text-slate-900 hover:bg-slate-100'}`}>Teacher</SelectItem>
                                     </SelectContent>
                                   </Select>
                                 </div>
@@ -1153,6 +1693,8 @@ export default function AdminDashboard() {
                             <SelectItem value="all" className={`${isDarkMode ? 'text-slate-100 hover:bg-slate-600' : 'text-slate-900 hover:bg-slate-100'}`}>All Roles</SelectItem>
                             <SelectItem value="student" className={`${isDarkMode ? 'text-slate-100 hover:bg-slate-600' : 'text-slate-900 hover:bg-slate-100'}`}>Students</SelectItem>
                             <SelectItem value="admin" className={`${isDarkMode ? 'text-slate-100 hover:bg-slate-600' : 'text-slate-900 hover:bg-slate-100'}`}>Admins</SelectItem>
+                            <SelectItem value="parent" className={`${isDarkMode ? 'text-slate-100 hover:bg-slate-600' : 'text-slate-900 hover:bg-slate-100'}`}>Parents</SelectItem>
+                            <SelectItem value="teacher" className={`${isDarkMode ? 'text-slate-100 hover:bg-slate-600' : 'text-slate-900 hover:bg-slate-100'}`}>Teachers</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
@@ -1186,7 +1728,14 @@ export default function AdminDashboard() {
                                   {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
                                 </Badge>
                               </TableCell>
-                              <TableCell className={`${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>{user.email || 'N/A'}</TableCell>
+                              <TableCell className={`${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>
+                                <div>{user.email || 'N/A'}</div>
+                                {user.email && (
+                                  <Badge variant="outline" className={`mt-1 ${getVerificationBadgeColor(user)}`}>
+                                    {user.account_status === 'pending_verification' ? 'Pending verification' : user.email_verified ? 'Verified' : 'Unverified'}
+                                  </Badge>
+                                )}
+                              </TableCell>
                               <TableCell className={`${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>{new Date(user.created_at).toLocaleDateString()}</TableCell>
                               <TableCell className="text-right">
                                 <div className="flex items-center gap-2 justify-end">
@@ -1201,6 +1750,26 @@ export default function AdminDashboard() {
                                   >
                                     <Edit className="h-4 w-4" />
                                   </Button>
+                                  {user.email && !user.email_verified && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      title="Resend verification email"
+                                      onClick={() => handleResendVerification(user.id)}
+                                      className="border-gray-600 text-gray-200 hover:bg-gray-600 hover:text-gray-100 dark:border-gray-600 dark:text-gray-200 dark:hover:bg-gray-600 dark:hover:text-gray-100"
+                                    >
+                                      <Mail className="h-4 w-4" />
+                                    </Button>
+                                  )}
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    title="Active sessions"
+                                    onClick={() => fetchUserSessions(user)}
+                                    className="border-gray-600 text-gray-200 hover:bg-gray-600 hover:text-gray-100 dark:border-gray-600 dark:text-gray-200 dark:hover:bg-gray-600 dark:hover:text-gray-100"
+                                  >
+                                    <MonitorSmartphone className="h-4 w-4" />
+                                  </Button>
                                   <AlertDialog>
                                     <AlertDialogTrigger asChild>
                                       <Button variant="outline" size="sm" className="border-gray-600 text-gray-200 hover:bg-gray-600 hover:text-gray-100 dark:border-gray-600 dark:text-gray-200 dark:hover:bg-gray-600 dark:hover:text-gray-100">
@@ -1260,6 +1829,8 @@ export default function AdminDashboard() {
                               <SelectContent className={isDarkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'}>
                                 <SelectItem value="student" className={isDarkMode ? 'text-white hover:bg-gray-600' : 'text-gray-900 hover:bg-gray-100'}>Student</SelectItem>
                                 <SelectItem value="admin" className={isDarkMode ? 'text-white hover:bg-gray-600' : 'text-gray-900 hover:bg-gray-100'}>Admin</SelectItem>
+                                <SelectItem value="parent" className={isDarkMode ? 'text-white hover:bg-gray-600' : 'text-gray-900 hover:bg-gray-100'}>Parent</SelectItem>
+                                <SelectItem value="teacher" className={isDarkMode ? 'text-white hover:bg-gray-600' : 'text-gray-900 hover:bg-gray-100'}>Teacher</SelectItem>
                               </SelectContent>
                             </Select>
                           </div>
@@ -1300,6 +1871,44 @@ export default function AdminDashboard() {
                       </DialogFooter>
                     </DialogContent>
                   </Dialog>
+
+                  {/* User Sessions Dialog */}
+                  <Dialog open={!!sessionsUser} onOpenChange={(open) => { if (!open) setSessionsUser(null) }}>
+                    <DialogContent className={isDarkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-gray-200 text-gray-900'}>
+                      <DialogHeader>
+                        <DialogTitle className={isDarkMode ? 'text-white' : 'text-gray-900'}>Active Sessions</DialogTitle>
+                        <DialogDescription className={isDarkMode ? 'text-gray-300' : 'text-gray-600'}>
+                          Devices signed in as {sessionsUser?.username}
+                        </DialogDescription>
+                      </DialogHeader>
+                      <div className="space-y-3 py-4 max-h-96 overflow-y-auto">
+                        {userSessionsLoading ? (
+                          <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Loading sessions...</p>
+                        ) : userSessions.length === 0 ? (
+                          <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>No active sessions</p>
+                        ) : (
+                          userSessions.map(session => (
+                            <div key={session.id} className={`flex items-center justify-between rounded-lg border p-3 ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                              <div>
+                                <div className="font-medium">{session.device.browser} on {session.device.os}</div>
+                                <div className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                                  {session.ip_address || 'Unknown IP'} • {session.login_method} • Last active {new Date(session.last_activity).toLocaleString()}
+                                </div>
+                              </div>
+                              <Button variant="outline" size="sm" onClick={() => handleRevokeUserSession(session.id)}>
+                                Sign out
+                              </Button>
+                            </div>
+                          ))
+                        )}
+                      </div>
+                      <DialogFooter>
+                        <Button variant="destructive" disabled={userSessions.length === 0} onClick={() => handleRevokeUserSession()}>
+                          Sign out everywhere
+                        </Button>
+                      </DialogFooter>
+                    </DialogContent>
+                  </Dialog>
                 </TabsContent>
 
                 {/* Questions Tab */}
@@ -1662,6 +2271,241 @@ export default function AdminDashboard() {
                   </Card>
                 </TabsContent>
 
+                {/* Permissions Tab */}
+                <TabsContent value="permissions" className="space-y-6">
+                  <div>
+                    <h2 className={`text-3xl font-bold ${isDarkMode ? 'text-slate-100' : 'text-slate-900'}`}>Permissions</h2>
+                    <p className={`${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>Choose which permissions each role holds</p>
+                  </div>
+
+                  <Card className={`${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+                    <CardHeader>
+                      <CardTitle className={`flex items-center gap-2 ${isDarkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                        <ShieldCheck className={`h-5 w-5 ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`} />
+                        Role Grants
+                      </CardTitle>
+                      <CardDescription className={`${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+                        Changes apply to every user with the role. &quot;*&quot; matches any resource or action.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {permissionsLoading ? (
+                        <div className={`text-center py-8 ${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>Loading permissions...</div>
+                      ) : permissions.length === 0 ? (
+                        <div className={`text-center py-8 ${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>No permissions found</div>
+                      ) : (
+                        <Table>
+                          <TableHeader>
+                            <TableRow className={`${isDarkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+                              <TableHead className={`${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>Permission</TableHead>
+                              {PERMISSION_ROLES.map(role => (
+                                <TableHead key={role} className={`text-center capitalize ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>{role}</TableHead>
+                              ))}
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {permissions.map(permission => (
+                              <TableRow key={permission.id} className={`${isDarkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+                                <TableCell>
+                                  <div className={`font-mono text-sm ${isDarkMode ? 'text-slate-100' : 'text-slate-900'}`}>{permission.name}</div>
+                                  <div className={`text-xs ${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>{permission.description}</div>
+                                </TableCell>
+                                {PERMISSION_ROLES.map(role => (
+                                  <TableCell key={role} className="text-center">
+                                    <Checkbox
+                                      checked={hasRoleGrant(role, permission.id)}
+                                      onCheckedChange={checked => handleRoleGrantChange(role, permission.id, checked === true)}
+                                      aria-label={`${permission.name} for ${role}`}
+                                    />
+                                  </TableCell>
+                                ))}
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      )}
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                {/* Audit Log Tab */}
+                <TabsContent value="audit-log" className="space-y-6">
+                  <div>
+                    <h2 className={`text-3xl font-bold ${isDarkMode ? 'text-slate-100' : 'text-slate-900'}`}>Audit Log</h2>
+                    <p className={`${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>Sign-ins, access denials and other security events</p>
+                  </div>
+
+                  <Card className={`${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+                    <CardContent className="pt-6">
+                      <div className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+                        <div className="space-y-2 md:col-span-2">
+                          <Label htmlFor="audit-user" className={`${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>User</Label>
+                          <Input
+                            id="audit-user"
+                            placeholder="Username, email or ID"
+                            value={auditLogFilters.user}
+                            onChange={(e) => setAuditLogFilters({ ...auditLogFilters, user: e.target.value })}
+                            className={`${isDarkMode ? 'bg-slate-700 border-slate-600 text-slate-100' : ''}`}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label className={`${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>Event</Label>
+                          <Select value={auditLogFilters.eventType} onValueChange={(value) => setAuditLogFilters({ ...auditLogFilters, eventType: value })}>
+                            <SelectTrigger className={`${isDarkMode ? 'bg-slate-700 border-slate-600 text-slate-100' : ''}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="all">All events</SelectItem>
+                              {AUDIT_EVENT_TYPES.map(type => (
+                                <SelectItem key={type} value={type}>{type.replace(/_/g, ' ')}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label className={`${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>Risk</Label>
+                          <Select value={auditLogFilters.riskLevel} onValueChange={(value) => setAuditLogFilters({ ...auditLogFilters, riskLevel: value })}>
+                            <SelectTrigger className={`${isDarkMode ? 'bg-slate-700 border-slate-600 text-slate-100' : ''}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="all">All levels</SelectItem>
+                              <SelectItem value="low">Low</SelectItem>
+                              <SelectItem value="medium">Medium</SelectItem>
+                              <SelectItem value="high">High</SelectItem>
+                              <SelectItem value="critical">Critical</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="audit-from" className={`${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>From</Label>
+                          <Input
+                            id="audit-from"
+                            type="date"
+                            value={auditLogFilters.from}
+                            onChange={(e) => setAuditLogFilters({ ...auditLogFilters, from: e.target.value })}
+                            className={`${isDarkMode ? 'bg-slate-700 border-slate-600 text-slate-100' : ''}`}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="audit-to" className={`${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>To</Label>
+                          <Input
+                            id="audit-to"
+                            type="date"
+                            value={auditLogFilters.to}
+                            onChange={(e) => setAuditLogFilters({ ...auditLogFilters, to: e.target.value })}
+                            className={`${isDarkMode ? 'bg-slate-700 border-slate-600 text-slate-100' : ''}`}
+                          />
+                        </div>
+                      </div>
+                      <div className="flex justify-end gap-2 mt-4">
+                        <Button
+                          variant="outline"
+                          onClick={() => setAuditLogFilters({ user: '', eventType: 'all', riskLevel: 'all', from: '', to: '' })}
+                          className={`${isDarkMode ? 'border-slate-600 text-slate-300 hover:bg-slate-700' : ''}`}
+                        >
+                          Clear
+                        </Button>
+                        <Button onClick={() => fetchAuditLogs(1)} disabled={auditLogsLoading}>
+                          <Filter className="h-4 w-4 mr-2" />
+                          Apply Filters
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card className={`${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+                    <CardHeader>
+                      <CardTitle className={`flex items-center gap-2 ${isDarkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                        <ScrollText className={`h-5 w-5 ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`} />
+                        Events
+                      </CardTitle>
+                      <CardDescription className={`${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+                        {auditLogTotal} matching {auditLogTotal === 1 ? 'event' : 'events'}, newest first
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {auditLogsLoading ? (
+                        <div className={`text-center py-8 ${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>Loading audit log...</div>
+                      ) : auditLogs.length === 0 ? (
+                        <div className={`text-center py-8 ${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>No events found</div>
+                      ) : (
+                        <Table>
+                          <TableHeader>
+                            <TableRow className={`${isDarkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+                              <TableHead className={`${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>Time</TableHead>
+                              <TableHead className={`${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>Event</TableHead>
+                              <TableHead className={`${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>User</TableHead>
+                              <TableHead className={`${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>Description</TableHead>
+                              <TableHead className={`${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>IP</TableHead>
+                              <TableHead className={`${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>Risk</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {auditLogs.map(log => (
+                              <TableRow
+                                key={log.id}
+                                className={log.risk_level === 'critical'
+                                  ? `${isDarkMode ? 'bg-red-950/60 border-red-800' : 'bg-red-50 border-red-200'}`
+                                  : `${isDarkMode ? 'border-slate-700' : 'border-slate-200'}`}
+                              >
+                                <TableCell className={`whitespace-nowrap text-sm ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                                  {new Date(log.created_at).toLocaleString()}
+                                </TableCell>
+                                <TableCell className={`text-sm ${isDarkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                                  <div className="flex items-center gap-2">
+                                    {log.success
+                                      ? <CheckCircle className="h-4 w-4 text-green-500" />
+                                      : <XCircle className="h-4 w-4 text-red-500" />}
+                                    {log.event_type.replace(/_/g, ' ')}
+                                  </div>
+                                </TableCell>
+                                <TableCell className={`text-sm ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                                  {log.userName || (log.user_id ? 'Deleted user' : '—')}
+                                </TableCell>
+                                <TableCell className={`text-sm ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>{log.description}</TableCell>
+                                <TableCell className={`font-mono text-xs ${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>{log.ip_address || '—'}</TableCell>
+                                <TableCell>
+                                  <Badge className={`capitalize ${getRiskBadgeClass(log.risk_level)}`}>
+                                    {log.risk_level === 'critical' && <AlertTriangle className="h-3 w-3 mr-1" />}
+                                    {log.risk_level}
+                                  </Badge>
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      )}
+
+                      {auditLogTotal > AUDIT_LOG_PAGE_SIZE && (
+                        <div className="flex items-center justify-between mt-4">
+                          <span className={`text-sm ${isDarkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+                            Page {auditLogPage} of {Math.ceil(auditLogTotal / AUDIT_LOG_PAGE_SIZE)}
+                          </span>
+                          <div className="flex gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={auditLogPage <= 1 || auditLogsLoading}
+                              onClick={() => fetchAuditLogs(auditLogPage - 1)}
+                            >
+                              Previous
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={auditLogPage * AUDIT_LOG_PAGE_SIZE >= auditLogTotal || auditLogsLoading}
+                              onClick={() => fetchAuditLogs(auditLogPage + 1)}
+                            >
+                              Next
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
                 {/* TTS Settings Tab */}
                 <TabsContent value="tts-settings" className="space-y-6">
                   <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
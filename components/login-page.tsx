@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 
 import AudioVisualizer from './audio-visualizer'
+import { isRole, roleHomeRoutes } from '@/lib/config/route-access'
 
 export default function LoginPage() {
   const [userType, setUserType] = useState<'teacher' | 'student' | 'parent' | null>(null)
@@ -32,13 +33,8 @@ export default function LoginPage() {
       const data = await response.json()
 
       if (response.ok) {
-        if (data.role === 'teacher') {
-          router.push('/admin-dashboard')
-        } else if (data.role === 'parent') {
-          router.push('/parent-dashboard')
-        } else {
-          router.push('/tutorial')
-        }
+        const role = data.user?.role
+        router.push(isRole(role) ? roleHomeRoutes[role] : roleHomeRoutes.student)
       } else {
         setError(data.error || 'An error occurred')
       }
@@ -0,0 +1,614 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import {
+  Bell,
+  BookOpen,
+  CheckCircle,
+  Lock,
+  LogOut,
+  MessageCircle,
+  UserCog,
+  TrendingUp,
+  UserPlus,
+  Users,
+  Video,
+  XCircle
+} from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { ChildNotification, LinkedChild } from '@/types/parent'
+import type { RecordingConsentScope, RecordingConsentStatus } from '@/types/consent'
+import ParentalConsentModal from '@/components/ParentalConsentModal'
+
+const CONSENT_SCOPE_LABELS: Record<RecordingConsentScope, string> = {
+  webcam: 'Webcam video',
+  screen: 'Screen capture',
+  voice: 'Voice'
+}
+
+interface ChildOverview {
+  child: LinkedChild
+  progress: {
+    progress: number
+    masteredQuestions: number
+    totalQuizzes: number
+    averageScore: number
+    accuracy: number
+    lastActivity: string | null
+  } | null
+  quizResults: Array<{
+    id: string
+    score: number
+    correct_answers: number
+    total_questions: number
+    completed_at: string
+  }> | null
+  incorrectAnswers: Array<{
+    id: string
+    question_text: string
+    selected_answer: string
+    correct_answer: string
+    created_at: string
+  }> | null
+  notifications: ChildNotification[] | null
+}
+
+interface LinkRequest {
+  id: string
+  parentName: string
+  childName: string
+  relationship_type: string
+  message?: string
+  status: 'pending' | 'approved' | 'rejected'
+  created_at: string
+}
+
+export default function ParentDashboard() {
+  const router = useRouter()
+  const [children, setChildren] = useState<LinkedChild[]>([])
+  const [selectedChildId, setSelectedChildId] = useState<string | null>(null)
+  const [overview, setOverview] = useState<ChildOverview | null>(null)
+  const [consent, setConsent] = useState<RecordingConsentStatus | null>(null)
+  const [showConsentModal, setShowConsentModal] = useState(false)
+  const [outgoingRequests, setOutgoingRequests] = useState<LinkRequest[]>([])
+  const [pendingApprovals, setPendingApprovals] = useState<LinkRequest[]>([])
+  const [childIdentifier, setChildIdentifier] = useState('')
+  const [relationshipType, setRelationshipType] = useState('parent')
+  const [requestMessage, setRequestMessage] = useState('')
+  const [loading, setLoading] = useState(true)
+
+  // Fetch linked children
+  const fetchChildren = async () => {
+    try {
+      const response = await fetch('/api/parent/children')
+      const data = await response.json()
+
+      if (response.ok && Array.isArray(data.children)) {
+        setChildren(data.children)
+        setSelectedChildId(current => current || data.children[0]?.id || null)
+      } else {
+        console.error('Failed to fetch children:', data.error)
+        toast.error('Failed to fetch linked children')
+      }
+    } catch (error) {
+      console.error('Error fetching children:', error)
+      toast.error('Failed to fetch linked children')
+    }
+  }
+
+  // Fetch link requests made by or awaiting this parent
+  const fetchLinkRequests = async () => {
+    try {
+      const response = await fetch('/api/link-requests')
+      const data = await response.json()
+
+      if (response.ok) {
+        setOutgoingRequests(data.outgoing || [])
+        setPendingApprovals(data.pendingApprovals || [])
+      } else {
+        console.error('Failed to fetch link requests:', data.error)
+      }
+    } catch (error) {
+      console.error('Error fetching link requests:', error)
+    }
+  }
+
+  useEffect(() => {
+    Promise.all([fetchChildren(), fetchLinkRequests()]).finally(() => setLoading(false))
+  }, [])
+
+  useEffect(() => {
+    if (!selectedChildId) {
+      setOverview(null)
+      setConsent(null)
+      return
+    }
+
+    const fetchOverview = async () => {
+      try {
+        const response = await fetch(`/api/parent/children/${selectedChildId}`)
+        const data = await response.json()
+
+        if (response.ok) {
+          setOverview(data)
+        } else {
+          console.error('Failed to fetch child overview:', data.error)
+          toast.error('Failed to fetch child overview')
+        }
+      } catch (error) {
+        console.error('Error fetching child overview:', error)
+        toast.error('Failed to fetch child overview')
+      }
+    }
+
+    const fetchConsent = async () => {
+      try {
+        const response = await fetch(`/api/parent/children/${selectedChildId}/consent`)
+        const data = await response.json()
+
+        if (response.ok) {
+          setConsent(data)
+        } else {
+          console.error('Failed to fetch recording consent:', data.error)
+        }
+      } catch (error) {
+        console.error('Error fetching recording consent:', error)
+      }
+    }
+
+    fetchOverview()
+    fetchConsent()
+  }, [selectedChildId])
+
+  const handleRequestLink = async () => {
+    if (!childIdentifier.trim()) {
+      toast.error('Enter your child\'s username or email')
+      return
+    }
+
+    try {
+      const response = await fetch('/api/link-requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ childIdentifier, relationshipType, message: requestMessage })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        toast.success(data.message || 'Link request sent for approval')
+        setChildIdentifier('')
+        setRequestMessage('')
+        fetchLinkRequests()
+      } else {
+        toast.error(data.error || 'Failed to send link request')
+      }
+    } catch (error) {
+      console.error('Error requesting link:', error)
+      toast.error('Failed to send link request')
+    }
+  }
+
+  const handleDecision = async (requestId: string, action: 'approve' | 'reject') => {
+    try {
+      const response = await fetch(`/api/link-requests/${requestId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        toast.success(action === 'approve' ? 'Link request approved' : 'Link request rejected')
+        fetchLinkRequests()
+      } else {
+        toast.error(data.error || 'Failed to update link request')
+      }
+    } catch (error) {
+      console.error('Error deciding link request:', error)
+      toast.error('Failed to update link request')
+    }
+  }
+
+  // Grants the ticked scopes, or withdraws every scope when the parent declines
+  const handleConsentDecision = async (granted: boolean, scopes: RecordingConsentScope[]) => {
+    if (!selectedChildId) return
+
+    try {
+      const response = granted
+        ? await fetch(`/api/parent/children/${selectedChildId}/consent`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ scopes })
+        })
+        : await fetch(`/api/parent/children/${selectedChildId}/consent`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (response.ok) {
+        setConsent(data)
+        toast.success(granted ? 'Recording consent saved' : 'Recording consent withdrawn')
+      } else {
+        toast.error(data.error || 'Failed to update recording consent')
+      }
+    } catch (error) {
+      console.error('Error updating recording consent:', error)
+      toast.error('Failed to update recording consent')
+    }
+  }
+
+  const handleRevokeScope = async (scope: RecordingConsentScope) => {
+    if (!selectedChildId) return
+
+    try {
+      const response = await fetch(`/api/parent/children/${selectedChildId}/consent?scope=${scope}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (response.ok) {
+        setConsent(data)
+        toast.success(`${CONSENT_SCOPE_LABELS[scope]} recording consent withdrawn`)
+      } else {
+        toast.error(data.error || 'Failed to withdraw recording consent')
+      }
+    } catch (error) {
+      console.error('Error withdrawing recording consent:', error)
+      toast.error('Failed to withdraw recording consent')
+    }
+  }
+
+  const handleLogout = async () => {
+    try {
+      const response = await fetch('/api/auth/logout', {
+        method: 'POST',
+      })
+
+      if (response.ok) {
+        router.push('/login')
+      } else {
+        toast.error('Failed to logout')
+      }
+    } catch (error) {
+      console.error('Error logging out:', error)
+      toast.error('Failed to logout')
+    }
+  }
+
+  const formatDate = (timestamp: string | null) => {
+    return timestamp ? new Date(timestamp).toLocaleDateString() : 'Never'
+  }
+
+  const renderLocked = (label: string) => (
+    <div className="flex items-center gap-2 text-sm text-gray-500 py-4">
+      <Lock className="h-4 w-4" />
+      Your link to this child does not include permission to {label}.
+    </div>
+  )
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading parent dashboard...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="flex h-screen">
+        {/* Sidebar */}
+        <div className="w-64 bg-white border-gray-200 border-r flex flex-col">
+          <div className="p-6 border-b border-gray-200">
+            <h1 className="text-2xl font-bold text-gray-900">FutureLearner</h1>
+            <p className="text-sm text-gray-600">Parent Dashboard</p>
+          </div>
+
+          <nav className="flex-1 p-2 space-y-1 overflow-y-auto">
+            {children.map(child => (
+              <button
+                key={child.id}
+                onClick={() => setSelectedChildId(child.id)}
+                className={`w-full text-left px-4 py-3 rounded-lg transition-colors ${
+                  child.id === selectedChildId ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                <div className="font-medium">{child.name}</div>
+                <div className="text-xs text-gray-500 capitalize">
+                  {child.relationshipType}{child.isPrimary ? ' • primary' : ''}
+                </div>
+              </button>
+            ))}
+          </nav>
+
+          <div className="p-4 border-t border-gray-200">
+            <Button variant="ghost" className="w-full justify-start text-gray-700" onClick={() => router.push('/account')}>
+              <UserCog className="h-4 w-4 mr-3" />
+              Account
+            </Button>
+            <Button variant="ghost" className="w-full justify-start text-gray-700" onClick={handleLogout}>
+              <LogOut className="h-4 w-4 mr-3" />
+              Logout
+            </Button>
+          </div>
+        </div>
+
+        {/* Main content */}
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          {!overview ? (
+            <div className="text-center text-gray-500 py-16">
+              <Users className="h-12 w-12 mx-auto mb-3 text-gray-300" />
+              <p>No linked children yet. Request a link below.</p>
+            </div>
+          ) : (
+            <>
+              <h2 className="text-3xl font-bold text-gray-900">{overview.child.name}</h2>
+
+              <div className="grid gap-6 md:grid-cols-2">
+                <Card className="bg-white shadow-lg">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <TrendingUp className="h-5 w-5 text-blue-600" />
+                      Progress
+                    </CardTitle>
+                    <CardDescription>Share of the question bank mastered</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {overview.progress ? (
+                      <div className="space-y-3">
+                        <div className="flex items-center gap-3">
+                          <Progress value={overview.progress.progress} className="flex-1" />
+                          <span className="font-bold">{overview.progress.progress}%</span>
+                        </div>
+                        <div className="text-sm text-gray-600">
+                          {overview.progress.masteredQuestions} questions mastered • {overview.progress.totalQuizzes} quizzes •
+                          Avg: {overview.progress.averageScore}% • Accuracy: {overview.progress.accuracy}%
+                        </div>
+                        <div className="text-xs text-gray-500">Last active: {formatDate(overview.progress.lastActivity)}</div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => router.push(`/tutor-transcripts/${overview.child.id}`)}
+                        >
+                          <MessageCircle className="h-4 w-4 mr-2" />
+                          View tutor chats
+                        </Button>
+                      </div>
+                    ) : renderLocked('view progress')}
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-white shadow-lg">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Bell className="h-5 w-5 text-orange-500" />
+                      Notifications
+                    </CardTitle>
+                    <CardDescription>Recent quiz activity</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {overview.notifications ? (
+                      overview.notifications.length > 0 ? overview.notifications.map(notification => (
+                        <div
+                          key={notification.id}
+                          className={`p-3 rounded-lg text-sm ${
+                            notification.type === 'quiz_completed' ? 'bg-green-50 text-green-800' : 'bg-orange-50 text-orange-800'
+                          }`}
+                        >
+                          <div>{notification.message}</div>
+                          <div className="text-xs opacity-70">{formatDate(notification.timestamp)}</div>
+                        </div>
+                      )) : <p className="text-sm text-gray-500">No new notifications</p>
+                    ) : renderLocked('receive notifications')}
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card className="bg-white shadow-lg">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <BookOpen className="h-5 w-5 text-blue-600" />
+                    Quiz Results
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {overview.quizResults ? (
+                    overview.quizResults.length > 0 ? overview.quizResults.map(result => (
+                      <button
+                        key={result.id}
+                        onClick={() => router.push(`/quiz-assessment/${result.id}`)}
+                        className="w-full flex items-center justify-between p-3 rounded-lg border border-gray-200 hover:bg-gray-50"
+                      >
+                        <span className="text-sm text-gray-700">{formatDate(result.completed_at)}</span>
+                        <span className="text-sm text-gray-600">{result.correct_answers}/{result.total_questions} correct</span>
+                        <Badge className={result.score >= 70 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+                          {Math.round(result.score)}%
+                        </Badge>
+                      </button>
+                    )) : <p className="text-sm text-gray-500">No quizzes taken yet</p>
+                  ) : renderLocked('view quiz results')}
+                </CardContent>
+              </Card>
+
+              <Card className="bg-white shadow-lg">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <XCircle className="h-5 w-5 text-red-500" />
+                    Incorrect Answers
+                  </CardTitle>
+                  <CardDescription>Questions worth practising together</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {overview.incorrectAnswers ? (
+                    overview.incorrectAnswers.length > 0 ? overview.incorrectAnswers.map(answer => (
+                      <div key={answer.id} className="p-3 rounded-lg bg-red-50">
+                        <p className="text-sm text-gray-800 mb-1">{answer.question_text}</p>
+                        <div className="text-xs text-gray-600">
+                          Answered: <span className="text-red-700">{answer.selected_answer || '(no answer)'}</span> •
+                          Correct: <span className="text-green-700">{answer.correct_answer}</span>
+                        </div>
+                      </div>
+                    )) : <p className="text-sm text-gray-500">No incorrect answers</p>
+                  ) : renderLocked('view quiz results')}
+                </CardContent>
+              </Card>
+
+              {consent && (
+                <Card className="bg-white shadow-lg">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Video className="h-5 w-5 text-purple-600" />
+                      Recording Consent
+                    </CardTitle>
+                    <CardDescription>
+                      Recordings of {overview.child.name} can only be saved for the kinds you allow. Policy version {consent.policyVersion}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {consent.scopes.map(scope => (
+                      <div key={scope.scope} className="flex items-center justify-between p-3 rounded-lg border border-gray-200">
+                        <div>
+                          <div className="text-sm font-medium">{CONSENT_SCOPE_LABELS[scope.scope]}</div>
+                          <div className="text-xs text-gray-500">
+                            {scope.granted
+                              ? `Allowed by ${scope.grantedBy || 'a guardian'} on ${formatDate(scope.grantedAt)}`
+                              : scope.outdated
+                                ? 'The consent form has changed since this was allowed; please review it again'
+                                : 'Not allowed'}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Badge className={scope.granted ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}>
+                            {scope.granted ? 'Allowed' : 'Not allowed'}
+                          </Badge>
+                          {scope.granted && (
+                            <Button size="sm" variant="outline" onClick={() => handleRevokeScope(scope.scope)}>
+                              Withdraw
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                    <Button onClick={() => setShowConsentModal(true)}>Review Consent Form</Button>
+                  </CardContent>
+                </Card>
+              )}
+
+              <ParentalConsentModal
+                isOpen={showConsentModal}
+                onClose={() => setShowConsentModal(false)}
+                onConsent={handleConsentDecision}
+                childName={overview.child.name}
+                policyVersion={consent?.policyVersion}
+              />
+            </>
+          )}
+
+          {pendingApprovals.length > 0 && (
+            <Card className="bg-white shadow-lg">
+              <CardHeader>
+                <CardTitle>Requests Awaiting Your Approval</CardTitle>
+                <CardDescription>As primary guardian you decide who else can follow your child</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {pendingApprovals.map(linkRequest => (
+                  <div key={linkRequest.id} className="flex items-center justify-between p-3 rounded-lg border border-gray-200">
+                    <div>
+                      <div className="text-sm font-medium">
+                        {linkRequest.parentName} → {linkRequest.childName}
+                        <span className="text-gray-500 capitalize"> ({linkRequest.relationship_type})</span>
+                      </div>
+                      {linkRequest.message && <div className="text-xs text-gray-500">{linkRequest.message}</div>}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => handleDecision(linkRequest.id, 'approve')}>
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDecision(linkRequest.id, 'reject')}>
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="bg-white shadow-lg">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <UserPlus className="h-5 w-5 text-blue-600" />
+                Link a Child Account
+              </CardTitle>
+              <CardDescription>An admin or the child&apos;s primary guardian approves new links</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="childIdentifier">Child username or email</Label>
+                  <Input
+                    id="childIdentifier"
+                    value={childIdentifier}
+                    onChange={(e) => setChildIdentifier(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Relationship</Label>
+                  <Select value={relationshipType} onValueChange={setRelationshipType}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="parent">Parent</SelectItem>
+                      <SelectItem value="guardian">Guardian</SelectItem>
+                      <SelectItem value="caregiver">Caregiver</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="requestMessage">Message (optional)</Label>
+                <Input
+                  id="requestMessage"
+                  value={requestMessage}
+                  onChange={(e) => setRequestMessage(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleRequestLink}>Send Request</Button>
+
+              {outgoingRequests.length > 0 && (
+                <div className="space-y-2 pt-2">
+                  <div className="text-sm font-medium text-gray-700">Your requests</div>
+                  {outgoingRequests.map(linkRequest => (
+                    <div key={linkRequest.id} className="flex items-center justify-between text-sm p-2 rounded border border-gray-100">
+                      <span>{linkRequest.childName}</span>
+                      <Badge
+                        className={
+                          linkRequest.status === 'approved' ? 'bg-green-100 text-green-800'
+                            : linkRequest.status === 'rejected' ? 'bg-red-100 text-red-800'
+                            : 'bg-yellow-100 text-yellow-800'
+                        }
+                      >
+                        {linkRequest.status}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
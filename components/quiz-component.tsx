@@ -1,22 +1,16 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
+import type { QuizSessionQuestion, QuizSessionSummary } from '@/types/quiz'
 
-type Question = {
-  id: number;
-  question_text: string;
-  options: string[];
-  correct_answer: string;
-}
-
-
-
+// The questions come from a server-side quiz session, which scores each
+// answer; the browser never sees the correct options
 export default function Component() {
-  const [questions, setQuestions] = useState<Question[]>([])
+  const [questions, setQuestions] = useState<QuizSessionQuestion[]>([])
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
   const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null)
   const [timeLeft, setTimeLeft] = useState(30)
@@ -27,33 +21,82 @@ export default function Component() {
 
   const [questionStartTime, setQuestionStartTime] = useState<number | null>(null)
 
-
+  const [summary, setSummary] = useState<QuizSessionSummary | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const sessionIdRef = useRef<string | null>(null)
 
   const fetchQuestions = async () => {
     try {
-      const response = await fetch('/api/questions')
+      const response = await fetch('/api/quiz/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ count: 5 })
+      })
       const data = await response.json()
-      setQuestions(data)
+      if (!response.ok || !Array.isArray(data.questions) || data.questions.length === 0) {
+        throw new Error(data.error || 'No questions received')
+      }
+
+      sessionIdRef.current = data.sessionId
+      setQuestions(data.questions)
       setTimeLeft(30)
     } catch (error) {
       console.error('Error fetching questions:', error)
+      setLoadError('Sorry, the quiz could not be loaded. Please refresh the page.')
     }
   }
 
+  // Unanswered questions are left out and count as incorrect when the session is finalised
+  const submitAnswer = async (question: QuizSessionQuestion, answer: string) => {
+    try {
+      await fetch(`/api/quiz/sessions/${sessionIdRef.current}/answers`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          questionId: question.id,
+          selectedAnswer: answer,
+          responseTimeMs: questionStartTime ? Date.now() - questionStartTime : undefined
+        })
+      })
+    } catch (error) {
+      console.error('Error submitting answer:', error)
+    }
+  }
 
+  const finishQuiz = async () => {
+    try {
+      const response = await fetch('/api/quiz-results', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: sessionIdRef.current })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save quiz results')
+      }
+      setSummary(data)
+    } catch (error) {
+      console.error('Error finishing quiz:', error)
+      setLoadError('Sorry, your result could not be saved. Please try again later.')
+    }
+  }
+
+  const handleNextQuestion = useCallback(async () => {
+    const question = questions[currentQuestionIndex]
+    if (!question) return
 
-  const handleNextQuestion = useCallback(() => {
+    if (selectedAnswer !== null) {
+      await submitAnswer(question, selectedAnswer)
+    }
 
     const nextQuestionIndex = currentQuestionIndex + 1
+    setCurrentQuestionIndex(nextQuestionIndex)
     if (nextQuestionIndex < questions.length) {
-      setCurrentQuestionIndex(nextQuestionIndex)
       setSelectedAnswer(null)
       setTimeLeft(30)
       setQuestionStartTime(Date.now())
     } else {
-      // This is the last question, but don't submit here
-      // Let the "Finish" button handle submission
-      setCurrentQuestionIndex(nextQuestionIndex)
+      await finishQuiz()
     }
   }, [currentQuestionIndex, questions, selectedAnswer, questionStartTime])
 
@@ -71,7 +114,7 @@ export default function Component() {
 
   useEffect(() => {
     let timer: NodeJS.Timeout | null = null
-    if (quizStarted && questions.length > 0) {
+    if (quizStarted && currentQuestionIndex < questions.length) {
       timer = setInterval(() => {
         setTimeLeft((prevTime) => {
           if (prevTime > 0) {
@@ -87,7 +130,7 @@ export default function Component() {
     return () => {
       if (timer) clearInterval(timer)
     }
-  }, [quizStarted, questions, handleNextQuestion])
+  }, [quizStarted, questions, currentQuestionIndex, handleNextQuestion])
 
   const handleAnswerSelection = (answer: string) => {
     setSelectedAnswer(answer)
@@ -109,6 +152,22 @@ export default function Component() {
     )
   }
 
+  if (loadError || summary || (questions.length > 0 && currentQuestionIndex >= questions.length)) {
+    return (
+      <div className="min-h-screen bg-blue-500 flex items-center justify-center p-4">
+        <Card className="w-full max-w-3xl">
+          <CardContent className="flex items-center justify-center h-64">
+            <div className="text-2xl font-semibold text-center">
+              {loadError || (summary
+                ? `You got ${summary.correctAnswers} of ${summary.totalQuestions} right!`
+                : 'Checking your answers...')}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   if (!quizStarted || questions.length === 0) {
     return (
       <div className="min-h-screen bg-blue-500 flex items-center justify-center p-4">
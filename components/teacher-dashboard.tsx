@@ -0,0 +1,265 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import {
+  BookOpen,
+  GraduationCap,
+  LogOut,
+  UserCog,
+  Users,
+  AlertTriangle,
+  Eye,
+  MessageCircle
+} from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Avatar, AvatarFallback } from '@/components/ui/avatar'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import type { TeacherClass, RosterStudent } from '@/types/teacher'
+
+export default function TeacherDashboard() {
+  const router = useRouter()
+  const [classes, setClasses] = useState<TeacherClass[]>([])
+  const [selectedClassKey, setSelectedClassKey] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  // Fetch the teacher's classes and rosters
+  const fetchClasses = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/teacher/classes')
+      const data = await response.json()
+
+      if (response.ok && Array.isArray(data.classes)) {
+        setClasses(data.classes)
+        setSelectedClassKey(current => current || data.classes[0]?.key || null)
+      } else {
+        console.error('Failed to fetch classes:', data.error)
+        setClasses([])
+        toast.error('Failed to fetch classes')
+      }
+    } catch (error) {
+      console.error('Error fetching classes:', error)
+      setClasses([])
+      toast.error('Failed to fetch classes')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchClasses()
+  }, [])
+
+  const handleLogout = async () => {
+    try {
+      const response = await fetch('/api/auth/logout', {
+        method: 'POST',
+      })
+
+      if (response.ok) {
+        router.push('/login')
+      } else {
+        toast.error('Failed to logout')
+      }
+    } catch (error) {
+      console.error('Error logging out:', error)
+      toast.error('Failed to logout')
+    }
+  }
+
+  const getScoreBadge = (score: number) => {
+    if (score >= 80) return 'bg-green-100 text-green-800'
+    if (score >= 60) return 'bg-blue-100 text-blue-800'
+    return 'bg-red-100 text-red-800'
+  }
+
+  const formatDate = (timestamp: string | null) => {
+    return timestamp ? new Date(timestamp).toLocaleDateString() : 'Never'
+  }
+
+  const selectedClass = classes.find(c => c.key === selectedClassKey) || null
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading teacher dashboard...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="flex h-screen">
+        {/* Sidebar */}
+        <div className="w-64 bg-white border-gray-200 border-r flex flex-col">
+          <div className="p-6 border-b border-gray-200">
+            <h1 className="text-2xl font-bold text-gray-900">FutureLearner</h1>
+            <p className="text-sm text-gray-600">Teacher Dashboard</p>
+          </div>
+
+          <nav className="flex-1 p-2 space-y-1 overflow-y-auto">
+            {classes.map(teacherClass => (
+              <button
+                key={teacherClass.key}
+                onClick={() => setSelectedClassKey(teacherClass.key)}
+                className={`w-full text-left px-4 py-3 rounded-lg transition-colors ${
+                  teacherClass.key === selectedClassKey ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                <div className="flex items-center gap-2 font-medium">
+                  <GraduationCap className="h-4 w-4" />
+                  {teacherClass.className}
+                </div>
+                <div className="text-xs text-gray-500 ml-6">
+                  {teacherClass.subject} • {teacherClass.academicYear} • {teacherClass.students.length} students
+                </div>
+              </button>
+            ))}
+          </nav>
+
+          <div className="p-4 border-t border-gray-200">
+            <Button variant="ghost" className="w-full justify-start text-gray-700" onClick={() => router.push('/account')}>
+              <UserCog className="h-4 w-4 mr-3" />
+              Account
+            </Button>
+            <Button variant="ghost" className="w-full justify-start text-gray-700" onClick={handleLogout}>
+              <LogOut className="h-4 w-4 mr-3" />
+              Logout
+            </Button>
+          </div>
+        </div>
+
+        {/* Main content */}
+        <div className="flex-1 overflow-y-auto p-8">
+          {!selectedClass ? (
+            <div className="text-center text-gray-500 py-16">
+              <Users className="h-12 w-12 mx-auto mb-3 text-gray-300" />
+              <p>No students have been assigned to you yet</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div>
+                <h2 className="text-3xl font-bold text-gray-900">{selectedClass.className}</h2>
+                <p className="text-gray-600">
+                  {selectedClass.subject} • {selectedClass.academicYear}
+                </p>
+              </div>
+
+              <Card className="bg-white shadow-lg">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Users className="h-5 w-5 text-blue-600" />
+                    Class Roster
+                  </CardTitle>
+                  <CardDescription>Quiz history and weak grammar areas of each student</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Student</TableHead>
+                        <TableHead>Quizzes</TableHead>
+                        <TableHead>Average</TableHead>
+                        <TableHead>Recent Scores</TableHead>
+                        <TableHead>Weak Areas</TableHead>
+                        <TableHead>Last Quiz</TableHead>
+                        <TableHead>Tutor Chats</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {selectedClass.students.map((student: RosterStudent) => (
+                        <TableRow key={student.assignmentId}>
+                          <TableCell>
+                            <div className="flex items-center gap-3">
+                              <Avatar>
+                                <AvatarFallback className="bg-gray-100 text-gray-700 font-semibold">
+                                  {student.name.charAt(0)}
+                                </AvatarFallback>
+                              </Avatar>
+                              <div>
+                                <div className="font-semibold text-gray-900">{student.name}</div>
+                                <div className="text-xs text-gray-500">{student.email}</div>
+                              </div>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-1">
+                              <BookOpen className="h-3 w-3 text-gray-400" />
+                              {student.totalQuizzes}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge className={getScoreBadge(student.averageScore)}>{student.averageScore}%</Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {student.recentQuizzes.length > 0 ? student.recentQuizzes.map(quiz => (
+                                <button
+                                  key={quiz.id}
+                                  onClick={() => router.push(`/quiz-assessment/${quiz.id}`)}
+                                  title={`${quiz.correctAnswers}/${quiz.totalQuestions} correct on ${formatDate(quiz.completedAt)}`}
+                                  className={`px-2 py-0.5 rounded text-xs font-medium ${getScoreBadge(quiz.score)} hover:opacity-80`}
+                                >
+                                  {quiz.score}%
+                                </button>
+                              )) : (
+                                <span className="text-xs text-gray-400">No quizzes yet</span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {student.weakAreas.length > 0 ? student.weakAreas.map(area => (
+                                <Badge key={area.category} variant="outline" className="border-orange-300 text-orange-700">
+                                  <AlertTriangle className="h-3 w-3 mr-1" />
+                                  {area.category} ({area.accuracy}%)
+                                </Badge>
+                              )) : (
+                                <span className="text-xs text-gray-400">None</span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2 text-sm text-gray-600">
+                              {formatDate(student.lastQuizAt)}
+                              {student.recentQuizzes[0] && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => router.push(`/quiz-assessment/${student.recentQuizzes[0].id}`)}
+                                >
+                                  <Eye className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => router.push(`/tutor-transcripts/${student.id}`)}
+                            >
+                              <MessageCircle className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
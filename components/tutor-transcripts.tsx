@@ -0,0 +1,202 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { ArrowLeft, Bot, MessageCircle, User } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { parseTutorReply } from '@/lib/tutor-stream'
+import type { TutorConversation, TutorStage, TutorTranscript } from '@/types/tutor'
+
+const STAGE_BADGES: Record<TutorStage, { label: string; className: string }> = {
+  explain: { label: 'Explained', className: 'bg-blue-100 text-blue-800' },
+  hint: { label: 'Hint', className: 'bg-yellow-100 text-yellow-800' },
+  reveal: { label: 'Answer given', className: 'bg-orange-100 text-orange-800' },
+  correct: { label: 'Solved', className: 'bg-green-100 text-green-800' }
+}
+
+// Read-only view of a student's chats with the AI tutor for admins, teachers and parents
+export default function TutorTranscripts({ studentId }: { studentId: string }) {
+  const router = useRouter()
+  const [studentName, setStudentName] = useState('')
+  const [conversations, setConversations] = useState<TutorConversation[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [transcript, setTranscript] = useState<TutorTranscript | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingTranscript, setLoadingTranscript] = useState(false)
+
+  const fetchConversations = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/tutor/conversations?studentId=${encodeURIComponent(studentId)}&limit=50`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setStudentName(data.student.name)
+        setConversations(data.conversations)
+        setSelectedId(data.conversations[0]?.id || null)
+      } else {
+        console.error('Failed to fetch tutor conversations:', data.error)
+        toast.error(response.status === 403 ? 'You do not have access to this student\'s tutor chats' : 'Failed to fetch tutor conversations')
+      }
+    } catch (error) {
+      console.error('Error fetching tutor conversations:', error)
+      toast.error('Failed to fetch tutor conversations')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchTranscript = async (conversationId: string) => {
+    setLoadingTranscript(true)
+    try {
+      const response = await fetch(`/api/tutor/conversations/${encodeURIComponent(conversationId)}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setTranscript(data)
+      } else {
+        console.error('Failed to fetch tutor transcript:', data.error)
+        setTranscript(null)
+        toast.error('Failed to fetch tutor transcript')
+      }
+    } catch (error) {
+      console.error('Error fetching tutor transcript:', error)
+      setTranscript(null)
+      toast.error('Failed to fetch tutor transcript')
+    } finally {
+      setLoadingTranscript(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchConversations()
+  }, [studentId])
+
+  useEffect(() => {
+    if (selectedId) fetchTranscript(selectedId)
+  }, [selectedId])
+
+  const formatDateTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString()
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading tutor chats...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="flex h-screen">
+        {/* Conversation list */}
+        <div className="w-72 bg-white border-gray-200 border-r flex flex-col">
+          <div className="p-6 border-b border-gray-200">
+            <Button variant="ghost" size="sm" className="mb-3 -ml-2 text-gray-600" onClick={() => router.back()}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            <h1 className="text-xl font-bold text-gray-900">Tutor Chats</h1>
+            <p className="text-sm text-gray-600">{studentName}</p>
+          </div>
+
+          <nav className="flex-1 p-2 space-y-1 overflow-y-auto">
+            {conversations.map(conversation => (
+              <button
+                key={conversation.id}
+                onClick={() => setSelectedId(conversation.id)}
+                className={`w-full text-left px-4 py-3 rounded-lg transition-colors ${
+                  conversation.id === selectedId ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                <div className="flex items-center gap-2 font-medium">
+                  <MessageCircle className="h-4 w-4" />
+                  {formatDateTime(conversation.created_at)}
+                </div>
+                <div className="text-xs text-gray-500 ml-6">
+                  {conversation.message_count} messages • last active {formatDateTime(conversation.updated_at)}
+                </div>
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        {/* Transcript */}
+        <div className="flex-1 overflow-y-auto p-8">
+          {!selectedId ? (
+            <div className="text-center text-gray-500 py-16">
+              <MessageCircle className="h-12 w-12 mx-auto mb-3 text-gray-300" />
+              <p>{studentName ? `${studentName} has not chatted with the tutor yet` : 'No tutor chats to show'}</p>
+            </div>
+          ) : (
+            <Card className="bg-white shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Bot className="h-5 w-5 text-blue-600" />
+                  Transcript
+                </CardTitle>
+                <CardDescription>
+                  What {studentName} asked the AI tutor and the help they were given. This view is read-only.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {loadingTranscript || !transcript ? (
+                  <p className="text-gray-500">{loadingTranscript ? 'Loading transcript...' : 'Transcript unavailable'}</p>
+                ) : transcript.messages.length === 0 ? (
+                  <p className="text-gray-500">No messages in this chat</p>
+                ) : (
+                  <div className="space-y-4">
+                    {transcript.messages.map((message, index) => {
+                      const previous = transcript.messages[index - 1]
+                      const showQuestion = message.question_text && message.question_id !== previous?.question_id
+                      const reply = message.role === 'assistant' ? parseTutorReply(message.content) : undefined
+
+                      return (
+                        <div key={message.id}>
+                          {showQuestion && (
+                            <div className="text-xs text-gray-500 border-t border-gray-100 pt-3 mb-2">
+                              Question: {message.question_text}
+                            </div>
+                          )}
+                          <div className={`flex gap-3 ${message.role === 'user' ? 'flex-row-reverse' : ''}`}>
+                            <div className="shrink-0 mt-1">
+                              {message.role === 'user'
+                                ? <User className="h-5 w-5 text-gray-500" />
+                                : <Bot className="h-5 w-5 text-blue-600" />}
+                            </div>
+                            <div className={`max-w-[75%] rounded-lg px-4 py-2 ${
+                              message.role === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-900'
+                            }`}>
+                              <p className="whitespace-pre-wrap">{reply ? reply.content : message.content}</p>
+                              <div className={`flex items-center gap-2 mt-1 text-xs ${message.role === 'user' ? 'text-blue-100' : 'text-gray-500'}`}>
+                                {formatDateTime(message.created_at)}
+                                {message.hint_stage && (
+                                  <Badge className={STAGE_BADGES[message.hint_stage].className}>
+                                    {STAGE_BADGES[message.hint_stage].label}
+                                  </Badge>
+                                )}
+                              </div>
+                            </div>
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { FaceFrame } from '@/types/face';
+
+// face-api.js weights: tiny_face_detector, face_landmark_68 and face_recognition
+const MODEL_URL = process.env.NEXT_PUBLIC_FACE_MODEL_URL || '/models';
+
+// The recognition net is the slow part on the CPU, so only some frames carry a descriptor
+const DESCRIPTOR_EVERY = 4;
+const MAX_FRAMES = 60;
+
+type FaceApi = typeof import('face-api.js');
+
+/**
+ * Loads the face-api.js models on the CPU backend and records what the
+ * camera sees, frame by frame, for the face login endpoints. The server
+ * decides whether the frames show the liveness action and whose face it is.
+ */
+export function useFaceCapture() {
+  const faceApiRef = useRef<FaceApi | null>(null);
+  const [modelsReady, setModelsReady] = useState(false);
+  const [modelError, setModelError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadModels() {
+      try {
+        const faceapi = await import('face-api.js');
+        // Same results on every device, without depending on WebGL support
+        await faceapi.tf.setBackend('cpu');
+        await faceapi.tf.ready();
+        await Promise.all([
+          faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL),
+          faceapi.nets.faceLandmark68Net.loadFromUri(MODEL_URL),
+          faceapi.nets.faceRecognitionNet.loadFromUri(MODEL_URL)
+        ]);
+
+        if (!cancelled) {
+          faceApiRef.current = faceapi;
+          setModelsReady(true);
+        }
+      } catch (error) {
+        console.error('Failed to load face recognition models:', error);
+        if (!cancelled) setModelError('Face recognition is not available right now.');
+      }
+    }
+
+    loadModels();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const capture = useCallback(async (video: HTMLVideoElement, durationMs: number): Promise<FaceFrame[]> => {
+    const faceapi = faceApiRef.current;
+    if (!faceapi) throw new Error('Face recognition models are not loaded');
+
+    const options = new faceapi.TinyFaceDetectorOptions({ inputSize: 224 });
+    const frames: FaceFrame[] = [];
+    const start = performance.now();
+
+    for (let attempt = 0; performance.now() - start < durationMs && frames.length < MAX_FRAMES; attempt++) {
+      const t = Math.round(performance.now() - start);
+      const landmarked = faceapi.detectSingleFace(video, options).withFaceLandmarks();
+
+      if (attempt % DESCRIPTOR_EVERY === 0) {
+        const detection = await landmarked.withFaceDescriptor();
+        if (detection) {
+          frames.push({
+            t,
+            landmarks: detection.landmarks.positions.map(point => [point.x, point.y]),
+            descriptor: Array.from(detection.descriptor)
+          });
+        }
+      } else {
+        const detection = await landmarked;
+        if (detection) {
+          frames.push({ t, landmarks: detection.landmarks.positions.map(point => [point.x, point.y]) });
+        }
+      }
+    }
+
+    return frames;
+  }, []);
+
+  return { modelsReady, modelError, capture };
+}
@@ -0,0 +1,42 @@
+import { useCallback } from 'react';
+import { useToast } from '@/components/ui/use-toast';
+import type { RecordingConsentScope, RecordingKind } from '@/types/consent';
+
+/**
+ * Checks with the server that a parent has consented to this kind of
+ * recording before it starts. The upload routes enforce the same rule, so
+ * this only spares the child a recording that could not be saved.
+ */
+export function useRecordingConsent() {
+  const { toast } = useToast();
+
+  const ensureConsent = useCallback(async (kind: RecordingKind): Promise<boolean> => {
+    try {
+      const response = await fetch('/api/recordings/consent');
+      if (!response.ok) {
+        throw new Error(`Consent check failed with status ${response.status}`);
+      }
+
+      const data: { missing: Record<RecordingKind, RecordingConsentScope[]> } = await response.json();
+      const missing = data.missing[kind];
+      if (missing.length === 0) return true;
+
+      toast({
+        title: 'Recording needs a parent\'s permission',
+        description: `Ask a parent to allow ${missing.join(' and ')} recording on their dashboard.`,
+        variant: 'destructive'
+      });
+      return false;
+    } catch (error) {
+      console.error('Error checking recording consent:', error);
+      toast({
+        title: 'Recording Unavailable',
+        description: 'Could not check recording permission. Please try again.',
+        variant: 'destructive'
+      });
+      return false;
+    }
+  }, [toast]);
+
+  return { ensureConsent };
+}
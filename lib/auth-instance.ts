@@ -35,4 +35,4 @@ export function resetAuthInstance(): void {
 }
 
 export { AuthIntegration } from '@/lib/services/auth-integration';
-export type { LoginCredentials, LoginResponse, RegisterData } from '@/lib/services/auth-integration';
\ No newline at end of file
+export type { FaceLoginCredentials, LoginCredentials, LoginResponse, RegisterData } from '@/lib/services/auth-integration';
\ No newline at end of file
@@ -5,15 +5,31 @@
  * This configuration is designed to be easily adaptable for Supabase migration.
  */
 
-import { AuthIntegrationConfig } from '@/lib/services/auth-integration';
+import type { AuthIntegrationConfig } from '@/lib/services/auth-integration';
+import type { PasswordPolicy, UserRole } from '@/types/auth';
 
 // Environment-based configuration
 const isDevelopment = process.env.NODE_ENV === 'development';
 const isProduction = process.env.NODE_ENV === 'production';
+// next build runs with NODE_ENV=production but without the runtime secrets
+const isBuildPhase = process.env.NEXT_PHASE === 'phase-production-build';
+
+/**
+ * Read a secret from the environment. Production refuses to start without
+ * it; the development default is public and only fit for local use.
+ */
+export function requireSecret(name: string, developmentDefault: string): string {
+  const value = process.env[name];
+  if (value) return value;
+  if (isProduction && !isBuildPhase) {
+    throw new Error(`${name} must be set in production`);
+  }
+  return developmentDefault;
+}
 
 export const authConfig: AuthIntegrationConfig = {
   auth: {
-    jwtSecret: process.env.JWT_SECRET || 'your-jwt-secret-key',
+    jwtSecret: requireSecret('JWT_SECRET', 'your-jwt-secret-key'),
     jwtExpiresIn: '24h',
     refreshTokenExpiresIn: '7d',
     passwordSaltRounds: 12
@@ -46,7 +62,7 @@ export const authConfig: AuthIntegrationConfig = {
         : process.env.ALLOWED_ORIGINS?.split(',') || ['https://yourapp.com'],
       credentials: true
     },
-    requireEmailVerification: false, // Set to true if email verification is required
+    requireEmailVerification: process.env.REQUIRE_EMAIL_VERIFICATION === 'true', // block sign-in until new accounts verify their email
     lockout: {
       maxFailedAttempts: 5,
       lockoutDuration: 30 * 60 * 1000 // 30 minutes
@@ -88,14 +104,14 @@ export const databaseConfig = {
   }
 };
 
-// JWT configuration
+// JWT configuration: the only token format, issued by JWTManager and checked by withAuth
 export const jwtConfig = {
-  accessTokenSecret: process.env.JWT_ACCESS_SECRET || 'your-access-token-secret',
-  refreshTokenSecret: process.env.JWT_REFRESH_SECRET || 'your-refresh-token-secret',
-  accessTokenExpiry: '15m',
-  refreshTokenExpiry: '7d',
+  accessTokenSecret: authConfig.auth.jwtSecret,
+  refreshTokenSecret: requireSecret('JWT_REFRESH_SECRET', 'your-refresh-secret'),
+  accessTokenExpiry: authConfig.auth.jwtExpiresIn,
+  refreshTokenExpiry: authConfig.auth.refreshTokenExpiresIn,
   issuer: 'futurelearner',
-  audience: 'futurelearner-users'
+  audience: 'futurelearner-app'
 };
 
 // Email configuration (for verification emails)
@@ -104,6 +120,7 @@ export const emailConfig = {
     host: process.env.SMTP_HOST || 'localhost',
     port: parseInt(process.env.SMTP_PORT || '587'),
     secure: process.env.SMTP_SECURE === 'true',
+    allowInsecure: process.env.SMTP_ALLOW_INSECURE === 'true', // local relays only: no STARTTLS required
     auth: {
       user: process.env.SMTP_USER,
       pass: process.env.SMTP_PASS
@@ -125,6 +142,14 @@ export const emailConfig = {
     welcomeEmail: {
       subject: 'Welcome to FutureLearner!',
       template: 'welcome'
+    },
+    accountUnlock: {
+      subject: 'Your account has been locked',
+      template: 'account-unlock'
+    },
+    safetyAlert: {
+      subject: 'A safety message about your child',
+      template: 'safety-alert'
     }
   }
 };
@@ -197,7 +222,40 @@ export const lockoutConfig = {
   lockoutDuration: 30 * 60 * 1000, // 30 minutes
   resetOnSuccess: true,
   progressiveLockout: true, // Increase lockout time with repeated failures
-  ipBasedLockout: true
+  ipBasedLockout: true,
+  maxFailedAttemptsPerIP: 20, // across all accounts, within attemptWindow
+  attemptWindow: 15 * 60 * 1000, // 15 minutes
+  unlockTokenExpiryHours: 24
+};
+
+// Password policy applied to every password change, from authConfig.security.password
+export const passwordPolicy: PasswordPolicy = {
+  min_length: authConfig.security.password.minLength,
+  require_uppercase: authConfig.security.password.requireUppercase,
+  require_lowercase: authConfig.security.password.requireLowercase,
+  require_numbers: authConfig.security.password.requireNumbers,
+  require_special_chars: authConfig.security.password.requireSpecialChars,
+  max_age_days: authConfig.security.password.maxAge, // 0 turns expiry off
+  prevent_reuse_count: authConfig.security.password.preventReuse // 0 turns the history check off
+};
+
+// Password change configuration
+export const passwordChangeConfig = {
+  changeTokenExpiry: '15m' // how long the login hands an expired password to the change step
+};
+
+// Password reset configuration
+export const passwordResetConfig = {
+  tokenExpiryMinutes: 60,
+  signOutEverywhere: true, // end all sessions once the password has been reset
+  minResponseMs: 1000 // reset requests take at least this long, whether or not an account matched
+};
+
+// Email verification configuration (enforced when authConfig.security.requireEmailVerification is on)
+export const emailVerificationConfig = {
+  roles: ['parent', 'teacher'] as UserRole[], // new accounts with these roles must verify their email
+  tokenExpiryHours: 24,
+  resendCooldownSeconds: 60
 };
 
 // Two-factor authentication configuration
@@ -205,6 +263,13 @@ export const twoFactorConfig = {
   enabled: false, // Can be enabled per user
   issuer: 'FutureLearner',
   window: 1, // Allow 1 step before/after current time
+  digits: 6,
+  period: 30, // seconds per TOTP step
+  backupCodeCount: 10,
+  challengeExpiry: '10m', // how long a login challenge token stays valid
+  eligibleRoles: ['admin', 'teacher'] as UserRole[], // roles that may enrol
+  requiredRoles: ['admin'] as UserRole[], // roles that cannot sign in without 2FA
+  secretEncryptionKey: requireSecret('TWO_FACTOR_ENCRYPTION_KEY', 'your-two-factor-encryption-key'), // encrypts stored TOTP secrets
   qrCodeOptions: {
     width: 200,
     height: 200,
@@ -212,6 +277,25 @@ export const twoFactorConfig = {
   }
 };
 
+// Face login configuration
+export const faceRecognitionConfig = {
+  loginRoles: ['student'] as UserRole[], // roles that may enrol a face and sign in with it
+  confidenceThreshold: 0.5, // stored per user; a match needs 1 - descriptor distance at or above it
+  descriptorLength: 128, // face-api.js face recognition net output
+  sameFaceDistance: 0.6, // frames further than this from their average are a different face
+  challengeExpirySeconds: 120, // how long a liveness challenge stays valid
+  liveness: {
+    minFrames: 4,
+    maxFrames: 60,
+    maxDurationMs: 15000, // first to last frame
+    minDescriptors: 2, // frames that carry a descriptor
+    eyeClosedRatio: 0.2, // eye aspect ratio of a closed eye
+    eyeOpenRatio: 0.25, // eye aspect ratio of an open eye
+    frontalYaw: 0.1, // nose offset from the middle of the jaw, as a share of its width
+    turnedYaw: 0.2
+  }
+};
+
 // Audit logging configuration
 export const auditConfig = {
   enabled: true,
@@ -234,6 +318,7 @@ export const migrationConfig = {
       users_enhanced: 'users',
       user_sessions: 'user_sessions',
       password_reset_tokens: 'password_reset_tokens',
+      password_history: 'password_history',
       failed_login_attempts: 'failed_login_attempts',
       account_lockouts: 'account_lockouts',
       security_audit_logs: 'security_audit_logs',
@@ -281,8 +366,9 @@ export function validateEnvironment(): { isValid: boolean; errors: string[] } {
 
   // Required environment variables
   const required = [
-    'JWT_ACCESS_SECRET',
-    'JWT_REFRESH_SECRET'
+    'JWT_SECRET',
+    'JWT_REFRESH_SECRET',
+    'TWO_FACTOR_ENCRYPTION_KEY'
   ];
 
   // Optional but recommended for production
@@ -325,7 +411,12 @@ export function getConfig() {
     security: securityHeaders,
     permissions: defaultPermissions,
     lockout: lockoutConfig,
+    passwordPolicy,
+    passwordChange: passwordChangeConfig,
+    passwordReset: passwordResetConfig,
+    emailVerification: emailVerificationConfig,
     twoFactor: twoFactorConfig,
+    faceRecognition: faceRecognitionConfig,
     audit: auditConfig,
     migration: migrationConfig
   };
@@ -0,0 +1,60 @@
+/**
+ * LLM Configuration
+ *
+ * The language model providers and which of them each AI route uses. Groq
+ * and Google are reached through their OpenAI-compatible endpoints.
+ */
+
+import { LLMProviderName, LLMRoute } from '@/types/llm';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'groq', 'google', 'mock'];
+
+// A comma-separated provider list such as "openai,groq"; unknown names are ignored
+function parseProviders(value: string | undefined, fallback: LLMProviderName[]): LLMProviderName[] {
+  const names = (value || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter((name): name is LLMProviderName => PROVIDER_NAMES.includes(name as LLMProviderName));
+
+  return names.length > 0 ? names : fallback;
+}
+
+export interface LLMProviderSettings {
+  apiKey?: string;
+  baseURL?: string;
+  model: string;
+  timeout: number; // milliseconds per request
+  supportsPenalties: boolean; // presence and frequency penalties; others reject them
+}
+
+export const llmProviderConfig: Record<Exclude<LLMProviderName, 'mock'>, LLMProviderSettings> = {
+  openai: {
+    apiKey: process.env.OPENAI_API_KEY,
+    model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    timeout: 60000,
+    supportsPenalties: true
+  },
+  groq: {
+    apiKey: process.env.GROQ_API_KEY,
+    baseURL: 'https://api.groq.com/openai/v1',
+    model: process.env.GROQ_MODEL || 'llama-3.1-8b-instant',
+    timeout: 60000,
+    supportsPenalties: false
+  },
+  google: {
+    apiKey: process.env.GOOGLE_API_KEY,
+    baseURL: 'https://generativelanguage.googleapis.com/v1beta/openai/',
+    model: process.env.GOOGLE_MODEL || 'gemini-2.0-flash',
+    timeout: 60000,
+    supportsPenalties: false
+  }
+};
+
+// Providers without an API key are skipped; mock only answers where it is listed
+const defaultProviders = parseProviders(process.env.LLM_PROVIDERS, ['openai', 'groq', 'google']);
+
+// Providers each route tries, in order
+export const llmRouteConfig: Record<LLMRoute, LLMProviderName[]> = {
+  'ai-tutor': parseProviders(process.env.AI_TUTOR_LLM_PROVIDERS, defaultProviders),
+  chat: parseProviders(process.env.CHAT_LLM_PROVIDERS, defaultProviders)
+};
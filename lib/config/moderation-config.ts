@@ -0,0 +1,37 @@
+/**
+ * Moderation Configuration
+ *
+ * The child-safety filter on the AI routes. The local rules always run;
+ * MODERATION_PROVIDER=openai also sends text the rules let through to
+ * OpenAI's moderation endpoint (using OPENAI_API_KEY).
+ */
+
+import { ModerationCategory, ModerationSeverity } from '@/types/moderation';
+
+export type ModerationProviderName = 'openai' | 'none';
+
+export const moderationConfig = {
+  provider: (process.env.MODERATION_PROVIDER === 'openai' ? 'openai' : 'none') as ModerationProviderName,
+  openai: {
+    apiKey: process.env.OPENAI_API_KEY,
+    model: process.env.OPENAI_MODERATION_MODEL || 'omni-moderation-latest',
+    timeout: 10000 // milliseconds; the filter sits in front of every reply
+  },
+  // When the provider cannot be reached the rules' verdict stands, unless
+  // MODERATION_FAIL_CLOSED=true blocks the text instead
+  failClosed: process.env.MODERATION_FAIL_CLOSED === 'true',
+  severity: {
+    self_harm: 'high',
+    sexual: 'high',
+    pii: 'medium',
+    violence: 'medium',
+    hate: 'medium',
+    harassment: 'medium',
+    illicit: 'medium',
+    profanity: 'low'
+  } as Record<ModerationCategory, ModerationSeverity>,
+  // Incidents a student's parents are told about, through the parent notifiers
+  notifyParentsFor: ['self_harm'] as ModerationCategory[],
+  // Longer blocked text is cut down before it is stored for review
+  maxStoredContentLength: 2000
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { getAllowedRoles, isRole, roleHomeRoutes } from '@/lib/config/route-access'
+
+describe('isRole', () => {
+  it('accepts every role with a home route', () => {
+    for (const role of Object.keys(roleHomeRoutes)) {
+      expect(isRole(role)).toBe(true)
+    }
+  })
+
+  it('rejects inherited object keys', () => {
+    expect(isRole('toString')).toBe(false)
+    expect(isRole('__proto__')).toBe(false)
+    expect(isRole('constructor')).toBe(false)
+  })
+
+  it('rejects unknown values and non-strings', () => {
+    expect(isRole('superuser')).toBe(false)
+    expect(isRole('')).toBe(false)
+    expect(isRole(undefined)).toBe(false)
+    expect(isRole(['admin'])).toBe(false)
+  })
+})
+
+describe('getAllowedRoles', () => {
+  it('matches a prefix and the paths below it', () => {
+    expect(getAllowedRoles('/admin-dashboard')).toEqual(['admin'])
+    expect(getAllowedRoles('/admin-dashboard/users')).toEqual(['admin'])
+  })
+
+  it('does not match a path that only shares the prefix text', () => {
+    expect(getAllowedRoles('/quiz-assessment')).toEqual(['student', 'admin'])
+    expect(getAllowedRoles('/quizzes')).toBeNull()
+    expect(getAllowedRoles('/tutorials')).toBeNull()
+  })
+
+  it('leaves unlisted pages open to any signed-in user', () => {
+    expect(getAllowedRoles('/account')).toBeNull()
+    expect(getAllowedRoles('/')).toBeNull()
+  })
+})
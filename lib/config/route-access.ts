@@ -0,0 +1,49 @@
+/**
+ * Route Access Configuration
+ *
+ * Which roles may open each area of the app, checked by the edge middleware.
+ * Kept free of server-only imports so it can run on the edge.
+ */
+
+import type { UserRole } from '@/types/auth';
+
+export interface RouteAccessRule {
+  prefix: string;
+  roles: UserRole[];
+}
+
+// Where each role lands after signing in, and where the 403 page sends them back to
+export const roleHomeRoutes: Record<UserRole, string> = {
+  admin: '/admin-dashboard',
+  teacher: '/teacher-dashboard',
+  parent: '/parent-dashboard',
+  student: '/tutorial'
+};
+
+// Pages matching none of these prefixes are open to any signed-in user
+export const routeAccessRules: RouteAccessRule[] = [
+  { prefix: '/admin-dashboard', roles: ['admin'] },
+  { prefix: '/teacher-dashboard', roles: ['teacher'] },
+  { prefix: '/parent-dashboard', roles: ['parent'] },
+  { prefix: '/tutor-transcripts', roles: ['admin', 'teacher', 'parent'] },
+  { prefix: '/tutorial', roles: ['student'] },
+  { prefix: '/quiz-assessment', roles: ['student', 'admin'] },
+  { prefix: '/quiz', roles: ['student', 'admin'] },
+  { prefix: '/grammar-practice', roles: ['student', 'admin'] }
+];
+
+export const FORBIDDEN_ROUTE = '/forbidden';
+
+// Own keys only, so inherited names such as 'toString' or '__proto__' are not roles
+export function isRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(roleHomeRoutes, value);
+}
+
+/**
+ * The roles allowed on a path, or null when any signed-in user may open it.
+ * A prefix matches the path itself and anything below it.
+ */
+export function getAllowedRoles(pathname: string): UserRole[] | null {
+  const rule = routeAccessRules.find(({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+  return rule ? rule.roles : null;
+}
@@ -2,7 +2,7 @@
  * Abstract Database Adapter
  * 
  * This abstract class defines the interface for database operations.
- * Implementations for SQLite and Supabase will extend this class.
+ * Implementations for Supabase and the offline in-memory store extend this class.
  */
 
 import {
@@ -11,8 +11,28 @@ import {
   LoginSession,
   ParentChildRelationship,
   FaceRecognitionData,
+  TwoFactorAuth,
+  TeacherStudentAssignment,
+  Permission,
+  RolePermission,
+  UserPermission,
+  UserRole,
+  SecurityAuditLog,
+  SecurityAuditLogFilter,
+  FailedLoginAttempt,
+  AccountLockout,
+  RateLimitBucket,
+  PasswordResetToken,
+  EmailVerificationToken,
+  PasswordHistoryEntry,
   DatabaseError
 } from '@/types/auth';
+import { QuizSession, QuizSessionAnswer, QuizSessionStatus } from '@/types/quiz';
+import { ParentLinkRequest, ParentLinkRequestFilter, ParentLinkRequestStatus } from '@/types/parent';
+import { RecordingConsent, RecordingConsentScope } from '@/types/consent';
+import { TutorConversation, TutorMessage, TutorQuestionState } from '@/types/tutor';
+import { ModerationIncident, ModerationIncidentFilter } from '@/types/moderation';
+import { FaceChallengeRecord } from '@/types/face';
 
 export abstract class AbstractDatabaseAdapter implements DatabaseAdapter {
   protected connectionString: string;
@@ -47,15 +67,59 @@ export abstract class AbstractDatabaseAdapter implements DatabaseAdapter {
   // ============================================================================
 
   abstract verifyPassword(userId: string, password: string): Promise<boolean>;
+  /**
+   * Hashes and stores the new password, stamps password_changed_at and adds
+   * the hash to the password history.
+   */
   abstract updatePassword(userId: string, newPassword: string): Promise<boolean>;
   abstract createSession(sessionData: Omit<LoginSession, 'id'>): Promise<LoginSession>;
   abstract getSession(token: string): Promise<LoginSession | null>;
   abstract getSessionByToken(sessionToken: string): Promise<LoginSession | null>;
   abstract updateSessionActivity(sessionToken: string): Promise<boolean>;
   abstract invalidateSession(token: string): Promise<boolean>;
-  abstract invalidateSessionByRefreshToken(refreshToken: string): Promise<boolean>;
+  /**
+   * Ends the active session that used the refresh token and returns it, or
+   * null when there was none.
+   */
+  abstract invalidateSessionByRefreshToken(refreshToken: string): Promise<LoginSession | null>;
   abstract invalidateAllUserSessions(userId: string): Promise<boolean>;
+  /**
+   * Deletes expired sessions. Revoked ones are kept until they expire so
+   * their tokens stay rejected.
+   */
   abstract cleanupExpiredSessions(): Promise<number>;
+  /**
+   * Unlike getSession, also returns revoked and expired sessions.
+   */
+  abstract getSessionRecord(token: string): Promise<LoginSession | null>;
+  abstract getSessionById(id: string): Promise<LoginSession | null>;
+  /**
+   * Active, unexpired sessions of the user, most recently used first.
+   */
+  abstract getActiveUserSessions(userId: string): Promise<LoginSession[]>;
+  abstract invalidateSessionById(id: string): Promise<boolean>;
+
+  // ============================================================================
+  // Two-Factor Authentication Operations
+  // ============================================================================
+
+  abstract getTwoFactorAuth(userId: string): Promise<TwoFactorAuth | null>;
+  /**
+   * Replaces the user's existing record, e.g. when enrolment is restarted.
+   */
+  abstract saveTwoFactorAuth(twoFactorData: Omit<TwoFactorAuth, 'id'>): Promise<TwoFactorAuth>;
+  abstract updateTwoFactorAuth(userId: string, updates: Partial<TwoFactorAuth>): Promise<TwoFactorAuth | null>;
+  /**
+   * Records a TOTP step as used. Returns false when that step or a later one
+   * was already accepted, so the same code cannot be replayed.
+   */
+  abstract claimTwoFactorStep(userId: string, step: number): Promise<boolean>;
+  /**
+   * Removes a hashed backup code. Returns false when it is not (or no longer)
+   * stored, so two requests cannot both redeem the same code.
+   */
+  abstract consumeTwoFactorBackupCode(userId: string, codeHash: string): Promise<boolean>;
+  abstract deleteTwoFactorAuth(userId: string): Promise<boolean>;
 
   // ============================================================================
   // Relationship Operations
@@ -66,6 +130,172 @@ export abstract class AbstractDatabaseAdapter implements DatabaseAdapter {
   abstract getChildParents(childId: string): Promise<UserProfile[]>;
   abstract updateParentChildLink(id: string, updates: Partial<ParentChildRelationship>): Promise<ParentChildRelationship>;
   abstract deleteParentChildLink(id: string): Promise<boolean>;
+  abstract getParentChildLink(parentId: string, childId: string): Promise<ParentChildRelationship | null>;
+  abstract getParentLinks(parentId: string): Promise<ParentChildRelationship[]>;
+  abstract createParentLinkRequest(requestData: Omit<ParentLinkRequest, 'id'>): Promise<ParentLinkRequest>;
+  abstract getParentLinkRequestById(id: string): Promise<ParentLinkRequest | null>;
+  abstract getParentLinkRequests(filter: ParentLinkRequestFilter): Promise<ParentLinkRequest[]>;
+  /**
+   * Update a request only while it still has `expectedStatus`. Returns null
+   * when it was decided by someone else first.
+   */
+  abstract updateParentLinkRequest(
+    id: string,
+    updates: Partial<ParentLinkRequest>,
+    expectedStatus: ParentLinkRequestStatus
+  ): Promise<ParentLinkRequest | null>;
+
+  // ============================================================================
+  // Recording Consent Operations
+  // ============================================================================
+
+  abstract createRecordingConsent(consentData: Omit<RecordingConsent, 'id'>): Promise<RecordingConsent>;
+  /**
+   * The child's unrevoked consents, newest first.
+   */
+  abstract getActiveRecordingConsents(childId: string): Promise<RecordingConsent[]>;
+  /**
+   * Revokes the child's unrevoked consents for the given scopes and returns how many there were.
+   */
+  abstract revokeRecordingConsents(
+    childId: string,
+    scopes: RecordingConsentScope[],
+    revokedBy: string
+  ): Promise<number>;
+
+  // ============================================================================
+  // Teacher Assignment Operations
+  // ============================================================================
+
+  abstract createTeacherStudentAssignment(
+    assignmentData: Omit<TeacherStudentAssignment, 'id'>
+  ): Promise<TeacherStudentAssignment>;
+  abstract getTeacherStudentAssignment(teacherId: string, studentId: string): Promise<TeacherStudentAssignment | null>;
+  /**
+   * Active assignments, all of them when no teacher is given.
+   */
+  abstract getTeacherAssignments(teacherId?: string): Promise<TeacherStudentAssignment[]>;
+  abstract deleteTeacherStudentAssignment(id: string): Promise<boolean>;
+
+  // ============================================================================
+  // Permission Operations
+  // ============================================================================
+
+  abstract createPermission(permissionData: Omit<Permission, 'id'>): Promise<Permission>;
+  abstract getPermissions(): Promise<Permission[]>;
+  /**
+   * Role grants, all of them when no role is given.
+   */
+  abstract getRolePermissions(role?: UserRole): Promise<RolePermission[]>;
+  /**
+   * Returns the existing grant when the role already has the permission.
+   */
+  abstract grantRolePermission(grantData: Omit<RolePermission, 'id'>): Promise<RolePermission>;
+  abstract revokeRolePermission(role: UserRole, permissionId: string): Promise<boolean>;
+  /**
+   * Includes expired grants; callers decide whether a grant still applies.
+   */
+  abstract getUserPermissions(userId: string): Promise<UserPermission[]>;
+  abstract getUserPermissionsByPermissionIds(permissionIds: string[]): Promise<UserPermission[]>;
+  /**
+   * Replaces an existing grant of the same permission, e.g. to extend its expiry.
+   */
+  abstract grantUserPermission(grantData: Omit<UserPermission, 'id'>): Promise<UserPermission>;
+  abstract revokeUserPermission(userId: string, permissionId: string): Promise<boolean>;
+
+  // ============================================================================
+  // Security Audit Log Operations
+  // ============================================================================
+
+  abstract createSecurityAuditLog(logData: Omit<SecurityAuditLog, 'id'>): Promise<SecurityAuditLog>;
+  /**
+   * Newest first.
+   */
+  abstract getSecurityAuditLogs(filter: SecurityAuditLogFilter, offset: number, limit: number): Promise<{
+    logs: SecurityAuditLog[];
+    total: number;
+    hasMore: boolean;
+  }>;
+  /**
+   * Removes entries created before `cutoff` and returns how many were removed.
+   */
+  abstract deleteSecurityAuditLogsBefore(cutoff: string): Promise<number>;
+
+  // ============================================================================
+  // Login Security Operations
+  // ============================================================================
+
+  abstract recordFailedLoginAttempt(attemptData: Omit<FailedLoginAttempt, 'id'>): Promise<FailedLoginAttempt>;
+  /**
+   * Attempts made since `since` that match every given field.
+   */
+  abstract countFailedLoginAttempts(filter: { identifier?: string; ipAddress?: string }, since: string): Promise<number>;
+  abstract createAccountLockout(lockoutData: Omit<AccountLockout, 'id'>): Promise<AccountLockout>;
+  /**
+   * Lockouts that are active and have not run out, for every user when none is given.
+   */
+  abstract getActiveAccountLockouts(userId?: string): Promise<AccountLockout[]>;
+  abstract getAccountLockoutByUnlockToken(tokenHash: string): Promise<AccountLockout | null>;
+  /**
+   * Ends every active lockout of the user and returns how many were ended.
+   */
+  abstract releaseAccountLockouts(userId: string, unlockedBy?: string): Promise<number>;
+  abstract getRateLimitBucket(key: string): Promise<RateLimitBucket | null>;
+  /**
+   * Counts one hit atomically, starting a new window once the current one has elapsed.
+   */
+  abstract incrementRateLimitBucket(key: string, windowMs: number): Promise<RateLimitBucket>;
+  abstract blockRateLimitBucket(key: string, until: string): Promise<void>;
+  abstract deleteRateLimitBucket(key: string): Promise<boolean>;
+  abstract deleteExpiredRateLimitBuckets(): Promise<number>;
+
+  // ============================================================================
+  // Password Reset Operations
+  // ============================================================================
+
+  abstract createPasswordResetToken(tokenData: Omit<PasswordResetToken, 'id'>): Promise<PasswordResetToken>;
+  abstract getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | null>;
+  /**
+   * Marks the token used only if it still is unused, so it can be redeemed once.
+   */
+  abstract claimPasswordResetToken(id: string): Promise<boolean>;
+  /**
+   * Marks every unused token of the user as used and returns how many there were.
+   */
+  abstract invalidatePasswordResetTokens(userId: string): Promise<number>;
+
+  // ============================================================================
+  // Email Verification Operations
+  // ============================================================================
+
+  abstract createEmailVerificationToken(tokenData: Omit<EmailVerificationToken, 'id'>): Promise<EmailVerificationToken>;
+  abstract getEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | null>;
+  /**
+   * The most recently issued token of the user, verified or not.
+   */
+  abstract getLatestEmailVerificationToken(userId: string): Promise<EmailVerificationToken | null>;
+  /**
+   * Marks the token verified only if it still is unverified, so it can be redeemed once.
+   */
+  abstract claimEmailVerificationToken(id: string): Promise<boolean>;
+  /**
+   * Expires every unverified token of the user and returns how many there were.
+   */
+  abstract invalidateEmailVerificationTokens(userId: string): Promise<number>;
+
+  // ============================================================================
+  // Password History Operations
+  // ============================================================================
+
+  abstract addPasswordHistory(entry: Omit<PasswordHistoryEntry, 'id'>): Promise<PasswordHistoryEntry>;
+  /**
+   * The user's most recent password hashes, newest first.
+   */
+  abstract getPasswordHistory(userId: string, limit: number): Promise<PasswordHistoryEntry[]>;
+  /**
+   * Deletes all but the newest `keep` entries of the user and returns how many were deleted.
+   */
+  abstract prunePasswordHistory(userId: string, keep: number): Promise<number>;
 
   // ============================================================================
   // Face Recognition Operations
@@ -75,6 +305,11 @@ export abstract class AbstractDatabaseAdapter implements DatabaseAdapter {
   abstract getFaceData(userId: string): Promise<FaceRecognitionData | null>;
   abstract updateFaceData(userId: string, faceData: string): Promise<FaceRecognitionData>;
   abstract deleteFaceData(userId: string): Promise<boolean>;
+  abstract createFaceChallenge(challenge: FaceChallengeRecord): Promise<FaceChallengeRecord>;
+  /**
+   * Marks the challenge used only if it is unused and unexpired, so one capture answers it.
+   */
+  abstract claimFaceChallenge(nonce: string): Promise<boolean>;
 
   // ============================================================================
   // Query Helpers
@@ -96,10 +331,76 @@ export abstract class AbstractDatabaseAdapter implements DatabaseAdapter {
   abstract getRandomQuestions(count: number): Promise<any[]>;
   abstract createQuizResult(resultData: any): Promise<any>;
   abstract getQuizResultsByUserId(userId: string, limit?: number): Promise<any[]>;
+  abstract getQuizResultById(id: string): Promise<any | null>;
   abstract createQuizAnswer(answerData: any): Promise<any>;
   abstract getQuizAnswersByResultId(quizResultId: string): Promise<any[]>;
   abstract createIncorrectAnswer(answerData: any): Promise<any>;
   abstract getIncorrectAnswersByUserId(userId: string, limit?: number): Promise<any[]>;
+  abstract getQuestionsByIds(ids: string[]): Promise<any[]>;
+
+  // ============================================================================
+  // Quiz Session Operations
+  // ============================================================================
+
+  abstract createQuizSession(sessionData: Omit<QuizSession, 'id'>): Promise<QuizSession>;
+  abstract getQuizSessionById(id: string): Promise<QuizSession | null>;
+  /**
+   * Update a session only while it still has `expectedStatus`. Returns null
+   * when another request changed the status first.
+   */
+  abstract updateQuizSession(
+    id: string,
+    updates: Partial<QuizSession>,
+    expectedStatus: QuizSessionStatus
+  ): Promise<QuizSession | null>;
+  /**
+   * Returns null when the question was already answered in this session.
+   */
+  abstract createQuizSessionAnswer(answerData: Omit<QuizSessionAnswer, 'id'>): Promise<QuizSessionAnswer | null>;
+  abstract getQuizSessionAnswers(sessionId: string): Promise<QuizSessionAnswer[]>;
+
+  // ============================================================================
+  // Tutor Operations
+  // ============================================================================
+
+  abstract getTutorQuestionState(
+    userId: string,
+    conversationId: string,
+    questionId: string
+  ): Promise<TutorQuestionState | null>;
+  /**
+   * Creates or replaces the state of the user's question in that conversation.
+   */
+  abstract saveTutorQuestionState(stateData: Omit<TutorQuestionState, 'id'>): Promise<TutorQuestionState>;
+  abstract createTutorConversation(conversationData: Omit<TutorConversation, 'id'>): Promise<TutorConversation>;
+  abstract getTutorConversationById(id: string): Promise<TutorConversation | null>;
+  /**
+   * The user's conversations, most recently active first.
+   */
+  abstract getTutorConversations(userId: string, limit: number): Promise<TutorConversation[]>;
+  /**
+   * Adds a message and updates the conversation's message_count and updated_at.
+   */
+  abstract addTutorMessage(messageData: Omit<TutorMessage, 'id'>): Promise<TutorMessage>;
+  /**
+   * The conversation's messages, oldest first.
+   */
+  abstract getTutorMessages(conversationId: string): Promise<TutorMessage[]>;
+
+  // ============================================================================
+  // Moderation Operations
+  // ============================================================================
+
+  abstract createModerationIncident(incidentData: Omit<ModerationIncident, 'id'>): Promise<ModerationIncident>;
+  abstract getModerationIncidentById(id: string): Promise<ModerationIncident | null>;
+  /**
+   * Newest first.
+   */
+  abstract getModerationIncidents(filter: ModerationIncidentFilter, limit: number): Promise<ModerationIncident[]>;
+  abstract updateModerationIncident(
+    id: string,
+    updates: Partial<Pick<ModerationIncident, 'status' | 'reviewed_by' | 'reviewed_at' | 'review_note' | 'parents_notified_at'>>
+  ): Promise<ModerationIncident>;
 
   // ============================================================================
   // Admin Statistics
@@ -111,6 +412,17 @@ export abstract class AbstractDatabaseAdapter implements DatabaseAdapter {
     usersWithQuizzes: number;
     recentActivity: number;
   }>;
+  abstract getQuestionCount(): Promise<number>;
+  abstract getQuizResultsByUserIds(userIds: string[]): Promise<any[]>;
+  abstract getQuizAnswersByResultIds(quizResultIds: string[]): Promise<any[]>;
+  abstract getQuestionHistoryByUserIds(userIds: string[]): Promise<any[]>;
+  abstract getLoginSessionsByUserIds(userIds: string[]): Promise<LoginSession[]>;
+  /**
+   * Newest first. Used to merge the admin activity feed, so callers pass
+   * offset + limit and page the merged list themselves.
+   */
+  abstract getRecentQuizResults(limit: number): Promise<any[]>;
+  abstract getRecentLoginSessions(limit: number): Promise<LoginSession[]>;
 
   // ============================================================================
   // Utility Methods
@@ -182,17 +494,24 @@ export abstract class AbstractDatabaseAdapter implements DatabaseAdapter {
 // Database Factory
 // ============================================================================
 
+export type DatabaseType = 'supabase' | 'memory';
+
 export interface DatabaseAdapterFactory {
-  createAdapter(type: 'supabase', config: any): AbstractDatabaseAdapter;
+  createAdapter(type: DatabaseType, config: any): AbstractDatabaseAdapter;
 }
 
 export class DatabaseFactory implements DatabaseAdapterFactory {
-  createAdapter(type: 'supabase', config: any): AbstractDatabaseAdapter {
+  createAdapter(type: DatabaseType, config: any): AbstractDatabaseAdapter {
     switch (type) {
       case 'supabase':
         // Import Supabase adapter
         const { SupabaseAdapter } = require('./supabase-adapter');
         return new SupabaseAdapter(config);
+
+      case 'memory':
+        // Import in-memory adapter
+        const { MemoryAdapter } = require('./memory-adapter');
+        return new MemoryAdapter(config);
       
       default:
         throw new DatabaseError(
@@ -220,7 +539,7 @@ export class DatabaseManager {
     return DatabaseManager.instance;
   }
 
-  async initialize(type: 'supabase', config: any): Promise<void> {
+  async initialize(type: DatabaseType, config: any): Promise<void> {
     if (this.adapter) {
       await this.adapter.disconnect();
     }
@@ -1,12 +1,15 @@
 /**
  * Database Manager
  * 
- * Supabase-only database connection manager for production deployment.
+ * Database connection manager. Supabase is used for production deployment;
+ * DATABASE_TYPE=memory selects the offline in-memory adapter for local
+ * development and integration tests.
  * SQLite support has been removed to avoid native module compilation issues on Vercel.
  */
 
 import { AbstractDatabaseAdapter } from './abstract-adapter';
 import { SupabaseAdapter } from './supabase-adapter';
+import { MemoryAdapter } from './memory-adapter';
 
 export class DatabaseManager {
   private static instance: DatabaseManager;
@@ -38,6 +41,19 @@ export class DatabaseManager {
   }
 
   public async initializeAdapter(): Promise<void> {
+    if (this.databaseType === 'memory') {
+      console.log(`Initializing in-memory database adapter`);
+
+      this.adapter = new MemoryAdapter({
+        filePath: process.env.MEMORY_DB_FILE,
+        seed: process.env.MEMORY_DB_SEED !== 'false'
+      });
+
+      await this.adapter.connect();
+      console.log(`In-memory database adapter initialized`);
+      return;
+    }
+
     console.log(`Initializing Supabase database adapter`);
 
     this.adapter = new SupabaseAdapter({
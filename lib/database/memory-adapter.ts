@@ -0,0 +1,1908 @@
+/**
+ * In-Memory Database Adapter
+ *
+ * Offline implementation of the database adapter. All data lives in process
+ * memory and can optionally be written to a JSON file so it survives restarts.
+ * Select it with DATABASE_TYPE=memory to run the app or integration tests
+ * without a Supabase project.
+ */
+
+import bcrypt from 'bcrypt';
+import fs from 'fs';
+import path from 'path';
+import { AbstractDatabaseAdapter } from './abstract-adapter';
+import {
+  UserProfile,
+  UserPreferences,
+  LoginSession,
+  ParentChildRelationship,
+  FaceRecognitionData,
+  TwoFactorAuth,
+  TeacherStudentAssignment,
+  Permission,
+  RolePermission,
+  UserPermission,
+  UserRole,
+  SecurityAuditLog,
+  SecurityAuditLogFilter,
+  FailedLoginAttempt,
+  AccountLockout,
+  RateLimitBucket,
+  PasswordResetToken,
+  EmailVerificationToken,
+  PasswordHistoryEntry,
+  DatabaseError
+} from '@/types/auth';
+import { QuizSession, QuizSessionAnswer, QuizSessionStatus } from '@/types/quiz';
+import { ParentLinkRequest, ParentLinkRequestFilter, ParentLinkRequestStatus } from '@/types/parent';
+import { RecordingConsent, RecordingConsentScope } from '@/types/consent';
+import { TutorConversation, TutorMessage, TutorQuestionState } from '@/types/tutor';
+import { ModerationIncident, ModerationIncidentFilter } from '@/types/moderation';
+import { FaceChallengeRecord } from '@/types/face';
+
+export interface MemoryConfig {
+  filePath?: string; // JSON file used to persist data between restarts
+  seed?: boolean; // Seed demo questions, and demo users outside production, when the store is empty
+}
+
+type StoredUser = UserProfile & { password_hash?: string };
+export interface MemoryTables {
+  users_enhanced: StoredUser[];
+  login_sessions: LoginSession[];
+  parent_child_relationships: ParentChildRelationship[];
+  parent_link_requests: ParentLinkRequest[];
+  recording_consents: RecordingConsent[];
+  teacher_student_assignments: TeacherStudentAssignment[];
+  permissions: Permission[];
+  role_permissions: RolePermission[];
+  user_permissions: UserPermission[];
+  face_recognition_data: FaceRecognitionData[];
+  face_challenges: FaceChallengeRecord[];
+  two_factor_auth: TwoFactorAuth[];
+  security_audit_logs: SecurityAuditLog[];
+  failed_login_attempts: FailedLoginAttempt[];
+  account_lockouts: AccountLockout[];
+  rate_limit_buckets: RateLimitBucket[];
+  password_reset_tokens: PasswordResetToken[];
+  email_verification_tokens: EmailVerificationToken[];
+  password_history: PasswordHistoryEntry[];
+  questions: any[];
+  quiz_results: any[];
+  quiz_answers: any[];
+  incorrect_answers: any[];
+  user_question_history: any[];
+  quiz_sessions: QuizSession[];
+  quiz_session_answers: QuizSessionAnswer[];
+  tutor_question_states: TutorQuestionState[];
+  tutor_conversations: TutorConversation[];
+  tutor_messages: TutorMessage[];
+  moderation_incidents: ModerationIncident[];
+}
+
+const DEFAULT_PREFERENCES: UserPreferences = {
+  language: 'en',
+  timezone: 'UTC',
+  notifications: {
+    email_notifications: true,
+    push_notifications: true,
+    quiz_reminders: true,
+    progress_updates: true,
+    system_announcements: true
+  },
+  accessibility: {
+    high_contrast: false,
+    large_text: false,
+    screen_reader: false,
+    keyboard_navigation: false
+  },
+  privacy: {
+    profile_visibility: 'private',
+    show_progress: true,
+    allow_messages: true
+  }
+};
+
+export class MemoryAdapter extends AbstractDatabaseAdapter {
+  private tables: MemoryTables = MemoryAdapter.emptyTables();
+  private config: MemoryConfig;
+
+  constructor(config: MemoryConfig = {}) {
+    super(config.filePath || 'memory://');
+    this.config = config;
+  }
+
+  static emptyTables(): MemoryTables {
+    return {
+      users_enhanced: [],
+      login_sessions: [],
+      parent_child_relationships: [],
+      parent_link_requests: [],
+      recording_consents: [],
+      teacher_student_assignments: [],
+      permissions: [],
+      role_permissions: [],
+      user_permissions: [],
+      face_recognition_data: [],
+      face_challenges: [],
+      two_factor_auth: [],
+      security_audit_logs: [],
+      failed_login_attempts: [],
+      account_lockouts: [],
+      rate_limit_buckets: [],
+      password_reset_tokens: [],
+      email_verification_tokens: [],
+      password_history: [],
+      questions: [],
+      quiz_results: [],
+      quiz_answers: [],
+      incorrect_answers: [],
+      user_question_history: [],
+      quiz_sessions: [],
+      quiz_session_answers: [],
+      tutor_question_states: [],
+      tutor_conversations: [],
+      tutor_messages: [],
+      moderation_incidents: []
+    };
+  }
+
+  // ============================================================================
+  // Connection Management
+  // ============================================================================
+
+  async connect(): Promise<void> {
+    try {
+      if (this.config.filePath && fs.existsSync(this.config.filePath)) {
+        const stored = JSON.parse(fs.readFileSync(this.config.filePath, 'utf8'));
+        // Tables added after the file was written start out empty
+        this.tables = { ...MemoryAdapter.emptyTables(), ...stored };
+      }
+
+      if (this.config.seed && this.tables.users_enhanced.length === 0 && this.tables.questions.length === 0) {
+        await this.seed();
+      }
+
+      this.isConnected = true;
+    } catch (error) {
+      this.handleError(error, 'connect to memory store');
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.persist();
+    this.isConnected = false;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.isConnected;
+  }
+
+  async migrate(): Promise<boolean> {
+    // The in-memory schema is defined by MemoryTables; nothing to migrate
+    return true;
+  }
+
+  async query(sql: string, params?: any[]): Promise<any> {
+    console.warn('Raw SQL query not supported by the memory adapter:', sql);
+    console.warn('Parameters:', params);
+    return null;
+  }
+
+  // ============================================================================
+  // User Operations
+  // ============================================================================
+
+  async createUser(userData: Partial<UserProfile>): Promise<UserProfile> {
+    this.ensureConnected();
+    this.validateRequired(userData, ['email', 'role']);
+
+    if (this.tables.users_enhanced.some(u => u.email === userData.email)) {
+      throw new DatabaseError(`Email already exists: ${userData.email}`, 'UNIQUE_VIOLATION');
+    }
+    if (userData.username && this.tables.users_enhanced.some(u => u.username === userData.username)) {
+      throw new DatabaseError(`Username already exists: ${userData.username}`, 'UNIQUE_VIOLATION');
+    }
+
+    const now = this.getCurrentTimestamp();
+    const user: StoredUser = {
+      id: userData.id || this.generateId(),
+      email: userData.email!,
+      username: userData.username,
+      role: userData.role!,
+      account_status: userData.account_status || 'active',
+      created_at: now,
+      updated_at: now,
+      login_attempts: 0,
+      email_verified: userData.email_verified || false,
+      phone: userData.phone,
+      avatar_url: userData.avatar_url,
+      first_name: userData.first_name,
+      last_name: userData.last_name,
+      full_name: userData.full_name,
+      date_of_birth: userData.date_of_birth,
+      grade_level: userData.grade_level,
+      subject_specialization: userData.subject_specialization,
+      bio: userData.bio,
+      preferences: userData.preferences || DEFAULT_PREFERENCES
+    };
+
+    this.tables.users_enhanced.push(user);
+    this.persist();
+    return this.toProfile(user);
+  }
+
+  async getUserById(id: string): Promise<UserProfile | null> {
+    this.ensureConnected();
+    const user = this.tables.users_enhanced.find(u => u.id === id);
+    return user ? this.toProfile(user) : null;
+  }
+
+  async getUserByEmail(email: string): Promise<UserProfile | null> {
+    this.ensureConnected();
+    const user = this.tables.users_enhanced.find(u => u.email === email);
+    return user ? this.toProfile(user) : null;
+  }
+
+  async getUserByUsername(username: string): Promise<UserProfile | null> {
+    this.ensureConnected();
+    const user = this.tables.users_enhanced.find(u => u.username === username);
+    return user ? this.toProfile(user) : null;
+  }
+
+  async updateUser(id: string, updates: Partial<UserProfile>): Promise<UserProfile> {
+    this.ensureConnected();
+
+    const user = this.tables.users_enhanced.find(u => u.id === id);
+    if (!user) {
+      throw new DatabaseError(`User not found: ${id}`, 'NOT_FOUND');
+    }
+
+    const { id: _id, ...sanitized } = this.sanitizeUserData(updates);
+    Object.assign(user, sanitized, { updated_at: this.getCurrentTimestamp() });
+    this.persist();
+    return this.toProfile(user);
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const before = this.tables.users_enhanced.length;
+    this.tables.users_enhanced = this.tables.users_enhanced.filter(u => u.id !== id);
+    if (this.tables.users_enhanced.length === before) return false;
+
+    // Mirror the ON DELETE CASCADE foreign keys of the Supabase schema
+    const resultIds = new Set(this.tables.quiz_results.filter(r => r.user_id === id).map(r => r.id));
+    this.tables.quiz_results = this.tables.quiz_results.filter(r => r.user_id !== id);
+    this.tables.quiz_answers = this.tables.quiz_answers.filter(a => !resultIds.has(a.quiz_result_id));
+    this.tables.incorrect_answers = this.tables.incorrect_answers.filter(a => a.user_id !== id);
+    this.tables.user_question_history = this.tables.user_question_history.filter(h => h.user_id !== id);
+    this.tables.login_sessions = this.tables.login_sessions.filter(s => s.user_id !== id);
+    const quizSessionIds = new Set(this.tables.quiz_sessions.filter(s => s.user_id === id).map(s => s.id));
+    this.tables.quiz_sessions = this.tables.quiz_sessions.filter(s => s.user_id !== id);
+    this.tables.quiz_session_answers = this.tables.quiz_session_answers.filter(a => !quizSessionIds.has(a.session_id));
+    this.tables.face_recognition_data = this.tables.face_recognition_data.filter(f => f.user_id !== id);
+    this.tables.two_factor_auth = this.tables.two_factor_auth.filter(t => t.user_id !== id);
+    this.tables.account_lockouts = this.tables.account_lockouts.filter(l => l.user_id !== id);
+    this.tables.email_verification_tokens = this.tables.email_verification_tokens.filter(t => t.user_id !== id);
+    this.tables.password_reset_tokens = this.tables.password_reset_tokens.filter(t => t.user_id !== id);
+    this.tables.password_history = this.tables.password_history.filter(h => h.user_id !== id);
+    // Audit entries outlive the user (ON DELETE SET NULL)
+    this.tables.security_audit_logs.forEach(log => {
+      if (log.user_id === id) log.user_id = undefined;
+    });
+    this.tables.parent_child_relationships = this.tables.parent_child_relationships.filter(
+      r => r.parent_id !== id && r.child_id !== id
+    );
+    this.tables.parent_link_requests = this.tables.parent_link_requests.filter(
+      r => r.parent_id !== id && r.child_id !== id
+    );
+    this.tables.recording_consents = this.tables.recording_consents.filter(
+      c => c.parent_id !== id && c.child_id !== id
+    );
+    this.tables.teacher_student_assignments = this.tables.teacher_student_assignments.filter(
+      a => a.teacher_id !== id && a.student_id !== id
+    );
+    this.tables.user_permissions = this.tables.user_permissions.filter(p => p.user_id !== id);
+    this.tables.tutor_question_states = this.tables.tutor_question_states.filter(t => t.user_id !== id);
+    const conversationIds = new Set(
+      this.tables.tutor_conversations.filter(c => c.user_id === id).map(c => c.id)
+    );
+    this.tables.tutor_conversations = this.tables.tutor_conversations.filter(c => c.user_id !== id);
+    this.tables.tutor_messages = this.tables.tutor_messages.filter(m => !conversationIds.has(m.conversation_id));
+    this.tables.moderation_incidents = this.tables.moderation_incidents.filter(i => i.user_id !== id);
+    this.tables.moderation_incidents.forEach(incident => {
+      if (incident.reviewed_by === id) incident.reviewed_by = undefined;
+    });
+
+    this.persist();
+    return true;
+  }
+
+  // ============================================================================
+  // Authentication Operations
+  // ============================================================================
+
+  async verifyPassword(userId: string, password: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const user = this.tables.users_enhanced.find(u => u.id === userId);
+    if (!user?.password_hash) return false;
+
+    try {
+      return await bcrypt.compare(password, user.password_hash);
+    } catch (error) {
+      console.error('Error verifying password:', error);
+      return false;
+    }
+  }
+
+  async updatePassword(userId: string, newPassword: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const user = this.tables.users_enhanced.find(u => u.id === userId);
+    if (!user) return false;
+
+    try {
+      user.password_hash = await bcrypt.hash(newPassword, 10);
+      user.password_changed_at = this.getCurrentTimestamp();
+      user.updated_at = user.password_changed_at;
+      this.tables.password_history.push({
+        id: this.generateId(),
+        user_id: userId,
+        password_hash: user.password_hash!,
+        created_at: user.password_changed_at
+      });
+      this.persist();
+      return true;
+    } catch (error) {
+      this.handleError(error, 'update password');
+    }
+  }
+
+  async createSession(sessionData: Omit<LoginSession, 'id'>): Promise<LoginSession> {
+    this.ensureConnected();
+
+    const session: LoginSession = {
+      id: this.generateId(),
+      ...sessionData
+    };
+
+    this.tables.login_sessions.push(session);
+    this.persist();
+    return { ...session };
+  }
+
+  async getSession(token: string): Promise<LoginSession | null> {
+    this.ensureConnected();
+
+    const now = new Date().toISOString();
+    const session = this.tables.login_sessions.find(
+      s => s.token === token && s.is_active && s.expires_at > now
+    );
+    return session ? { ...session } : null;
+  }
+
+  async getSessionByToken(sessionToken: string): Promise<LoginSession | null> {
+    return this.getSession(sessionToken);
+  }
+
+  async updateSessionActivity(sessionToken: string): Promise<boolean> {
+    return this.updateSessions(s => s.token === sessionToken, { last_activity: this.getCurrentTimestamp() });
+  }
+
+  async invalidateSession(token: string): Promise<boolean> {
+    return this.updateSessions(s => s.token === token, { is_active: false });
+  }
+
+  async invalidateSessionByRefreshToken(refreshToken: string): Promise<LoginSession | null> {
+    this.ensureConnected();
+
+    const active = this.tables.login_sessions.find(s => s.refresh_token === refreshToken && s.is_active);
+    this.updateSessions(s => s.refresh_token === refreshToken, { is_active: false });
+    return active ? { ...active, is_active: false } : null;
+  }
+
+  async invalidateAllUserSessions(userId: string): Promise<boolean> {
+    return this.updateSessions(s => s.user_id === userId, { is_active: false });
+  }
+
+  async cleanupExpiredSessions(): Promise<number> {
+    this.ensureConnected();
+
+    const now = new Date().toISOString();
+    const before = this.tables.login_sessions.length;
+    this.tables.login_sessions = this.tables.login_sessions.filter(s => s.expires_at > now);
+    this.persist();
+    return before - this.tables.login_sessions.length;
+  }
+
+  async getSessionRecord(token: string): Promise<LoginSession | null> {
+    this.ensureConnected();
+
+    const session = this.tables.login_sessions.find(s => s.token === token);
+    return session ? { ...session } : null;
+  }
+
+  async getSessionById(id: string): Promise<LoginSession | null> {
+    this.ensureConnected();
+
+    const session = this.tables.login_sessions.find(s => s.id === id);
+    return session ? { ...session } : null;
+  }
+
+  async getActiveUserSessions(userId: string): Promise<LoginSession[]> {
+    this.ensureConnected();
+
+    const now = new Date().toISOString();
+    return this.tables.login_sessions
+      .filter(s => s.user_id === userId && s.is_active && s.expires_at > now)
+      .sort((a, b) => (b.last_activity || b.created_at).localeCompare(a.last_activity || a.created_at))
+      .map(s => ({ ...s }));
+  }
+
+  async invalidateSessionById(id: string): Promise<boolean> {
+    return this.updateSessions(s => s.id === id, { is_active: false });
+  }
+
+  /**
+   * Authenticate user with email/password, matching the Supabase adapter's
+   * custom authentication used by /api/auth/login
+   */
+  async authenticateWithCustomAuth(email: string, password: string): Promise<{ user: any; error: any }> {
+    this.ensureConnected();
+
+    // The login form may send a username in place of the email
+    const user = this.tables.users_enhanced.find(
+      u => (u.email === email || u.username === email) && u.account_status === 'active'
+    );
+
+    if (!user || !(await this.verifyPassword(user.id, password))) {
+      return { user: null, error: { message: 'Invalid login credentials' } };
+    }
+
+    user.last_login = this.getCurrentTimestamp();
+    user.updated_at = user.last_login;
+    this.persist();
+
+    return { user: { profile: this.toProfile(user) }, error: null };
+  }
+
+  // ============================================================================
+  // Relationship Operations
+  // ============================================================================
+
+  async createParentChildLink(linkData: Omit<ParentChildRelationship, 'id'>): Promise<ParentChildRelationship> {
+    this.ensureConnected();
+
+    const exists = this.tables.parent_child_relationships.some(
+      r => r.parent_id === linkData.parent_id && r.child_id === linkData.child_id
+    );
+    if (exists) {
+      throw new DatabaseError('Parent-child link already exists', 'UNIQUE_VIOLATION');
+    }
+
+    const link: ParentChildRelationship = {
+      id: this.generateId(),
+      ...linkData,
+      created_at: linkData.created_at || this.getCurrentTimestamp(),
+      updated_at: linkData.updated_at || this.getCurrentTimestamp()
+    };
+
+    this.tables.parent_child_relationships.push(link);
+    this.persist();
+    return { ...link };
+  }
+
+  async getParentChildren(parentId: string): Promise<UserProfile[]> {
+    this.ensureConnected();
+
+    const childIds = this.tables.parent_child_relationships
+      .filter(r => r.parent_id === parentId && r.is_active)
+      .map(r => r.child_id);
+
+    return this.tables.users_enhanced.filter(u => childIds.includes(u.id)).map(u => this.toProfile(u));
+  }
+
+  async getChildParents(childId: string): Promise<UserProfile[]> {
+    this.ensureConnected();
+
+    const parentIds = this.tables.parent_child_relationships
+      .filter(r => r.child_id === childId && r.is_active)
+      .map(r => r.parent_id);
+
+    return this.tables.users_enhanced.filter(u => parentIds.includes(u.id)).map(u => this.toProfile(u));
+  }
+
+  async updateParentChildLink(id: string, updates: Partial<ParentChildRelationship>): Promise<ParentChildRelationship> {
+    this.ensureConnected();
+
+    const link = this.tables.parent_child_relationships.find(r => r.id === id);
+    if (!link) {
+      throw new DatabaseError(`Parent-child link not found: ${id}`, 'NOT_FOUND');
+    }
+
+    const { id: _id, ...sanitized } = updates;
+    Object.assign(link, sanitized, { updated_at: this.getCurrentTimestamp() });
+    this.persist();
+    return { ...link };
+  }
+
+  async deleteParentChildLink(id: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const before = this.tables.parent_child_relationships.length;
+    this.tables.parent_child_relationships = this.tables.parent_child_relationships.filter(r => r.id !== id);
+    this.persist();
+    return this.tables.parent_child_relationships.length < before;
+  }
+
+  async getParentChildLink(parentId: string, childId: string): Promise<ParentChildRelationship | null> {
+    this.ensureConnected();
+
+    const link = this.tables.parent_child_relationships.find(r => r.parent_id === parentId && r.child_id === childId);
+    return link ? { ...link } : null;
+  }
+
+  async getParentLinks(parentId: string): Promise<ParentChildRelationship[]> {
+    this.ensureConnected();
+
+    return this.tables.parent_child_relationships
+      .filter(r => r.parent_id === parentId && r.is_active)
+      .map(r => ({ ...r }));
+  }
+
+  async createParentLinkRequest(requestData: Omit<ParentLinkRequest, 'id'>): Promise<ParentLinkRequest> {
+    this.ensureConnected();
+
+    const pending = this.tables.parent_link_requests.some(
+      r => r.parent_id === requestData.parent_id && r.child_id === requestData.child_id && r.status === 'pending'
+    );
+    if (pending) {
+      throw new DatabaseError('A pending link request already exists', 'UNIQUE_VIOLATION');
+    }
+
+    const request: ParentLinkRequest = {
+      id: this.generateId(),
+      ...requestData
+    };
+
+    this.tables.parent_link_requests.push(request);
+    this.persist();
+    return { ...request };
+  }
+
+  async getParentLinkRequestById(id: string): Promise<ParentLinkRequest | null> {
+    this.ensureConnected();
+
+    const request = this.tables.parent_link_requests.find(r => r.id === id);
+    return request ? { ...request } : null;
+  }
+
+  async getParentLinkRequests(filter: ParentLinkRequestFilter): Promise<ParentLinkRequest[]> {
+    this.ensureConnected();
+
+    return this.tables.parent_link_requests
+      .filter(r => !filter.parentId || r.parent_id === filter.parentId)
+      .filter(r => !filter.childIds || filter.childIds.includes(r.child_id))
+      .filter(r => !filter.status || r.status === filter.status)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map(r => ({ ...r }));
+  }
+
+  async updateParentLinkRequest(
+    id: string,
+    updates: Partial<ParentLinkRequest>,
+    expectedStatus: ParentLinkRequestStatus
+  ): Promise<ParentLinkRequest | null> {
+    this.ensureConnected();
+
+    const request = this.tables.parent_link_requests.find(r => r.id === id && r.status === expectedStatus);
+    if (!request) return null;
+
+    const { id: _id, ...sanitized } = updates;
+    Object.assign(request, sanitized);
+    this.persist();
+    return { ...request };
+  }
+
+  // ============================================================================
+  // Recording Consent Operations
+  // ============================================================================
+
+  async createRecordingConsent(consentData: Omit<RecordingConsent, 'id'>): Promise<RecordingConsent> {
+    this.ensureConnected();
+
+    const active = this.tables.recording_consents.some(
+      c => c.child_id === consentData.child_id && c.scope === consentData.scope && !c.revoked_at
+    );
+    if (active) {
+      throw new DatabaseError('An active consent for this scope already exists', 'UNIQUE_VIOLATION');
+    }
+
+    const consent: RecordingConsent = {
+      id: this.generateId(),
+      ...consentData
+    };
+
+    this.tables.recording_consents.push(consent);
+    this.persist();
+    return { ...consent };
+  }
+
+  async getActiveRecordingConsents(childId: string): Promise<RecordingConsent[]> {
+    this.ensureConnected();
+
+    return this.tables.recording_consents
+      .filter(c => c.child_id === childId && !c.revoked_at)
+      .sort((a, b) => b.granted_at.localeCompare(a.granted_at))
+      .map(c => ({ ...c }));
+  }
+
+  async revokeRecordingConsents(
+    childId: string,
+    scopes: RecordingConsentScope[],
+    revokedBy: string
+  ): Promise<number> {
+    this.ensureConnected();
+
+    const now = this.getCurrentTimestamp();
+    const active = this.tables.recording_consents.filter(
+      c => c.child_id === childId && scopes.includes(c.scope) && !c.revoked_at
+    );
+    active.forEach(consent => {
+      consent.revoked_at = now;
+      consent.revoked_by = revokedBy;
+    });
+
+    if (active.length > 0) this.persist();
+    return active.length;
+  }
+
+  // ============================================================================
+  // Teacher Assignment Operations
+  // ============================================================================
+
+  async createTeacherStudentAssignment(
+    assignmentData: Omit<TeacherStudentAssignment, 'id'>
+  ): Promise<TeacherStudentAssignment> {
+    this.ensureConnected();
+
+    const exists = this.tables.teacher_student_assignments.some(
+      a => a.teacher_id === assignmentData.teacher_id &&
+        a.student_id === assignmentData.student_id &&
+        a.subject === assignmentData.subject &&
+        a.academic_year === assignmentData.academic_year
+    );
+    if (exists) {
+      throw new DatabaseError('Teacher-student assignment already exists', 'UNIQUE_VIOLATION');
+    }
+
+    const assignment: TeacherStudentAssignment = {
+      id: this.generateId(),
+      ...assignmentData,
+      created_at: assignmentData.created_at || this.getCurrentTimestamp(),
+      updated_at: assignmentData.updated_at || this.getCurrentTimestamp()
+    };
+
+    this.tables.teacher_student_assignments.push(assignment);
+    this.persist();
+    return { ...assignment };
+  }
+
+  async getTeacherStudentAssignment(teacherId: string, studentId: string): Promise<TeacherStudentAssignment | null> {
+    this.ensureConnected();
+
+    const assignment = this.tables.teacher_student_assignments.find(
+      a => a.teacher_id === teacherId && a.student_id === studentId && a.is_active
+    );
+    return assignment ? { ...assignment } : null;
+  }
+
+  async getTeacherAssignments(teacherId?: string): Promise<TeacherStudentAssignment[]> {
+    this.ensureConnected();
+
+    return this.tables.teacher_student_assignments
+      .filter(a => a.is_active && (!teacherId || a.teacher_id === teacherId))
+      .sort((a, b) => (a.class_name || '').localeCompare(b.class_name || ''))
+      .map(a => ({ ...a }));
+  }
+
+  async deleteTeacherStudentAssignment(id: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const before = this.tables.teacher_student_assignments.length;
+    this.tables.teacher_student_assignments = this.tables.teacher_student_assignments.filter(a => a.id !== id);
+    this.persist();
+    return this.tables.teacher_student_assignments.length < before;
+  }
+
+  // ============================================================================
+  // Permission Operations
+  // ============================================================================
+
+  async createPermission(permissionData: Omit<Permission, 'id'>): Promise<Permission> {
+    this.ensureConnected();
+
+    const exists = this.tables.permissions.some(
+      p => p.name === permissionData.name ||
+        (p.resource === permissionData.resource && p.action === permissionData.action)
+    );
+    if (exists) {
+      throw new DatabaseError('Permission already exists', 'UNIQUE_VIOLATION');
+    }
+
+    const permission: Permission = { id: this.generateId(), ...permissionData };
+
+    this.tables.permissions.push(permission);
+    this.persist();
+    return { ...permission };
+  }
+
+  async getPermissions(): Promise<Permission[]> {
+    this.ensureConnected();
+
+    return this.tables.permissions
+      .slice()
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(p => ({ ...p }));
+  }
+
+  async getRolePermissions(role?: UserRole): Promise<RolePermission[]> {
+    this.ensureConnected();
+
+    return this.tables.role_permissions
+      .filter(g => !role || g.role === role)
+      .map(g => ({ ...g }));
+  }
+
+  async grantRolePermission(grantData: Omit<RolePermission, 'id'>): Promise<RolePermission> {
+    this.ensureConnected();
+
+    const existing = this.tables.role_permissions.find(
+      g => g.role === grantData.role && g.permission_id === grantData.permission_id
+    );
+    if (existing) return { ...existing };
+
+    const grant: RolePermission = { id: this.generateId(), ...grantData };
+
+    this.tables.role_permissions.push(grant);
+    this.persist();
+    return { ...grant };
+  }
+
+  async revokeRolePermission(role: UserRole, permissionId: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const before = this.tables.role_permissions.length;
+    this.tables.role_permissions = this.tables.role_permissions.filter(
+      g => !(g.role === role && g.permission_id === permissionId)
+    );
+    this.persist();
+    return this.tables.role_permissions.length < before;
+  }
+
+  async getUserPermissions(userId: string): Promise<UserPermission[]> {
+    this.ensureConnected();
+
+    return this.tables.user_permissions
+      .filter(g => g.user_id === userId)
+      .map(g => ({ ...g }));
+  }
+
+  async getUserPermissionsByPermissionIds(permissionIds: string[]): Promise<UserPermission[]> {
+    this.ensureConnected();
+
+    const ids = new Set(permissionIds);
+    return this.tables.user_permissions
+      .filter(g => ids.has(g.permission_id))
+      .map(g => ({ ...g }));
+  }
+
+  async grantUserPermission(grantData: Omit<UserPermission, 'id'>): Promise<UserPermission> {
+    this.ensureConnected();
+
+    const existing = this.tables.user_permissions.find(
+      g => g.user_id === grantData.user_id && g.permission_id === grantData.permission_id
+    );
+    const grant: UserPermission = { id: existing?.id || this.generateId(), ...grantData };
+
+    this.tables.user_permissions = this.tables.user_permissions
+      .filter(g => g !== existing)
+      .concat(grant);
+    this.persist();
+    return { ...grant };
+  }
+
+  async revokeUserPermission(userId: string, permissionId: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const before = this.tables.user_permissions.length;
+    this.tables.user_permissions = this.tables.user_permissions.filter(
+      g => !(g.user_id === userId && g.permission_id === permissionId)
+    );
+    this.persist();
+    return this.tables.user_permissions.length < before;
+  }
+
+  // ============================================================================
+  // Two-Factor Authentication Operations
+  // ============================================================================
+
+  async getTwoFactorAuth(userId: string): Promise<TwoFactorAuth | null> {
+    this.ensureConnected();
+
+    const record = this.tables.two_factor_auth.find(t => t.user_id === userId);
+    return record ? { ...record, backup_codes: [...record.backup_codes] } : null;
+  }
+
+  async saveTwoFactorAuth(twoFactorData: Omit<TwoFactorAuth, 'id'>): Promise<TwoFactorAuth> {
+    this.ensureConnected();
+
+    const existing = this.tables.two_factor_auth.find(t => t.user_id === twoFactorData.user_id);
+    const record: TwoFactorAuth = {
+      id: existing?.id || this.generateId(),
+      ...twoFactorData,
+      backup_codes: [...twoFactorData.backup_codes]
+    };
+
+    this.tables.two_factor_auth = this.tables.two_factor_auth
+      .filter(t => t !== existing)
+      .concat(record);
+    this.persist();
+    return { ...record, backup_codes: [...record.backup_codes] };
+  }
+
+  async updateTwoFactorAuth(userId: string, updates: Partial<TwoFactorAuth>): Promise<TwoFactorAuth | null> {
+    this.ensureConnected();
+
+    const record = this.tables.two_factor_auth.find(t => t.user_id === userId);
+    if (!record) return null;
+
+    const { id, user_id, created_at, ...changes } = updates;
+    Object.assign(record, changes, { updated_at: this.getCurrentTimestamp() });
+    this.persist();
+    return { ...record, backup_codes: [...record.backup_codes] };
+  }
+
+  async claimTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    this.ensureConnected();
+
+    const record = this.tables.two_factor_auth.find(t => t.user_id === userId);
+    if (!record || (record.last_used_step !== undefined && record.last_used_step !== null && record.last_used_step >= step)) {
+      return false;
+    }
+
+    const now = this.getCurrentTimestamp();
+    Object.assign(record, { last_used_step: step, last_used_at: now, updated_at: now });
+    this.persist();
+    return true;
+  }
+
+  async consumeTwoFactorBackupCode(userId: string, codeHash: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const record = this.tables.two_factor_auth.find(t => t.user_id === userId);
+    if (!record || !record.backup_codes.includes(codeHash)) {
+      return false;
+    }
+
+    const now = this.getCurrentTimestamp();
+    Object.assign(record, {
+      backup_codes: record.backup_codes.filter(c => c !== codeHash),
+      last_used_at: now,
+      updated_at: now
+    });
+    this.persist();
+    return true;
+  }
+
+  async deleteTwoFactorAuth(userId: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const before = this.tables.two_factor_auth.length;
+    this.tables.two_factor_auth = this.tables.two_factor_auth.filter(t => t.user_id !== userId);
+    this.persist();
+    return this.tables.two_factor_auth.length < before;
+  }
+
+  // ============================================================================
+  // Security Audit Log Operations
+  // ============================================================================
+
+  async createSecurityAuditLog(logData: Omit<SecurityAuditLog, 'id'>): Promise<SecurityAuditLog> {
+    this.ensureConnected();
+
+    const log: SecurityAuditLog = { id: this.generateId(), ...logData };
+    this.tables.security_audit_logs.push(log);
+    this.persist();
+    return { ...log };
+  }
+
+  async getSecurityAuditLogs(filter: SecurityAuditLogFilter, offset: number, limit: number): Promise<{
+    logs: SecurityAuditLog[];
+    total: number;
+    hasMore: boolean;
+  }> {
+    this.ensureConnected();
+
+    const matching = this.tables.security_audit_logs
+      .filter(log => !filter.userId || log.user_id === filter.userId)
+      .filter(log => !filter.eventType || log.event_type === filter.eventType)
+      .filter(log => !filter.riskLevel || log.risk_level === filter.riskLevel)
+      .filter(log => !filter.from || log.created_at >= filter.from)
+      .filter(log => !filter.to || log.created_at <= filter.to)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    const total = matching.length;
+    const logs = matching.slice(offset, offset + limit).map(log => ({ ...log }));
+
+    return { logs, total, hasMore: offset + limit < total };
+  }
+
+  async deleteSecurityAuditLogsBefore(cutoff: string): Promise<number> {
+    this.ensureConnected();
+
+    const before = this.tables.security_audit_logs.length;
+    this.tables.security_audit_logs = this.tables.security_audit_logs.filter(log => log.created_at >= cutoff);
+    this.persist();
+    return before - this.tables.security_audit_logs.length;
+  }
+
+  // ============================================================================
+  // Login Security Operations
+  // ============================================================================
+
+  async recordFailedLoginAttempt(attemptData: Omit<FailedLoginAttempt, 'id'>): Promise<FailedLoginAttempt> {
+    this.ensureConnected();
+
+    const attempt: FailedLoginAttempt = { id: this.generateId(), ...attemptData };
+    this.tables.failed_login_attempts.push(attempt);
+    this.persist();
+    return { ...attempt };
+  }
+
+  async countFailedLoginAttempts(filter: { identifier?: string; ipAddress?: string }, since: string): Promise<number> {
+    this.ensureConnected();
+
+    return this.tables.failed_login_attempts.filter(a =>
+      a.attempt_time >= since &&
+      (!filter.identifier || a.identifier === filter.identifier) &&
+      (!filter.ipAddress || a.ip_address === filter.ipAddress)
+    ).length;
+  }
+
+  async createAccountLockout(lockoutData: Omit<AccountLockout, 'id'>): Promise<AccountLockout> {
+    this.ensureConnected();
+
+    if (lockoutData.unlock_token && this.tables.account_lockouts.some(l => l.unlock_token === lockoutData.unlock_token)) {
+      throw new DatabaseError('Unlock token already exists', 'UNIQUE_VIOLATION');
+    }
+
+    const lockout: AccountLockout = { id: this.generateId(), ...lockoutData };
+    this.tables.account_lockouts.push(lockout);
+    this.persist();
+    return { ...lockout };
+  }
+
+  async getActiveAccountLockouts(userId?: string): Promise<AccountLockout[]> {
+    this.ensureConnected();
+
+    const now = this.getCurrentTimestamp();
+    return this.tables.account_lockouts
+      .filter(l => l.is_active && (!l.locked_until || l.locked_until > now))
+      .filter(l => !userId || l.user_id === userId)
+      .sort((a, b) => b.locked_at.localeCompare(a.locked_at))
+      .map(l => ({ ...l }));
+  }
+
+  async getAccountLockoutByUnlockToken(tokenHash: string): Promise<AccountLockout | null> {
+    this.ensureConnected();
+
+    const lockout = this.tables.account_lockouts.find(l => l.unlock_token === tokenHash);
+    return lockout ? { ...lockout } : null;
+  }
+
+  async releaseAccountLockouts(userId: string, unlockedBy?: string): Promise<number> {
+    this.ensureConnected();
+
+    const now = this.getCurrentTimestamp();
+    const active = this.tables.account_lockouts.filter(l => l.user_id === userId && l.is_active);
+    active.forEach(l => Object.assign(l, { is_active: false, unlocked_at: now, unlocked_by: unlockedBy, updated_at: now }));
+    this.persist();
+    return active.length;
+  }
+
+  async getRateLimitBucket(key: string): Promise<RateLimitBucket | null> {
+    this.ensureConnected();
+
+    const bucket = this.tables.rate_limit_buckets.find(b => b.key === key);
+    return bucket ? { ...bucket } : null;
+  }
+
+  async incrementRateLimitBucket(key: string, windowMs: number): Promise<RateLimitBucket> {
+    this.ensureConnected();
+
+    const now = this.getCurrentTimestamp();
+    let bucket = this.tables.rate_limit_buckets.find(b => b.key === key);
+
+    if (!bucket) {
+      bucket = { key, count: 0, reset_at: now };
+      this.tables.rate_limit_buckets.push(bucket);
+    }
+    if (bucket.reset_at <= now) {
+      bucket.count = 0;
+      bucket.reset_at = new Date(Date.now() + windowMs).toISOString();
+    }
+    if (bucket.blocked_until && bucket.blocked_until <= now) {
+      bucket.blocked_until = undefined;
+    }
+    bucket.count++;
+
+    this.persist();
+    return { ...bucket };
+  }
+
+  async blockRateLimitBucket(key: string, until: string): Promise<void> {
+    this.ensureConnected();
+
+    const bucket = this.tables.rate_limit_buckets.find(b => b.key === key);
+    if (bucket) {
+      bucket.blocked_until = until;
+      this.persist();
+    }
+  }
+
+  async deleteRateLimitBucket(key: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const before = this.tables.rate_limit_buckets.length;
+    this.tables.rate_limit_buckets = this.tables.rate_limit_buckets.filter(b => b.key !== key);
+    this.persist();
+    return this.tables.rate_limit_buckets.length < before;
+  }
+
+  async deleteExpiredRateLimitBuckets(): Promise<number> {
+    this.ensureConnected();
+
+    const now = this.getCurrentTimestamp();
+    const before = this.tables.rate_limit_buckets.length;
+    this.tables.rate_limit_buckets = this.tables.rate_limit_buckets.filter(
+      b => b.reset_at > now || (b.blocked_until !== undefined && b.blocked_until > now)
+    );
+    this.persist();
+    return before - this.tables.rate_limit_buckets.length;
+  }
+
+  // ============================================================================
+  // Password Reset Operations
+  // ============================================================================
+
+  async createPasswordResetToken(tokenData: Omit<PasswordResetToken, 'id'>): Promise<PasswordResetToken> {
+    this.ensureConnected();
+
+    if (this.tables.password_reset_tokens.some(t => t.token === tokenData.token)) {
+      throw new DatabaseError('Password reset token already exists', 'UNIQUE_VIOLATION');
+    }
+
+    const resetToken: PasswordResetToken = { id: this.generateId(), ...tokenData };
+    this.tables.password_reset_tokens.push(resetToken);
+    this.persist();
+    return { ...resetToken };
+  }
+
+  async getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | null> {
+    this.ensureConnected();
+
+    const resetToken = this.tables.password_reset_tokens.find(t => t.token === tokenHash);
+    return resetToken ? { ...resetToken } : null;
+  }
+
+  async claimPasswordResetToken(id: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const resetToken = this.tables.password_reset_tokens.find(t => t.id === id && !t.used);
+    if (!resetToken) return false;
+
+    resetToken.used = true;
+    resetToken.used_at = this.getCurrentTimestamp();
+    this.persist();
+    return true;
+  }
+
+  async invalidatePasswordResetTokens(userId: string): Promise<number> {
+    this.ensureConnected();
+
+    const now = this.getCurrentTimestamp();
+    const unused = this.tables.password_reset_tokens.filter(t => t.user_id === userId && !t.used);
+    unused.forEach(t => Object.assign(t, { used: true, used_at: now }));
+    this.persist();
+    return unused.length;
+  }
+
+  // ============================================================================
+  // Email Verification Operations
+  // ============================================================================
+
+  async createEmailVerificationToken(tokenData: Omit<EmailVerificationToken, 'id'>): Promise<EmailVerificationToken> {
+    this.ensureConnected();
+
+    if (this.tables.email_verification_tokens.some(t => t.token === tokenData.token)) {
+      throw new DatabaseError('Email verification token already exists', 'UNIQUE_VIOLATION');
+    }
+
+    const verificationToken: EmailVerificationToken = { id: this.generateId(), ...tokenData };
+    this.tables.email_verification_tokens.push(verificationToken);
+    this.persist();
+    return { ...verificationToken };
+  }
+
+  async getEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | null> {
+    this.ensureConnected();
+
+    const verificationToken = this.tables.email_verification_tokens.find(t => t.token === tokenHash);
+    return verificationToken ? { ...verificationToken } : null;
+  }
+
+  async getLatestEmailVerificationToken(userId: string): Promise<EmailVerificationToken | null> {
+    this.ensureConnected();
+
+    const latest = this.tables.email_verification_tokens
+      .filter(t => t.user_id === userId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+    return latest ? { ...latest } : null;
+  }
+
+  async claimEmailVerificationToken(id: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const verificationToken = this.tables.email_verification_tokens.find(t => t.id === id && !t.verified);
+    if (!verificationToken || new Date(verificationToken.expires_at).getTime() <= Date.now()) return false;
+
+    verificationToken.verified = true;
+    verificationToken.verified_at = this.getCurrentTimestamp();
+    this.persist();
+    return true;
+  }
+
+  async invalidateEmailVerificationTokens(userId: string): Promise<number> {
+    this.ensureConnected();
+
+    const now = this.getCurrentTimestamp();
+    const pending = this.tables.email_verification_tokens
+      .filter(t => t.user_id === userId && !t.verified && t.expires_at > now);
+    pending.forEach(t => { t.expires_at = now; });
+    this.persist();
+    return pending.length;
+  }
+
+  // ============================================================================
+  // Password History Operations
+  // ============================================================================
+
+  async addPasswordHistory(entry: Omit<PasswordHistoryEntry, 'id'>): Promise<PasswordHistoryEntry> {
+    this.ensureConnected();
+
+    const historyEntry: PasswordHistoryEntry = { id: this.generateId(), ...entry };
+    this.tables.password_history.push(historyEntry);
+    this.persist();
+    return { ...historyEntry };
+  }
+
+  async getPasswordHistory(userId: string, limit: number): Promise<PasswordHistoryEntry[]> {
+    this.ensureConnected();
+
+    return this.tables.password_history
+      .filter(h => h.user_id === userId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, limit)
+      .map(h => ({ ...h }));
+  }
+
+  async prunePasswordHistory(userId: string, keep: number): Promise<number> {
+    this.ensureConnected();
+
+    const kept = new Set((await this.getPasswordHistory(userId, keep)).map(h => h.id));
+    const before = this.tables.password_history.length;
+    this.tables.password_history = this.tables.password_history
+      .filter(h => h.user_id !== userId || kept.has(h.id));
+    this.persist();
+    return before - this.tables.password_history.length;
+  }
+
+  // ============================================================================
+  // Face Recognition Operations
+  // ============================================================================
+
+  async saveFaceData(faceData: Omit<FaceRecognitionData, 'id'>): Promise<FaceRecognitionData> {
+    this.ensureConnected();
+
+    // One record per user, like the Supabase upsert on user_id
+    const existing = this.tables.face_recognition_data.find(f => f.user_id === faceData.user_id);
+    const record: FaceRecognitionData = {
+      id: existing?.id || this.generateId(),
+      ...faceData,
+      created_at: faceData.created_at || existing?.created_at || this.getCurrentTimestamp(),
+      updated_at: faceData.updated_at || this.getCurrentTimestamp()
+    };
+
+    this.tables.face_recognition_data = [
+      ...this.tables.face_recognition_data.filter(f => f.user_id !== faceData.user_id),
+      record
+    ];
+    this.persist();
+    return { ...record };
+  }
+
+  async getFaceData(userId: string): Promise<FaceRecognitionData | null> {
+    this.ensureConnected();
+
+    const record = this.tables.face_recognition_data.find(f => f.user_id === userId && f.is_active);
+    return record ? { ...record } : null;
+  }
+
+  async updateFaceData(userId: string, faceData: string): Promise<FaceRecognitionData> {
+    this.ensureConnected();
+
+    const record = this.tables.face_recognition_data.find(f => f.user_id === userId);
+    if (!record) {
+      throw new DatabaseError(`Face data not found for user: ${userId}`, 'NOT_FOUND');
+    }
+
+    record.face_encoding = faceData;
+    record.updated_at = this.getCurrentTimestamp();
+    this.persist();
+    return { ...record };
+  }
+
+  async deleteFaceData(userId: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const before = this.tables.face_recognition_data.length;
+    this.tables.face_recognition_data = this.tables.face_recognition_data.filter(f => f.user_id !== userId);
+    this.persist();
+    return this.tables.face_recognition_data.length < before;
+  }
+
+  async createFaceChallenge(challenge: FaceChallengeRecord): Promise<FaceChallengeRecord> {
+    this.ensureConnected();
+
+    // Expired challenges can no longer be claimed, so they are dropped as new ones arrive
+    const now = new Date();
+    this.tables.face_challenges = this.tables.face_challenges.filter(c => new Date(c.expires_at) > now);
+    this.tables.face_challenges.push({ ...challenge });
+    this.persist();
+    return { ...challenge };
+  }
+
+  async claimFaceChallenge(nonce: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const challenge = this.tables.face_challenges.find(c => c.nonce === nonce && !c.used_at);
+    if (!challenge || new Date(challenge.expires_at) <= new Date()) return false;
+
+    challenge.used_at = this.getCurrentTimestamp();
+    this.persist();
+    return true;
+  }
+
+  // ============================================================================
+  // Query Helpers
+  // ============================================================================
+
+  async getUsersByRole(role: string): Promise<UserProfile[]> {
+    this.ensureConnected();
+
+    return this.tables.users_enhanced
+      .filter(u => u.role === role && u.account_status === 'active')
+      .map(u => this.toProfile(u));
+  }
+
+  async searchUsers(query: string, role?: string): Promise<UserProfile[]> {
+    this.ensureConnected();
+
+    const needle = query.toLowerCase();
+    return this.tables.users_enhanced
+      .filter(u => u.account_status === 'active')
+      .filter(u => !role || u.role === role)
+      .filter(u =>
+        [u.username, u.email, u.full_name].some(value => value?.toLowerCase().includes(needle))
+      )
+      .slice(0, 50)
+      .map(u => this.toProfile(u));
+  }
+
+  async getUsersWithPagination(offset: number, limit: number, role?: string): Promise<{
+    users: UserProfile[];
+    total: number;
+    hasMore: boolean;
+  }> {
+    this.ensureConnected();
+
+    // Accounts awaiting email verification are listed too, so admins can follow up on them
+    const matching = this.tables.users_enhanced
+      .filter(u => u.account_status === 'active' || u.account_status === 'pending_verification')
+      .filter(u => !role || u.role === role)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    const total = matching.length;
+    const users = matching.slice(offset, offset + limit).map(u => this.toProfile(u));
+
+    return { users, total, hasMore: offset + limit < total };
+  }
+
+  // ============================================================================
+  // Quiz Operations
+  // ============================================================================
+
+  async getRandomQuestions(count: number): Promise<any[]> {
+    this.ensureConnected();
+
+    const shuffled = [...this.tables.questions].sort(() => 0.5 - Math.random());
+
+    return shuffled.slice(0, count).map(q => ({
+      id: q.id,
+      question_text: q.question_text,
+      options: [q.option_1, q.option_2, q.option_3, q.option_4],
+      correct_answer: q.correct_word
+    }));
+  }
+
+  async createQuizResult(resultData: any): Promise<any> {
+    this.ensureConnected();
+    this.validateRequired(resultData, ['user_id']);
+
+    const quizResult = {
+      id: this.generateId(),
+      user_id: resultData.user_id,
+      score: resultData.score,
+      correct_answers: resultData.correct_answers,
+      total_questions: resultData.total_questions,
+      started_at: resultData.started_at,
+      duration_seconds: resultData.duration_seconds,
+      completed_at: this.getCurrentTimestamp()
+    };
+
+    this.tables.quiz_results.push(quizResult);
+    this.persist();
+    return { ...quizResult };
+  }
+
+  async getQuizResultsByUserId(userId: string, limit?: number): Promise<any[]> {
+    this.ensureConnected();
+
+    const results = this.tables.quiz_results
+      .filter(r => r.user_id === userId)
+      .sort((a, b) => b.completed_at.localeCompare(a.completed_at));
+
+    return (limit ? results.slice(0, limit) : results).map(r => ({ ...r }));
+  }
+
+  async getQuizResultById(id: string): Promise<any | null> {
+    this.ensureConnected();
+
+    const result = this.tables.quiz_results.find(r => r.id === id);
+    return result ? { ...result } : null;
+  }
+
+  async createQuizAnswer(answerData: any): Promise<any> {
+    this.ensureConnected();
+    this.validateRequired(answerData, ['quiz_result_id']);
+
+    const quizAnswer = {
+      id: this.generateId(),
+      quiz_result_id: answerData.quiz_result_id,
+      question_id: answerData.question_id,
+      question_text: answerData.question_text,
+      selected_answer: answerData.selected_answer,
+      correct_answer: answerData.correct_answer,
+      is_correct: answerData.is_correct,
+      answered_at: answerData.answered_at,
+      time_taken_seconds: answerData.time_taken_seconds
+    };
+
+    this.tables.quiz_answers.push(quizAnswer);
+    this.persist();
+    return { ...quizAnswer };
+  }
+
+  async getQuizAnswersByResultId(quizResultId: string): Promise<any[]> {
+    this.ensureConnected();
+    return this.tables.quiz_answers.filter(a => a.quiz_result_id === quizResultId).map(a => ({ ...a }));
+  }
+
+  async createIncorrectAnswer(answerData: any): Promise<any> {
+    this.ensureConnected();
+    this.validateRequired(answerData, ['user_id']);
+
+    const incorrectAnswer = {
+      id: this.generateId(),
+      user_id: answerData.user_id,
+      question_id: answerData.question_id,
+      question_text: answerData.question_text,
+      selected_answer: answerData.selected_answer,
+      correct_answer: answerData.correct_answer,
+      created_at: this.getCurrentTimestamp()
+    };
+
+    this.tables.incorrect_answers.push(incorrectAnswer);
+    this.persist();
+    return { ...incorrectAnswer };
+  }
+
+  async getIncorrectAnswersByUserId(userId: string, limit?: number): Promise<any[]> {
+    this.ensureConnected();
+
+    const answers = this.tables.incorrect_answers
+      .filter(a => a.user_id === userId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    return (limit ? answers.slice(0, limit) : answers).map(a => ({ ...a }));
+  }
+
+  async getQuestionsByIds(ids: string[]): Promise<any[]> {
+    this.ensureConnected();
+    return this.tables.questions.filter(q => ids.includes(q.id)).map(q => ({ ...q }));
+  }
+
+  // ============================================================================
+  // Quiz Session Operations
+  // ============================================================================
+
+  async createQuizSession(sessionData: Omit<QuizSession, 'id'>): Promise<QuizSession> {
+    this.ensureConnected();
+
+    const session: QuizSession = {
+      id: this.generateId(),
+      ...sessionData
+    };
+
+    this.tables.quiz_sessions.push(session);
+    this.persist();
+    return { ...session };
+  }
+
+  async getQuizSessionById(id: string): Promise<QuizSession | null> {
+    this.ensureConnected();
+
+    const session = this.tables.quiz_sessions.find(s => s.id === id);
+    return session ? { ...session } : null;
+  }
+
+  async updateQuizSession(
+    id: string,
+    updates: Partial<QuizSession>,
+    expectedStatus: QuizSessionStatus
+  ): Promise<QuizSession | null> {
+    this.ensureConnected();
+
+    const session = this.tables.quiz_sessions.find(s => s.id === id && s.status === expectedStatus);
+    if (!session) return null;
+
+    const { id: _id, ...sanitized } = updates;
+    Object.assign(session, sanitized);
+    this.persist();
+    return { ...session };
+  }
+
+  async createQuizSessionAnswer(answerData: Omit<QuizSessionAnswer, 'id'>): Promise<QuizSessionAnswer | null> {
+    this.ensureConnected();
+
+    const exists = this.tables.quiz_session_answers.some(
+      a => a.session_id === answerData.session_id && a.question_id === answerData.question_id
+    );
+    if (exists) return null;
+
+    const answer: QuizSessionAnswer = {
+      id: this.generateId(),
+      ...answerData
+    };
+
+    this.tables.quiz_session_answers.push(answer);
+    this.persist();
+    return { ...answer };
+  }
+
+  async getQuizSessionAnswers(sessionId: string): Promise<QuizSessionAnswer[]> {
+    this.ensureConnected();
+
+    return this.tables.quiz_session_answers
+      .filter(a => a.session_id === sessionId)
+      .sort((a, b) => a.answered_at.localeCompare(b.answered_at))
+      .map(a => ({ ...a }));
+  }
+
+  // ============================================================================
+  // Tutor Operations
+  // ============================================================================
+
+  async getTutorQuestionState(
+    userId: string,
+    conversationId: string,
+    questionId: string
+  ): Promise<TutorQuestionState | null> {
+    this.ensureConnected();
+
+    const state = this.tables.tutor_question_states.find(
+      t => t.user_id === userId && t.conversation_id === conversationId && t.question_id === questionId
+    );
+    return state ? { ...state, wrong_answers: [...state.wrong_answers] } : null;
+  }
+
+  async saveTutorQuestionState(stateData: Omit<TutorQuestionState, 'id'>): Promise<TutorQuestionState> {
+    this.ensureConnected();
+
+    const existing = this.tables.tutor_question_states.find(
+      t => t.user_id === stateData.user_id &&
+        t.conversation_id === stateData.conversation_id &&
+        t.question_id === stateData.question_id
+    );
+
+    let state: TutorQuestionState;
+    if (existing) {
+      Object.assign(existing, stateData, { created_at: existing.created_at, wrong_answers: [...stateData.wrong_answers] });
+      state = existing;
+    } else {
+      state = { id: this.generateId(), ...stateData, wrong_answers: [...stateData.wrong_answers] };
+      this.tables.tutor_question_states.push(state);
+    }
+
+    this.persist();
+    return { ...state, wrong_answers: [...state.wrong_answers] };
+  }
+
+  async createTutorConversation(conversationData: Omit<TutorConversation, 'id'>): Promise<TutorConversation> {
+    this.ensureConnected();
+
+    const conversation: TutorConversation = {
+      id: this.generateId(),
+      ...conversationData
+    };
+
+    this.tables.tutor_conversations.push(conversation);
+    this.persist();
+    return { ...conversation };
+  }
+
+  async getTutorConversationById(id: string): Promise<TutorConversation | null> {
+    this.ensureConnected();
+
+    const conversation = this.tables.tutor_conversations.find(c => c.id === id);
+    return conversation ? { ...conversation } : null;
+  }
+
+  async getTutorConversations(userId: string, limit: number): Promise<TutorConversation[]> {
+    this.ensureConnected();
+
+    return this.tables.tutor_conversations
+      .filter(c => c.user_id === userId)
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+      .slice(0, limit)
+      .map(c => ({ ...c }));
+  }
+
+  async addTutorMessage(messageData: Omit<TutorMessage, 'id'>): Promise<TutorMessage> {
+    this.ensureConnected();
+
+    const conversation = this.tables.tutor_conversations.find(c => c.id === messageData.conversation_id);
+    if (!conversation) {
+      throw new DatabaseError('Tutor conversation not found', 'NOT_FOUND');
+    }
+
+    const message: TutorMessage = {
+      id: this.generateId(),
+      ...messageData
+    };
+
+    this.tables.tutor_messages.push(message);
+    conversation.message_count += 1;
+    conversation.updated_at = message.created_at;
+    this.persist();
+    return { ...message };
+  }
+
+  async getTutorMessages(conversationId: string): Promise<TutorMessage[]> {
+    this.ensureConnected();
+
+    return this.tables.tutor_messages
+      .filter(m => m.conversation_id === conversationId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(m => ({ ...m }));
+  }
+
+  // ============================================================================
+  // Moderation Operations
+  // ============================================================================
+
+  async createModerationIncident(incidentData: Omit<ModerationIncident, 'id'>): Promise<ModerationIncident> {
+    this.ensureConnected();
+
+    const incident: ModerationIncident = {
+      id: this.generateId(),
+      ...incidentData,
+      categories: [...incidentData.categories]
+    };
+
+    this.tables.moderation_incidents.push(incident);
+    this.persist();
+    return { ...incident, categories: [...incident.categories] };
+  }
+
+  async getModerationIncidentById(id: string): Promise<ModerationIncident | null> {
+    this.ensureConnected();
+
+    const incident = this.tables.moderation_incidents.find(i => i.id === id);
+    return incident ? { ...incident, categories: [...incident.categories] } : null;
+  }
+
+  async getModerationIncidents(filter: ModerationIncidentFilter, limit: number): Promise<ModerationIncident[]> {
+    this.ensureConnected();
+
+    return this.tables.moderation_incidents
+      .filter(i => !filter.status || i.status === filter.status)
+      .filter(i => !filter.userId || i.user_id === filter.userId)
+      .filter(i => !filter.direction || i.direction === filter.direction)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, limit)
+      .map(i => ({ ...i, categories: [...i.categories] }));
+  }
+
+  async updateModerationIncident(
+    id: string,
+    updates: Partial<Pick<ModerationIncident, 'status' | 'reviewed_by' | 'reviewed_at' | 'review_note' | 'parents_notified_at'>>
+  ): Promise<ModerationIncident> {
+    this.ensureConnected();
+
+    const incident = this.tables.moderation_incidents.find(i => i.id === id);
+    if (!incident) {
+      throw new DatabaseError(`Moderation incident not found: ${id}`, 'NOT_FOUND');
+    }
+
+    Object.assign(incident, updates);
+    this.persist();
+    return { ...incident, categories: [...incident.categories] };
+  }
+
+  // ============================================================================
+  // Admin Statistics
+  // ============================================================================
+
+  async getAdminStats(): Promise<{
+    totalQuizAttempts: number;
+    averageScore: number;
+    usersWithQuizzes: number;
+    recentActivity: number;
+  }> {
+    this.ensureConnected();
+
+    const results = this.tables.quiz_results;
+    const totalScore = results.reduce((sum, r) => sum + (r.score || 0), 0);
+    const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+
+    return {
+      totalQuizAttempts: results.length,
+      averageScore: results.length > 0 ? Math.round((totalScore / results.length) * 100) / 100 : 0,
+      usersWithQuizzes: new Set(results.map(r => r.user_id)).size,
+      recentActivity: results.filter(r => r.completed_at >= sevenDaysAgo).length
+    };
+  }
+
+  async getQuestionCount(): Promise<number> {
+    this.ensureConnected();
+    return this.tables.questions.length;
+  }
+
+  async getQuizResultsByUserIds(userIds: string[]): Promise<any[]> {
+    this.ensureConnected();
+
+    return this.tables.quiz_results
+      .filter(r => userIds.includes(r.user_id))
+      .sort((a, b) => b.completed_at.localeCompare(a.completed_at))
+      .map(r => ({ ...r }));
+  }
+
+  async getQuizAnswersByResultIds(quizResultIds: string[]): Promise<any[]> {
+    this.ensureConnected();
+    return this.tables.quiz_answers.filter(a => quizResultIds.includes(a.quiz_result_id)).map(a => ({ ...a }));
+  }
+
+  async getQuestionHistoryByUserIds(userIds: string[]): Promise<any[]> {
+    this.ensureConnected();
+    return this.tables.user_question_history.filter(h => userIds.includes(h.user_id)).map(h => ({ ...h }));
+  }
+
+  async getLoginSessionsByUserIds(userIds: string[]): Promise<LoginSession[]> {
+    this.ensureConnected();
+
+    return this.tables.login_sessions
+      .filter(s => userIds.includes(s.user_id))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map(s => ({ ...s }));
+  }
+
+  async getRecentQuizResults(limit: number = 10): Promise<any[]> {
+    this.ensureConnected();
+
+    return [...this.tables.quiz_results]
+      .sort((a, b) => b.completed_at.localeCompare(a.completed_at))
+      .slice(0, limit)
+      .map(r => {
+        const user = this.tables.users_enhanced.find(u => u.id === r.user_id);
+        return {
+          ...r,
+          users_enhanced: user ? { username: user.username, full_name: user.full_name } : null
+        };
+      });
+  }
+
+  async getRecentLoginSessions(limit: number = 10): Promise<LoginSession[]> {
+    this.ensureConnected();
+
+    return [...this.tables.login_sessions]
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, limit)
+      .map(s => ({ ...s }));
+  }
+
+  // ============================================================================
+  // Transaction Support
+  // ============================================================================
+
+  async beginTransaction(): Promise<any> {
+    // A transaction is a snapshot of every table to restore on rollback
+    return JSON.parse(JSON.stringify(this.tables));
+  }
+
+  async commitTransaction(_transaction: any): Promise<void> {
+    this.persist();
+  }
+
+  async rollbackTransaction(transaction: any): Promise<void> {
+    this.tables = transaction;
+    this.persist();
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private ensureConnected(): void {
+    if (!this.isConnected) {
+      throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+    }
+  }
+
+  private updateSessions(match: (session: LoginSession) => boolean, updates: Partial<LoginSession>): boolean {
+    this.ensureConnected();
+
+    this.tables.login_sessions.filter(match).forEach(session => Object.assign(session, updates));
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Strip the password hash and return a copy so callers cannot mutate the store
+   */
+  private toProfile(user: StoredUser): UserProfile {
+    const { password_hash: _hash, ...profile } = user;
+    return JSON.parse(JSON.stringify(profile));
+  }
+
+  private persist(): void {
+    if (!this.config.filePath) return;
+
+    try {
+      fs.mkdirSync(path.dirname(this.config.filePath), { recursive: true });
+      fs.writeFileSync(this.config.filePath, JSON.stringify(this.tables, null, 2));
+    } catch (error) {
+      console.error('Failed to persist memory store:', error);
+    }
+  }
+
+  /**
+   * Demo questions, plus outside production the demo accounts from
+   * scripts/create-test-users.js (admin/admin, user/user)
+   */
+  private async seed(): Promise<void> {
+    const now = this.getCurrentTimestamp();
+
+    if (process.env.NODE_ENV !== 'production') {
+      await this.seedDemoAccounts(now);
+    }
+
+    const demoQuestions: Array<[string, string, string[], number]> = [
+      ['She ___ to school every day.', 'goes', ['go', 'goes', 'going', 'gone'], 2],
+      ['They ___ playing football when it started to rain.', 'were', ['was', 'were', 'are', 'is'], 2],
+      ['I have lived here ___ 2015.', 'since', ['for', 'since', 'from', 'during'], 2],
+      ['He is ___ than his brother.', 'taller', ['tall', 'tallest', 'taller', 'more tall'], 3],
+      ['We ___ our homework yesterday.', 'did', ['do', 'did', 'done', 'doing'], 2],
+      ['There are ___ apples in the basket.', 'some', ['any', 'some', 'much', 'a'], 2],
+      ['If it rains, we ___ stay inside.', 'will', ['will', 'would', 'did', 'was'], 1],
+      ['The cat is sleeping ___ the sofa.', 'on', ['in', 'at', 'on', 'by'], 3],
+      ['My mother ___ a delicious cake last night.', 'baked', ['bake', 'bakes', 'baking', 'baked'], 4],
+      ['___ you like some juice?', 'Would', ['Will', 'Would', 'Do', 'Are'], 2]
+    ];
+
+    demoQuestions.forEach(([questionText, correctWord, options, correctOption], index) => {
+      const id = this.generateId();
+      this.tables.questions.push({
+        id,
+        uuid: id,
+        question_text: questionText,
+        correct_word: correctWord,
+        position: index + 1,
+        option_1: options[0],
+        option_2: options[1],
+        option_3: options[2],
+        option_4: options[3],
+        correct_option: correctOption,
+        type: 'multiple_choice',
+        difficulty_level: index < 5 ? 1 : 2,
+        new_category_id: null,
+        created_at: now,
+        updated_at: now
+      });
+    });
+
+    this.persist();
+  }
+
+  private async seedDemoAccounts(now: string): Promise<void> {
+    const demoUsers: Array<Partial<StoredUser> & { password: string }> = [
+      { username: 'admin', email: 'admin@example.com', role: 'admin', first_name: 'Admin', last_name: 'User', password: 'admin' },
+      { username: 'user', email: 'user@example.com', role: 'student', first_name: 'Test', last_name: 'User', password: 'user' },
+      { username: 'parent', email: 'parent@example.com', role: 'parent', first_name: 'Test', last_name: 'Parent', password: 'parent' },
+      { username: 'teacher', email: 'teacher@example.com', role: 'teacher', first_name: 'Test', last_name: 'Teacher', password: 'teacher' }
+    ];
+
+    for (const { password, ...demo } of demoUsers) {
+      this.tables.users_enhanced.push({
+        id: this.generateId(),
+        email: demo.email!,
+        username: demo.username,
+        role: demo.role!,
+        account_status: 'active',
+        created_at: now,
+        updated_at: now,
+        password_changed_at: now,
+        login_attempts: 0,
+        email_verified: true,
+        first_name: demo.first_name,
+        last_name: demo.last_name,
+        full_name: `${demo.first_name} ${demo.last_name}`,
+        preferences: DEFAULT_PREFERENCES,
+        password_hash: await bcrypt.hash(password, 10)
+      });
+    }
+
+    const [, student, parent, teacher] = this.tables.users_enhanced;
+    this.tables.parent_child_relationships.push({
+      id: this.generateId(),
+      parent_id: parent.id,
+      child_id: student.id,
+      relationship_type: 'parent',
+      is_primary: true,
+      permissions: {
+        view_progress: true,
+        receive_notifications: true,
+        manage_account: true,
+        view_quiz_results: true,
+        contact_teachers: true
+      },
+      created_at: now,
+      updated_at: now,
+      is_active: true
+    });
+
+    this.tables.teacher_student_assignments.push({
+      id: this.generateId(),
+      teacher_id: teacher.id,
+      student_id: student.id,
+      subject: 'english',
+      class_name: 'Demo Class',
+      academic_year: String(new Date().getFullYear()),
+      is_active: true,
+      created_at: now,
+      updated_at: now
+    });
+  }
+}
@@ -13,8 +13,28 @@ import {
   LoginSession,
   ParentChildRelationship,
   FaceRecognitionData,
+  TwoFactorAuth,
+  TeacherStudentAssignment,
+  Permission,
+  RolePermission,
+  UserPermission,
+  UserRole,
+  SecurityAuditLog,
+  SecurityAuditLogFilter,
+  FailedLoginAttempt,
+  AccountLockout,
+  RateLimitBucket,
+  PasswordResetToken,
+  EmailVerificationToken,
+  PasswordHistoryEntry,
   DatabaseError
 } from '@/types/auth';
+import { QuizSession, QuizSessionAnswer, QuizSessionStatus } from '@/types/quiz';
+import { ParentLinkRequest, ParentLinkRequestFilter, ParentLinkRequestStatus } from '@/types/parent';
+import { RecordingConsent, RecordingConsentScope } from '@/types/consent';
+import { TutorConversation, TutorMessage, TutorQuestionState } from '@/types/tutor';
+import { ModerationIncident, ModerationIncidentFilter } from '@/types/moderation';
+import { FaceChallengeRecord } from '@/types/face';
 
 interface SupabaseConfig {
   url: string;
@@ -346,6 +366,20 @@ export class SupabaseAdapter extends AbstractDatabaseAdapter {
       });
 
       if (error) throw error;
+
+      const changedAt = this.getCurrentTimestamp();
+      const { data: updated, error: stampError } = await this.serviceClient
+        .from('users_enhanced')
+        .update({ password_changed_at: changedAt })
+        .eq('id', userId)
+        .select('password_hash')
+        .single();
+
+      if (stampError) throw stampError;
+
+      if (updated?.password_hash) {
+        await this.addPasswordHistory({ user_id: userId, password_hash: updated.password_hash, created_at: changedAt });
+      }
       return data;
     } catch (error) {
       this.handleError(error, 'update password');
@@ -427,16 +461,19 @@ export class SupabaseAdapter extends AbstractDatabaseAdapter {
     }
   }
 
-  async invalidateSessionByRefreshToken(refreshToken: string): Promise<boolean> {
+  async invalidateSessionByRefreshToken(refreshToken: string): Promise<LoginSession | null> {
     if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
 
     try {
-      const { error } = await this.client
+      const { data, error } = await this.client
         .from('login_sessions')
         .update({ is_active: false })
-        .eq('refresh_token', refreshToken);
+        .eq('refresh_token', refreshToken)
+        .eq('is_active', true)
+        .select('*');
 
-      return !error;
+      if (error) throw error;
+      return data?.[0] || null;
     } catch (error) {
       this.handleError(error, 'invalidate session by refresh token');
     }
@@ -464,7 +501,7 @@ export class SupabaseAdapter extends AbstractDatabaseAdapter {
       const { data, error } = await this.client
         .from('login_sessions')
         .delete()
-        .or(`expires_at.lte.${new Date().toISOString()},is_active.eq.false`)
+        .lte('expires_at', new Date().toISOString())
         .select('id');
 
       if (error) throw error;
@@ -474,6 +511,78 @@ export class SupabaseAdapter extends AbstractDatabaseAdapter {
     }
   }
 
+  async getSessionRecord(token: string): Promise<LoginSession | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('login_sessions')
+        .select('*')
+        .eq('token', token)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data || null;
+    } catch (error) {
+      this.handleError(error, 'get session record');
+    }
+  }
+
+  async getSessionById(id: string): Promise<LoginSession | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('login_sessions')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data || null;
+    } catch (error) {
+      this.handleError(error, 'get session by ID');
+    }
+  }
+
+  async getActiveUserSessions(userId: string): Promise<LoginSession[]> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('login_sessions')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .gt('expires_at', new Date().toISOString())
+        .order('last_activity', { ascending: false, nullsFirst: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get active user sessions');
+    }
+  }
+
+  async invalidateSessionById(id: string): Promise<boolean> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { error } = await client
+        .from('login_sessions')
+        .update({ is_active: false })
+        .eq('id', id);
+
+      return !error;
+    } catch (error) {
+      this.handleError(error, 'invalidate session by ID');
+    }
+  }
+
   // ============================================================================
   // Relationship Operations
   // ============================================================================
@@ -576,78 +685,74 @@ export class SupabaseAdapter extends AbstractDatabaseAdapter {
     }
   }
 
-  // ============================================================================
-  // Quiz Operations
-  // ============================================================================
-
-  async createQuizResult(quizData: {
-    user_id: string;
-    score: number;
-    correct_answers: number;
-    total_questions: number;
-  }): Promise<any> {
-    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
-
-    const id = this.generateId();
-    const now = this.getCurrentTimestamp();
-    
-    const quizResult = {
-      id,
-      user_id: quizData.user_id,
-      score: quizData.score,
-      correct_answers: quizData.correct_answers,
-      total_questions: quizData.total_questions,
-      completed_at: now
-    };
+  async getParentChildLink(parentId: string, childId: string): Promise<ParentChildRelationship | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
 
     try {
-      const { data, error } = await this.client
-        .from('quiz_results')
-        .insert([quizResult])
-        .select()
+      const { data, error } = await client
+        .from('parent_child_relationships')
+        .select('*')
+        .eq('parent_id', parentId)
+        .eq('child_id', childId)
         .single();
 
-      if (error) throw error;
-      return data;
+      if (error && error.code !== 'PGRST116') throw error;
+      return data || null;
     } catch (error) {
-      this.handleError(error, 'create quiz result');
+      this.handleError(error, 'get parent-child link');
     }
   }
 
-  async getQuizResultsByUserId(userId: string): Promise<any[]> {
-    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+  async getParentLinks(parentId: string): Promise<ParentChildRelationship[]> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
 
     try {
-      console.log('[SUPABASE-ADAPTER] Querying quiz_results for userId:', userId);
-      
-      // Use service client for admin operations to bypass RLS
-      const client = this.serviceClient || this.client;
-      console.log('[SUPABASE-ADAPTER] Using client type:', this.serviceClient ? 'service' : 'anon');
-      
       const { data, error } = await client
-        .from('quiz_results')
+        .from('parent_child_relationships')
         .select('*')
-        .eq('user_id', userId)
-        .order('completed_at', { ascending: false });
-
-      console.log('[SUPABASE-ADAPTER] Supabase query result - error:', error);
-      console.log('[SUPABASE-ADAPTER] Supabase query result - data length:', data?.length || 0);
-      console.log('[SUPABASE-ADAPTER] Supabase query result - data:', JSON.stringify(data, null, 2));
+        .eq('parent_id', parentId)
+        .eq('is_active', true);
 
       if (error) throw error;
       return data || [];
     } catch (error) {
-      console.error('Error getting quiz results by user ID:', error);
-      return [];
+      this.handleError(error, 'get parent links');
     }
   }
 
-  async getQuizResultById(id: string): Promise<any | null> {
-    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+  async createParentLinkRequest(requestData: Omit<ParentLinkRequest, 'id'>): Promise<ParentLinkRequest> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
 
     try {
-      const { data, error } = await this.client
-        .from('quiz_results')
+      const { data, error } = await client
+        .from('parent_link_requests')
+        .insert([{ id: this.generateId(), ...requestData }])
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new DatabaseError('A pending link request already exists', 'UNIQUE_VIOLATION');
+        }
+        throw error;
+      }
+      return data;
+    } catch (error) {
+      if (error instanceof DatabaseError) throw error;
+      this.handleError(error, 'create parent link request');
+    }
+  }
+
+  async getParentLinkRequestById(id: string): Promise<ParentLinkRequest | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('parent_link_requests')
         .select('*')
         .eq('id', id)
         .single();
@@ -655,255 +760,1935 @@ export class SupabaseAdapter extends AbstractDatabaseAdapter {
       if (error && error.code !== 'PGRST116') throw error;
       return data || null;
     } catch (error) {
-      this.handleError(error, 'get quiz result by ID');
+      this.handleError(error, 'get parent link request by ID');
     }
   }
 
-  async createQuizAnswer(answerData: {
-    quiz_result_id: string;
-    question_text: string;
-    selected_answer: string;
-    correct_answer: string;
-    is_correct: boolean;
-  }): Promise<any> {
-    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+  async getParentLinkRequests(filter: ParentLinkRequestFilter): Promise<ParentLinkRequest[]> {
+    if (filter.childIds && filter.childIds.length === 0) return [];
 
-    const id = this.generateId();
-    
-    const quizAnswer = {
-      id,
-      quiz_result_id: answerData.quiz_result_id,
-      question_text: answerData.question_text,
-      selected_answer: answerData.selected_answer,
-      correct_answer: answerData.correct_answer,
-      is_correct: answerData.is_correct
-    };
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
 
     try {
-      const { data, error } = await this.client
-        .from('quiz_answers')
-        .insert([quizAnswer])
-        .select()
-        .single();
+      let queryBuilder = client
+        .from('parent_link_requests')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (filter.parentId) {
+        queryBuilder = queryBuilder.eq('parent_id', filter.parentId);
+      }
+      if (filter.childIds) {
+        queryBuilder = queryBuilder.in('child_id', filter.childIds);
+      }
+      if (filter.status) {
+        queryBuilder = queryBuilder.eq('status', filter.status);
+      }
+
+      const { data, error } = await queryBuilder;
 
       if (error) throw error;
-      return data;
+      return data || [];
     } catch (error) {
-      this.handleError(error, 'create quiz answer');
+      this.handleError(error, 'get parent link requests');
     }
   }
 
-  async getQuizAnswersByResultId(quizResultId: string): Promise<any[]> {
-    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+  async updateParentLinkRequest(
+    id: string,
+    updates: Partial<ParentLinkRequest>,
+    expectedStatus: ParentLinkRequestStatus
+  ): Promise<ParentLinkRequest | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    const { id: _id, ...sanitized } = updates;
 
     try {
-      // Use service client for admin operations to bypass RLS
-      const client = this.serviceClient || this.client;
-      
+      // The status filter makes this a compare-and-set
       const { data, error } = await client
-        .from('quiz_answers')
-        .select('*')
-        .eq('quiz_result_id', quizResultId);
+        .from('parent_link_requests')
+        .update(sanitized)
+        .eq('id', id)
+        .eq('status', expectedStatus)
+        .select();
 
       if (error) throw error;
-      return data || [];
+      return data?.[0] || null;
     } catch (error) {
-      console.error('Error getting quiz answers by result ID:', error);
-      return [];
+      this.handleError(error, 'update parent link request');
     }
   }
 
-  async createIncorrectAnswer(incorrectData: {
-    user_id: string;
-    question_id?: string;
-    question_text: string;
-    selected_answer: string;
-    correct_answer: string;
-  }): Promise<any> {
-    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+  // ============================================================================
+  // Recording Consent Operations
+  // ============================================================================
 
-    const id = this.generateId();
-    const now = this.getCurrentTimestamp();
-    
-    const incorrectAnswer = {
-      id,
-      user_id: incorrectData.user_id,
-      question_id: incorrectData.question_id,
-      question_text: incorrectData.question_text,
-      selected_answer: incorrectData.selected_answer,
-      correct_answer: incorrectData.correct_answer,
-      created_at: now
-    };
+  async createRecordingConsent(consentData: Omit<RecordingConsent, 'id'>): Promise<RecordingConsent> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
 
     try {
-      const { data, error } = await this.client
-        .from('incorrect_answers')
-        .insert([incorrectAnswer])
+      const { data, error } = await client
+        .from('recording_consents')
+        .insert([{ id: this.generateId(), ...consentData }])
         .select()
         .single();
 
-      if (error) throw error;
+      if (error) {
+        if (error.code === '23505') {
+          throw new DatabaseError('An active consent for this scope already exists', 'UNIQUE_VIOLATION');
+        }
+        throw error;
+      }
       return data;
     } catch (error) {
-      this.handleError(error, 'create incorrect answer');
+      if (error instanceof DatabaseError) throw error;
+      this.handleError(error, 'create recording consent');
     }
   }
 
-  async getIncorrectAnswersByUserId(userId: string): Promise<any[]> {
-    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+  async getActiveRecordingConsents(childId: string): Promise<RecordingConsent[]> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
 
     try {
-      const { data, error } = await this.client
-        .from('incorrect_answers')
+      const { data, error } = await client
+        .from('recording_consents')
         .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
+        .eq('child_id', childId)
+        .is('revoked_at', null)
+        .order('granted_at', { ascending: false });
 
       if (error) throw error;
       return data || [];
     } catch (error) {
-      this.handleError(error, 'get incorrect answers by user ID');
+      this.handleError(error, 'get active recording consents');
     }
   }
 
-  async deleteIncorrectAnswer(id: string): Promise<boolean> {
-    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+  async revokeRecordingConsents(
+    childId: string,
+    scopes: RecordingConsentScope[],
+    revokedBy: string
+  ): Promise<number> {
+    if (scopes.length === 0) return 0;
+
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
 
     try {
-      const { error } = await this.client
-        .from('incorrect_answers')
-        .delete()
-        .eq('id', id);
+      const { data, error } = await client
+        .from('recording_consents')
+        .update({ revoked_at: this.getCurrentTimestamp(), revoked_by: revokedBy })
+        .eq('child_id', childId)
+        .in('scope', scopes)
+        .is('revoked_at', null)
+        .select('id');
 
-      return !error;
+      if (error) throw error;
+      return data?.length || 0;
     } catch (error) {
-      this.handleError(error, 'delete incorrect answer');
+      this.handleError(error, 'revoke recording consents');
     }
   }
 
   // ============================================================================
-  // Analytics and Reporting
+  // Teacher Assignment Operations
   // ============================================================================
 
-  async getUserQuizStats(userId: string): Promise<{
-    totalQuizzes: number;
-    averageScore: number;
-    bestScore: number;
-    totalCorrectAnswers: number;
-    totalQuestions: number;
-  }> {
-    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+  async createTeacherStudentAssignment(
+    assignmentData: Omit<TeacherStudentAssignment, 'id'>
+  ): Promise<TeacherStudentAssignment> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
 
-    try {
-      const { data, error } = await this.client
-        .from('quiz_results')
-        .select('score, correct_answers, total_questions')
+    const assignment: TeacherStudentAssignment = {
+      id: this.generateId(),
+      ...assignmentData,
+      created_at: assignmentData.created_at || this.getCurrentTimestamp(),
+      updated_at: assignmentData.updated_at || this.getCurrentTimestamp()
+    };
+
+    try {
+      const { data, error } = await client
+        .from('teacher_student_assignments')
+        .insert([assignment])
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new DatabaseError('Teacher-student assignment already exists', 'UNIQUE_VIOLATION', error);
+        }
+        throw error;
+      }
+      return data;
+    } catch (error) {
+      if (error instanceof DatabaseError) throw error;
+      this.handleError(error, 'create teacher-student assignment');
+    }
+  }
+
+  async getTeacherStudentAssignment(teacherId: string, studentId: string): Promise<TeacherStudentAssignment | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('teacher_student_assignments')
+        .select('*')
+        .eq('teacher_id', teacherId)
+        .eq('student_id', studentId)
+        .eq('is_active', true)
+        .limit(1);
+
+      if (error) throw error;
+      return data?.[0] || null;
+    } catch (error) {
+      this.handleError(error, 'get teacher-student assignment');
+    }
+  }
+
+  async getTeacherAssignments(teacherId?: string): Promise<TeacherStudentAssignment[]> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      let queryBuilder = client
+        .from('teacher_student_assignments')
+        .select('*')
+        .eq('is_active', true)
+        .order('class_name', { ascending: true });
+
+      if (teacherId) {
+        queryBuilder = queryBuilder.eq('teacher_id', teacherId);
+      }
+
+      const { data, error } = await queryBuilder;
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get teacher assignments');
+    }
+  }
+
+  async deleteTeacherStudentAssignment(id: string): Promise<boolean> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('teacher_student_assignments')
+        .delete()
+        .eq('id', id)
+        .select('id');
+
+      if (error) throw error;
+      return (data || []).length > 0;
+    } catch (error) {
+      this.handleError(error, 'delete teacher-student assignment');
+    }
+  }
+
+  // ============================================================================
+  // Permission Operations
+  // ============================================================================
+
+  async createPermission(permissionData: Omit<Permission, 'id'>): Promise<Permission> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('permissions')
+        .insert([{ id: this.generateId(), ...permissionData }])
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new DatabaseError('Permission already exists', 'UNIQUE_VIOLATION', error);
+        }
+        throw error;
+      }
+      return data;
+    } catch (error) {
+      if (error instanceof DatabaseError) throw error;
+      this.handleError(error, 'create permission');
+    }
+  }
+
+  async getPermissions(): Promise<Permission[]> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('permissions')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get permissions');
+    }
+  }
+
+  async getRolePermissions(role?: UserRole): Promise<RolePermission[]> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      let queryBuilder = client
+        .from('role_permissions')
+        .select('*');
+
+      if (role) {
+        queryBuilder = queryBuilder.eq('role', role);
+      }
+
+      const { data, error } = await queryBuilder;
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get role permissions');
+    }
+  }
+
+  async grantRolePermission(grantData: Omit<RolePermission, 'id'>): Promise<RolePermission> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data: existing, error: selectError } = await client
+        .from('role_permissions')
+        .select('*')
+        .eq('role', grantData.role)
+        .eq('permission_id', grantData.permission_id)
+        .limit(1);
+
+      if (selectError) throw selectError;
+      if (existing?.[0]) return existing[0];
+
+      const { data, error } = await client
+        .from('role_permissions')
+        .insert([{ id: this.generateId(), ...grantData }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'grant role permission');
+    }
+  }
+
+  async revokeRolePermission(role: UserRole, permissionId: string): Promise<boolean> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('role_permissions')
+        .delete()
+        .eq('role', role)
+        .eq('permission_id', permissionId)
+        .select('id');
+
+      if (error) throw error;
+      return (data || []).length > 0;
+    } catch (error) {
+      this.handleError(error, 'revoke role permission');
+    }
+  }
+
+  async getUserPermissions(userId: string): Promise<UserPermission[]> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('user_permissions')
+        .select('*')
         .eq('user_id', userId);
 
       if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get user permissions');
+    }
+  }
+
+  async getUserPermissionsByPermissionIds(permissionIds: string[]): Promise<UserPermission[]> {
+    if (permissionIds.length === 0) return [];
+
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('user_permissions')
+        .select('*')
+        .in('permission_id', permissionIds);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get user permissions by permission ids');
+    }
+  }
+
+  async grantUserPermission(grantData: Omit<UserPermission, 'id'>): Promise<UserPermission> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('user_permissions')
+        .upsert([{ ...grantData, expires_at: grantData.expires_at || null }], { onConflict: 'user_id,permission_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'grant user permission');
+    }
+  }
+
+  async revokeUserPermission(userId: string, permissionId: string): Promise<boolean> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('user_permissions')
+        .delete()
+        .eq('user_id', userId)
+        .eq('permission_id', permissionId)
+        .select('id');
+
+      if (error) throw error;
+      return (data || []).length > 0;
+    } catch (error) {
+      this.handleError(error, 'revoke user permission');
+    }
+  }
+
+  // ============================================================================
+  // Quiz Operations
+  // ============================================================================
+
+  async createQuizResult(quizData: {
+    user_id: string;
+    score: number;
+    correct_answers: number;
+    total_questions: number;
+    started_at?: string;
+    duration_seconds?: number;
+  }): Promise<any> {
+    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    const id = this.generateId();
+    const now = this.getCurrentTimestamp();
+    
+    const quizResult = {
+      id,
+      user_id: quizData.user_id,
+      score: quizData.score,
+      correct_answers: quizData.correct_answers,
+      total_questions: quizData.total_questions,
+      started_at: quizData.started_at,
+      duration_seconds: quizData.duration_seconds,
+      completed_at: now
+    };
+
+    try {
+      const { data, error } = await this.client
+        .from('quiz_results')
+        .insert([quizResult])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'create quiz result');
+    }
+  }
+
+  async getQuizResultsByUserId(userId: string): Promise<any[]> {
+    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      console.log('[SUPABASE-ADAPTER] Querying quiz_results for userId:', userId);
+      
+      // Use service client for admin operations to bypass RLS
+      const client = this.serviceClient || this.client;
+      console.log('[SUPABASE-ADAPTER] Using client type:', this.serviceClient ? 'service' : 'anon');
+      
+      const { data, error } = await client
+        .from('quiz_results')
+        .select('*')
+        .eq('user_id', userId)
+        .order('completed_at', { ascending: false });
+
+      console.log('[SUPABASE-ADAPTER] Supabase query result - error:', error);
+      console.log('[SUPABASE-ADAPTER] Supabase query result - data length:', data?.length || 0);
+      console.log('[SUPABASE-ADAPTER] Supabase query result - data:', JSON.stringify(data, null, 2));
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error getting quiz results by user ID:', error);
+      return [];
+    }
+  }
+
+  async getQuizResultById(id: string): Promise<any | null> {
+    // Parents, teachers and admins read other users' results, so bypass RLS
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('quiz_results')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data || null;
+    } catch (error) {
+      this.handleError(error, 'get quiz result by ID');
+    }
+  }
+
+  async createQuizAnswer(answerData: {
+    quiz_result_id: string;
+    question_id?: string;
+    question_text: string;
+    selected_answer: string;
+    correct_answer: string;
+    is_correct: boolean;
+    answered_at?: string;
+    time_taken_seconds?: number;
+  }): Promise<any> {
+    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    const id = this.generateId();
+    
+    const quizAnswer = {
+      id,
+      quiz_result_id: answerData.quiz_result_id,
+      question_id: answerData.question_id,
+      question_text: answerData.question_text,
+      selected_answer: answerData.selected_answer,
+      correct_answer: answerData.correct_answer,
+      is_correct: answerData.is_correct,
+      answered_at: answerData.answered_at,
+      time_taken_seconds: answerData.time_taken_seconds
+    };
+
+    try {
+      const { data, error } = await this.client
+        .from('quiz_answers')
+        .insert([quizAnswer])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'create quiz answer');
+    }
+  }
+
+  async getQuizAnswersByResultId(quizResultId: string): Promise<any[]> {
+    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      // Use service client for admin operations to bypass RLS
+      const client = this.serviceClient || this.client;
+      
+      const { data, error } = await client
+        .from('quiz_answers')
+        .select('*')
+        .eq('quiz_result_id', quizResultId);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error getting quiz answers by result ID:', error);
+      return [];
+    }
+  }
+
+  async createIncorrectAnswer(incorrectData: {
+    user_id: string;
+    question_id?: string;
+    question_text: string;
+    selected_answer: string;
+    correct_answer: string;
+  }): Promise<any> {
+    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    const id = this.generateId();
+    const now = this.getCurrentTimestamp();
+    
+    const incorrectAnswer = {
+      id,
+      user_id: incorrectData.user_id,
+      question_id: incorrectData.question_id,
+      question_text: incorrectData.question_text,
+      selected_answer: incorrectData.selected_answer,
+      correct_answer: incorrectData.correct_answer,
+      created_at: now
+    };
+
+    try {
+      const { data, error } = await this.client
+        .from('incorrect_answers')
+        .insert([incorrectAnswer])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'create incorrect answer');
+    }
+  }
+
+  async getIncorrectAnswersByUserId(userId: string): Promise<any[]> {
+    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await this.client
+        .from('incorrect_answers')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get incorrect answers by user ID');
+    }
+  }
+
+  async deleteIncorrectAnswer(id: string): Promise<boolean> {
+    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { error } = await this.client
+        .from('incorrect_answers')
+        .delete()
+        .eq('id', id);
+
+      return !error;
+    } catch (error) {
+      this.handleError(error, 'delete incorrect answer');
+    }
+  }
+
+  async getQuestionsByIds(ids: string[]): Promise<any[]> {
+    if (ids.length === 0) return [];
+
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('questions')
+        .select('*')
+        .in('id', ids);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get questions by IDs');
+    }
+  }
+
+  // ============================================================================
+  // Quiz Session Operations
+  // ============================================================================
+
+  async createQuizSession(sessionData: Omit<QuizSession, 'id'>): Promise<QuizSession> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    const session: QuizSession = {
+      id: this.generateId(),
+      ...sessionData
+    };
+
+    try {
+      const { data, error } = await client
+        .from('quiz_sessions')
+        .insert([session])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'create quiz session');
+    }
+  }
+
+  async getQuizSessionById(id: string): Promise<QuizSession | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('quiz_sessions')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data || null;
+    } catch (error) {
+      this.handleError(error, 'get quiz session');
+    }
+  }
+
+  async updateQuizSession(
+    id: string,
+    updates: Partial<QuizSession>,
+    expectedStatus: QuizSessionStatus
+  ): Promise<QuizSession | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      // The status filter makes the update a compare-and-set
+      const { data, error } = await client
+        .from('quiz_sessions')
+        .update(updates)
+        .eq('id', id)
+        .eq('status', expectedStatus)
+        .select();
+
+      if (error) throw error;
+      return data?.[0] || null;
+    } catch (error) {
+      this.handleError(error, 'update quiz session');
+    }
+  }
+
+  async createQuizSessionAnswer(answerData: Omit<QuizSessionAnswer, 'id'>): Promise<QuizSessionAnswer | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    const answer: QuizSessionAnswer = {
+      id: this.generateId(),
+      ...answerData
+    };
+
+    try {
+      const { data, error } = await client
+        .from('quiz_session_answers')
+        .insert([answer])
+        .select()
+        .single();
+
+      // 23505 = unique_violation on (session_id, question_id)
+      if (error?.code === '23505') return null;
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'create quiz session answer');
+    }
+  }
+
+  async getQuizSessionAnswers(sessionId: string): Promise<QuizSessionAnswer[]> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('quiz_session_answers')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('answered_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get quiz session answers');
+    }
+  }
+
+  // ============================================================================
+  // Tutor Operations
+  // ============================================================================
+
+  async getTutorQuestionState(
+    userId: string,
+    conversationId: string,
+    questionId: string
+  ): Promise<TutorQuestionState | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('tutor_question_states')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('conversation_id', conversationId)
+        .eq('question_id', questionId)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data || null;
+    } catch (error) {
+      this.handleError(error, 'get tutor question state');
+    }
+  }
+
+  async saveTutorQuestionState(stateData: Omit<TutorQuestionState, 'id'>): Promise<TutorQuestionState> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    // created_at keeps its value on existing rows and defaults on new ones
+    const { created_at, ...changes } = stateData;
+
+    try {
+      const { data, error } = await client
+        .from('tutor_question_states')
+        .upsert([changes], { onConflict: 'user_id,conversation_id,question_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'save tutor question state');
+    }
+  }
+
+  async createTutorConversation(conversationData: Omit<TutorConversation, 'id'>): Promise<TutorConversation> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('tutor_conversations')
+        .insert([{ id: this.generateId(), ...conversationData }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'create tutor conversation');
+    }
+  }
+
+  async getTutorConversationById(id: string): Promise<TutorConversation | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('tutor_conversations')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data || null;
+    } catch (error) {
+      this.handleError(error, 'get tutor conversation');
+    }
+  }
+
+  async getTutorConversations(userId: string, limit: number): Promise<TutorConversation[]> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('tutor_conversations')
+        .select('*')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get tutor conversations');
+    }
+  }
+
+  async addTutorMessage(messageData: Omit<TutorMessage, 'id'>): Promise<TutorMessage> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('tutor_messages')
+        .insert([{ id: this.generateId(), ...messageData }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      // Recount rather than increment, so concurrent messages cannot lose an update
+      const { count, error: countError } = await client
+        .from('tutor_messages')
+        .select('id', { count: 'exact', head: true })
+        .eq('conversation_id', messageData.conversation_id);
+
+      if (countError) throw countError;
+
+      const { error: updateError } = await client
+        .from('tutor_conversations')
+        .update({ message_count: count || 0, updated_at: messageData.created_at })
+        .eq('id', messageData.conversation_id);
+
+      if (updateError) throw updateError;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'add tutor message');
+    }
+  }
+
+  async getTutorMessages(conversationId: string): Promise<TutorMessage[]> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('tutor_messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get tutor messages');
+    }
+  }
+
+  // ============================================================================
+  // Moderation Operations
+  // ============================================================================
+
+  async createModerationIncident(incidentData: Omit<ModerationIncident, 'id'>): Promise<ModerationIncident> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('moderation_incidents')
+        .insert([{ id: this.generateId(), ...incidentData }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'create moderation incident');
+    }
+  }
+
+  async getModerationIncidentById(id: string): Promise<ModerationIncident | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('moderation_incidents')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data || null;
+    } catch (error) {
+      this.handleError(error, 'get moderation incident');
+    }
+  }
+
+  async getModerationIncidents(filter: ModerationIncidentFilter, limit: number): Promise<ModerationIncident[]> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      let queryBuilder = client
+        .from('moderation_incidents')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (filter.status) queryBuilder = queryBuilder.eq('status', filter.status);
+      if (filter.userId) queryBuilder = queryBuilder.eq('user_id', filter.userId);
+      if (filter.direction) queryBuilder = queryBuilder.eq('direction', filter.direction);
+
+      const { data, error } = await queryBuilder;
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get moderation incidents');
+    }
+  }
+
+  async updateModerationIncident(
+    id: string,
+    updates: Partial<Pick<ModerationIncident, 'status' | 'reviewed_by' | 'reviewed_at' | 'review_note' | 'parents_notified_at'>>
+  ): Promise<ModerationIncident> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('moderation_incidents')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'update moderation incident');
+    }
+  }
+
+  // ============================================================================
+  // Analytics and Reporting
+  // ============================================================================
+
+  async getUserQuizStats(userId: string): Promise<{
+    totalQuizzes: number;
+    averageScore: number;
+    bestScore: number;
+    totalCorrectAnswers: number;
+    totalQuestions: number;
+  }> {
+    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await this.client
+        .from('quiz_results')
+        .select('score, correct_answers, total_questions')
+        .eq('user_id', userId);
+
+      if (error) throw error;
+
+      const results = data || [];
+      const totalQuizzes = results.length;
+      
+      if (totalQuizzes === 0) {
+        return {
+          totalQuizzes: 0,
+          averageScore: 0,
+          bestScore: 0,
+          totalCorrectAnswers: 0,
+          totalQuestions: 0
+        };
+      }
+
+      const totalScore = results.reduce((sum, result) => sum + (result.score || 0), 0);
+      const averageScore = totalScore / totalQuizzes;
+      const bestScore = Math.max(...results.map(result => result.score || 0));
+      const totalCorrectAnswers = results.reduce((sum, result) => sum + (result.correct_answers || 0), 0);
+      const totalQuestions = results.reduce((sum, result) => sum + (result.total_questions || 0), 0);
+
+      return {
+        totalQuizzes,
+        averageScore: Math.round(averageScore * 100) / 100,
+        bestScore,
+        totalCorrectAnswers,
+        totalQuestions
+      };
+    } catch (error) {
+      this.handleError(error, 'get user quiz stats');
+    }
+  }
+
+  async getRecentQuizResults(limit: number = 10): Promise<any[]> {
+    // Use service client for admin operations to bypass RLS
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('quiz_results')
+        .select(`
+          *,
+          users_enhanced:user_id (
+            username,
+            full_name
+          )
+        `)
+        .order('completed_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get recent quiz results');
+    }
+  }
+
+  async getAdminStats(): Promise<{
+    totalQuizAttempts: number;
+    averageScore: number;
+    usersWithQuizzes: number;
+    recentActivity: number;
+  }> {
+    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      // Get total quiz attempts
+      const { count: totalQuizAttempts } = await this.client
+        .from('quiz_results')
+        .select('*', { count: 'exact', head: true });
+
+      // Get average score
+      const { data: scoreData } = await this.client
+        .from('quiz_results')
+        .select('score');
+      
+      let averageScore = 0;
+      if (scoreData && scoreData.length > 0) {
+        const totalScore = scoreData.reduce((sum, item) => sum + (item.score || 0), 0);
+        averageScore = Math.round((totalScore / scoreData.length) * 100) / 100;
+      }
+
+      // Get users with quizzes
+      const { data: distinctUsers } = await this.client
+        .from('quiz_results')
+        .select('user_id');
+      const uniqueUsers = new Set(distinctUsers?.map(item => item.user_id) || []);
+      const usersWithQuizzes = uniqueUsers.size;
+
+      // Get recent activity (last 7 days)
+      const sevenDaysAgo = new Date();
+      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+      const { count: recentActivity } = await this.client
+        .from('quiz_results')
+        .select('*', { count: 'exact', head: true })
+        .gte('completed_at', sevenDaysAgo.toISOString());
+
+      return {
+        totalQuizAttempts: totalQuizAttempts || 0,
+        averageScore,
+        usersWithQuizzes,
+        recentActivity: recentActivity || 0
+      };
+    } catch (error) {
+      this.handleError(error, 'get admin stats');
+    }
+  }
+
+  async getQuestionCount(): Promise<number> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { count, error } = await client
+        .from('questions')
+        .select('*', { count: 'exact', head: true });
+
+      if (error) throw error;
+      return count || 0;
+    } catch (error) {
+      this.handleError(error, 'get question count');
+    }
+  }
+
+  async getQuizResultsByUserIds(userIds: string[]): Promise<any[]> {
+    if (userIds.length === 0) return [];
+
+    // Use service client for admin operations to bypass RLS
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('quiz_results')
+        .select('*')
+        .in('user_id', userIds)
+        .order('completed_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get quiz results by user IDs');
+    }
+  }
+
+  async getQuizAnswersByResultIds(quizResultIds: string[]): Promise<any[]> {
+    if (quizResultIds.length === 0) return [];
+
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('quiz_answers')
+        .select('*')
+        .in('quiz_result_id', quizResultIds);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get quiz answers by result IDs');
+    }
+  }
+
+  async getQuestionHistoryByUserIds(userIds: string[]): Promise<any[]> {
+    if (userIds.length === 0) return [];
+
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('user_question_history')
+        .select('user_id, question_uuid, times_seen, times_correct, times_incorrect, mastery_level, last_seen')
+        .in('user_id', userIds);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get question history by user IDs');
+    }
+  }
+
+  async getLoginSessionsByUserIds(userIds: string[]): Promise<LoginSession[]> {
+    if (userIds.length === 0) return [];
+
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('login_sessions')
+        .select('*')
+        .in('user_id', userIds)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get login sessions by user IDs');
+    }
+  }
+
+  async getRecentLoginSessions(limit: number = 10): Promise<LoginSession[]> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('login_sessions')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get recent login sessions');
+    }
+  }
+
+  // ============================================================================
+  // Two-Factor Authentication Operations
+  // ============================================================================
+
+  async getTwoFactorAuth(userId: string): Promise<TwoFactorAuth | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('two_factor_auth')
+        .select('*')
+        .eq('user_id', userId)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data || null;
+    } catch (error) {
+      this.handleError(error, 'get two-factor auth');
+    }
+  }
+
+  async saveTwoFactorAuth(twoFactorData: Omit<TwoFactorAuth, 'id'>): Promise<TwoFactorAuth> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('two_factor_auth')
+        .upsert([{ ...twoFactorData, last_used_at: twoFactorData.last_used_at || null, last_used_step: twoFactorData.last_used_step ?? null }], { onConflict: 'user_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'save two-factor auth');
+    }
+  }
+
+  async updateTwoFactorAuth(userId: string, updates: Partial<TwoFactorAuth>): Promise<TwoFactorAuth | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    const { id, user_id, created_at, ...changes } = updates;
+
+    try {
+      const { data, error } = await client
+        .from('two_factor_auth')
+        .update({ ...changes, updated_at: this.getCurrentTimestamp() })
+        .eq('user_id', userId)
+        .select();
+
+      if (error) throw error;
+      return data?.[0] || null;
+    } catch (error) {
+      this.handleError(error, 'update two-factor auth');
+    }
+  }
+
+  async claimTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const now = this.getCurrentTimestamp();
+      const { data, error } = await client
+        .from('two_factor_auth')
+        .update({ last_used_step: step, last_used_at: now, updated_at: now })
+        .eq('user_id', userId)
+        .or(`last_used_step.is.null,last_used_step.lt.${step}`)
+        .select('id');
+
+      if (error) throw error;
+      return (data || []).length > 0;
+    } catch (error) {
+      this.handleError(error, 'claim two-factor step');
+    }
+  }
+
+  async consumeTwoFactorBackupCode(userId: string, codeHash: string): Promise<boolean> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      // Compare-and-set on the whole list: the update only applies if no other
+      // code was used since it was read. Retried when a different code won the race.
+      for (let attempt = 0; attempt < 3; attempt++) {
+        const { data: record, error: readError } = await client
+          .from('two_factor_auth')
+          .select('backup_codes')
+          .eq('user_id', userId)
+          .single();
+
+        if (readError && readError.code !== 'PGRST116') throw readError;
+        const codes: string[] = record?.backup_codes || [];
+        if (!codes.includes(codeHash)) return false;
+
+        const now = this.getCurrentTimestamp();
+        const { data, error } = await client
+          .from('two_factor_auth')
+          .update({ backup_codes: codes.filter(c => c !== codeHash), last_used_at: now, updated_at: now })
+          .eq('user_id', userId)
+          .filter('backup_codes', 'eq', `{${codes.join(',')}}`)
+          .select('id');
+
+        if (error) throw error;
+        if ((data || []).length > 0) return true;
+      }
+      return false;
+    } catch (error) {
+      this.handleError(error, 'consume two-factor backup code');
+    }
+  }
+
+  async deleteTwoFactorAuth(userId: string): Promise<boolean> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('two_factor_auth')
+        .delete()
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) throw error;
+      return (data || []).length > 0;
+    } catch (error) {
+      this.handleError(error, 'delete two-factor auth');
+    }
+  }
+
+  // ============================================================================
+  // Security Audit Log Operations
+  // ============================================================================
+
+  async createSecurityAuditLog(logData: Omit<SecurityAuditLog, 'id'>): Promise<SecurityAuditLog> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('security_audit_logs')
+        .insert([{ id: this.generateId(), ...logData }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'create security audit log');
+    }
+  }
+
+  async getSecurityAuditLogs(filter: SecurityAuditLogFilter, offset: number, limit: number): Promise<{
+    logs: SecurityAuditLog[];
+    total: number;
+    hasMore: boolean;
+  }> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      let queryBuilder = client
+        .from('security_audit_logs')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (filter.userId) queryBuilder = queryBuilder.eq('user_id', filter.userId);
+      if (filter.eventType) queryBuilder = queryBuilder.eq('event_type', filter.eventType);
+      if (filter.riskLevel) queryBuilder = queryBuilder.eq('risk_level', filter.riskLevel);
+      if (filter.from) queryBuilder = queryBuilder.gte('created_at', filter.from);
+      if (filter.to) queryBuilder = queryBuilder.lte('created_at', filter.to);
+
+      const { data, error, count } = await queryBuilder;
+
+      if (error) throw error;
+
+      const total = count || 0;
+      return { logs: data || [], total, hasMore: offset + limit < total };
+    } catch (error) {
+      this.handleError(error, 'get security audit logs');
+    }
+  }
+
+  async deleteSecurityAuditLogsBefore(cutoff: string): Promise<number> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('security_audit_logs')
+        .delete()
+        .lt('created_at', cutoff)
+        .select('id');
+
+      if (error) throw error;
+      return data?.length || 0;
+    } catch (error) {
+      this.handleError(error, 'delete security audit logs');
+    }
+  }
+
+  // ============================================================================
+  // Login Security Operations
+  // ============================================================================
+
+  async recordFailedLoginAttempt(attemptData: Omit<FailedLoginAttempt, 'id'>): Promise<FailedLoginAttempt> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('failed_login_attempts')
+        .insert([{ id: this.generateId(), ...attemptData }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'record failed login attempt');
+    }
+  }
+
+  async countFailedLoginAttempts(filter: { identifier?: string; ipAddress?: string }, since: string): Promise<number> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      let queryBuilder = client
+        .from('failed_login_attempts')
+        .select('id', { count: 'exact', head: true })
+        .gte('attempt_time', since);
+
+      if (filter.identifier) queryBuilder = queryBuilder.eq('identifier', filter.identifier);
+      if (filter.ipAddress) queryBuilder = queryBuilder.eq('ip_address', filter.ipAddress);
+
+      const { count, error } = await queryBuilder;
+
+      if (error) throw error;
+      return count || 0;
+    } catch (error) {
+      this.handleError(error, 'count failed login attempts');
+    }
+  }
+
+  async createAccountLockout(lockoutData: Omit<AccountLockout, 'id'>): Promise<AccountLockout> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('account_lockouts')
+        .insert([{ id: this.generateId(), ...lockoutData }])
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new DatabaseError('Unlock token already exists', 'UNIQUE_VIOLATION', error);
+        }
+        throw error;
+      }
+      return data;
+    } catch (error) {
+      if (error instanceof DatabaseError) throw error;
+      this.handleError(error, 'create account lockout');
+    }
+  }
+
+  async getActiveAccountLockouts(userId?: string): Promise<AccountLockout[]> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      let queryBuilder = client
+        .from('account_lockouts')
+        .select('*')
+        .eq('is_active', true)
+        .or(`locked_until.is.null,locked_until.gt.${new Date().toISOString()}`)
+        .order('locked_at', { ascending: false });
+
+      if (userId) queryBuilder = queryBuilder.eq('user_id', userId);
+
+      const { data, error } = await queryBuilder;
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleError(error, 'get active account lockouts');
+    }
+  }
+
+  async getAccountLockoutByUnlockToken(tokenHash: string): Promise<AccountLockout | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('account_lockouts')
+        .select('*')
+        .eq('unlock_token', tokenHash)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data || null;
+    } catch (error) {
+      this.handleError(error, 'get account lockout by unlock token');
+    }
+  }
+
+  async releaseAccountLockouts(userId: string, unlockedBy?: string): Promise<number> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const now = this.getCurrentTimestamp();
+      const { data, error } = await client
+        .from('account_lockouts')
+        .update({ is_active: false, unlocked_at: now, unlocked_by: unlockedBy || null, updated_at: now })
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .select('id');
+
+      if (error) throw error;
+      return data?.length || 0;
+    } catch (error) {
+      this.handleError(error, 'release account lockouts');
+    }
+  }
+
+  async getRateLimitBucket(key: string): Promise<RateLimitBucket | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('rate_limit_buckets')
+        .select('*')
+        .eq('key', key)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data || null;
+    } catch (error) {
+      this.handleError(error, 'get rate limit bucket');
+    }
+  }
+
+  async incrementRateLimitBucket(key: string, windowMs: number): Promise<RateLimitBucket> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client.rpc('increment_rate_limit_bucket', {
+        p_key: key,
+        p_window_ms: windowMs
+      });
+
+      if (error) throw error;
+      return Array.isArray(data) ? data[0] : data;
+    } catch (error) {
+      this.handleError(error, 'increment rate limit bucket');
+    }
+  }
+
+  async blockRateLimitBucket(key: string, until: string): Promise<void> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { error } = await client
+        .from('rate_limit_buckets')
+        .update({ blocked_until: until })
+        .eq('key', key);
+
+      if (error) throw error;
+    } catch (error) {
+      this.handleError(error, 'block rate limit bucket');
+    }
+  }
+
+  async deleteRateLimitBucket(key: string): Promise<boolean> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('rate_limit_buckets')
+        .delete()
+        .eq('key', key)
+        .select('key');
+
+      if (error) throw error;
+      return (data || []).length > 0;
+    } catch (error) {
+      this.handleError(error, 'delete rate limit bucket');
+    }
+  }
+
+  async deleteExpiredRateLimitBuckets(): Promise<number> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const now = new Date().toISOString();
+      const { data, error } = await client
+        .from('rate_limit_buckets')
+        .delete()
+        .lte('reset_at', now)
+        .or(`blocked_until.is.null,blocked_until.lte.${now}`)
+        .select('key');
+
+      if (error) throw error;
+      return data?.length || 0;
+    } catch (error) {
+      this.handleError(error, 'delete expired rate limit buckets');
+    }
+  }
+
+  // ============================================================================
+  // Password Reset Operations
+  // ============================================================================
+
+  async createPasswordResetToken(tokenData: Omit<PasswordResetToken, 'id'>): Promise<PasswordResetToken> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('password_reset_tokens')
+        .insert([{ id: this.generateId(), ...tokenData }])
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new DatabaseError('Password reset token already exists', 'UNIQUE_VIOLATION', error);
+        }
+        throw error;
+      }
+      return data;
+    } catch (error) {
+      if (error instanceof DatabaseError) throw error;
+      this.handleError(error, 'create password reset token');
+    }
+  }
+
+  async getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('password_reset_tokens')
+        .select('*')
+        .eq('token', tokenHash)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data || null;
+    } catch (error) {
+      this.handleError(error, 'get password reset token');
+    }
+  }
+
+  async claimPasswordResetToken(id: string): Promise<boolean> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('password_reset_tokens')
+        .update({ used: true, used_at: this.getCurrentTimestamp() })
+        .eq('id', id)
+        .eq('used', false)
+        .select('id');
+
+      if (error) throw error;
+      return (data || []).length > 0;
+    } catch (error) {
+      this.handleError(error, 'claim password reset token');
+    }
+  }
 
-      const results = data || [];
-      const totalQuizzes = results.length;
-      
-      if (totalQuizzes === 0) {
-        return {
-          totalQuizzes: 0,
-          averageScore: 0,
-          bestScore: 0,
-          totalCorrectAnswers: 0,
-          totalQuestions: 0
-        };
+  async invalidatePasswordResetTokens(userId: string): Promise<number> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('password_reset_tokens')
+        .update({ used: true, used_at: this.getCurrentTimestamp() })
+        .eq('user_id', userId)
+        .eq('used', false)
+        .select('id');
+
+      if (error) throw error;
+      return data?.length || 0;
+    } catch (error) {
+      this.handleError(error, 'invalidate password reset tokens');
+    }
+  }
+
+  // ============================================================================
+  // Email Verification Operations
+  // ============================================================================
+
+  async createEmailVerificationToken(tokenData: Omit<EmailVerificationToken, 'id'>): Promise<EmailVerificationToken> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('email_verification_tokens')
+        .insert([{ id: this.generateId(), ...tokenData }])
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new DatabaseError('Email verification token already exists', 'UNIQUE_VIOLATION', error);
+        }
+        throw error;
       }
+      return data;
+    } catch (error) {
+      if (error instanceof DatabaseError) throw error;
+      this.handleError(error, 'create email verification token');
+    }
+  }
 
-      const totalScore = results.reduce((sum, result) => sum + (result.score || 0), 0);
-      const averageScore = totalScore / totalQuizzes;
-      const bestScore = Math.max(...results.map(result => result.score || 0));
-      const totalCorrectAnswers = results.reduce((sum, result) => sum + (result.correct_answers || 0), 0);
-      const totalQuestions = results.reduce((sum, result) => sum + (result.total_questions || 0), 0);
+  async getEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
 
-      return {
-        totalQuizzes,
-        averageScore: Math.round(averageScore * 100) / 100,
-        bestScore,
-        totalCorrectAnswers,
-        totalQuestions
-      };
+    try {
+      const { data, error } = await client
+        .from('email_verification_tokens')
+        .select('*')
+        .eq('token', tokenHash)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data || null;
     } catch (error) {
-      this.handleError(error, 'get user quiz stats');
+      this.handleError(error, 'get email verification token');
     }
   }
 
-  async getRecentQuizResults(limit: number = 10): Promise<any[]> {
-    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+  async getLatestEmailVerificationToken(userId: string): Promise<EmailVerificationToken | null> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
 
     try {
-      const { data, error } = await this.client
-        .from('quiz_results')
-        .select(`
-          *,
-          users_enhanced:user_id (
-            username,
-            full_name
-          )
-        `)
-        .order('completed_at', { ascending: false })
+      const { data, error } = await client
+        .from('email_verification_tokens')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      if (error) throw error;
+      return data?.[0] || null;
+    } catch (error) {
+      this.handleError(error, 'get latest email verification token');
+    }
+  }
+
+  async claimEmailVerificationToken(id: string): Promise<boolean> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const now = this.getCurrentTimestamp();
+      const { data, error } = await client
+        .from('email_verification_tokens')
+        .update({ verified: true, verified_at: now })
+        .eq('id', id)
+        .eq('verified', false)
+        .gt('expires_at', now)
+        .select('id');
+
+      if (error) throw error;
+      return (data || []).length > 0;
+    } catch (error) {
+      this.handleError(error, 'claim email verification token');
+    }
+  }
+
+  async invalidateEmailVerificationTokens(userId: string): Promise<number> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const now = this.getCurrentTimestamp();
+      const { data, error } = await client
+        .from('email_verification_tokens')
+        .update({ expires_at: now })
+        .eq('user_id', userId)
+        .eq('verified', false)
+        .gt('expires_at', now)
+        .select('id');
+
+      if (error) throw error;
+      return data?.length || 0;
+    } catch (error) {
+      this.handleError(error, 'invalidate email verification tokens');
+    }
+  }
+
+  // ============================================================================
+  // Password History Operations
+  // ============================================================================
+
+  async addPasswordHistory(entry: Omit<PasswordHistoryEntry, 'id'>): Promise<PasswordHistoryEntry> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('password_history')
+        .insert([{ id: this.generateId(), ...entry }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'add password history');
+    }
+  }
+
+  async getPasswordHistory(userId: string, limit: number): Promise<PasswordHistoryEntry[]> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const { data, error } = await client
+        .from('password_history')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
         .limit(limit);
 
       if (error) throw error;
       return data || [];
     } catch (error) {
-      this.handleError(error, 'get recent quiz results');
+      this.handleError(error, 'get password history');
     }
   }
 
-  async getAdminStats(): Promise<{
-    totalQuizAttempts: number;
-    averageScore: number;
-    usersWithQuizzes: number;
-    recentActivity: number;
-  }> {
-    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+  async prunePasswordHistory(userId: string, keep: number): Promise<number> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
 
     try {
-      // Get total quiz attempts
-      const { count: totalQuizAttempts } = await this.client
-        .from('quiz_results')
-        .select('*', { count: 'exact', head: true });
-
-      // Get average score
-      const { data: scoreData } = await this.client
-        .from('quiz_results')
-        .select('score');
-      
-      let averageScore = 0;
-      if (scoreData && scoreData.length > 0) {
-        const totalScore = scoreData.reduce((sum, item) => sum + (item.score || 0), 0);
-        averageScore = Math.round((totalScore / scoreData.length) * 100) / 100;
-      }
+      const { data: stale, error: selectError } = await client
+        .from('password_history')
+        .select('id')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .range(keep, keep + 999);
 
-      // Get users with quizzes
-      const { data: distinctUsers } = await this.client
-        .from('quiz_results')
-        .select('user_id');
-      const uniqueUsers = new Set(distinctUsers?.map(item => item.user_id) || []);
-      const usersWithQuizzes = uniqueUsers.size;
+      if (selectError) throw selectError;
+      if (!stale || stale.length === 0) return 0;
 
-      // Get recent activity (last 7 days)
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-      const { count: recentActivity } = await this.client
-        .from('quiz_results')
-        .select('*', { count: 'exact', head: true })
-        .gte('completed_at', sevenDaysAgo.toISOString());
+      const { error } = await client
+        .from('password_history')
+        .delete()
+        .in('id', stale.map((row: { id: string }) => row.id));
 
-      return {
-        totalQuizAttempts: totalQuizAttempts || 0,
-        averageScore,
-        usersWithQuizzes,
-        recentActivity: recentActivity || 0
-      };
+      if (error) throw error;
+      return stale.length;
     } catch (error) {
-      this.handleError(error, 'get admin stats');
+      this.handleError(error, 'prune password history');
     }
   }
 
@@ -912,7 +2697,8 @@ export class SupabaseAdapter extends AbstractDatabaseAdapter {
   // ============================================================================
 
   async saveFaceData(faceData: Omit<FaceRecognitionData, 'id'>): Promise<FaceRecognitionData> {
-    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
 
     const data: FaceRecognitionData = {
       id: this.generateId(),
@@ -922,7 +2708,7 @@ export class SupabaseAdapter extends AbstractDatabaseAdapter {
     };
 
     try {
-      const { data: result, error } = await this.client
+      const { data: result, error } = await client
         .from('face_recognition_data')
         .upsert([data], { onConflict: 'user_id' })
         .select()
@@ -936,10 +2722,11 @@ export class SupabaseAdapter extends AbstractDatabaseAdapter {
   }
 
   async getFaceData(userId: string): Promise<FaceRecognitionData | null> {
-    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
 
     try {
-      const { data, error } = await this.client
+      const { data, error } = await client
         .from('face_recognition_data')
         .select('*')
         .eq('user_id', userId)
@@ -954,10 +2741,11 @@ export class SupabaseAdapter extends AbstractDatabaseAdapter {
   }
 
   async updateFaceData(userId: string, faceData: string): Promise<FaceRecognitionData> {
-    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
 
     try {
-      const { data, error } = await this.client
+      const { data, error } = await client
         .from('face_recognition_data')
         .update({
           face_encoding: faceData,
@@ -975,20 +2763,70 @@ export class SupabaseAdapter extends AbstractDatabaseAdapter {
   }
 
   async deleteFaceData(userId: string): Promise<boolean> {
-    if (!this.client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
 
     try {
-      const { error } = await this.client
+      const { data, error } = await client
         .from('face_recognition_data')
         .delete()
-        .eq('user_id', userId);
+        .eq('user_id', userId)
+        .select('id');
 
-      return !error;
+      if (error) throw error;
+      return (data || []).length > 0;
     } catch (error) {
       this.handleError(error, 'delete face data');
     }
   }
 
+  async createFaceChallenge(challenge: FaceChallengeRecord): Promise<FaceChallengeRecord> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      // Expired challenges can no longer be claimed, so they are dropped as new ones arrive
+      const { error: cleanupError } = await client
+        .from('face_challenges')
+        .delete()
+        .lt('expires_at', this.getCurrentTimestamp());
+
+      if (cleanupError) throw cleanupError;
+
+      const { data, error } = await client
+        .from('face_challenges')
+        .insert([challenge])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      this.handleError(error, 'create face challenge');
+    }
+  }
+
+  async claimFaceChallenge(nonce: string): Promise<boolean> {
+    const client = this.serviceClient || this.client;
+    if (!client) throw new DatabaseError('Database not connected', 'NO_CONNECTION');
+
+    try {
+      const now = this.getCurrentTimestamp();
+      const { data, error } = await client
+        .from('face_challenges')
+        .update({ used_at: now })
+        .eq('nonce', nonce)
+        .is('used_at', null)
+        .gt('expires_at', now)
+        .select('nonce');
+
+      if (error) throw error;
+      return (data || []).length > 0;
+    } catch (error) {
+      this.handleError(error, 'claim face challenge');
+    }
+  }
+
   // ============================================================================
   // Query Helpers
   // ============================================================================
@@ -1045,7 +2883,8 @@ export class SupabaseAdapter extends AbstractDatabaseAdapter {
       let queryBuilder = this.client
         .from('users_enhanced')
         .select('*', { count: 'exact' })
-        .eq('account_status', 'active')
+        // Accounts awaiting email verification are listed too, so admins can follow up on them
+        .in('account_status', ['active', 'pending_verification'])
         .order('created_at', { ascending: false })
         .range(offset, offset + limit - 1);
 
@@ -0,0 +1,21 @@
+/**
+ * Abstract LLM Provider
+ *
+ * What the AI routes need from a language model: a whole reply, or the
+ * reply as it is generated. Implementations throw on failure; retries and
+ * failover to the next provider are handled by the LLM manager.
+ */
+
+import { LLMProviderName, LLMRequest } from '@/types/llm';
+
+export abstract class AbstractLLMProvider {
+  abstract readonly name: LLMProviderName;
+
+  // Whether the provider has what it needs (an API key) to be tried
+  abstract isConfigured(): boolean;
+
+  abstract complete(request: LLMRequest): Promise<string>;
+
+  // Resolves once the model has accepted the request; the text follows in chunks
+  abstract stream(request: LLMRequest): Promise<AsyncIterable<string>>;
+}
@@ -0,0 +1,107 @@
+/**
+ * LLM Manager
+ *
+ * Sends an AI route's request to the first provider in its llmRouteConfig
+ * list that is configured. Each provider gets retryOpenAICall's retries;
+ * once they are used up, the next provider is tried. A stream counts as
+ * started once its first chunk arrives, so a model that fails before
+ * answering is failed over as well.
+ */
+
+import { AbstractLLMProvider } from './abstract-provider';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+import { MockLLMProvider } from './mock-provider';
+import { llmProviderConfig, llmRouteConfig } from '@/lib/config/llm-config';
+import { retryOpenAICall } from '@/lib/retry-utils';
+import {
+  LLMCompletion,
+  LLMError,
+  LLMProviderName,
+  LLMRequest,
+  LLMRoute,
+  LLMStream
+} from '@/types/llm';
+
+export class LLMManager {
+  private static instance: LLMManager;
+  private providers: Record<LLMProviderName, AbstractLLMProvider>;
+
+  private constructor() {
+    this.providers = {
+      openai: new OpenAICompatibleProvider('openai', llmProviderConfig.openai),
+      groq: new OpenAICompatibleProvider('groq', llmProviderConfig.groq),
+      google: new OpenAICompatibleProvider('google', llmProviderConfig.google),
+      mock: new MockLLMProvider()
+    };
+  }
+
+  public static getInstance(): LLMManager {
+    if (!LLMManager.instance) {
+      LLMManager.instance = new LLMManager();
+    }
+    return LLMManager.instance;
+  }
+
+  // The configured providers a route tries, in order
+  public getProviders(route: LLMRoute): AbstractLLMProvider[] {
+    return llmRouteConfig[route]
+      .map(name => this.providers[name])
+      .filter(provider => provider.isConfigured());
+  }
+
+  public async complete(route: LLMRoute, request: LLMRequest): Promise<LLMCompletion> {
+    return this.withFailover(route, async provider => ({
+      text: await retryOpenAICall(() => provider.complete(request), `${route} completion (${provider.name})`),
+      provider: provider.name
+    }));
+  }
+
+  public async stream(route: LLMRoute, request: LLMRequest): Promise<LLMStream> {
+    return this.withFailover(route, async provider => {
+      const { first, rest } = await retryOpenAICall(async () => {
+        const iterator = (await provider.stream(request))[Symbol.asyncIterator]();
+        return { first: await iterator.next(), rest: iterator };
+      }, `${route} streaming completion (${provider.name})`);
+
+      return {
+        chunks: (async function* () {
+          if (first.done) return;
+          yield first.value;
+          for (let next = await rest.next(); !next.done; next = await rest.next()) {
+            yield next.value;
+          }
+        })(),
+        provider: provider.name
+      };
+    });
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private async withFailover<T>(route: LLMRoute, call: (provider: AbstractLLMProvider) => Promise<T>): Promise<T> {
+    const providers = this.getProviders(route);
+    if (providers.length === 0) {
+      throw new LLMError(`No LLM provider is configured for ${route}`, 'NO_PROVIDER', 503);
+    }
+
+    let lastError: unknown;
+    for (const provider of providers) {
+      try {
+        return await call(provider);
+      } catch (error) {
+        lastError = error;
+        console.error(`[LLM] ${provider.name} failed for ${route}, trying the next provider:`, error);
+      }
+    }
+
+    throw new LLMError(
+      `Every LLM provider failed for ${route}: ${lastError instanceof Error ? lastError.message : 'Unknown error'}`,
+      'ALL_PROVIDERS_FAILED'
+    );
+  }
+}
+
+// Export singleton instance
+export const llmManager = LLMManager.getInstance();
@@ -0,0 +1,62 @@
+/**
+ * Mock LLM Provider
+ *
+ * A local stand-in for a language model, for developing and testing the AI
+ * routes without network access or API keys. The reply depends only on the
+ * conversation, so the same messages always get the same answer, and it
+ * streams word by word like a real model.
+ */
+
+import { AbstractLLMProvider } from './abstract-provider';
+import { LLMRequest } from '@/types/llm';
+
+const REPLIES = [
+  'Good question! [HIGHLIGHT]Read the sentence again with each option and listen for the one that sounds right.[/HIGHLIGHT] You can do it!',
+  'Let\'s think about it together. [HIGHLIGHT]Look at the words just before and after the blank.[/HIGHLIGHT] Which option fits best?',
+  'Nice try! [HIGHLIGHT]Say each choice out loud in the sentence.[/HIGHLIGHT] One of them will sound just right.',
+  'Great thinking! [HIGHLIGHT]Ask yourself who or what the sentence is about.[/HIGHLIGHT] That helps you pick the right word.'
+];
+
+export class MockLLMProvider extends AbstractLLMProvider {
+  readonly name = 'mock' as const;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    return this.reply(request);
+  }
+
+  async stream(request: LLMRequest): Promise<AsyncIterable<string>> {
+    const words = this.reply(request).split(' ').map((word, i, all) => i < all.length - 1 ? `${word} ` : word);
+
+    return (async function* () {
+      for (const word of words) {
+        yield word;
+      }
+    })();
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private reply(request: LLMRequest): string {
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+    const said = lastUserMessage?.content.trim() || '';
+    const reply = REPLIES[this.hash(request.messages.map(message => `${message.role}:${message.content}`).join('\n')) % REPLIES.length];
+
+    return said ? `(Mock tutor) You said: "${said.slice(0, 80)}". ${reply}` : `(Mock tutor) ${reply}`;
+  }
+
+  // FNV-1a, so replies are stable across runs and machines
+  private hash(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * OpenAI-Compatible LLM Provider
+ *
+ * Chat completions through the OpenAI SDK. OpenAI itself, and Groq and
+ * Google through their OpenAI-compatible endpoints, differ only in the
+ * base URL, key and model.
+ */
+
+import OpenAI from 'openai';
+import { AbstractLLMProvider } from './abstract-provider';
+import { LLMProviderSettings } from '@/lib/config/llm-config';
+import { LLMProviderName, LLMRequest } from '@/types/llm';
+
+export class OpenAICompatibleProvider extends AbstractLLMProvider {
+  private client: OpenAI | null = null;
+
+  constructor(
+    public readonly name: Exclude<LLMProviderName, 'mock'>,
+    private settings: LLMProviderSettings
+  ) {
+    super();
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.settings.apiKey);
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const response = await this.getClient().chat.completions.create({
+      ...this.buildParams(request),
+      stream: false
+    });
+
+    return response.choices[0]?.message?.content || '';
+  }
+
+  async stream(request: LLMRequest): Promise<AsyncIterable<string>> {
+    const stream = await this.getClient().chat.completions.create({
+      ...this.buildParams(request),
+      stream: true
+    });
+
+    return (async function* () {
+      for await (const chunk of stream) {
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) yield content;
+      }
+    })();
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.settings.apiKey,
+        baseURL: this.settings.baseURL,
+        timeout: this.settings.timeout,
+        maxRetries: 0 // retryOpenAICall retries, then the manager fails over
+      });
+    }
+    return this.client;
+  }
+
+  private buildParams(request: LLMRequest) {
+    return {
+      model: this.settings.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(this.settings.supportsPenalties ? {
+        presence_penalty: request.presencePenalty,
+        frequency_penalty: request.frequencyPenalty
+      } : {})
+    };
+  }
+}
@@ -7,8 +7,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import jwt from 'jsonwebtoken';
-import { UserRole, SessionData, AuthenticatedRequest } from '@/types/auth';
+import { UserRole, SessionData, AuthenticatedRequest, LoginSession, LoginMethod } from '@/types/auth';
 import { DatabaseManager } from '@/lib/database/database-manager';
+import { jwtConfig } from '@/lib/config/auth-config';
 import { securityService } from '@/lib/services/security-service';
 import { rbacService } from '@/lib/services/rbac-service';
 
@@ -40,11 +41,15 @@ export interface AuthContext {
 // JWT Utilities
 // ============================================================================
 
+/**
+ * The only issuer and verifier of access and refresh tokens; every token
+ * carries the session it belongs to as its sessionId.
+ */
 export class JWTManager {
-  private static readonly SECRET = process.env.JWT_SECRET || 'your-jwt-secret-key';
-  private static readonly REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'your-refresh-secret';
-  private static readonly ACCESS_TOKEN_EXPIRY = '15m';
-  private static readonly REFRESH_TOKEN_EXPIRY = '7d';
+  private static readonly SECRET = jwtConfig.accessTokenSecret;
+  private static readonly REFRESH_SECRET = jwtConfig.refreshTokenSecret;
+  private static readonly ACCESS_TOKEN_EXPIRY = jwtConfig.accessTokenExpiry;
+  private static readonly REFRESH_TOKEN_EXPIRY = jwtConfig.refreshTokenExpiry;
 
   static generateTokens(payload: SessionData): {
     accessToken: string;
@@ -52,18 +57,19 @@ export class JWTManager {
   } {
     const accessToken = jwt.sign(payload, this.SECRET, {
       expiresIn: this.ACCESS_TOKEN_EXPIRY,
-      issuer: 'futurelearner',
-      audience: 'futurelearner-app'
-    });
+      issuer: jwtConfig.issuer,
+      audience: jwtConfig.audience
+    } as jwt.SignOptions);
 
+    // The session ID keeps refresh tokens issued in the same second distinct
     const refreshToken = jwt.sign(
-      { userId: payload.userId, tokenType: 'refresh' },
+      { userId: payload.userId, sessionId: payload.sessionId, tokenType: 'refresh' },
       this.REFRESH_SECRET,
       {
         expiresIn: this.REFRESH_TOKEN_EXPIRY,
-        issuer: 'futurelearner',
-        audience: 'futurelearner-app'
-      }
+        issuer: jwtConfig.issuer,
+        audience: jwtConfig.audience
+      } as jwt.SignOptions
     );
 
     return { accessToken, refreshToken };
@@ -71,29 +77,20 @@ export class JWTManager {
 
   static verifyAccessToken(token: string): SessionData | null {
     try {
-      // First try with issuer/audience for new tokens
-      const decoded = jwt.verify(token, this.SECRET, {
-        issuer: 'futurelearner',
-        audience: 'futurelearner-app'
+      return jwt.verify(token, this.SECRET, {
+        issuer: jwtConfig.issuer,
+        audience: jwtConfig.audience
       }) as SessionData;
-      
-      return decoded;
     } catch (error) {
-      // Fallback to verification without issuer/audience for backward compatibility
-      try {
-        const decoded = jwt.verify(token, this.SECRET) as SessionData;
-        return decoded;
-      } catch (fallbackError) {
-        return null;
-      }
+      return null;
     }
   }
 
   static verifyRefreshToken(token: string): { userId: number; tokenType: string } | null {
     try {
       const decoded = jwt.verify(token, this.REFRESH_SECRET, {
-        issuer: 'futurelearner',
-        audience: 'futurelearner-app'
+        issuer: jwtConfig.issuer,
+        audience: jwtConfig.audience
       }) as { userId: number; tokenType: string };
       
       if (decoded.tokenType !== 'refresh') {
@@ -127,6 +124,8 @@ export class JWTManager {
 // Session Manager
 // ============================================================================
 
+const ACTIVITY_UPDATE_INTERVAL = 60 * 1000;
+
 export class SessionManager {
   private static async getDb() {
     const dbManager = DatabaseManager.getInstance();
@@ -134,30 +133,69 @@ export class SessionManager {
     return dbManager.getAdapter();
   }
 
+  /**
+   * Issue tokens for a new session. The access token carries the session
+   * token as its sessionId, so revoking the session also rejects the token.
+   */
   static async createSession(
-    userId: number,
-    _accessToken: string,
-    refreshToken: string,
+    sessionData: SessionData,
     ipAddress?: string,
-    userAgent?: string
-  ): Promise<string> {
+    userAgent?: string,
+    loginMethod: LoginMethod = 'jwt'
+  ): Promise<{
+    accessToken: string;
+    refreshToken: string;
+    sessionToken: string;
+  }> {
     const sessionToken = securityService.generateSecureToken();
+    const tokens = JWTManager.generateTokens({ ...sessionData, sessionId: sessionToken });
     const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
     const db = await this.getDb();
 
     await db.createSession({
-      user_id: userId.toString(),
+      user_id: sessionData.userId.toString(),
       token: sessionToken,
-      refresh_token: refreshToken,
+      refresh_token: tokens.refreshToken,
       ip_address: ipAddress,
       user_agent: userAgent,
       expires_at: expiresAt.toISOString(),
       created_at: new Date().toISOString(),
+      last_activity: new Date().toISOString(),
       is_active: true,
-      login_method: 'jwt'
+      login_method: loginMethod
     });
 
-    return sessionToken;
+    return { ...tokens, sessionToken };
+  }
+
+  /**
+   * Look up the session named by an access token's sessionId. Returns null
+   * for tokens without one and for revoked or expired sessions. Throws when
+   * the session store cannot be reached, so callers fail closed instead of
+   * accepting a session that may have been revoked. Activity is recorded at
+   * most once a minute.
+   */
+  static async findActiveSession(sessionData: SessionData): Promise<LoginSession | null> {
+    if (!sessionData.sessionId) {
+      return null;
+    }
+
+    const db = await this.getDb();
+    const session = await db.getSessionRecord(sessionData.sessionId);
+
+    if (!session || !session.is_active || new Date() > new Date(session.expires_at)) {
+      return null;
+    }
+
+    const lastActivity = new Date(session.last_activity || session.created_at).getTime();
+    if (Date.now() - lastActivity > ACTIVITY_UPDATE_INTERVAL) {
+      // Only bookkeeping; a failed write does not reject a session that was found
+      await db.updateSessionActivity(session.token).catch(error => {
+        console.error('Session activity update error:', error);
+      });
+    }
+
+    return session;
   }
 
   static async validateSession(sessionToken: string): Promise<SessionData | null> {
@@ -218,22 +256,19 @@ export class SessionManager {
         email: user.email
       };
 
-      const tokens = JWTManager.generateTokens(sessionData);
-      
-      // Create new session
-      const sessionToken = await this.createSession(
-        parseInt(user.id),
-        tokens.accessToken,
-        tokens.refreshToken
-      );
-
-      // Invalidate old session
-      await db.invalidateSessionByRefreshToken(refreshToken);
+      // Ending the old session first means a revoked or already used refresh token fails
+      const previous = await db.invalidateSessionByRefreshToken(refreshToken);
+      if (!previous) {
+        return null;
+      }
 
-      return {
-        ...tokens,
-        sessionToken
-      };
+      // The new session stands for the same device and sign-in as the one it replaces
+      return await this.createSession(
+        sessionData,
+        previous.ip_address,
+        previous.user_agent,
+        previous.login_method
+      );
     } catch (error) {
       console.error('Session refresh error:', error);
       return null;
@@ -327,6 +362,32 @@ export class AuthMiddleware {
         return { context };
       }
 
+      // Revoked sessions are refused even while their access token is unexpired
+      let session: LoginSession | null;
+      try {
+        session = await SessionManager.findActiveSession(sessionData);
+      } catch (error) {
+        // Without the session store a revoked session cannot be told apart, so fail closed
+        console.error('Session lookup error:', error);
+        if (config.requireAuth) {
+          return {
+            response: this.createErrorResponse('Session could not be verified', 503),
+            context
+          };
+        }
+        return { context };
+      }
+      if (session === null) {
+        if (config.requireAuth) {
+          return {
+            response: this.createErrorResponse('Session revoked', 401),
+            context
+          };
+        }
+        return { context };
+      }
+      context.session = session;
+
       // Validate session if required
       if (config.checkSession && sessionData.sessionId) {
         const validSession = await SessionManager.validateSession(sessionData.sessionId);
@@ -358,11 +419,11 @@ export class AuthMiddleware {
 
       // Permission-based authorization
       if (config.requiredPermissions && config.requiredPermissions.length > 0) {
-        const userPermissions = await rbacService.getPermissionsByRole(context.user.role);
+        const userPermissions = await rbacService.getEffectivePermissions(context.user.userId, context.user.role);
         context.permissions = userPermissions.map(p => p.name);
         
         const hasPermissions = config.requiredPermissions.every(permission =>
-          userPermissions.some(p => p.name === permission)
+          rbacService.permitsName(userPermissions, permission)
         );
         
         if (!hasPermissions) {
@@ -405,11 +466,11 @@ export class AuthMiddleware {
   /**
    * Middleware for API routes
    */
-  static withAuth(
-    handler: (request: AuthenticatedRequest) => Promise<NextResponse>,
+  static withAuth<TContext = any>(
+    handler: (request: AuthenticatedRequest, routeContext: TContext) => Promise<NextResponse>,
     config: AuthMiddlewareConfig = {}
   ) {
-    return async (request: NextRequest): Promise<NextResponse> => {
+    return async (request: NextRequest, routeContext: TContext): Promise<NextResponse> => {
       const { response, context } = await this.authenticate(request, config);
       
       if (response) {
@@ -417,7 +478,7 @@ export class AuthMiddleware {
       }
 
       const authRequest = this.createAuthenticatedRequest(request, context);
-      return handler(authRequest);
+      return handler(authRequest, routeContext);
     };
   }
 
@@ -427,8 +488,8 @@ export class AuthMiddleware {
   static requireRole(roles: UserRole | UserRole[]) {
     const allowedRoles = Array.isArray(roles) ? roles : [roles];
     
-    return (
-      handler: (request: AuthenticatedRequest) => Promise<NextResponse>
+    return <TContext = any>(
+      handler: (request: AuthenticatedRequest, routeContext: TContext) => Promise<NextResponse>
     ) => {
       return this.withAuth(handler, {
         requireAuth: true,
@@ -438,13 +499,14 @@ export class AuthMiddleware {
   }
 
   /**
-   * Permission-based middleware
+   * Permission-based middleware. Permissions are named "resource:action" and
+   * are checked against the caller's role and direct grants.
    */
   static requirePermission(permissions: string | string[]) {
     const requiredPermissions = Array.isArray(permissions) ? permissions : [permissions];
     
-    return (
-      handler: (request: AuthenticatedRequest) => Promise<NextResponse>
+    return <TContext = any>(
+      handler: (request: AuthenticatedRequest, routeContext: TContext) => Promise<NextResponse>
     ) => {
       return this.withAuth(handler, {
         requireAuth: true,
@@ -481,10 +543,10 @@ export class AuthMiddleware {
     remaining: number;
     resetTime: number;
   }> {
-    const ip = this.getClientIP(request);
+    const ip = getClientIP(request);
     const identifier = `${key}:${ip}`;
     
-    return securityService.checkApiRequest(identifier);
+    return await securityService.checkApiRequest(identifier);
   }
 
   private static async validateCSRF(request: NextRequest): Promise<boolean> {
@@ -503,21 +565,6 @@ export class AuthMiddleware {
     return ['POST', 'PUT', 'PATCH', 'DELETE'].includes(method);
   }
 
-  private static getClientIP(request: NextRequest): string {
-    const forwarded = request.headers.get('x-forwarded-for');
-    const realIP = request.headers.get('x-real-ip');
-    
-    if (forwarded) {
-      return forwarded.split(',')[0].trim();
-    }
-    
-    if (realIP) {
-      return realIP;
-    }
-    
-    return 'unknown';
-  }
-
   private static createErrorResponse(
     message: string,
     status: number,
@@ -556,6 +603,56 @@ export function getAuthUser(request: AuthenticatedRequest): SessionData | null {
   return request.auth?.user || null;
 }
 
+/**
+ * Address of the client, taking the first hop of x-forwarded-for when behind a proxy
+ */
+export function getClientIP(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  const realIP = request.headers.get('x-real-ip');
+
+  if (forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+
+  if (realIP) {
+    return realIP;
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Client address and user agent, in the shape the audit and security services record
+ */
+export function getClientInfo(request: NextRequest): { ip_address: string; user_agent?: string } {
+  return {
+    ip_address: getClientIP(request),
+    user_agent: request.headers.get('user-agent') || undefined
+  };
+}
+
+/**
+ * Session of the authenticated request, if the token was issued with one
+ */
+export function getAuthSession(request: AuthenticatedRequest): LoginSession | null {
+  return request.auth?.session || null;
+}
+
+/**
+ * Expire the cookies set at login, for responses that end the caller's own session
+ */
+export function clearAuthCookies(response: NextResponse): void {
+  ['auth-token', 'refresh-token', 'session-token'].forEach(name => {
+    response.cookies.set(name, '', {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: 0,
+      path: '/'
+    });
+  });
+}
+
 /**
  * Check if user has specific role
  */
@@ -592,6 +689,6 @@ export function hasAllPermissions(request: AuthenticatedRequest, permissions: st
 // Convenience Exports
 // ============================================================================
 
-export const withAuth = AuthMiddleware.withAuth;
-export const requireRole = AuthMiddleware.requireRole;
-export const requirePermission = AuthMiddleware.requirePermission;
\ No newline at end of file
+export const withAuth = AuthMiddleware.withAuth.bind(AuthMiddleware);
+export const requireRole = AuthMiddleware.requireRole.bind(AuthMiddleware);
+export const requirePermission = AuthMiddleware.requirePermission.bind(AuthMiddleware);
\ No newline at end of file
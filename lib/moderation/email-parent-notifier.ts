@@ -0,0 +1,51 @@
+/**
+ * Email Parent Notifier
+ *
+ * The default parent notifier: emails every linked parent whose link allows
+ * notifications. The child's words are not included; the parent is told
+ * what kind of message it was and that staff will follow up.
+ */
+
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { emailService } from '@/lib/services/email-service';
+import { emailConfig } from '@/lib/config/auth-config';
+import { ModerationCategory, ModerationIncident, ParentNotifier } from '@/types/moderation';
+
+const CATEGORY_DESCRIPTIONS: Partial<Record<ModerationCategory, string>> = {
+  self_harm: 'suggested they may be upset or thinking about hurting themselves',
+  pii: 'shared personal details such as an address or phone number',
+  sexual: 'contained sexual content',
+  violence: 'mentioned violence',
+  hate: 'contained hateful language',
+  harassment: 'contained bullying or threatening language'
+};
+
+export class EmailParentNotifier implements ParentNotifier {
+  async notify(incident: ModerationIncident, student: { id: string; name: string }): Promise<boolean> {
+    const adapter = await getDbAdapter();
+    const parents = await adapter.getChildParents(student.id);
+    const description = incident.categories
+      .map(category => CATEGORY_DESCRIPTIONS[category])
+      .find(Boolean) || 'was stopped by our safety filter';
+
+    let sent = false;
+    for (const parent of parents) {
+      const link = await adapter.getParentChildLink(parent.id, student.id);
+      if (!link?.is_active || !link.permissions?.receive_notifications) continue;
+
+      sent = await emailService.send({
+        to: parent.email,
+        subject: emailConfig.templates.safetyAlert.subject,
+        text: [
+          `Hi ${parent.first_name || parent.username || 'there'},`,
+          '',
+          `While using the AI tutor on ${new Date(incident.created_at).toUTCString()}, ${student.name} wrote a message that ${description}.`,
+          'The message was not passed on to the tutor, which answered with a safe reply instead. A member of staff will review it.',
+          '',
+          `You can see your child's tutor chats from your dashboard: ${emailService.buildUrl(`/tutor-transcripts/${student.id}`)}`
+        ].join('\n')
+      }) || sent;
+    }
+    return sent;
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * OpenAI Moderation Provider
+ *
+ * Optional second opinion after the local rules, for harm they cannot
+ * recognise by phrase (sexual content, threats, hate). OpenAI's categories
+ * are folded into the filter's own: "self-harm/intent" counts as self_harm,
+ * "violence/graphic" as violence and so on.
+ */
+
+import OpenAI from 'openai';
+import { moderationConfig } from '@/lib/config/moderation-config';
+import { ModerationCategory } from '@/types/moderation';
+
+const CATEGORY_MAP: Record<string, ModerationCategory> = {
+  'self-harm': 'self_harm',
+  sexual: 'sexual',
+  violence: 'violence',
+  hate: 'hate',
+  harassment: 'harassment',
+  illicit: 'illicit'
+};
+
+export class OpenAIModerationProvider {
+  private client: OpenAI | null = null;
+
+  isConfigured(): boolean {
+    return moderationConfig.provider === 'openai' && Boolean(moderationConfig.openai.apiKey);
+  }
+
+  /**
+   * The categories OpenAI flagged the text in. Throws when the request fails.
+   */
+  async classify(text: string): Promise<ModerationCategory[]> {
+    const response = await this.getClient().moderations.create({
+      model: moderationConfig.openai.model,
+      input: text
+    });
+
+    const result = response.results[0];
+    if (!result?.flagged) return [];
+
+    const categories = new Set<ModerationCategory>();
+    for (const [name, flagged] of Object.entries(result.categories)) {
+      const category = CATEGORY_MAP[name.split('/')[0]];
+      if (flagged && category) categories.add(category);
+    }
+    return Array.from(categories);
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: moderationConfig.openai.apiKey,
+        timeout: moderationConfig.openai.timeout,
+        maxRetries: 1
+      });
+    }
+    return this.client;
+  }
+}
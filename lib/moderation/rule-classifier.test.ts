@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { classifyWithRules } from '@/lib/moderation/rule-classifier'
+
+describe('classifyWithRules', () => {
+  it('passes ordinary quiz sentences', () => {
+    expect(classifyWithRules('She goes to school every day.')).toEqual([])
+    expect(classifyWithRules('I have lived here since 2015.')).toEqual([])
+    expect(classifyWithRules('The match was on 2024-10-19, and the war lasted from 1990-2000.')).toEqual([])
+    expect(classifyWithRules('We drove through Scunthorpe to see my grandma.')).toEqual([])
+  })
+
+  it('flags email addresses, phone numbers and card numbers', () => {
+    for (const text of [
+      'email me at tom.smith@example.com',
+      'my number is +44 (0)20 7946 0958',
+      'call 07700 900123 after school',
+      'ring (555) 123-4567',
+      'it is 555.123.4567',
+      'text 5551234567',
+      'the card is 4111 1111 1111 1111'
+    ]) {
+      expect(classifyWithRules(text)).toEqual(['pii'])
+    }
+  })
+
+  it('flags postcodes, home addresses and passwords', () => {
+    expect(classifyWithRules('I live at 42 Acacia Avenue')).toEqual(['pii'])
+    expect(classifyWithRules('my postcode is SW1A 1AA')).toEqual(['pii'])
+    expect(classifyWithRules('my password is bananas')).toEqual(['pii'])
+  })
+
+  it('flags profanity through look-alike characters and repeated letters', () => {
+    expect(classifyWithRules('this is sh1t')).toEqual(['profanity'])
+    expect(classifyWithRules('you $hit, you b!tch')).toEqual(['profanity'])
+    expect(classifyWithRules('fuuuuck this quiz')).toEqual(['profanity'])
+  })
+
+  it('flags talk of self-harm, including curly apostrophes', () => {
+    expect(classifyWithRules('I want to die')).toEqual(['self_harm'])
+    expect(classifyWithRules('I don’t want to be alive')).toEqual(['self_harm'])
+  })
+
+  it('reports every category that matches', () => {
+    expect(classifyWithRules('I want to kill myself, call me on 07700 900123 you b1tch')).toEqual(['self_harm', 'pii', 'profanity'])
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * Rule-Based Classifier
+ *
+ * Local, deterministic checks for what must never pass between a child and
+ * the tutor: personal details, swearing and talk of self-harm. It runs on
+ * every message without a network call, so it is deliberately narrow and
+ * phrase-based; a grammar quiz is full of ordinary sentences that broad
+ * keyword lists would block.
+ */
+
+import { ModerationCategory } from '@/types/moderation';
+
+const PII_PATTERNS: RegExp[] = [
+  // Email addresses
+  /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i,
+  // Phone numbers: international or with a leading 0 ("+44 (0)20 7946 0958", "07700 900123"),
+  // North American ("(555) 123-4567", "555.123.4567") or ten or more digits in a row.
+  // Dates and ranges such as "2024-10-19" or "1990-2000" have none of these shapes
+  /(?:\+|\b0)\d(?:[\s().-]{0,2}\d){7,}/,
+  /(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/,
+  /\b\d{10,}\b/,
+  // Card numbers: four groups of four digits, split the same way throughout or not at all
+  /\b\d{4}([\s-]?)\d{4}\1\d{4}\1\d{4}\b/,
+  // UK postcodes ("SW1A 1AA")
+  /\b[a-z]{1,2}\d[a-z\d]?\s*\d[a-z]{2}\b/i,
+  // Saying where they live or what their password is
+  /\b(?:i live (?:at|on) (?:number )?\d+|my (?:home |house |street )?address\b|my house is (?:at|on) \d+|my (?:pass ?word|pin) (?:is|was)\b)/i
+];
+
+// Matched as the start of a word, so "fucking" or "bitches" are caught too.
+// Words that are also innocent ("ass", "cock") are left to the provider
+const PROFANITY = [
+  'fuck', 'fuk', 'fck', 'shit', 'bitch', 'bastard', 'asshole', 'arsehole', 'dickhead',
+  'cunt', 'piss', 'wank', 'twat', 'bollock', 'slut', 'whore', 'motherfuck'
+];
+
+const PROFANITY_PATTERN = new RegExp(`\\b(?:${PROFANITY.join('|')})`, 'i');
+
+// Common ways of disguising letters: "sh1t", "b!tch", "$hit"
+const LOOKALIKES: Record<string, string> = { '@': 'a', '4': 'a', '3': 'e', '1': 'i', '!': 'i', '0': 'o', '$': 's', '5': 's', '7': 't' };
+
+const SELF_HARM_PATTERN = /\b(?:kill(?:ing)? my ?self|suicid\w*|end(?:ing)? (?:my (?:own )?life|it all)|want(?:ed)? to die|wanna die|cut(?:ting)? my ?self|harm(?:ing)? my ?self|self[- ]?harm\w*|(?:do not|don'?t|dont) want to (?:be alive|live|exist|be here anymore)|wish i (?:was|were) dead|better off dead|no reason to live)\b/i;
+
+/**
+ * The categories the text falls into, empty when the rules find nothing.
+ */
+export function classifyWithRules(text: string): ModerationCategory[] {
+  const categories: ModerationCategory[] = [];
+  const normalized = text.replace(/[’‘]/g, "'").replace(/\s+/g, ' ');
+
+  if (SELF_HARM_PATTERN.test(normalized)) {
+    categories.push('self_harm');
+  }
+  if (PII_PATTERNS.some(pattern => pattern.test(normalized))) {
+    categories.push('pii');
+  }
+
+  // Undo look-alike characters, then also try with repeated letters squeezed ("fuuuck")
+  const unmasked = normalized.toLowerCase().replace(/[@4310!$57]/g, char => LOOKALIKES[char]);
+  const squeezed = unmasked.replace(/([a-z])\1+/g, '$1');
+  if (PROFANITY_PATTERN.test(normalized) || PROFANITY_PATTERN.test(unmasked) || PROFANITY_PATTERN.test(squeezed)) {
+    categories.push('profanity');
+  }
+
+  return categories;
+}
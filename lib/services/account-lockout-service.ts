@@ -0,0 +1,256 @@
+/**
+ * Account Lockout Service
+ *
+ * Persists failed login attempts and account lockouts through the database
+ * adapter, so every server instance sees the same counters. An account is
+ * locked after lockoutConfig.maxFailedAttempts consecutive failures; each
+ * further round of failures doubles the lockout when progressiveLockout is
+ * on. Locked users are emailed a single-use unlock link, and admins can
+ * unlock accounts from the dashboard.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { lockoutConfig, emailConfig } from '@/lib/config/auth-config';
+import { auditLogService } from '@/lib/services/audit-log-service';
+import { emailService } from '@/lib/services/email-service';
+import {
+  AccountLockout,
+  AccountLockoutError,
+  FailedLoginAttempt,
+  UserProfile
+} from '@/types/auth';
+
+export interface LockoutContext {
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export interface LockedAccountView extends Omit<AccountLockout, 'unlock_token'> {
+  userName: string;
+  email: string | null;
+}
+
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+export class AccountLockoutService {
+  private config = {
+    maxFailedAttempts: lockoutConfig.maxFailedAttempts,
+    lockoutDuration: lockoutConfig.lockoutDuration,
+    progressiveLockout: lockoutConfig.progressiveLockout,
+    ipBasedLockout: lockoutConfig.ipBasedLockout,
+    maxFailedAttemptsPerIP: lockoutConfig.maxFailedAttemptsPerIP,
+    attemptWindow: lockoutConfig.attemptWindow,
+    unlockTokenExpiryHours: lockoutConfig.unlockTokenExpiryHours
+  };
+
+  /**
+   * Never throws, so a storage failure cannot break the login flow.
+   */
+  async recordFailedAttempt(
+    identifier: string,
+    ipAddress: string,
+    reason: FailedLoginAttempt['failure_reason'],
+    userAgent?: string
+  ): Promise<void> {
+    try {
+      const adapter = await getDbAdapter();
+      await adapter.recordFailedLoginAttempt({
+        identifier,
+        ip_address: ipAddress || 'unknown',
+        user_agent: userAgent,
+        attempt_time: new Date().toISOString(),
+        failure_reason: reason
+      });
+    } catch (error) {
+      console.error('Error recording failed attempt:', error);
+    }
+  }
+
+  /**
+   * Too many failures from one address across all accounts, which catches
+   * password spraying that per-account lockout misses.
+   */
+  async isIPBlocked(ipAddress: string): Promise<boolean> {
+    if (!this.config.ipBasedLockout || !ipAddress || ipAddress === 'unknown') return false;
+
+    try {
+      const adapter = await getDbAdapter();
+      const since = new Date(Date.now() - this.config.attemptWindow).toISOString();
+      const failures = await adapter.countFailedLoginAttempts({ ipAddress }, since);
+      return failures >= this.config.maxFailedAttemptsPerIP;
+    } catch (error) {
+      console.error('Error checking IP blocking:', error);
+      return false;
+    }
+  }
+
+  async getActiveLockout(userId: string): Promise<AccountLockout | null> {
+    const adapter = await getDbAdapter();
+    const lockouts = await adapter.getActiveAccountLockouts(userId);
+    return lockouts[0] || null;
+  }
+
+  /**
+   * Count a wrong password or second factor against the account, locking it
+   * once the threshold is reached. Returns the new lockout, if any.
+   */
+  async registerFailedLogin(
+    user: UserProfile,
+    identifier: string,
+    context?: LockoutContext
+  ): Promise<AccountLockout | null> {
+    const adapter = await getDbAdapter();
+    const attempts = (user.login_attempts || 0) + 1;
+    await adapter.updateUser(user.id, { login_attempts: attempts });
+    await this.recordFailedAttempt(identifier, context?.ip_address || '', 'invalid_credentials', context?.user_agent);
+
+    if (attempts % this.config.maxFailedAttempts !== 0) return null;
+
+    // Every further round of failures after an expired lockout locks again for longer
+    const round = attempts / this.config.maxFailedAttempts;
+    const duration = this.config.progressiveLockout
+      ? Math.min(this.config.lockoutDuration * Math.pow(2, round - 1), MAX_LOCKOUT_MS)
+      : this.config.lockoutDuration;
+
+    return this.lockAccount(user, 'failed_attempts', { duration, context });
+  }
+
+  async clearFailedLogins(userId: string): Promise<void> {
+    const adapter = await getDbAdapter();
+    await adapter.updateUser(userId, { login_attempts: 0 });
+  }
+
+  async lockAccount(
+    user: UserProfile,
+    reason: AccountLockout['reason'],
+    options: { duration?: number; lockedBy?: string; context?: LockoutContext } = {}
+  ): Promise<AccountLockout> {
+    const adapter = await getDbAdapter();
+    const now = new Date();
+    const duration = options.duration ?? this.config.lockoutDuration;
+    const unlockToken = randomBytes(32).toString('hex');
+
+    const lockout = await adapter.createAccountLockout({
+      user_id: user.id,
+      locked_at: now.toISOString(),
+      locked_until: new Date(now.getTime() + duration).toISOString(),
+      reason,
+      locked_by: options.lockedBy,
+      unlock_token: this.hashToken(unlockToken),
+      is_active: true,
+      created_at: now.toISOString(),
+      updated_at: now.toISOString()
+    });
+
+    if (user.email) {
+      await this.sendUnlockEmail(user, unlockToken, lockout);
+    }
+
+    await auditLogService.record({
+      user_id: user.id,
+      event_type: 'account_locked',
+      event_category: 'security_event',
+      description: `Account locked due to: ${reason}`,
+      ip_address: options.context?.ip_address,
+      user_agent: options.context?.user_agent,
+      risk_level: 'high',
+      success: true,
+      metadata: JSON.stringify({ locked_until: lockout.locked_until })
+    });
+
+    return lockout;
+  }
+
+  async unlockByAdmin(userId: string, adminId: string): Promise<void> {
+    const adapter = await getDbAdapter();
+    const released = await adapter.releaseAccountLockouts(userId, adminId);
+    if (released === 0) {
+      throw new AccountLockoutError('This account is not locked', 'LOCKOUT_NOT_FOUND', 404);
+    }
+
+    await this.clearFailedLogins(userId);
+    await auditLogService.record({
+      user_id: userId,
+      event_type: 'account_unlocked',
+      event_category: 'admin_action',
+      description: 'Account unlocked by an administrator',
+      risk_level: 'medium',
+      success: true,
+      metadata: JSON.stringify({ unlocked_by: adminId })
+    });
+  }
+
+  /**
+   * Redeem the emailed unlock link. Tokens are single-use and expire after
+   * lockoutConfig.unlockTokenExpiryHours.
+   */
+  async unlockWithToken(token: string, context?: LockoutContext): Promise<void> {
+    const adapter = await getDbAdapter();
+    const lockout = token ? await adapter.getAccountLockoutByUnlockToken(this.hashToken(token)) : null;
+    const expiresAt = lockout
+      ? new Date(lockout.created_at).getTime() + this.config.unlockTokenExpiryHours * 60 * 60 * 1000
+      : 0;
+
+    if (!lockout || !lockout.is_active || Date.now() > expiresAt) {
+      throw new AccountLockoutError('This unlock link is invalid or has expired', 'INVALID_UNLOCK_TOKEN');
+    }
+
+    await adapter.releaseAccountLockouts(lockout.user_id);
+    await this.clearFailedLogins(lockout.user_id);
+    await auditLogService.record({
+      user_id: lockout.user_id,
+      event_type: 'account_unlocked',
+      event_category: 'security_event',
+      description: 'Account unlocked with an emailed unlock link',
+      ip_address: context?.ip_address,
+      user_agent: context?.user_agent,
+      risk_level: 'medium',
+      success: true
+    });
+  }
+
+  async getLockedAccounts(): Promise<LockedAccountView[]> {
+    const adapter = await getDbAdapter();
+    const lockouts = await adapter.getActiveAccountLockouts();
+
+    return Promise.all(lockouts.map(async ({ unlock_token: _token, ...lockout }) => {
+      const user = await adapter.getUserById(lockout.user_id);
+      return {
+        ...lockout,
+        userName: user ? user.full_name || user.username || user.email : 'Deleted user',
+        email: user?.email || null
+      };
+    }));
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private async sendUnlockEmail(user: UserProfile, token: string, lockout: AccountLockout): Promise<void> {
+    const name = user.first_name || user.username || 'there';
+    const link = emailService.buildUrl('/unlock-account', { token });
+    const until = lockout.locked_until ? new Date(lockout.locked_until).toUTCString() : 'an administrator unlocks it';
+
+    await emailService.send({
+      to: user.email,
+      subject: emailConfig.templates.accountUnlock.subject,
+      text: [
+        `Hi ${name},`,
+        '',
+        `Your account was locked after several failed sign-in attempts. It stays locked until ${until}.`,
+        `If this was you, you can unlock it now: ${link}`,
+        '',
+        "If it wasn't you, unlock your account and change your password."
+      ].join('\n')
+    });
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
+
+// Create a singleton instance
+export const accountLockoutService = new AccountLockoutService();
@@ -0,0 +1,274 @@
+/**
+ * Admin Analytics Service
+ *
+ * Aggregates student progress and the admin activity feed from quiz_results,
+ * quiz_answers, user_question_history and login_sessions.
+ */
+
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { LoginSession, UserProfile } from '@/types/auth';
+
+export interface StudentProgressSummary {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  progress: number; // Share of the question bank mastered, 0-100
+  masteredQuestions: number;
+  questionsSeen: number;
+  totalQuizzes: number;
+  averageScore: number;
+  questionsAnswered: number;
+  accuracy: number; // Correct answers over answered questions, 0-100
+  lastActivity: string | null;
+  status: 'active' | 'inactive';
+}
+
+export type ActivityType = 'quiz_completed' | 'user_login' | 'user_registered';
+
+export interface ActivityItem {
+  id: string;
+  type: ActivityType;
+  userId: string;
+  user: string;
+  description: string;
+  timestamp: string;
+  score?: number;
+}
+
+export interface ActivityFeedPage {
+  activities: ActivityItem[];
+  pagination: {
+    page: number;
+    limit: number;
+    hasMore: boolean;
+  };
+}
+
+export interface AdminAnalyticsConfig {
+  masteryThreshold: number;
+  activeWindowDays: number;
+  maxFeedLimit: number;
+}
+
+export class AdminAnalyticsService {
+  private config: AdminAnalyticsConfig = {
+    masteryThreshold: 0.8, // Same threshold the smart question scheduler uses
+    activeWindowDays: 7,
+    maxFeedLimit: 50
+  };
+
+  /**
+   * Progress for every non-admin user. `progress` is the percentage of the
+   * question bank whose mastery_level has reached the mastery threshold.
+   */
+  async getStudentProgress(): Promise<StudentProgressSummary[]> {
+    const adapter = await getDbAdapter();
+
+    const { users } = await adapter.getUsersWithPagination(0, 1000);
+    return this.getProgressForUsers(users.filter(user => user.role !== 'admin'));
+  }
+
+  /**
+   * Same summary for a given set of users, e.g. a parent's linked children.
+   */
+  async getProgressForUsers(users: UserProfile[]): Promise<StudentProgressSummary[]> {
+    if (users.length === 0) return [];
+
+    const adapter = await getDbAdapter();
+    const userIds = users.map(user => user.id);
+
+    const [questionCount, results, history, sessions] = await Promise.all([
+      adapter.getQuestionCount(),
+      adapter.getQuizResultsByUserIds(userIds),
+      adapter.getQuestionHistoryByUserIds(userIds),
+      adapter.getLoginSessionsByUserIds(userIds)
+    ]);
+    const answers = await adapter.getQuizAnswersByResultIds(results.map(r => r.id));
+
+    const resultsByUser = this.groupBy(results, r => r.user_id);
+    const historyByUser = this.groupBy(history, h => h.user_id);
+    const sessionsByUser = this.groupBy(sessions, s => s.user_id);
+    const answersByResult = this.groupBy(answers, a => a.quiz_result_id);
+    const activeSince = new Date(Date.now() - this.config.activeWindowDays * 24 * 60 * 60 * 1000).toISOString();
+
+    return users.map((user): StudentProgressSummary => {
+      const userResults = resultsByUser.get(user.id) || [];
+      const userHistory = historyByUser.get(user.id) || [];
+      const userSessions = sessionsByUser.get(user.id) || [];
+      const userAnswers = userResults
+        .flatMap(r => answersByResult.get(r.id) || [])
+        .filter(a => a.selected_answer);
+
+      const mastered = userHistory.filter(h => Number(h.mastery_level) >= this.config.masteryThreshold).length;
+      const correct = userAnswers.filter(a => a.is_correct).length;
+      const totalScore = userResults.reduce((sum, r) => sum + (Number(r.score) || 0), 0);
+
+      const lastActivity = this.latest([
+        ...userResults.map(r => r.completed_at),
+        ...userHistory.map(h => h.last_seen),
+        ...userSessions.map(s => this.getSessionActivity(s))
+      ]);
+
+      return {
+        id: user.id,
+        name: user.full_name || user.username || user.email,
+        email: user.email,
+        role: user.role,
+        progress: questionCount > 0 ? Math.min(100, Math.round((mastered / questionCount) * 100)) : 0,
+        masteredQuestions: mastered,
+        questionsSeen: userHistory.length,
+        totalQuizzes: userResults.length,
+        averageScore: userResults.length > 0 ? Math.round(totalScore / userResults.length) : 0,
+        questionsAnswered: userAnswers.length,
+        accuracy: userAnswers.length > 0 ? Math.round((correct / userAnswers.length) * 100) : 0,
+        lastActivity,
+        status: lastActivity && lastActivity >= activeSince ? 'active' : 'inactive'
+      };
+    });
+  }
+
+  /**
+   * Quiz completions, sign-ins and registrations, newest first. Each source
+   * is read up to the end of the requested page and the merged list sliced.
+   */
+  async getActivityFeed(page: number = 1, limit: number = 10): Promise<ActivityFeedPage> {
+    const adapter = await getDbAdapter();
+
+    const safePage = Math.max(1, Math.floor(page) || 1);
+    const safeLimit = Math.min(Math.max(1, Math.floor(limit) || 10), this.config.maxFeedLimit);
+    const offset = (safePage - 1) * safeLimit;
+    // One extra item tells whether another page exists
+    const windowSize = offset + safeLimit + 1;
+
+    const [results, sessions, { users }] = await Promise.all([
+      adapter.getRecentQuizResults(windowSize),
+      adapter.getRecentLoginSessions(windowSize),
+      adapter.getUsersWithPagination(0, windowSize)
+    ]);
+
+    // Rows without a usable timestamp (e.g. an unfinished quiz) cannot be placed in the feed
+    const merged = [
+      ...results.map(result => this.fromQuizResult(result)),
+      ...sessions.map(session => this.fromLoginSession(session)),
+      ...users.map(user => this.fromRegistration(user))
+    ]
+      .filter((activity): activity is ActivityItem => activity !== null)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    const activities = merged.slice(offset, offset + safeLimit);
+    await this.resolveUserNames(activities);
+
+    return {
+      activities,
+      pagination: {
+        page: safePage,
+        limit: safeLimit,
+        hasMore: merged.length > offset + safeLimit
+      }
+    };
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private fromQuizResult(result: any): ActivityItem | null {
+    const timestamp = this.toIso(result.completed_at);
+    if (!timestamp) return null;
+
+    const score = Math.round(Number(result.score) || 0);
+    return {
+      id: `quiz_completed_${result.id}`,
+      type: 'quiz_completed',
+      userId: result.user_id,
+      user: result.users_enhanced?.full_name || result.users_enhanced?.username || '',
+      description: `Completed a quiz with ${result.correct_answers ?? 0}/${result.total_questions ?? 0} correct`,
+      timestamp,
+      score
+    };
+  }
+
+  private fromLoginSession(session: LoginSession): ActivityItem | null {
+    const timestamp = this.toIso(session.created_at);
+    if (!timestamp) return null;
+
+    return {
+      id: `user_login_${session.id}`,
+      type: 'user_login',
+      userId: session.user_id,
+      user: '',
+      description: `Signed in with ${session.login_method || 'password'}`,
+      timestamp
+    };
+  }
+
+  private fromRegistration(user: UserProfile): ActivityItem | null {
+    const timestamp = this.toIso(user.created_at);
+    if (!timestamp) return null;
+
+    return {
+      id: `user_registered_${user.id}`,
+      type: 'user_registered',
+      userId: user.id,
+      user: user.full_name || user.username || user.email,
+      description: `Registered as ${user.role}`,
+      timestamp
+    };
+  }
+
+  /**
+   * Fill in display names the source rows did not carry, one lookup per user.
+   */
+  private async resolveUserNames(activities: ActivityItem[]): Promise<void> {
+    const adapter = await getDbAdapter();
+    const missing = Array.from(new Set(activities.filter(a => !a.user).map(a => a.userId)));
+
+    const names = new Map<string, string>();
+    await Promise.all(missing.map(async userId => {
+      const user = await adapter.getUserById(userId);
+      names.set(userId, user ? user.full_name || user.username || user.email : 'Deleted user');
+    }));
+
+    for (const activity of activities) {
+      if (!activity.user) activity.user = names.get(activity.userId) || 'Unknown user';
+    }
+  }
+
+  private getSessionActivity(session: LoginSession & { last_activity?: string }): string {
+    return session.last_activity || session.created_at;
+  }
+
+  // Supabase returns +00:00 offsets; normalise so timestamps sort as strings.
+  // Null for missing or unparseable values
+  private toIso(timestamp: string | null | undefined): string | null {
+    if (!timestamp) return null;
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  private latest(timestamps: (string | null | undefined)[]): string | null {
+    let latest: string | null = null;
+    for (const timestamp of timestamps) {
+      const iso = this.toIso(timestamp);
+      if (iso && (!latest || iso > latest)) latest = iso;
+    }
+    return latest;
+  }
+
+  private groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+      const group = groups.get(key(item));
+      if (group) {
+        group.push(item);
+      } else {
+        groups.set(key(item), [item]);
+      }
+    }
+    return groups;
+  }
+}
+
+// Create a singleton instance
+export const adminAnalyticsService = new AdminAnalyticsService();
@@ -0,0 +1,148 @@
+/**
+ * Audit Log Service
+ *
+ * Stores SecurityAuditLog entries through the database adapter and serves
+ * them to the admin audit log viewer. Recording never throws, so a logging
+ * failure cannot break the login or request that triggered it. Entries older
+ * than auditConfig.retentionDays are purged as new ones are written.
+ */
+
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { auditConfig } from '@/lib/config/auth-config';
+import { SecurityAuditLog, SecurityAuditLogFilter } from '@/types/auth';
+
+export type SecurityAuditEvent = Omit<SecurityAuditLog, 'id' | 'created_at'> & { created_at?: string };
+
+export interface AuditLogEntry extends SecurityAuditLog {
+  userName: string | null;
+}
+
+export interface AuditLogPage {
+  logs: AuditLogEntry[];
+  total: number;
+  hasMore: boolean;
+  page: number;
+  limit: number;
+}
+
+export class AuditLogService {
+  private config = {
+    enabled: auditConfig.enabled,
+    retentionDays: auditConfig.retentionDays,
+    sensitiveFields: auditConfig.sensitiveFields,
+    purgeIntervalMs: 60 * 60 * 1000, // 1 hour
+    maxPageSize: 100
+  };
+  private lastPurgeAt = 0;
+
+  async record(event: SecurityAuditEvent): Promise<void> {
+    if (!this.config.enabled) return;
+
+    try {
+      const adapter = await getDbAdapter();
+      await adapter.createSecurityAuditLog({
+        ...event,
+        user_id: event.user_id || undefined,
+        old_values: this.redact(event.old_values),
+        new_values: this.redact(event.new_values),
+        metadata: this.redact(event.metadata),
+        created_at: event.created_at || new Date().toISOString()
+      });
+
+      await this.purgeIfDue();
+    } catch (error) {
+      console.error('Error recording security event:', error, event.event_type);
+    }
+  }
+
+  async getLogs(filter: SecurityAuditLogFilter, page: number = 1, limit: number = 50): Promise<AuditLogPage> {
+    const adapter = await getDbAdapter();
+    const pageSize = Math.min(Math.max(limit, 1), this.config.maxPageSize);
+    const currentPage = Math.max(page, 1);
+
+    const { logs, total, hasMore } = await adapter.getSecurityAuditLogs(
+      filter,
+      (currentPage - 1) * pageSize,
+      pageSize
+    );
+
+    return {
+      logs: await this.withUserNames(logs),
+      total,
+      hasMore,
+      page: currentPage,
+      limit: pageSize
+    };
+  }
+
+  /**
+   * Accepts a user id, username or email, as typed into the viewer's filter.
+   */
+  async resolveUserId(identifier: string): Promise<string | null> {
+    const adapter = await getDbAdapter();
+    const value = identifier.trim();
+
+    const user = await adapter.getUserByUsername(value)
+      || await adapter.getUserByEmail(value.toLowerCase())
+      || await adapter.getUserById(value).catch(() => null);
+
+    return user ? user.id : null;
+  }
+
+  async purgeExpired(): Promise<number> {
+    const adapter = await getDbAdapter();
+    const cutoff = new Date(Date.now() - this.config.retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+    this.lastPurgeAt = Date.now();
+    return adapter.deleteSecurityAuditLogsBefore(cutoff);
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private async purgeIfDue(): Promise<void> {
+    if (Date.now() - this.lastPurgeAt < this.config.purgeIntervalMs) return;
+
+    const removed = await this.purgeExpired();
+    if (removed > 0) {
+      console.log(`Purged ${removed} security audit log entries older than ${this.config.retentionDays} days`);
+    }
+  }
+
+  /**
+   * Masks sensitive keys in a JSON string field; other strings pass through.
+   */
+  private redact(value?: string): string | undefined {
+    if (!value) return value;
+
+    try {
+      return JSON.stringify(JSON.parse(value), (key, fieldValue) =>
+        key && this.config.sensitiveFields.some(field => key.toLowerCase().includes(field))
+          ? '[REDACTED]'
+          : fieldValue
+      );
+    } catch {
+      return value;
+    }
+  }
+
+  private async withUserNames(logs: SecurityAuditLog[]): Promise<AuditLogEntry[]> {
+    const adapter = await getDbAdapter();
+    const userIds = Array.from(new Set(logs.map(log => log.user_id).filter((id): id is string => Boolean(id))));
+
+    const names = new Map<string, string>();
+    await Promise.all(userIds.map(async id => {
+      const user = await adapter.getUserById(id);
+      if (user) names.set(id, user.full_name || user.username || user.email);
+    }));
+
+    return logs.map(log => ({
+      ...log,
+      userName: log.user_id ? names.get(log.user_id) || null : null
+    }));
+  }
+}
+
+// Create a singleton instance
+export const auditLogService = new AuditLogService();
@@ -1,19 +1,32 @@
 /**
  * AuthIntegration Service
- * 
- * Unified authentication service that integrates all authentication components
- * including EnhancedAuthService, RBACService, and SecurityMiddleware.
+ *
+ * The one authentication service: registration, and login with IP blocking,
+ * account lockout, email verification, two-factor and password-age checks,
+ * by password or by an enrolled face.
+ * Sessions and tokens come from SessionManager and JWTManager, the same ones
+ * withAuth checks on every API route, so there is a single token format and
+ * a single session store (login_sessions).
  */
 
 import { DatabaseManager } from '@/lib/database/database-manager';
-import { EnhancedAuthService } from './enhanced-auth-service';
+import { JWTManager, SessionManager } from '@/lib/middleware/auth-middleware';
 import { RBACService, Permission, AccessResult } from './rbac-service';
 import { SecurityMiddleware } from './security-middleware';
-import { 
-  UserProfile, 
-  UserRole,
-  SecurityAuditLog 
+import { twoFactorService } from './two-factor-service';
+import { accountLockoutService } from './account-lockout-service';
+import { emailVerificationService } from './email-verification-service';
+import { passwordPolicyService } from './password-policy-service';
+import { faceRecognitionService } from './face-recognition-service';
+import { auditLogService, SecurityAuditEvent } from './audit-log-service';
+import {
+  AccountStatus,
+  LoginMethod,
+  LoginSession,
+  UserProfile,
+  UserRole
 } from '@/types/auth';
+import { FaceMatchResult, FaceRecognitionError } from '@/types/face';
 
 export interface AuthIntegrationConfig {
   auth: {
@@ -79,6 +92,15 @@ export interface LoginCredentials {
   username?: string;
   email?: string;
   password: string;
+  two_factor_code?: string;
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export interface FaceLoginCredentials {
+  username: string;
+  challenge_token: string;
+  frames: unknown; // FaceFrame[] from the browser, checked by faceRecognitionService
   ip_address?: string;
   user_agent?: string;
 }
@@ -88,30 +110,30 @@ export interface LoginResponse {
   user?: UserProfile;
   token?: string;
   refreshToken?: string;
-  session?: any;
+  sessionToken?: string;
   message?: string;
   error?: string;
+  requires_2fa?: boolean;
+  requires_2fa_setup?: boolean;
+  challenge_token?: string;
+  requires_password_change?: boolean;
+  password_change_token?: string;
+  requires_verification?: boolean;
 }
 
-export interface LoginSession {
-  id: string;
-  user_id: string;
-  token: string;
-  expires_at: string;
-  created_at: string;
+interface RequestContext {
   ip_address?: string;
   user_agent?: string;
 }
 
 /**
  * AuthIntegration - Unified Authentication Service
- * 
- * This service integrates all authentication components to provide
- * a single interface for authentication operations.
+ *
+ * Obtained through getAuthInstance(); API routes authenticate requests with
+ * withAuth and use this service to sign users in and out.
  */
 export class AuthIntegration {
   private dbManager: DatabaseManager;
-  private authService: EnhancedAuthService;
   private rbacService: RBACService;
   private securityMiddleware: SecurityMiddleware;
   private config: AuthIntegrationConfig;
@@ -120,23 +142,6 @@ export class AuthIntegration {
   constructor(config: AuthIntegrationConfig) {
     this.config = config;
     this.dbManager = DatabaseManager.getInstance();
-    this.authService = new EnhancedAuthService(this.dbManager, {
-      jwtSecret: this.config.auth.jwtSecret,
-      jwtExpiresIn: this.config.auth.jwtExpiresIn,
-      refreshTokenExpiresIn: this.config.auth.refreshTokenExpiresIn,
-      passwordSaltRounds: this.config.auth.passwordSaltRounds,
-      security: {
-        max_login_attempts: this.config.security.lockout.maxFailedAttempts,
-        lockout_duration_minutes: this.config.security.lockout.lockoutDuration,
-        password_reset_token_expiry_hours: 24,
-        email_verification_token_expiry_hours: 24,
-        session_timeout_minutes: this.config.security.session.maxAge / (1000 * 60),
-        require_2fa_for_admin: false,
-        require_email_verification: this.config.security.requireEmailVerification,
-        audit_log_retention_days: 90,
-        suspicious_activity_threshold: 5
-      }
-    });
     this.rbacService = new RBACService(this.dbManager);
     this.securityMiddleware = new SecurityMiddleware(this.dbManager, this.config.security);
   }
@@ -147,13 +152,10 @@ export class AuthIntegration {
 
   async initialize(): Promise<void> {
     try {
-      // Initialize database manager first
+      // Initialize database manager first; the auth tables come from the migrations
       await this.dbManager.initializeIfNeeded();
-      
-      // Initialize database tables
-      await this.authService.initializeTables();
       await this.rbacService.initializeTables();
-      
+
       this.isInitialized = true;
       console.log('✅ AuthIntegration initialized successfully');
     } catch (error) {
@@ -167,6 +169,11 @@ export class AuthIntegration {
   // ============================================================================
 
   async register(userData: RegisterData): Promise<LoginResponse> {
+    const context: RequestContext = {
+      ip_address: userData.profile_data?.ip_address,
+      user_agent: userData.profile_data?.user_agent
+    };
+
     try {
       if (!this.isInitialized) {
         await this.initialize();
@@ -181,60 +188,99 @@ export class AuthIntegration {
         };
       }
 
-      // Register user with enhanced auth service
-      const { password, ...userDataWithoutPassword } = userData;
-      const result = await this.authService.register(userDataWithoutPassword, password, {
-        ip_address: userData.profile_data?.ip_address,
-        user_agent: userData.profile_data?.user_agent
-      });
+      const adapter = this.dbManager.getAdapter();
+
+      // Check if user already exists
+      const existingUser = await adapter.getUserByEmail(userData.email);
+      if (existingUser) {
+        await this.logSecurityEvent({
+          event_type: 'account_creation',
+          event_category: 'authentication',
+          description: `Registration attempt with existing email: ${userData.email}`,
+          ip_address: context.ip_address,
+          user_agent: context.user_agent,
+          risk_level: 'medium',
+          success: false
+        });
 
-      if (!result.success) {
         return {
           success: false,
-          error: result.error,
-          message: result.message
+          error: 'User with this email already exists',
+          message: 'Registration failed'
         };
       }
 
-      const user = result.user;
-      
-      // Log successful registration
-      if (this.config.features.enableAuditLogging && user) {
-        await this.logSecurityEvent({
-          id: this.generateId(),
-          user_id: user.id,
-          event_type: 'account_creation',
-          event_category: 'authentication',
-          description: 'User registered successfully',
-          ip_address: userData.profile_data?.ip_address,
-          user_agent: userData.profile_data?.user_agent,
-          risk_level: 'low',
-          success: true,
-          created_at: new Date().toISOString()
-        });
+      // Parent and teacher accounts wait for email verification when it is enforced
+      const requiresVerification = emailVerificationService.isRequiredFor(userData.role || this.config.rbac.defaultRole);
+      const { password, ...profile } = userData;
+
+      // Create user with enhanced security defaults
+      const user = await adapter.createUser({
+        ...profile,
+        account_status: (requiresVerification ? 'pending_verification' : 'active') as AccountStatus,
+        email_verified: !requiresVerification,
+        login_attempts: 0,
+        preferences: {
+          language: 'en',
+          timezone: 'UTC',
+          notifications: {
+            email_notifications: true,
+            push_notifications: true,
+            quiz_reminders: true,
+            progress_updates: true,
+            system_announcements: true
+          },
+          accessibility: {
+            high_contrast: false,
+            large_text: false,
+            screen_reader: false,
+            keyboard_navigation: false
+          },
+          privacy: {
+            profile_visibility: 'private',
+            show_progress: true,
+            allow_messages: true
+          }
+        }
+      } as Partial<UserProfile>);
+
+      // The adapter hashes the password and starts the password history
+      await adapter.updatePassword(user.id, password);
+
+      if (requiresVerification) {
+        await emailVerificationService.sendVerification(user, context);
       }
 
+      await this.logSecurityEvent({
+        user_id: user.id,
+        event_type: 'account_creation',
+        event_category: 'authentication',
+        description: `New user account created: ${user.email}`,
+        ip_address: context.ip_address,
+        user_agent: context.user_agent,
+        risk_level: 'low',
+        success: true
+      });
+
       return {
         success: true,
         user,
-        message: 'Registration successful'
+        message: 'Registration successful',
+        requires_verification: requiresVerification
       };
     } catch (error) {
       console.error('Registration error:', error);
-      
+
       // Log failed registration
       if (this.config.features.enableAuditLogging) {
         await this.logSecurityEvent({
-          id: this.generateId(),
-          user_id: '',
           event_type: 'account_creation',
           event_category: 'authentication',
           description: `Registration failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          ip_address: userData.profile_data?.ip_address,
-          user_agent: userData.profile_data?.user_agent,
+          ip_address: context.ip_address,
+          user_agent: context.user_agent,
           risk_level: 'medium',
-          success: false,
-          created_at: new Date().toISOString()
+          success: false
         });
       }
 
@@ -250,114 +296,230 @@ export class AuthIntegration {
   // ============================================================================
 
   async login(credentials: LoginCredentials): Promise<LoginResponse> {
-    console.log('🚀 AuthIntegration.login called with:', { 
-      email: credentials.email, 
-      username: credentials.username,
-      hasPassword: !!credentials.password,
+    const identifier = credentials.email || credentials.username || '';
+    const context: RequestContext = {
       ip_address: credentials.ip_address,
       user_agent: credentials.user_agent
-    });
-    
+    };
+    const ipAddress = context.ip_address || '';
+
     try {
       if (!this.isInitialized) {
-        console.log('🔧 AuthIntegration not initialized, initializing...');
         await this.initialize();
-        console.log('✅ AuthIntegration initialized');
       }
 
-      // Attempt login - the EnhancedAuthService handles account lockout internally
-      const authCredentials = {
-        email: credentials.email,
-        username: credentials.username,
-        password: credentials.password
-      };
-      
-      const context = {
-        ip_address: credentials.ip_address,
-        user_agent: credentials.user_agent
-      };
-      
-      console.log('🔍 Calling authService.login with:', { authCredentials, context });
-      console.log('🔍 authService instance:', !!this.authService);
-      console.log('🔍 authService type:', this.authService?.constructor?.name);
-      console.log('🔍 authCredentials:', { ...authCredentials, password: '[REDACTED]' });
-      console.log('🔍 context:', context);
-      let result;
-      try {
-        result = await this.authService.login(authCredentials, context);
-        console.log('🔍 authService.login result:', result);
-      } catch (loginError) {
-        console.error('❌ Exception in authService.login:', loginError);
-        throw loginError;
+      const adapter = this.dbManager.getAdapter();
+
+      const checked = await this.checkLoginAccount(credentials, identifier, context);
+      if ('response' in checked) {
+        return checked.response;
       }
+      const user = checked.user;
 
-      if (result.success && result.user) {
-        // The EnhancedAuthService already handles clearing failed attempts on successful login
-        
-        // Log successful login
-        if (this.config.features.enableAuditLogging) {
-          await this.logSecurityEvent({
-            id: this.generateId(),
-            user_id: result.user.id,
-            event_type: 'login_success',
-            event_category: 'authentication',
-            description: 'User logged in successfully',
-            ip_address: credentials.ip_address,
-            user_agent: credentials.user_agent,
-            risk_level: 'low',
-            success: true,
-            created_at: new Date().toISOString()
-          });
-        }
-      } else {
-        // Record failed login attempt
-        const identifier = credentials.username || credentials.email;
-        if (identifier) {
-          await this.authService.recordFailedAttempt(identifier, credentials.ip_address || '', 'invalid_credentials', credentials.user_agent);
-        }
-        
-        // Log failed login
-        if (this.config.features.enableAuditLogging) {
-          await this.logSecurityEvent({
-            id: this.generateId(),
-            user_id: '',
-            event_type: 'login_failure',
-            event_category: 'authentication',
-            description: `Login attempt failed: ${identifier ? 'Invalid credentials' : 'No identifier provided'}`,
-            ip_address: credentials.ip_address,
-            user_agent: credentials.user_agent,
-            risk_level: 'medium',
-            success: false,
-            created_at: new Date().toISOString()
-          });
-        }
+      if (!(await adapter.verifyPassword(user.id, credentials.password))) {
+        await this.handleFailedLogin(user, identifier, context);
+
+        return {
+          success: false,
+          error: 'Invalid credentials',
+          message: 'Login failed'
+        };
+      }
+
+      if (emailVerificationService.isLoginBlocked(user)) {
+        await this.logSecurityEvent({
+          user_id: user.id,
+          event_type: 'login_failure',
+          event_category: 'authentication',
+          description: `Login attempt before email verification: ${identifier}`,
+          ip_address: context.ip_address,
+          user_agent: context.user_agent,
+          risk_level: 'low',
+          success: false
+        });
+
+        return {
+          success: false,
+          error: 'Email address not verified',
+          message: 'Verify your email address with the link we sent you, then sign in.',
+          requires_verification: true
+        };
+      }
+
+      // Second factor for accounts that have it, or whose role requires it
+      const twoFactorResult = await twoFactorService.checkLogin(user, credentials.two_factor_code);
+      if (twoFactorResult === 'invalid_code') {
+        await this.handleFailedLogin(user, identifier, context);
+
+        return {
+          success: false,
+          error: 'Invalid two-factor code',
+          message: 'Login failed'
+        };
+      }
+
+      if (twoFactorResult === 'code_required') {
+        return {
+          success: false,
+          message: 'Two-factor authentication required',
+          requires_2fa: true
+        };
+      }
+
+      if (twoFactorResult === 'setup_required') {
+        return {
+          success: false,
+          message: 'Two-factor authentication must be set up before signing in',
+          requires_2fa_setup: true,
+          challenge_token: twoFactorService.createChallengeToken(user.id)
+        };
       }
-      
-      return result;
+
+      // Reset failed attempts on successful login
+      await accountLockoutService.clearFailedLogins(user.id);
+
+      // An expired password has to be changed before there is a session
+      if (passwordPolicyService.isExpired(user)) {
+        return {
+          success: false,
+          message: 'Your password has expired. Choose a new one to sign in.',
+          requires_password_change: true,
+          password_change_token: passwordPolicyService.createChangeToken(user.id)
+        };
+      }
+
+      return await this.startSession(user, context, 'password');
     } catch (error) {
+      console.error('Login error:', error);
+
       // Record failed login attempt
-      const identifier = credentials.username || credentials.email;
       if (identifier) {
-        await this.authService.recordFailedAttempt(identifier, credentials.ip_address || '', 'invalid_credentials', credentials.user_agent);
+        await accountLockoutService.recordFailedAttempt(identifier, ipAddress, 'invalid_credentials', context.user_agent);
       }
-      
+
       // Log failed login
       if (this.config.features.enableAuditLogging) {
         await this.logSecurityEvent({
-          id: this.generateId(),
-          user_id: '',
           event_type: 'login_failure',
           event_category: 'authentication',
           description: `Login attempt failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          ip_address: credentials.ip_address,
-          user_agent: credentials.user_agent,
+          ip_address: context.ip_address,
+          user_agent: context.user_agent,
+          risk_level: 'high',
+          success: false
+        });
+      }
+
+      return {
+        success: false,
+        error: 'Login failed',
+        message: 'An error occurred during login'
+      };
+    }
+  }
+
+  /**
+   * Sign in with an enrolled face instead of a password. Only roles allowed
+   * face login qualify, and never an account with two-factor authentication,
+   * which has to sign in with its password and code. A face that does not
+   * match counts towards the lockout like a wrong password.
+   */
+  async loginWithFace(credentials: FaceLoginCredentials): Promise<LoginResponse> {
+    const identifier = credentials.username;
+    const context: RequestContext = {
+      ip_address: credentials.ip_address,
+      user_agent: credentials.user_agent
+    };
+    const notRecognized: LoginResponse = {
+      success: false,
+      error: 'Face not recognized',
+      message: 'Login failed'
+    };
+
+    try {
+      if (!this.isInitialized) {
+        await this.initialize();
+      }
+
+      const checked = await this.checkLoginAccount({ username: credentials.username }, identifier, context);
+      if ('response' in checked) {
+        return checked.response;
+      }
+      const user = checked.user;
+
+      // Reported like an unknown face so the response does not reveal the account's role or 2FA
+      const twoFactorResult = await twoFactorService.checkLogin(user);
+      if (!faceRecognitionService.isEligible(user.role) || twoFactorResult !== 'passed') {
+        await this.logSecurityEvent({
+          user_id: user.id,
+          event_type: 'login_failure',
+          event_category: 'authentication',
+          description: `Face login attempt on an account that must use its password: ${identifier}`,
+          ip_address: context.ip_address,
+          user_agent: context.user_agent,
           risk_level: 'medium',
-          success: false,
-          created_at: new Date().toISOString()
+          success: false
         });
+        return notRecognized;
       }
-      
-      throw error;
+
+      let match: FaceMatchResult;
+      try {
+        match = await faceRecognitionService.verify(user.id, credentials.username, credentials.challenge_token, credentials.frames);
+      } catch (error) {
+        if (!(error instanceof FaceRecognitionError)) throw error;
+
+        await this.logSecurityEvent({
+          user_id: user.id,
+          event_type: 'login_failure',
+          event_category: 'authentication',
+          description: `Face login capture rejected (${error.code}): ${identifier}`,
+          ip_address: context.ip_address,
+          user_agent: context.user_agent,
+          risk_level: 'medium',
+          success: false
+        });
+        return error.code === 'NOT_ENROLLED'
+          ? notRecognized
+          : { success: false, error: 'Face capture rejected', message: error.message };
+      }
+
+      if (!match.matched) {
+        await this.handleFailedLogin(user, identifier, context);
+        return notRecognized;
+      }
+
+      if (emailVerificationService.isLoginBlocked(user)) {
+        return {
+          success: false,
+          error: 'Email address not verified',
+          message: 'Verify your email address with the link we sent you, then sign in.',
+          requires_verification: true
+        };
+      }
+
+      await accountLockoutService.clearFailedLogins(user.id);
+
+      // No password is used, so an expired one does not stop a face login
+      return await this.startSession(user, context, 'face_recognition');
+    } catch (error) {
+      console.error('Face login error:', error);
+
+      await this.logSecurityEvent({
+        event_type: 'login_failure',
+        event_category: 'authentication',
+        description: `Face login attempt failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ip_address: context.ip_address,
+        user_agent: context.user_agent,
+        risk_level: 'high',
+        success: false
+      });
+
+      return {
+        success: false,
+        error: 'Login failed',
+        message: 'An error occurred during login'
+      };
     }
   }
 
@@ -365,18 +527,65 @@ export class AuthIntegration {
   // Session Management
   // ============================================================================
 
+  /**
+   * Check an access token the way withAuth does: a valid signature, a live
+   * session behind it, and an account that may still sign in.
+   */
   async validateSession(token: string): Promise<{ valid: boolean; user?: UserProfile; session?: LoginSession }> {
     try {
-      return await this.authService.validateSession(token);
+      const sessionData = JWTManager.verifyAccessToken(token);
+      if (!sessionData) {
+        return { valid: false };
+      }
+
+      const session = await SessionManager.findActiveSession(sessionData);
+      if (!session) {
+        return { valid: false };
+      }
+
+      const adapter = this.dbManager.getAdapter();
+      const user = await adapter.getUserById(session.user_id);
+      if (!user || !emailVerificationService.canSignIn(user)) {
+        return { valid: false };
+      }
+
+      return { valid: true, user, session };
     } catch (error) {
       console.error('Session validation error:', error);
       return { valid: false };
     }
   }
 
-  async logout(token: string): Promise<boolean> {
+  /**
+   * End the session behind an access token.
+   */
+  async logout(token: string, context?: RequestContext): Promise<boolean> {
     try {
-      return await this.authService.logout(token);
+      const sessionData = JWTManager.verifyAccessToken(token);
+      if (!sessionData?.sessionId) {
+        return false;
+      }
+
+      const adapter = this.dbManager.getAdapter();
+      const session = await adapter.getSessionRecord(sessionData.sessionId);
+      if (!session || !session.is_active) {
+        return false;
+      }
+
+      await SessionManager.invalidateSession(session.token);
+      await this.logSecurityEvent({
+        user_id: session.user_id,
+        event_type: 'logout',
+        event_category: 'authentication',
+        description: 'User logged out',
+        ip_address: context?.ip_address,
+        user_agent: context?.user_agent,
+        session_id: session.id,
+        risk_level: 'low',
+        success: true
+      });
+
+      return true;
     } catch (error) {
       console.error('Logout error:', error);
       return false;
@@ -446,7 +655,9 @@ export class AuthIntegration {
 
   async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<boolean> {
     try {
-      return await this.authService.changePassword(userId, currentPassword, newPassword);
+      // Checks the current password, strength and history, then logs the change
+      await passwordPolicyService.changePassword(userId, currentPassword, newPassword);
+      return true;
     } catch (error) {
       console.error('Change password error:', error);
       return false;
@@ -457,27 +668,168 @@ export class AuthIntegration {
   // Utility Methods
   // ============================================================================
 
-  private async logSecurityEvent(event: SecurityAuditLog): Promise<void> {
-    try {
-      // In a real implementation, this would save to the database
-      console.log('Security Event:', event);
-    } catch (error) {
-      console.error('Failed to log security event:', error);
+  /**
+   * The checks every sign-in makes before looking at the credential: the IP
+   * is not blocked, and the account exists, may sign in and is not locked.
+   */
+  private async checkLoginAccount(
+    lookup: { username?: string; email?: string },
+    identifier: string,
+    context: RequestContext
+  ): Promise<{ user: UserProfile } | { response: LoginResponse }> {
+    const adapter = this.dbManager.getAdapter();
+    const ipAddress = context.ip_address || '';
+
+    // Check for IP-based rate limiting
+    if (await accountLockoutService.isIPBlocked(ipAddress)) {
+      await accountLockoutService.recordFailedAttempt(identifier, ipAddress, 'too_many_attempts', context.user_agent);
+
+      return {
+        response: {
+          success: false,
+          error: 'Too many failed attempts from this IP address',
+          message: 'Please try again later'
+        }
+      };
+    }
+
+    // Find user
+    let user: UserProfile | null = null;
+    if (lookup.email) {
+      user = await adapter.getUserByEmail(lookup.email);
+    } else if (lookup.username) {
+      user = await adapter.getUserByUsername(lookup.username);
     }
+
+    if (!user) {
+      await accountLockoutService.recordFailedAttempt(identifier, ipAddress, 'invalid_credentials', context.user_agent);
+      await this.logSecurityEvent({
+        event_type: 'login_failure',
+        event_category: 'authentication',
+        description: `Login attempt for unknown account: ${identifier}`,
+        ip_address: context.ip_address,
+        user_agent: context.user_agent,
+        risk_level: 'medium',
+        success: false
+      });
+
+      return {
+        response: {
+          success: false,
+          error: 'Invalid credentials',
+          message: 'Login failed'
+        }
+      };
+    }
+
+    // Check account status; accounts awaiting email verification are handled once the credential checks out
+    if (user.account_status !== 'active' && user.account_status !== 'pending_verification') {
+      await accountLockoutService.recordFailedAttempt(identifier, ipAddress, 'account_suspended', context.user_agent);
+      await this.logSecurityEvent({
+        user_id: user.id,
+        event_type: 'login_failure',
+        event_category: 'authentication',
+        description: `Login attempt on ${user.account_status} account: ${identifier}`,
+        ip_address: context.ip_address,
+        user_agent: context.user_agent,
+        risk_level: 'high',
+        success: false
+      });
+
+      return {
+        response: {
+          success: false,
+          error: `Account is ${user.account_status}`,
+          message: 'Account access restricted'
+        }
+      };
+    }
+
+    // Locked accounts are refused before the credential is checked
+    if (await accountLockoutService.getActiveLockout(user.id)) {
+      await accountLockoutService.recordFailedAttempt(identifier, ipAddress, 'account_locked', context.user_agent);
+
+      return {
+        response: {
+          success: false,
+          error: 'Account is temporarily locked',
+          message: 'Please try again later, use the unlock link sent to your email, or contact support'
+        }
+      };
+    }
+
+    return { user };
+  }
+
+  private async startSession(user: UserProfile, context: RequestContext, loginMethod: LoginMethod): Promise<LoginResponse> {
+    const adapter = this.dbManager.getAdapter();
+
+    await adapter.updateUser(user.id, {
+      last_login: new Date().toISOString(),
+      login_attempts: 0
+    });
+
+    const { accessToken, refreshToken, sessionToken } = await SessionManager.createSession(
+      {
+        userId: user.id,
+        username: user.username,
+        role: user.role,
+        email: user.email
+      },
+      context.ip_address,
+      context.user_agent,
+      loginMethod
+    );
+    const session = await adapter.getSessionRecord(sessionToken);
+
+    await this.logSecurityEvent({
+      user_id: user.id,
+      event_type: 'login_success',
+      event_category: 'authentication',
+      description: loginMethod === 'face_recognition'
+        ? `User logged in with face recognition: ${user.email}`
+        : `User logged in successfully: ${user.email}`,
+      ip_address: context.ip_address,
+      user_agent: context.user_agent,
+      session_id: session?.id,
+      risk_level: 'low',
+      success: true
+    });
+
+    return {
+      success: true,
+      user,
+      token: accessToken,
+      refreshToken,
+      sessionToken,
+      message: 'Login successful'
+    };
   }
 
-  private generateId(): string {
-    return Math.random().toString(36).substring(2) + Date.now().toString(36);
+  private async handleFailedLogin(user: UserProfile, identifier: string, context: RequestContext): Promise<void> {
+    // Counts the failure and locks the account once the threshold is reached
+    await accountLockoutService.registerFailedLogin(user, identifier, context);
+
+    await this.logSecurityEvent({
+      user_id: user.id,
+      event_type: 'login_failure',
+      event_category: 'authentication',
+      description: `Failed login attempt for user: ${identifier}`,
+      ip_address: context.ip_address,
+      user_agent: context.user_agent,
+      risk_level: 'medium',
+      success: false
+    });
+  }
+
+  private async logSecurityEvent(event: SecurityAuditEvent): Promise<void> {
+    await auditLogService.record(event);
   }
 
   // ============================================================================
   // Getters
   // ============================================================================
 
-  getAuthService(): EnhancedAuthService {
-    return this.authService;
-  }
-
   getRBACService(): RBACService {
     return this.rbacService;
   }
@@ -493,4 +845,4 @@ export class AuthIntegration {
   isReady(): boolean {
     return this.isInitialized;
   }
-}
\ No newline at end of file
+}
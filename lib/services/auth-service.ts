@@ -1,807 +0,0 @@
-/**
- * Authentication Service Layer
- * 
- * Provides a clean, modular interface for authentication operations.
- * This service abstracts the database layer and provides business logic
- * for authentication, making it easy to switch between SQLite and Supabase.
- */
-
-import jwt from 'jsonwebtoken';
-import bcrypt from 'bcrypt';
-import { randomBytes } from 'crypto';
-import { DatabaseManager } from '@/lib/database/database-manager';
-import {
-  UserProfile,
-  LoginCredentials,
-  LoginSession,
-  AuthResult,
-  PasswordResetRequest,
-  PasswordChangeRequest,
-  UserRegistration,
-  SessionValidationResult,
-  LoginMethod
-} from '@/types/auth';
-
-export interface AuthServiceConfig {
-  jwtSecret: string;
-  jwtExpiresIn: string;
-  refreshTokenExpiresIn: string;
-  passwordSaltRounds: number;
-  maxLoginAttempts: number;
-  lockoutDuration: number; // in minutes
-  passwordResetExpiry: number; // in minutes
-}
-
-export class AuthService {
-  private dbManager: DatabaseManager;
-  private config: AuthServiceConfig;
-
-  constructor(dbManager: DatabaseManager, config: AuthServiceConfig) {
-    this.dbManager = dbManager;
-    this.config = config;
-  }
-
-  // ============================================================================
-  // User Registration
-  // ============================================================================
-
-  async registerUser(registration: UserRegistration): Promise<AuthResult> {
-    try {
-      const adapter = await this.dbManager.getAdapter();
-
-      // Check if user already exists
-      const existingUser = await adapter.getUserByEmail(registration.email);
-      if (existingUser) {
-        return {
-          success: false,
-          error: {
-            code: 'USER_EXISTS',
-            message: 'User with this email already exists'
-          }
-        };
-      }
-
-      // Check username uniqueness if provided
-      if (registration.username) {
-        const existingUsername = await adapter.getUserByUsername(registration.username);
-        if (existingUsername) {
-          return {
-            success: false,
-            error: {
-              code: 'USERNAME_EXISTS',
-              message: 'Username is already taken'
-            }
-          };
-        }
-      }
-
-      // Validate password strength
-      const passwordValidation = this.validatePasswordStrength(registration.password);
-      if (!passwordValidation.isValid) {
-        return {
-          success: false,
-          error: {
-            code: 'WEAK_PASSWORD',
-            message: passwordValidation.message
-          }
-        };
-      }
-
-      // Hash password
-      const hashedPassword = await bcrypt.hash(registration.password, this.config.passwordSaltRounds);
-
-      // Create user
-      const userData: Partial<UserProfile> = {
-        email: registration.email,
-        username: registration.username,
-        role: registration.role,
-        account_status: 'active',
-        email_verified: false,
-        first_name: registration.firstName,
-        last_name: registration.lastName,
-        full_name: registration.firstName && registration.lastName 
-          ? `${registration.firstName} ${registration.lastName}` 
-          : undefined,
-        phone: registration.phone,
-        grade_level: registration.gradeLevel,
-        subject_specialization: registration.subjectSpecialization,
-        preferences: registration.preferences as any
-      };
-
-      const user = await adapter.createUser(userData);
-
-      // Update password separately for security
-      await adapter.updatePassword(user.id, hashedPassword);
-
-      // Create initial session
-      const sessionResult = await this.createUserSession(user, {
-        ip_address: registration.ipAddress,
-        user_agent: registration.userAgent,
-        login_method: 'password'
-      });
-
-      return {
-        success: true,
-        user,
-        session: sessionResult.session,
-        token: sessionResult.token,
-        refreshToken: sessionResult.refreshToken
-      };
-
-    } catch (error) {
-      console.error('Registration error:', error);
-      return {
-        success: false,
-        error: {
-          code: 'REGISTRATION_FAILED',
-          message: 'Failed to register user'
-        }
-      };
-    }
-  }
-
-  // ============================================================================
-  // User Authentication
-  // ============================================================================
-
-  async authenticateUser(credentials: LoginCredentials): Promise<AuthResult> {
-    try {
-      const adapter = await this.dbManager.getAdapter();
-
-      // Find user by email or username
-      let user: UserProfile | null = null;
-      
-      if (credentials.email) {
-        user = await adapter.getUserByEmail(credentials.email);
-      } else if (credentials.username) {
-        user = await adapter.getUserByUsername(credentials.username);
-      }
-
-      if (!user) {
-        return {
-          success: false,
-          error: {
-            code: 'USER_NOT_FOUND',
-            message: 'Invalid credentials'
-          }
-        };
-      }
-
-      // Check account status
-      if (user.account_status !== 'active') {
-        return {
-          success: false,
-          error: {
-            code: 'ACCOUNT_INACTIVE',
-            message: `Account is ${user.account_status}`
-          }
-        };
-      }
-
-      // Check for account lockout
-      if (this.isAccountLocked(user)) {
-        return {
-          success: false,
-          error: {
-            code: 'ACCOUNT_LOCKED',
-            message: 'Account is temporarily locked due to too many failed login attempts'
-          }
-        };
-      }
-
-      // Verify password
-      const isPasswordValid = await adapter.verifyPassword(user.id, credentials.password);
-      
-      if (!isPasswordValid) {
-        // Increment login attempts
-        await this.incrementLoginAttempts(user.id);
-        
-        return {
-          success: false,
-          error: {
-            code: 'INVALID_CREDENTIALS',
-            message: 'Invalid credentials'
-          }
-        };
-      }
-
-      // Reset login attempts on successful login
-      await this.resetLoginAttempts(user.id);
-
-      // Update last login
-      await adapter.updateUser(user.id, {
-        last_login: new Date().toISOString()
-      });
-
-      // Create session
-      const sessionResult = await this.createUserSession(user, {
-        ip_address: credentials.ipAddress,
-        user_agent: credentials.userAgent,
-        login_method: 'password'
-      });
-
-      return {
-        success: true,
-        user,
-        session: sessionResult.session,
-        token: sessionResult.token,
-        refreshToken: sessionResult.refreshToken
-      };
-
-    } catch (error) {
-      console.error('Authentication error:', error);
-      return {
-        success: false,
-        error: {
-          code: 'AUTHENTICATION_FAILED',
-          message: 'Authentication failed'
-        }
-      };
-    }
-  }
-
-  // ============================================================================
-  // Session Management
-  // ============================================================================
-
-  async createUserSession(
-    user: UserProfile, 
-    sessionInfo: {
-      ip_address?: string;
-      user_agent?: string;
-      login_method: LoginMethod;
-    }
-  ): Promise<{
-    session: LoginSession;
-    token: string;
-    refreshToken: string;
-  }> {
-    const adapter = await this.dbManager.getAdapter();
-
-    // Generate tokens
-    const token = this.generateAccessToken(user);
-    const refreshToken = this.generateRefreshToken(user);
-
-    // Calculate expiry times
-    const accessTokenExpiry = new Date();
-    accessTokenExpiry.setTime(accessTokenExpiry.getTime() + this.parseExpiryTime(this.config.jwtExpiresIn));
-
-    const refreshTokenExpiry = new Date();
-    refreshTokenExpiry.setTime(refreshTokenExpiry.getTime() + this.parseExpiryTime(this.config.refreshTokenExpiresIn));
-
-    // Create session record
-    const sessionData: Omit<LoginSession, 'id'> = {
-      user_id: user.id,
-      token,
-      refresh_token: refreshToken,
-      expires_at: accessTokenExpiry.toISOString(),
-      created_at: new Date().toISOString(),
-      ip_address: sessionInfo.ip_address,
-      user_agent: sessionInfo.user_agent,
-      is_active: true,
-      login_method: sessionInfo.login_method
-    };
-
-    const session = await adapter.createSession(sessionData);
-
-    return {
-      session,
-      token,
-      refreshToken
-    };
-  }
-
-  async validateSession(token: string): Promise<SessionValidationResult> {
-    try {
-      const adapter = await this.dbManager.getAdapter();
-
-      // Get session from database
-      const session = await adapter.getSession(token);
-      if (!session || !session.is_active) {
-        return {
-          isValid: false,
-          error: {
-            code: 'INVALID_SESSION',
-            message: 'Session not found or inactive'
-          }
-        };
-      }
-
-      // Check if session is expired
-      if (new Date(session.expires_at) <= new Date()) {
-        await adapter.invalidateSession(token);
-        return {
-          isValid: false,
-          error: {
-            code: 'SESSION_EXPIRED',
-            message: 'Session has expired'
-          }
-        };
-      }
-
-      // Verify JWT token
-      try {
-        jwt.verify(token, this.config.jwtSecret);
-        
-        // Get user data
-        const user = await adapter.getUserById(session.user_id);
-        if (!user) {
-          return {
-            isValid: false,
-            error: {
-              code: 'USER_NOT_FOUND',
-              message: 'User not found'
-            }
-          };
-        }
-
-        return {
-          isValid: true,
-          user,
-          session
-        };
-
-      } catch (jwtError) {
-        await adapter.invalidateSession(token);
-        return {
-          isValid: false,
-          error: {
-            code: 'INVALID_TOKEN',
-            message: 'Invalid JWT token'
-          }
-        };
-      }
-
-    } catch (error) {
-      console.error('Session validation error:', error);
-      return {
-        isValid: false,
-        error: {
-          code: 'VALIDATION_FAILED',
-          message: 'Session validation failed'
-        }
-      };
-    }
-  }
-
-  async refreshSession(refreshToken: string): Promise<AuthResult> {
-    try {
-      const adapter = await this.dbManager.getAdapter();
-
-      // Verify refresh token
-      let decoded: any;
-      try {
-        decoded = jwt.verify(refreshToken, this.config.jwtSecret);
-      } catch (error) {
-        return {
-          success: false,
-          error: {
-            code: 'INVALID_REFRESH_TOKEN',
-            message: 'Invalid refresh token'
-          }
-        };
-      }
-
-      // Get user
-      const user = await adapter.getUserById(decoded.userId);
-      if (!user) {
-        return {
-          success: false,
-          error: {
-            code: 'USER_NOT_FOUND',
-            message: 'User not found'
-          }
-        };
-      }
-
-      // Check account status
-      if (user.account_status !== 'active') {
-        return {
-          success: false,
-          error: {
-            code: 'ACCOUNT_INACTIVE',
-            message: `Account is ${user.account_status}`
-          }
-        };
-      }
-
-      // Invalidate old session
-      const oldSession = await adapter.getSession(decoded.sessionId);
-      if (oldSession) {
-        await adapter.invalidateSession(oldSession.token);
-      }
-
-      // Create new session
-      const sessionResult = await this.createUserSession(user, {
-        ip_address: oldSession?.ip_address,
-        user_agent: oldSession?.user_agent,
-        login_method: oldSession?.login_method || 'password'
-      });
-
-      return {
-        success: true,
-        user,
-        session: sessionResult.session,
-        token: sessionResult.token,
-        refreshToken: sessionResult.refreshToken
-      };
-
-    } catch (error) {
-      console.error('Session refresh error:', error);
-      return {
-        success: false,
-        error: {
-          code: 'REFRESH_FAILED',
-          message: 'Failed to refresh session'
-        }
-      };
-    }
-  }
-
-  async logoutUser(token: string): Promise<boolean> {
-    try {
-      const adapter = await this.dbManager.getAdapter();
-      return await adapter.invalidateSession(token);
-    } catch (error) {
-      console.error('Logout error:', error);
-      return false;
-    }
-  }
-
-  async logoutAllSessions(userId: string): Promise<boolean> {
-    try {
-      const adapter = await this.dbManager.getAdapter();
-      
-      // This would require a custom method in the adapter
-      // For now, we'll implement it as a workaround
-      const user = await adapter.getUserById(userId);
-      if (!user) return false;
-
-      // In a real implementation, you'd have a method to invalidate all user sessions
-      // For now, we'll just return true as a placeholder
-      return true;
-    } catch (error) {
-      console.error('Logout all sessions error:', error);
-      return false;
-    }
-  }
-
-  // ============================================================================
-  // Password Management
-  // ============================================================================
-
-  async changePassword(request: PasswordChangeRequest): Promise<AuthResult> {
-    try {
-      const adapter = await this.dbManager.getAdapter();
-
-      // Get user
-      const user = await adapter.getUserById(request.userId);
-      if (!user) {
-        return {
-          success: false,
-          error: {
-            code: 'USER_NOT_FOUND',
-            message: 'User not found'
-          }
-        };
-      }
-
-      // Verify current password
-      const isCurrentPasswordValid = await adapter.verifyPassword(user.id, request.currentPassword);
-      if (!isCurrentPasswordValid) {
-        return {
-          success: false,
-          error: {
-            code: 'INVALID_CURRENT_PASSWORD',
-            message: 'Current password is incorrect'
-          }
-        };
-      }
-
-      // Validate new password strength
-      const passwordValidation = this.validatePasswordStrength(request.newPassword);
-      if (!passwordValidation.isValid) {
-        return {
-          success: false,
-          error: {
-            code: 'WEAK_PASSWORD',
-            message: passwordValidation.message
-          }
-        };
-      }
-
-      // Update password
-      const success = await adapter.updatePassword(user.id, request.newPassword);
-      if (!success) {
-        return {
-          success: false,
-          error: {
-            code: 'PASSWORD_UPDATE_FAILED',
-            message: 'Failed to update password'
-          }
-        };
-      }
-
-      return {
-        success: true,
-        user
-      };
-
-    } catch (error) {
-      console.error('Password change error:', error);
-      return {
-        success: false,
-        error: {
-          code: 'PASSWORD_CHANGE_FAILED',
-          message: 'Failed to change password'
-        }
-      };
-    }
-  }
-
-  async requestPasswordReset(request: PasswordResetRequest): Promise<{
-    success: boolean;
-    resetToken?: string;
-    error?: { code: string; message: string };
-  }> {
-    try {
-      const adapter = await this.dbManager.getAdapter();
-
-      // Find user by email
-      const user = await adapter.getUserByEmail(request.email);
-      if (!user) {
-        // Don't reveal if email exists or not for security
-        return {
-          success: true // Always return success to prevent email enumeration
-        };
-      }
-
-      // Generate reset token
-      const resetToken = this.generateResetToken();
-      const resetExpiry = new Date();
-      resetExpiry.setMinutes(resetExpiry.getMinutes() + this.config.passwordResetExpiry);
-
-      // Update user with reset token
-      await adapter.updateUser(user.id, {
-        password_reset_token: resetToken,
-        password_reset_expires: resetExpiry.toISOString()
-      });
-
-      return {
-        success: true,
-        resetToken
-      };
-
-    } catch (error) {
-      console.error('Password reset request error:', error);
-      return {
-        success: false,
-        error: {
-          code: 'RESET_REQUEST_FAILED',
-          message: 'Failed to process password reset request'
-        }
-      };
-    }
-  }
-
-  async resetPassword(token: string, newPassword: string): Promise<AuthResult> {
-    try {
-      const adapter = await this.dbManager.getAdapter();
-
-      // Find user by reset token
-      const users = await adapter.searchUsers(''); // This is a workaround - in real implementation, you'd have a specific method
-      const user = users.find(u => u.password_reset_token === token);
-
-      if (!user || !user.password_reset_expires) {
-        return {
-          success: false,
-          error: {
-            code: 'INVALID_RESET_TOKEN',
-            message: 'Invalid or expired reset token'
-          }
-        };
-      }
-
-      // Check if token is expired
-      if (new Date(user.password_reset_expires) <= new Date()) {
-        return {
-          success: false,
-          error: {
-            code: 'RESET_TOKEN_EXPIRED',
-            message: 'Reset token has expired'
-          }
-        };
-      }
-
-      // Validate new password strength
-      const passwordValidation = this.validatePasswordStrength(newPassword);
-      if (!passwordValidation.isValid) {
-        return {
-          success: false,
-          error: {
-            code: 'WEAK_PASSWORD',
-            message: passwordValidation.message
-          }
-        };
-      }
-
-      // Update password and clear reset token
-      await adapter.updatePassword(user.id, newPassword);
-      await adapter.updateUser(user.id, {
-        password_reset_token: undefined,
-        password_reset_expires: undefined,
-        login_attempts: 0 // Reset login attempts
-      });
-
-      return {
-        success: true,
-        user
-      };
-
-    } catch (error) {
-      console.error('Password reset error:', error);
-      return {
-        success: false,
-        error: {
-          code: 'PASSWORD_RESET_FAILED',
-          message: 'Failed to reset password'
-        }
-      };
-    }
-  }
-
-  // ============================================================================
-  // Helper Methods
-  // ============================================================================
-
-  private generateAccessToken(user: UserProfile): string {
-    const payload = {
-      userId: user.id,
-      email: user.email,
-      username: user.username,
-      role: user.role,
-      type: 'access'
-    };
-
-    return jwt.sign(payload, this.config.jwtSecret, {
-      expiresIn: this.config.jwtExpiresIn,
-      issuer: 'futurelearner-auth',
-      audience: 'futurelearner-app'
-    });
-  }
-
-  private generateRefreshToken(user: UserProfile): string {
-    const payload = {
-      userId: user.id,
-      type: 'refresh'
-    };
-
-    return jwt.sign(payload, this.config.jwtSecret, {
-      expiresIn: this.config.refreshTokenExpiresIn,
-      issuer: 'futurelearner-auth',
-      audience: 'futurelearner-app'
-    });
-  }
-
-  private generateResetToken(): string {
-    return randomBytes(32).toString('hex');
-  }
-
-  private validatePasswordStrength(password: string): {
-    isValid: boolean;
-    message: string;
-  } {
-    if (password.length < 8) {
-      return {
-        isValid: false,
-        message: 'Password must be at least 8 characters long'
-      };
-    }
-
-    if (!/(?=.*[a-z])/.test(password)) {
-      return {
-        isValid: false,
-        message: 'Password must contain at least one lowercase letter'
-      };
-    }
-
-    if (!/(?=.*[A-Z])/.test(password)) {
-      return {
-        isValid: false,
-        message: 'Password must contain at least one uppercase letter'
-      };
-    }
-
-    if (!/(?=.*\d)/.test(password)) {
-      return {
-        isValid: false,
-        message: 'Password must contain at least one number'
-      };
-    }
-
-    if (!/(?=.*[@$!%*?&])/.test(password)) {
-      return {
-        isValid: false,
-        message: 'Password must contain at least one special character (@$!%*?&)'
-      };
-    }
-
-    return {
-      isValid: true,
-      message: 'Password is strong'
-    };
-  }
-
-  private isAccountLocked(user: UserProfile): boolean {
-    if (user.login_attempts < this.config.maxLoginAttempts) {
-      return false;
-    }
-
-    // Check if lockout period has expired
-    if (user.last_login) {
-      const lastLogin = new Date(user.last_login);
-      const lockoutExpiry = new Date(lastLogin.getTime() + (this.config.lockoutDuration * 60 * 1000));
-      return new Date() < lockoutExpiry;
-    }
-
-    return true;
-  }
-
-  private async incrementLoginAttempts(userId: string): Promise<void> {
-    try {
-      const adapter = await this.dbManager.getAdapter();
-      const user = await adapter.getUserById(userId);
-      if (user) {
-        await adapter.updateUser(userId, {
-          login_attempts: user.login_attempts + 1
-        });
-      }
-    } catch (error) {
-      console.error('Error incrementing login attempts:', error);
-    }
-  }
-
-  private async resetLoginAttempts(userId: string): Promise<void> {
-    try {
-      const adapter = await this.dbManager.getAdapter();
-      await adapter.updateUser(userId, {
-        login_attempts: 0
-      });
-    } catch (error) {
-      console.error('Error resetting login attempts:', error);
-    }
-  }
-
-  private parseExpiryTime(expiry: string): number {
-    // Parse expiry strings like "1h", "30m", "7d"
-    const match = expiry.match(/^(\d+)([smhd])$/);
-    if (!match) {
-      throw new Error(`Invalid expiry format: ${expiry}`);
-    }
-
-    const value = parseInt(match[1]);
-    const unit = match[2];
-
-    switch (unit) {
-      case 's': return value * 1000;
-      case 'm': return value * 60 * 1000;
-      case 'h': return value * 60 * 60 * 1000;
-      case 'd': return value * 24 * 60 * 60 * 1000;
-      default: throw new Error(`Invalid time unit: ${unit}`);
-    }
-  }
-
-  // ============================================================================
-  // Cleanup Methods
-  // ============================================================================
-
-  async cleanupExpiredSessions(): Promise<number> {
-    try {
-      const adapter = await this.dbManager.getAdapter();
-      return await adapter.cleanupExpiredSessions();
-    } catch (error) {
-      console.error('Error cleaning up expired sessions:', error);
-      return 0;
-    }
-  }
-}
\ No newline at end of file
@@ -0,0 +1,170 @@
+/**
+ * Email Service
+ *
+ * Sends transactional email through a pluggable transport, chosen with
+ * EMAIL_PROVIDER:
+ * - smtp: the server in emailConfig.smtp (SMTP_HOST, SMTP_PORT, ...)
+ * - resend: the Resend HTTP API (RESEND_API_KEY)
+ * - file: complete .eml files written to EMAIL_FILE_DIR, a local stand-in
+ *   for a mail server
+ * - console (default): messages are written to the server log
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { emailConfig } from '@/lib/config/auth-config';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export type OutgoingEmail = EmailMessage & { from: string };
+
+export interface EmailTransport {
+  send(message: OutgoingEmail): Promise<void>;
+}
+
+export class ConsoleEmailTransport implements EmailTransport {
+  async send(message: OutgoingEmail): Promise<void> {
+    console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+export class ResendEmailTransport implements EmailTransport {
+  constructor(private apiKey: string) {}
+
+  async send(message: OutgoingEmail): Promise<void> {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        from: message.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Email provider responded with ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+export class FileEmailTransport implements EmailTransport {
+  // Builds the complete message as an SMTP server would receive it
+  private builder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'windows' });
+
+  constructor(private directory: string) {}
+
+  async send(message: OutgoingEmail): Promise<void> {
+    const { message: raw } = await this.builder.sendMail(message);
+    await fs.mkdir(this.directory, { recursive: true });
+    const recipient = message.to.replace(/[^a-z0-9@._-]/gi, '_');
+    const file = path.join(this.directory, `${Date.now()}-${recipient}.eml`);
+    await fs.writeFile(file, raw as Buffer);
+    console.log(`📧 Email to ${message.to} written to ${file}`);
+  }
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start; otherwise STARTTLS is required
+  // Only for a local relay: allow sending, and logging in, without TLS
+  allowInsecure?: boolean;
+  auth: { user?: string; pass?: string };
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  private transporter: Transporter;
+
+  constructor(options: SmtpOptions, timeoutMs: number = 15000) {
+    const { host, port, secure, allowInsecure, auth } = options;
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      // Fail rather than send credentials or mail in cleartext when the server does not offer STARTTLS
+      requireTLS: !secure && !allowInsecure,
+      auth: auth.user && auth.pass ? { user: auth.user, pass: auth.pass } : undefined,
+      connectionTimeout: timeoutMs,
+      greetingTimeout: timeoutMs,
+      socketTimeout: timeoutMs
+    });
+  }
+
+  async send(message: OutgoingEmail): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+export class EmailService {
+  private transport: EmailTransport;
+  private from = `${emailConfig.from.name} <${emailConfig.from.email}>`;
+
+  constructor(transport?: EmailTransport) {
+    this.transport = transport || this.createTransport();
+  }
+
+  /**
+   * Returns whether the message was handed to the transport. Failures are
+   * logged rather than thrown so the triggering request still succeeds.
+   */
+  async send(message: EmailMessage): Promise<boolean> {
+    // A line break in an address would let it add headers or recipients
+    if (/[\r\n]/.test(message.to)) {
+      console.error('Refusing to send email to an address containing a line break:', message.subject);
+      return false;
+    }
+
+    try {
+      await this.transport.send({ ...message, from: this.from });
+      return true;
+    } catch (error) {
+      console.error('Error sending email:', error, message.subject);
+      return false;
+    }
+  }
+
+  /**
+   * Absolute link into the app, for use in email bodies.
+   */
+  buildUrl(path: string, params: Record<string, string> = {}): string {
+    const base = (process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000').replace(/\/$/, '');
+    const query = new URLSearchParams(params).toString();
+    return `${base}${path}${query ? `?${query}` : ''}`;
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private createTransport(): EmailTransport {
+    switch (process.env.EMAIL_PROVIDER) {
+      case 'smtp':
+        return new SmtpEmailTransport(emailConfig.smtp);
+      case 'file':
+        return new FileEmailTransport(process.env.EMAIL_FILE_DIR || path.join(process.cwd(), '.emails'));
+      case 'resend':
+        if (process.env.RESEND_API_KEY) {
+          return new ResendEmailTransport(process.env.RESEND_API_KEY);
+        }
+        console.warn('EMAIL_PROVIDER is resend but RESEND_API_KEY is not set; logging emails instead');
+        return new ConsoleEmailTransport();
+      default:
+        return new ConsoleEmailTransport();
+    }
+  }
+}
+
+// Create a singleton instance
+export const emailService = new EmailService();
@@ -0,0 +1,221 @@
+/**
+ * Email Verification Service
+ *
+ * New accounts with a role in emailVerificationConfig.roles start out as
+ * 'pending_verification' and are emailed a single-use link; redeeming it
+ * activates the account. This only applies while
+ * authConfig.security.requireEmailVerification is on, and so does blocking
+ * sign-in for pending accounts. Only the SHA-256 hash of each token is
+ * stored, and re-sending never reveals whether an account exists.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { authConfig, emailConfig, emailVerificationConfig } from '@/lib/config/auth-config';
+import { auditLogService } from '@/lib/services/audit-log-service';
+import { emailService } from '@/lib/services/email-service';
+import { EmailVerificationError, UserProfile, UserRole } from '@/types/auth';
+
+export interface EmailVerificationContext {
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export class EmailVerificationService {
+  private config = {
+    required: authConfig.security.requireEmailVerification,
+    roles: emailVerificationConfig.roles,
+    tokenExpiryHours: emailVerificationConfig.tokenExpiryHours,
+    resendCooldownSeconds: emailVerificationConfig.resendCooldownSeconds
+  };
+
+  isEnforced(): boolean {
+    return this.config.required;
+  }
+
+  /**
+   * Whether a new account with this role has to verify its email first.
+   */
+  isRequiredFor(role: UserRole | string): boolean {
+    return this.config.required && this.config.roles.includes(role as UserRole);
+  }
+
+  /**
+   * Pending accounts may only sign in while verification is not enforced.
+   */
+  canSignIn(user: UserProfile): boolean {
+    if (user.account_status === 'active') return true;
+    return user.account_status === 'pending_verification' && !this.config.required;
+  }
+
+  isLoginBlocked(user: UserProfile): boolean {
+    return user.account_status === 'pending_verification' && this.config.required;
+  }
+
+  /**
+   * Put a freshly created account on hold and email it a verification link.
+   */
+  async startVerification(user: UserProfile, context?: EmailVerificationContext): Promise<UserProfile> {
+    const adapter = await getDbAdapter();
+    const pending = await adapter.updateUser(user.id, {
+      account_status: 'pending_verification',
+      email_verified: false
+    });
+
+    await this.sendVerification(pending, context);
+    return pending;
+  }
+
+  /**
+   * Issue a new link, invalidating the earlier ones.
+   */
+  async sendVerification(user: UserProfile, context?: EmailVerificationContext): Promise<void> {
+    if (!user.email) {
+      throw new EmailVerificationError('This account has no email address', 'NO_EMAIL');
+    }
+
+    const adapter = await getDbAdapter();
+    await adapter.invalidateEmailVerificationTokens(user.id);
+
+    const token = randomBytes(32).toString('hex');
+    const now = new Date();
+    await adapter.createEmailVerificationToken({
+      user_id: user.id,
+      email: user.email,
+      token: this.hashToken(token),
+      expires_at: new Date(now.getTime() + this.config.tokenExpiryHours * 60 * 60 * 1000).toISOString(),
+      verified: false,
+      created_at: now.toISOString(),
+      ip_address: context?.ip_address,
+      user_agent: context?.user_agent
+    });
+
+    await this.sendVerificationEmail(user, token);
+  }
+
+  /**
+   * Re-send the link for an unverified account, at most once per cooldown;
+   * otherwise do nothing.
+   */
+  async resend(identifier: string, context?: EmailVerificationContext): Promise<void> {
+    const value = identifier.trim();
+    if (!value) return;
+
+    const adapter = await getDbAdapter();
+    const user = await adapter.getUserByEmail(value.toLowerCase()) || await adapter.getUserByUsername(value);
+    if (!user || !user.email || user.email_verified || !this.canResend(user)) return;
+    if (await this.isCoolingDown(user.id)) return;
+
+    await this.sendVerification(user, context);
+  }
+
+  /**
+   * Admin-initiated re-send, which reports why nothing was sent.
+   */
+  async resendForUser(userId: string, adminId: string): Promise<void> {
+    const adapter = await getDbAdapter();
+    const user = await adapter.getUserById(userId);
+
+    if (!user) {
+      throw new EmailVerificationError('User not found', 'USER_NOT_FOUND', 404);
+    }
+    if (user.email_verified) {
+      throw new EmailVerificationError('This email address is already verified', 'ALREADY_VERIFIED', 409);
+    }
+    if (!this.canResend(user)) {
+      throw new EmailVerificationError(`Cannot verify a ${user.account_status} account`, 'ACCOUNT_NOT_ELIGIBLE', 409);
+    }
+    if (await this.isCoolingDown(user.id)) {
+      throw new EmailVerificationError('A verification email was sent moments ago', 'RESEND_COOLDOWN', 429);
+    }
+
+    await this.sendVerification(user);
+    await auditLogService.record({
+      user_id: user.id,
+      event_type: 'email_verification',
+      event_category: 'admin_action',
+      description: 'Verification email re-sent by an administrator',
+      risk_level: 'low',
+      success: true,
+      metadata: JSON.stringify({ sent_by: adminId })
+    });
+  }
+
+  /**
+   * Redeem an emailed link. The link only counts for the address it was sent
+   * to, so changing the email afterwards needs a new link.
+   */
+  async verify(token: string, context?: EmailVerificationContext): Promise<UserProfile> {
+    const adapter = await getDbAdapter();
+    const record = token ? await adapter.getEmailVerificationToken(this.hashToken(token)) : null;
+    const user = record ? await adapter.getUserById(record.user_id) : null;
+
+    if (
+      !record || !user || record.verified || user.email !== record.email ||
+      new Date(record.expires_at).getTime() <= Date.now() ||
+      !(await adapter.claimEmailVerificationToken(record.id))
+    ) {
+      throw new EmailVerificationError('This verification link is invalid or has expired', 'INVALID_VERIFICATION_TOKEN');
+    }
+
+    const verified = await adapter.updateUser(user.id, {
+      email_verified: true,
+      ...(user.account_status === 'pending_verification' ? { account_status: 'active' as const } : {})
+    });
+    await adapter.invalidateEmailVerificationTokens(user.id);
+
+    await auditLogService.record({
+      user_id: user.id,
+      event_type: 'email_verification',
+      event_category: 'authentication',
+      description: 'Email address verified',
+      ip_address: context?.ip_address,
+      user_agent: context?.user_agent,
+      risk_level: 'low',
+      success: true
+    });
+
+    return verified;
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  // Suspended or deactivated accounts stay that way even with a verified email
+  private canResend(user: UserProfile): boolean {
+    return user.account_status === 'pending_verification' || user.account_status === 'active';
+  }
+
+  private async isCoolingDown(userId: string): Promise<boolean> {
+    const adapter = await getDbAdapter();
+    const latest = await adapter.getLatestEmailVerificationToken(userId);
+    if (!latest) return false;
+    return Date.now() - new Date(latest.created_at).getTime() < this.config.resendCooldownSeconds * 1000;
+  }
+
+  private async sendVerificationEmail(user: UserProfile, token: string): Promise<void> {
+    const link = emailService.buildUrl('/verify-email', { token });
+
+    await emailService.send({
+      to: user.email,
+      subject: emailConfig.templates.verification.subject,
+      text: [
+        `Hi ${user.first_name || user.username || 'there'},`,
+        '',
+        'Please confirm the email address for your FutureLearner account.',
+        `Verify it here: ${link}`,
+        '',
+        `This link works once and expires in ${this.config.tokenExpiryHours} hours.`,
+        "If you didn't expect this email, you can ignore it."
+      ].join('\n')
+    });
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
+
+// Create a singleton instance
+export const emailVerificationService = new EmailVerificationService();
@@ -0,0 +1,339 @@
+/**
+ * Face Recognition Service
+ *
+ * Enrolment and matching for face login. Faces are face-api.js descriptors
+ * computed in the browser and stored as base64 Float32 bytes in
+ * face_recognition_data. Every capture answers a signed liveness challenge
+ * (blink or turn the head), checked here from the raw landmarks, so a still
+ * photo held up to the camera does not pass. Each challenge is stored and
+ * claimed by the first capture that answers it, so a recorded request cannot
+ * be sent again. The browser computes the landmarks, so this stops photos and
+ * replayed recordings, not a client written to forge them. A student's face
+ * is only enrolled with a parent's consent to webcam recording.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { faceRecognitionConfig, jwtConfig } from '@/lib/config/auth-config';
+import { auditLogService } from '@/lib/services/audit-log-service';
+import { recordingConsentService } from '@/lib/services/recording-consent-service';
+import { UserRole } from '@/types/auth';
+import {
+  FaceChallenge,
+  FaceEnrollmentStatus,
+  FaceFrame,
+  FaceLivenessAction,
+  FaceMatchResult,
+  FacePoint,
+  FaceRecognitionError
+} from '@/types/face';
+
+export interface FaceRequestContext {
+  ip_address?: string;
+  user_agent?: string;
+}
+
+// Who a challenge was issued to: a username signing in, or a signed-in user enrolling
+export type FaceChallengeSubject =
+  | { purpose: 'login'; username: string }
+  | { purpose: 'enroll'; userId: string };
+
+const LIVENESS_ACTIONS: FaceLivenessAction[] = ['blink', 'turn_head'];
+
+// Indexes into the 68-point landmark layout
+const JAW_LEFT = 0;
+const JAW_RIGHT = 16;
+const NOSE_TIP = 30;
+const LEFT_EYE = [36, 37, 38, 39, 40, 41];
+const RIGHT_EYE = [42, 43, 44, 45, 46, 47];
+const LANDMARK_COUNT = 68;
+
+export class FaceRecognitionService {
+  private config = {
+    ...faceRecognitionConfig,
+    // Separate from the access token secret so a challenge token never works as a session;
+    // built on JWT_SECRET, which production refuses to start without
+    challengeSecret: `${jwtConfig.accessTokenSecret}:face-challenge`
+  };
+
+  isEligible(role: UserRole | string): boolean {
+    return this.config.loginRoles.includes(role as UserRole);
+  }
+
+  async getStatus(userId: string, role: UserRole | string): Promise<FaceEnrollmentStatus> {
+    const adapter = await getDbAdapter();
+    const record = await adapter.getFaceData(userId);
+
+    return {
+      eligible: this.isEligible(role),
+      enrolled: Boolean(record),
+      updatedAt: record ? record.updated_at : null,
+      missingConsent: await recordingConsentService.getMissingScopes(userId, role, 'face')
+    };
+  }
+
+  /**
+   * Store the face seen in a capture that answered an enrolment challenge,
+   * replacing any earlier one.
+   */
+  async enroll(
+    userId: string,
+    role: UserRole | string,
+    challengeToken: string,
+    frames: unknown,
+    context?: FaceRequestContext
+  ): Promise<FaceEnrollmentStatus> {
+    if (!this.isEligible(role)) {
+      throw new FaceRecognitionError('Face login is not available for this account', 'NOT_ELIGIBLE', 403);
+    }
+    await recordingConsentService.assertUploadAllowed(userId, role, 'face');
+
+    const descriptor = await this.checkCapture(challengeToken, { purpose: 'enroll', userId }, frames);
+    const now = new Date().toISOString();
+
+    const adapter = await getDbAdapter();
+    await adapter.saveFaceData({
+      user_id: userId,
+      face_encoding: this.encodeDescriptor(descriptor),
+      confidence_threshold: this.config.confidenceThreshold,
+      created_at: now,
+      updated_at: now,
+      is_active: true
+    });
+
+    await this.recordChange('face_enrolled', userId, context);
+    return this.getStatus(userId, role);
+  }
+
+  async remove(userId: string, role: UserRole | string, context?: FaceRequestContext): Promise<FaceEnrollmentStatus> {
+    const adapter = await getDbAdapter();
+    if (await adapter.deleteFaceData(userId)) {
+      await this.recordChange('face_removed', userId, context);
+    }
+    return this.getStatus(userId, role);
+  }
+
+  /**
+   * Compare a login capture with the user's enrolled face. Throws for a
+   * capture that fails the challenge; a live face that is someone else's
+   * comes back unmatched.
+   */
+  async verify(userId: string, username: string, challengeToken: string, frames: unknown): Promise<FaceMatchResult> {
+    const descriptor = await this.checkCapture(challengeToken, { purpose: 'login', username }, frames);
+
+    const adapter = await getDbAdapter();
+    const record = await adapter.getFaceData(userId);
+    if (!record || !record.is_active) {
+      throw new FaceRecognitionError('Face login is not set up for this account', 'NOT_ENROLLED', 401);
+    }
+
+    const enrolled = this.decodeDescriptor(record.face_encoding);
+    const confidence = 1 - this.distance(descriptor, enrolled);
+    const threshold = record.confidence_threshold || this.config.confidenceThreshold;
+
+    return { matched: confidence >= threshold, confidence, threshold };
+  }
+
+  // ============================================================================
+  // Challenge Tokens
+  // ============================================================================
+
+  async createChallenge(subject: FaceChallengeSubject): Promise<FaceChallenge> {
+    const action = LIVENESS_ACTIONS[crypto.randomInt(LIVENESS_ACTIONS.length)];
+    const sub = subject.purpose === 'login'
+      ? `login:${this.normalizeUsername(subject.username)}`
+      : `enroll:${subject.userId}`;
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const now = Date.now();
+
+    const adapter = await getDbAdapter();
+    await adapter.createFaceChallenge({
+      nonce,
+      expires_at: new Date(now + this.config.challengeExpirySeconds * 1000).toISOString(),
+      created_at: new Date(now).toISOString()
+    });
+
+    const challengeToken = jwt.sign(
+      { sub, action, purpose: 'face_challenge', nonce },
+      this.config.challengeSecret,
+      { expiresIn: this.config.challengeExpirySeconds, issuer: 'futurelearner' } as jwt.SignOptions
+    );
+
+    return { challenge_token: challengeToken, action, expires_in: this.config.challengeExpirySeconds };
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  /**
+   * Check the challenge and the frames, and return the face they show: the
+   * average of their descriptors.
+   */
+  private async checkCapture(challengeToken: string, subject: FaceChallengeSubject, frames: unknown): Promise<number[]> {
+    const action = await this.verifyChallenge(challengeToken, subject);
+    const captured = this.parseFrames(frames);
+    const { liveness } = this.config;
+
+    const duration = captured[captured.length - 1].t - captured[0].t;
+    if (duration > liveness.maxDurationMs) {
+      throw new FaceRecognitionError('The capture took too long. Please try again.', 'CAPTURE_TOO_LONG');
+    }
+
+    if (!this.performed(action, captured)) {
+      throw new FaceRecognitionError(
+        action === 'blink' ? 'We did not see you blink. Please try again.' : 'We did not see you turn your head. Please try again.',
+        'LIVENESS_FAILED',
+        401
+      );
+    }
+
+    const descriptors = captured.flatMap(frame => frame.descriptor ? [frame.descriptor] : []);
+    if (descriptors.length < liveness.minDescriptors) {
+      throw new FaceRecognitionError('Keep your face in view of the camera', 'FACE_NOT_SEEN');
+    }
+
+    const average = descriptors[0].map((_, i) => descriptors.reduce((sum, d) => sum + d[i], 0) / descriptors.length);
+
+    // One face throughout, and not one picture sent several times
+    if (descriptors.some(d => this.distance(d, average) > this.config.sameFaceDistance)) {
+      throw new FaceRecognitionError('More than one face was seen. Please try again alone.', 'FACE_CHANGED', 401);
+    }
+    if (descriptors.every(d => this.distance(d, descriptors[0]) === 0)) {
+      throw new FaceRecognitionError('The capture did not look live. Please try again.', 'LIVENESS_FAILED', 401);
+    }
+
+    return average;
+  }
+
+  // Claims the challenge's nonce, so a failed capture also needs a new challenge
+  private async verifyChallenge(token: string, subject: FaceChallengeSubject): Promise<FaceLivenessAction> {
+    const expected = subject.purpose === 'login'
+      ? `login:${this.normalizeUsername(subject.username)}`
+      : `enroll:${subject.userId}`;
+
+    let payload: any = null;
+    try {
+      payload = jwt.verify(token, this.config.challengeSecret, { issuer: 'futurelearner' });
+    } catch {
+      // Expired or tampered; reported below
+    }
+
+    if (
+      payload
+      && payload.purpose === 'face_challenge'
+      && payload.sub === expected
+      && LIVENESS_ACTIONS.includes(payload.action)
+      && typeof payload.nonce === 'string'
+    ) {
+      const adapter = await getDbAdapter();
+      if (await adapter.claimFaceChallenge(payload.nonce)) {
+        return payload.action;
+      }
+    }
+    throw new FaceRecognitionError('The face check has expired. Please start again.', 'INVALID_CHALLENGE', 401);
+  }
+
+  private parseFrames(frames: unknown): FaceFrame[] {
+    const { liveness, descriptorLength } = this.config;
+    const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+    const valid = Array.isArray(frames)
+      && frames.length >= liveness.minFrames
+      && frames.length <= liveness.maxFrames
+      && frames.every((frame: any, index: number) =>
+        frame && isNumber(frame.t) && (index === 0 || frame.t >= frames[index - 1].t)
+        && Array.isArray(frame.landmarks) && frame.landmarks.length === LANDMARK_COUNT
+        && frame.landmarks.every((point: unknown) => Array.isArray(point) && point.length === 2 && point.every(isNumber))
+        && (frame.descriptor === undefined || (
+          Array.isArray(frame.descriptor) && frame.descriptor.length === descriptorLength && frame.descriptor.every(isNumber)
+        ))
+      );
+
+    if (!valid) {
+      throw new FaceRecognitionError(
+        `frames must be ${liveness.minFrames} to ${liveness.maxFrames} captures in time order, each with 68 landmarks`,
+        'INVALID_FRAMES'
+      );
+    }
+    return frames as FaceFrame[];
+  }
+
+  // A blink is closed eyes between open ones; a turn starts or ends facing the camera
+  private performed(action: FaceLivenessAction, frames: FaceFrame[]): boolean {
+    const { liveness } = this.config;
+
+    if (action === 'blink') {
+      const ratios = frames.map(frame => this.eyeAspectRatio(frame.landmarks));
+      return ratios.some((ratio, i) =>
+        ratio <= liveness.eyeClosedRatio
+        && ratios.slice(0, i).some(before => before >= liveness.eyeOpenRatio)
+        && ratios.slice(i + 1).some(after => after >= liveness.eyeOpenRatio)
+      );
+    }
+
+    const yaws = frames.map(frame => Math.abs(this.headYaw(frame.landmarks)));
+    return yaws.some(yaw => yaw <= liveness.frontalYaw) && yaws.some(yaw => yaw >= liveness.turnedYaw);
+  }
+
+  // Eye height over width, averaged over both eyes; it drops towards 0 as the eyes close
+  private eyeAspectRatio(landmarks: FacePoint[]): number {
+    const ratio = (eye: number[]) => {
+      const [p1, p2, p3, p4, p5, p6] = eye.map(i => landmarks[i]);
+      const width = this.pointDistance(p1, p4);
+      return width === 0 ? 0 : (this.pointDistance(p2, p6) + this.pointDistance(p3, p5)) / (2 * width);
+    };
+    return (ratio(LEFT_EYE) + ratio(RIGHT_EYE)) / 2;
+  }
+
+  // How far the nose sits from the middle of the jaw, as a share of the jaw's width
+  private headYaw(landmarks: FacePoint[]): number {
+    const left = landmarks[JAW_LEFT][0];
+    const right = landmarks[JAW_RIGHT][0];
+    const width = right - left;
+    return width === 0 ? 0 : (landmarks[NOSE_TIP][0] - left) / width - 0.5;
+  }
+
+  private pointDistance(a: FacePoint, b: FacePoint): number {
+    return Math.hypot(a[0] - b[0], a[1] - b[1]);
+  }
+
+  private distance(a: number[], b: number[]): number {
+    return Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0));
+  }
+
+  private encodeDescriptor(descriptor: number[]): string {
+    return Buffer.from(Float32Array.from(descriptor).buffer).toString('base64');
+  }
+
+  private decodeDescriptor(encoding: string): number[] {
+    // Copied out because a pooled Buffer need not start on a 4-byte boundary
+    const bytes = new Uint8Array(Buffer.from(encoding, 'base64'));
+    return Array.from(new Float32Array(bytes.buffer));
+  }
+
+  private normalizeUsername(username: string): string {
+    return username.trim().toLowerCase();
+  }
+
+  private async recordChange(
+    eventType: 'face_enrolled' | 'face_removed',
+    userId: string,
+    context?: FaceRequestContext
+  ): Promise<void> {
+    await auditLogService.record({
+      user_id: userId,
+      event_type: eventType,
+      event_category: 'authentication',
+      description: eventType === 'face_enrolled' ? 'Face login set up' : 'Face login removed',
+      ip_address: context?.ip_address,
+      user_agent: context?.user_agent,
+      risk_level: eventType === 'face_enrolled' ? 'medium' : 'low',
+      success: true
+    });
+  }
+}
+
+// Create a singleton instance
+export const faceRecognitionService = new FaceRecognitionService();
@@ -0,0 +1,300 @@
+/**
+ * Moderation Service
+ *
+ * The child-safety stage around /api/ai-tutor and /api/chat. A student's
+ * message is screened before the model sees it and the model's reply before
+ * it is shown or spoken. The local rules run first; the provider, when one
+ * is configured, only sees text the rules let through. Blocked text is
+ * replaced with a safe response and stored as an incident for staff review,
+ * and incidents in moderationConfig.notifyParentsFor go to the parent
+ * notifiers.
+ */
+
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { auditLogService } from '@/lib/services/audit-log-service';
+import { moderationConfig } from '@/lib/config/moderation-config';
+import { classifyWithRules } from '@/lib/moderation/rule-classifier';
+import { OpenAIModerationProvider } from '@/lib/moderation/openai-moderation';
+import { EmailParentNotifier } from '@/lib/moderation/email-parent-notifier';
+import { SENTENCE_END } from '@/lib/tutor-stream';
+import {
+  ModeratedRoute,
+  ModerationCategory,
+  ModerationDirection,
+  ModerationError,
+  ModerationIncident,
+  ModerationIncidentFilter,
+  ModerationIncidentStatus,
+  ModerationIncidentView,
+  ModerationResult,
+  ModerationSeverity,
+  ParentNotifier
+} from '@/types/moderation';
+
+export interface ModerationContext {
+  userId: string;
+  route: ModeratedRoute;
+  conversationId?: string;
+}
+
+const SEVERITY_ORDER: ModerationSeverity[] = ['low', 'medium', 'high'];
+
+export class ModerationService {
+  private config = {
+    safeResponses: {
+      self_harm: "It sounds like you might be having a really hard time, and I'm glad you said something. Please tell a grown-up you trust, like a parent or teacher, right now. They care about you and want to help.",
+      pii: "Let's keep personal things like your address, phone number and passwords private. You never need to tell me those. Shall we get back to your English practice?",
+      input: "Let's keep our words kind and friendly. Shall we get back to your English practice?",
+      output: "Hmm, let me think about that a different way. Can you ask me your question again?"
+    },
+    // Stands in for a blocked student message in transcripts and in the history sent to the model
+    redactedMessage: '[Removed by the safety filter]',
+    // How many of the student's latest blocked messages are looked for in the history
+    blockedHistoryLimit: 200,
+    defaultListLimit: 50,
+    maxListLimit: 200
+  };
+  private provider = new OpenAIModerationProvider();
+  private parentNotifiers: ParentNotifier[] = [new EmailParentNotifier()];
+
+  /**
+   * Adds a channel (SMS, push, ...) that is told about incidents parents
+   * should hear of, alongside the default email.
+   */
+  registerParentNotifier(notifier: ParentNotifier): void {
+    this.parentNotifiers.push(notifier);
+  }
+
+  getRedactedMessage(): string {
+    return this.config.redactedMessage;
+  }
+
+  /**
+   * Classifies the text without recording anything.
+   */
+  async check(text: string): Promise<ModerationResult> {
+    const ruleCategories = classifyWithRules(text);
+    if (ruleCategories.length > 0) {
+      return this.toResult(ruleCategories, 'rules');
+    }
+
+    if (this.provider.isConfigured()) {
+      try {
+        const providerCategories = await this.provider.classify(text);
+        if (providerCategories.length > 0) {
+          return this.toResult(providerCategories, 'provider');
+        }
+      } catch (error) {
+        console.error('[MODERATION] Provider check failed:', error);
+        if (moderationConfig.failClosed) {
+          return { flagged: true, categories: [], severity: 'low', source: 'provider' };
+        }
+      }
+    }
+
+    return { flagged: false, categories: [], severity: null, source: null };
+  }
+
+  /**
+   * Checks the text and, if it is blocked, records the incident.
+   */
+  async screen(text: string, direction: ModerationDirection, context: ModerationContext): Promise<ModerationResult> {
+    const result = await this.check(text);
+    if (result.flagged) {
+      await this.recordIncident(text, direction, result, context);
+    }
+    return result;
+  }
+
+  /**
+   * What the student is told instead of the blocked text.
+   */
+  getSafeResponse(result: ModerationResult, direction: ModerationDirection): string {
+    if (direction === 'output') return this.config.safeResponses.output;
+    if (result.categories.includes('self_harm')) return this.config.safeResponses.self_harm;
+    if (result.categories.includes('pii')) return this.config.safeResponses.pii;
+    return this.config.safeResponses.input;
+  }
+
+  /**
+   * Earlier student messages come back from the client with every request.
+   * Those the rules block, and those stored as the student's incidents
+   * (which covers what the provider blocked), are replaced so the model
+   * never sees them.
+   */
+  async redactHistory<T extends { role: string; content: string }>(messages: T[], context: ModerationContext): Promise<T[]> {
+    const adapter = await getDbAdapter();
+    const incidents = await adapter.getModerationIncidents(
+      { userId: context.userId, direction: 'input' },
+      this.config.blockedHistoryLimit
+    );
+    const blocked = new Set(incidents.map(incident => incident.content));
+
+    return messages.map(message => message.role === 'user'
+      && (blocked.has(this.toStoredContent(message.content)) || classifyWithRules(message.content).length > 0)
+      ? { ...message, content: this.config.redactedMessage }
+      : message);
+  }
+
+  /**
+   * Passes a streamed model reply on one sentence at a time, each only after
+   * it has been screened, so nothing unscreened is shown or spoken. From the
+   * first blocked sentence on, the model is cut off and the safe response
+   * is sent in its place.
+   */
+  async *screenStream(chunks: AsyncIterable<string>, context: ModerationContext): AsyncGenerator<string> {
+    let pending = '';
+
+    for await (const chunk of chunks) {
+      pending += chunk;
+
+      let match = pending.match(SENTENCE_END);
+      while (match && match.index !== undefined) {
+        const end = match.index + match[0].length;
+        const sentence = pending.slice(0, end);
+        if ((await this.screen(sentence, 'output', context)).flagged) {
+          yield this.config.safeResponses.output;
+          return;
+        }
+        yield sentence;
+        pending = pending.slice(end);
+        match = pending.match(SENTENCE_END);
+      }
+    }
+
+    if (pending.trim()) {
+      if ((await this.screen(pending, 'output', context)).flagged) {
+        yield this.config.safeResponses.output;
+        return;
+      }
+      yield pending;
+    }
+  }
+
+  // ============================================================================
+  // Staff Review
+  // ============================================================================
+
+  async listIncidents(filter: ModerationIncidentFilter, limit?: number): Promise<ModerationIncidentView[]> {
+    const adapter = await getDbAdapter();
+    const requested = Number.isFinite(limit) && (limit as number) > 0 ? Math.floor(limit as number) : this.config.defaultListLimit;
+    const incidents = await adapter.getModerationIncidents(filter, Math.min(requested, this.config.maxListLimit));
+
+    const names = new Map<string, string>();
+    await Promise.all(Array.from(new Set(incidents.map(incident => incident.user_id))).map(async id => {
+      const user = await adapter.getUserById(id);
+      names.set(id, user ? user.full_name || user.username || user.email : 'Deleted user');
+    }));
+
+    return incidents.map(incident => ({ ...incident, userName: names.get(incident.user_id) || 'Unknown user' }));
+  }
+
+  async reviewIncident(
+    id: string,
+    reviewerId: string,
+    status: ModerationIncidentStatus,
+    note?: string
+  ): Promise<ModerationIncident> {
+    if (status !== 'reviewed' && status !== 'dismissed') {
+      throw new ModerationError('status must be reviewed or dismissed', 'INVALID_STATUS');
+    }
+
+    const adapter = await getDbAdapter();
+    const incident = await adapter.getModerationIncidentById(id);
+    if (!incident) {
+      throw new ModerationError('Moderation incident not found', 'INCIDENT_NOT_FOUND', 404);
+    }
+
+    const updated = await adapter.updateModerationIncident(id, {
+      status,
+      reviewed_by: reviewerId,
+      reviewed_at: new Date().toISOString(),
+      review_note: typeof note === 'string' && note.trim() ? note.trim().slice(0, 1000) : undefined
+    });
+
+    await auditLogService.record({
+      user_id: reviewerId,
+      event_type: 'moderation_reviewed',
+      event_category: 'admin_action',
+      description: `Moderation incident ${status}`,
+      resource_accessed: `moderation_incidents/${id}`,
+      risk_level: 'low',
+      success: true,
+      metadata: JSON.stringify({ incident_id: id, student_id: incident.user_id, status })
+    });
+
+    return updated;
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private toResult(categories: ModerationCategory[], source: 'rules' | 'provider'): ModerationResult {
+    const severity = categories
+      .map(category => moderationConfig.severity[category])
+      .reduce((highest, current) => SEVERITY_ORDER.indexOf(current) > SEVERITY_ORDER.indexOf(highest) ? current : highest);
+    return { flagged: true, categories, severity, source };
+  }
+
+  // What an incident keeps of the text, and so what the history is matched against
+  private toStoredContent(text: string): string {
+    return String(text).slice(0, moderationConfig.maxStoredContentLength);
+  }
+
+  // Recording never throws: the student still gets the safe response if it fails
+  private async recordIncident(
+    text: string,
+    direction: ModerationDirection,
+    result: ModerationResult,
+    context: ModerationContext
+  ): Promise<void> {
+    try {
+      const adapter = await getDbAdapter();
+      const incident = await adapter.createModerationIncident({
+        user_id: context.userId,
+        route: context.route,
+        direction,
+        categories: result.categories,
+        severity: result.severity || 'low',
+        source: result.source || 'rules',
+        content: this.toStoredContent(text),
+        conversation_id: context.conversationId,
+        status: 'open',
+        created_at: new Date().toISOString()
+      });
+
+      console.warn(`[MODERATION] Blocked ${direction} on ${context.route}: ${result.categories.join(', ') || 'provider unavailable'}`);
+
+      // Only what the student wrote says something about the student
+      if (direction === 'input' && result.categories.some(category => moderationConfig.notifyParentsFor.includes(category))) {
+        await this.notifyParents(incident);
+      }
+    } catch (error) {
+      console.error('[MODERATION] Failed to record incident:', error);
+    }
+  }
+
+  private async notifyParents(incident: ModerationIncident): Promise<void> {
+    const adapter = await getDbAdapter();
+    const user = await adapter.getUserById(incident.user_id);
+    if (!user || user.role !== 'student') return;
+
+    const student = { id: user.id, name: user.first_name || user.full_name || user.username || 'Your child' };
+    let notified = false;
+    for (const notifier of this.parentNotifiers) {
+      try {
+        notified = (await notifier.notify(incident, student)) || notified;
+      } catch (error) {
+        console.error('[MODERATION] Parent notifier failed:', error);
+      }
+    }
+
+    if (notified) {
+      await adapter.updateModerationIncident(incident.id, { parents_notified_at: new Date().toISOString() });
+    }
+  }
+}
+
+// Create a singleton instance
+export const moderationService = new ModerationService();
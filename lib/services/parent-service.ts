@@ -0,0 +1,313 @@
+/**
+ * Parent Service
+ *
+ * Linked children for the parent dashboard and the link request flow. Every
+ * child section is gated by the ParentPermissions of the active link.
+ */
+
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { adminAnalyticsService, StudentProgressSummary } from '@/lib/services/admin-analytics-service';
+import {
+  DatabaseError,
+  ParentChildRelationship,
+  ParentPermissions,
+  UserProfile,
+  UserRole
+} from '@/types/auth';
+import {
+  ChildNotification,
+  LinkedChild,
+  ParentLinkError,
+  ParentLinkRequest
+} from '@/types/parent';
+
+export interface ChildOverview {
+  child: LinkedChild;
+  // Sections are null when the link does not grant the matching permission
+  progress: StudentProgressSummary | null;
+  quizResults: any[] | null;
+  incorrectAnswers: any[] | null;
+  notifications: ChildNotification[] | null;
+}
+
+export interface LinkRequestView extends ParentLinkRequest {
+  parentName: string;
+  childName: string;
+}
+
+export interface ParentServiceConfig {
+  recentResultCount: number;
+  incorrectAnswerCount: number;
+  notificationWindowDays: number;
+  inactiveAfterDays: number;
+  lowScoreThreshold: number;
+}
+
+// Permissions granted when a link request is approved
+const DEFAULT_LINK_PERMISSIONS: ParentPermissions = {
+  view_progress: true,
+  receive_notifications: true,
+  manage_account: false,
+  view_quiz_results: true,
+  contact_teachers: true
+};
+
+export class ParentService {
+  private config: ParentServiceConfig = {
+    recentResultCount: 10,
+    incorrectAnswerCount: 20,
+    notificationWindowDays: 14,
+    inactiveAfterDays: 7,
+    lowScoreThreshold: 60
+  };
+
+  async getChildren(parentId: string): Promise<LinkedChild[]> {
+    const adapter = await getDbAdapter();
+    const links = await adapter.getParentLinks(parentId);
+
+    const children = await Promise.all(links.map(async link => {
+      const child = await adapter.getUserById(link.child_id);
+      return child ? this.toLinkedChild(child, link) : null;
+    }));
+
+    return children.filter((child): child is LinkedChild => child !== null);
+  }
+
+  async getChildOverview(parentId: string, childId: string): Promise<ChildOverview> {
+    const adapter = await getDbAdapter();
+    const link = await adapter.getParentChildLink(parentId, childId);
+    const child = link?.is_active ? await adapter.getUserById(childId) : null;
+
+    // Unlinked children look the same as missing ones
+    if (!link || !child) {
+      throw new ParentLinkError('Child not found', 'CHILD_NOT_LINKED', 404);
+    }
+
+    const permissions = link.permissions;
+    const needsResults = permissions.view_quiz_results || permissions.receive_notifications;
+
+    const [progress, results, incorrectAnswers] = await Promise.all([
+      permissions.view_progress ? adminAnalyticsService.getProgressForUsers([child]) : Promise.resolve(null),
+      needsResults ? adapter.getQuizResultsByUserId(childId) : Promise.resolve(null),
+      permissions.view_quiz_results
+        ? adapter.getIncorrectAnswersByUserId(childId, this.config.incorrectAnswerCount)
+        : Promise.resolve(null)
+    ]);
+
+    return {
+      child: this.toLinkedChild(child, link),
+      progress: progress ? progress[0] || null : null,
+      quizResults: permissions.view_quiz_results && results ? results.slice(0, this.config.recentResultCount) : null,
+      incorrectAnswers,
+      notifications: permissions.receive_notifications && results ? this.buildNotifications(child, results) : null
+    };
+  }
+
+  /**
+   * Ask to be linked to a student account, found by username or email.
+   * Resolves to null when no student matches or a request is already
+   * pending, so callers can answer the same way whether the account exists.
+   */
+  async requestLink(
+    parentId: string,
+    childIdentifier: string,
+    relationshipType: ParentChildRelationship['relationship_type'] = 'parent',
+    message?: string
+  ): Promise<ParentLinkRequest | null> {
+    const adapter = await getDbAdapter();
+    const identifier = childIdentifier.trim();
+
+    const child = await adapter.getUserByUsername(identifier) || await adapter.getUserByEmail(identifier.toLowerCase());
+    if (!child || child.role !== 'student') {
+      return null;
+    }
+
+    const existing = await adapter.getParentChildLink(parentId, child.id);
+    if (existing?.is_active) {
+      throw new ParentLinkError('You are already linked to this child', 'ALREADY_LINKED', 409);
+    }
+
+    try {
+      return await adapter.createParentLinkRequest({
+        parent_id: parentId,
+        child_id: child.id,
+        relationship_type: relationshipType,
+        message: message?.trim() || undefined,
+        status: 'pending',
+        created_at: new Date().toISOString()
+      });
+    } catch (error) {
+      if (error instanceof DatabaseError && error.code === 'UNIQUE_VIOLATION') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The caller's own requests plus the pending ones they may decide: all of
+   * them for admins, those for children they are primary guardian of for parents.
+   */
+  async getLinkRequests(userId: string, role: UserRole | string): Promise<{
+    outgoing: LinkRequestView[];
+    pendingApprovals: LinkRequestView[];
+  }> {
+    const adapter = await getDbAdapter();
+
+    let pendingApprovals: ParentLinkRequest[] = [];
+    if (role === 'admin') {
+      pendingApprovals = await adapter.getParentLinkRequests({ status: 'pending' });
+    } else if (role === 'parent') {
+      const primaryChildIds = (await adapter.getParentLinks(userId)).filter(l => l.is_primary).map(l => l.child_id);
+      pendingApprovals = (await adapter.getParentLinkRequests({ childIds: primaryChildIds, status: 'pending' }))
+        .filter(request => request.parent_id !== userId);
+    }
+
+    const outgoing = role === 'parent' ? await adapter.getParentLinkRequests({ parentId: userId }) : [];
+
+    return {
+      outgoing: await this.withNames(outgoing),
+      pendingApprovals: await this.withNames(pendingApprovals)
+    };
+  }
+
+  async decideLinkRequest(
+    userId: string,
+    role: UserRole | string,
+    requestId: string,
+    approve: boolean
+  ): Promise<ParentLinkRequest> {
+    const adapter = await getDbAdapter();
+    const request = await adapter.getParentLinkRequestById(requestId);
+
+    if (!request || !(await this.canDecide(userId, role, request))) {
+      throw new ParentLinkError('Link request not found', 'REQUEST_NOT_FOUND', 404);
+    }
+
+    const decided = await adapter.updateParentLinkRequest(
+      request.id,
+      { status: approve ? 'approved' : 'rejected', decided_at: new Date().toISOString(), decided_by: userId },
+      'pending'
+    );
+    if (!decided) {
+      throw new ParentLinkError('Link request was already decided', 'REQUEST_DECIDED', 409);
+    }
+
+    if (approve) {
+      await this.activateLink(request);
+    }
+
+    return decided;
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private async canDecide(userId: string, role: UserRole | string, request: ParentLinkRequest): Promise<boolean> {
+    if (role === 'admin') return true;
+    if (role !== 'parent' || request.parent_id === userId) return false;
+
+    const adapter = await getDbAdapter();
+    const link = await adapter.getParentChildLink(userId, request.child_id);
+    return Boolean(link?.is_active && link.is_primary);
+  }
+
+  /**
+   * Create the relationship, or reactivate a previously removed one. The
+   * first guardian of a child becomes the primary one.
+   */
+  private async activateLink(request: ParentLinkRequest): Promise<void> {
+    const adapter = await getDbAdapter();
+    const now = new Date().toISOString();
+    const existing = await adapter.getParentChildLink(request.parent_id, request.child_id);
+
+    if (existing) {
+      await adapter.updateParentChildLink(existing.id, {
+        relationship_type: request.relationship_type,
+        permissions: existing.permissions || DEFAULT_LINK_PERMISSIONS,
+        is_active: true
+      });
+      return;
+    }
+
+    const guardians = await adapter.getChildParents(request.child_id);
+    await adapter.createParentChildLink({
+      parent_id: request.parent_id,
+      child_id: request.child_id,
+      relationship_type: request.relationship_type,
+      is_primary: guardians.length === 0,
+      permissions: DEFAULT_LINK_PERMISSIONS,
+      created_at: now,
+      updated_at: now,
+      is_active: true
+    });
+  }
+
+  private buildNotifications(child: UserProfile, results: any[]): ChildNotification[] {
+    const name = child.first_name || child.full_name || child.username || 'Your child';
+    const dayMs = 24 * 60 * 60 * 1000;
+    const windowStart = new Date(Date.now() - this.config.notificationWindowDays * dayMs).toISOString();
+    const notifications: ChildNotification[] = [];
+
+    for (const result of results) {
+      const completedAt = new Date(result.completed_at).toISOString();
+      if (completedAt < windowStart) continue;
+
+      const score = Math.round(Number(result.score) || 0);
+      const lowScore = score < this.config.lowScoreThreshold;
+      notifications.push({
+        id: `${lowScore ? 'low_score' : 'quiz_completed'}_${result.id}`,
+        type: lowScore ? 'low_score' : 'quiz_completed',
+        message: lowScore
+          ? `${name} scored ${score}% on a quiz and may need some help`
+          : `${name} completed a quiz with ${score}%`,
+        timestamp: completedAt
+      });
+    }
+
+    const lastQuiz = results[0]?.completed_at ? new Date(results[0].completed_at).getTime() : null;
+    if (!lastQuiz || Date.now() - lastQuiz > this.config.inactiveAfterDays * dayMs) {
+      notifications.push({
+        id: `inactive_${child.id}`,
+        type: 'inactive',
+        message: `${name} has not taken a quiz in the last ${this.config.inactiveAfterDays} days`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return notifications.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  private async withNames(requests: ParentLinkRequest[]): Promise<LinkRequestView[]> {
+    const adapter = await getDbAdapter();
+    const userIds = Array.from(new Set(requests.flatMap(r => [r.parent_id, r.child_id])));
+
+    const names = new Map<string, string>();
+    await Promise.all(userIds.map(async id => {
+      const user = await adapter.getUserById(id);
+      names.set(id, user ? user.full_name || user.username || user.email : 'Deleted user');
+    }));
+
+    return requests.map(request => ({
+      ...request,
+      parentName: names.get(request.parent_id) || 'Unknown user',
+      childName: names.get(request.child_id) || 'Unknown user'
+    }));
+  }
+
+  private toLinkedChild(child: UserProfile, link: ParentChildRelationship): LinkedChild {
+    return {
+      id: child.id,
+      name: child.full_name || child.username || child.email,
+      username: child.username,
+      relationshipId: link.id,
+      relationshipType: link.relationship_type,
+      isPrimary: link.is_primary,
+      permissions: link.permissions
+    };
+  }
+}
+
+// Create a singleton instance
+export const parentService = new ParentService();
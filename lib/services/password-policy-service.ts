@@ -0,0 +1,161 @@
+/**
+ * Password Policy Service
+ *
+ * Enforces the history and age rules of passwordPolicy. Every password a
+ * user sets is kept as a bcrypt hash so a new one cannot repeat any of the
+ * last prevent_reuse_count; passwords older than max_age_days must be
+ * changed before login hands out a session. Until then the login returns a
+ * short-lived change token that only the change-password endpoint accepts.
+ */
+
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { jwtConfig, passwordChangeConfig, passwordPolicy } from '@/lib/config/auth-config';
+import { auditLogService } from '@/lib/services/audit-log-service';
+import { securityService } from '@/lib/services/security-service';
+import { PasswordChangeError, UserProfile } from '@/types/auth';
+
+export interface PasswordChangeContext {
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export class PasswordPolicyService {
+  private config = {
+    maxAgeDays: passwordPolicy.max_age_days,
+    preventReuseCount: passwordPolicy.prevent_reuse_count,
+    // The current password plus the previous prevent_reuse_count
+    historySize: passwordPolicy.prevent_reuse_count + 1,
+    changeTokenExpiry: passwordChangeConfig.changeTokenExpiry,
+    // Separate from the access token secret so a change token never works as a session;
+    // built on JWT_SECRET, which production refuses to start without
+    changeTokenSecret: `${jwtConfig.accessTokenSecret}:password-change`
+  };
+
+  /**
+   * Whether the password is older than max_age_days. Accounts without a
+   * recorded change date are not expired.
+   */
+  isExpired(user: UserProfile): boolean {
+    if (this.config.maxAgeDays <= 0 || !user.password_changed_at) return false;
+
+    const age = Date.now() - new Date(user.password_changed_at).getTime();
+    return age > this.config.maxAgeDays * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Whether the password matches the current one or one of the previous
+   * prevent_reuse_count in the user's history.
+   */
+  async isReused(userId: string, password: string): Promise<boolean> {
+    if (this.config.preventReuseCount <= 0) return false;
+
+    const adapter = await getDbAdapter();
+    if (await adapter.verifyPassword(userId, password)) return true;
+
+    const history = await adapter.getPasswordHistory(userId, this.config.historySize);
+    for (const entry of history) {
+      if (await bcrypt.compare(password, entry.password_hash)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Store a new password; the adapter adds it to the history, which is then
+   * trimmed to as many entries as the reuse check looks at.
+   */
+  async setPassword(userId: string, password: string): Promise<void> {
+    const adapter = await getDbAdapter();
+    await adapter.updatePassword(userId, password);
+    await adapter.prunePasswordHistory(userId, this.config.historySize);
+  }
+
+  async recordHistory(userId: string, passwordHash: string): Promise<void> {
+    const adapter = await getDbAdapter();
+    await adapter.addPasswordHistory({
+      user_id: userId,
+      password_hash: passwordHash,
+      created_at: new Date().toISOString()
+    });
+    await adapter.prunePasswordHistory(userId, this.config.historySize);
+  }
+
+  /**
+   * Change a password after checking the current one, the strength rules and
+   * the history.
+   */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    context?: PasswordChangeContext
+  ): Promise<UserProfile> {
+    const adapter = await getDbAdapter();
+    const user = await adapter.getUserById(userId);
+
+    if (!user) {
+      throw new PasswordChangeError('User not found', 'USER_NOT_FOUND', 404);
+    }
+    if (!(await adapter.verifyPassword(userId, currentPassword))) {
+      throw new PasswordChangeError('Current password is incorrect', 'INVALID_CURRENT_PASSWORD', 401);
+    }
+
+    await this.assertAcceptable(user, newPassword);
+    await this.setPassword(userId, newPassword);
+
+    await auditLogService.record({
+      user_id: userId,
+      event_type: 'password_change',
+      event_category: 'authentication',
+      description: this.isExpired(user) ? 'Expired password changed' : 'Password changed',
+      ip_address: context?.ip_address,
+      user_agent: context?.user_agent,
+      risk_level: 'low',
+      success: true
+    });
+
+    return user;
+  }
+
+  /**
+   * Throws WEAK_PASSWORD or PASSWORD_REUSED when the new password breaks the policy.
+   */
+  async assertAcceptable(user: UserProfile, newPassword: string): Promise<void> {
+    const validation = securityService.validatePassword(newPassword, user);
+    if (!validation.isValid) {
+      throw new PasswordChangeError(validation.feedback.join('. '), 'WEAK_PASSWORD');
+    }
+
+    if (await this.isReused(user.id, newPassword)) {
+      throw new PasswordChangeError('Choose a password you have not used recently', 'PASSWORD_REUSED');
+    }
+  }
+
+  // ============================================================================
+  // Change Tokens
+  // ============================================================================
+
+  /**
+   * Short-lived token proving the password step succeeded, so a user whose
+   * password expired can change it without a session.
+   */
+  createChangeToken(userId: string): string {
+    return jwt.sign({ userId, purpose: 'password_change' }, this.config.changeTokenSecret, {
+      expiresIn: this.config.changeTokenExpiry,
+      issuer: 'futurelearner'
+    } as jwt.SignOptions);
+  }
+
+  verifyChangeToken(token: string): string | null {
+    try {
+      const payload = jwt.verify(token, this.config.changeTokenSecret, { issuer: 'futurelearner' }) as any;
+      return payload.purpose === 'password_change' && typeof payload.userId === 'string' ? payload.userId : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Create a singleton instance
+export const passwordPolicyService = new PasswordPolicyService();
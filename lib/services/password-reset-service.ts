@@ -0,0 +1,175 @@
+/**
+ * Password Reset Service
+ *
+ * Emails single-use reset links. Only the SHA-256 hash of each token is
+ * stored; a token expires after passwordResetConfig.tokenExpiryMinutes and
+ * requesting a new one invalidates the older ones. Requests never reveal
+ * whether an account exists, neither in the response nor in its timing.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { emailConfig, passwordResetConfig } from '@/lib/config/auth-config';
+import { auditLogService } from '@/lib/services/audit-log-service';
+import { emailService } from '@/lib/services/email-service';
+import { securityService } from '@/lib/services/security-service';
+import { accountLockoutService } from '@/lib/services/account-lockout-service';
+import { passwordPolicyService } from '@/lib/services/password-policy-service';
+import { PasswordResetError, UserProfile } from '@/types/auth';
+
+export interface PasswordResetContext {
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export class PasswordResetService {
+  private config = {
+    tokenExpiryMinutes: passwordResetConfig.tokenExpiryMinutes,
+    signOutEverywhere: passwordResetConfig.signOutEverywhere,
+    minResponseMs: passwordResetConfig.minResponseMs
+  };
+
+  /**
+   * Email a reset link when the email or username belongs to an active
+   * account that has an email address; otherwise do nothing. The email is
+   * sent in the background and every request is padded to the same minimum
+   * duration, so the time taken does not tell whether an account matched.
+   */
+  async requestReset(identifier: string, context?: PasswordResetContext): Promise<void> {
+    const startedAt = Date.now();
+    try {
+      await this.issueResetToken(identifier, context);
+    } finally {
+      const remaining = this.config.minResponseMs - (Date.now() - startedAt);
+      if (remaining > 0) {
+        await new Promise(resolve => setTimeout(resolve, remaining));
+      }
+    }
+  }
+
+  /**
+   * Set a new password with a reset token. The token is only used up once the
+   * new password passes validation, so a rejected password can be retried.
+   */
+  async confirmReset(token: string, newPassword: string, context?: PasswordResetContext): Promise<UserProfile> {
+    const adapter = await getDbAdapter();
+    const record = token ? await adapter.getPasswordResetToken(this.hashToken(token)) : null;
+    const user = record ? await adapter.getUserById(record.user_id) : null;
+
+    if (!record || !user || record.used || new Date(record.expires_at).getTime() <= Date.now()) {
+      throw new PasswordResetError('This reset link is invalid or has expired', 'INVALID_RESET_TOKEN');
+    }
+
+    const validation = securityService.validatePassword(newPassword, user);
+    if (!validation.isValid) {
+      throw new PasswordResetError(validation.feedback.join('. '), 'WEAK_PASSWORD');
+    }
+    if (await passwordPolicyService.isReused(user.id, newPassword)) {
+      throw new PasswordResetError('Choose a password you have not used recently', 'PASSWORD_REUSED');
+    }
+
+    if (!(await adapter.claimPasswordResetToken(record.id))) {
+      throw new PasswordResetError('This reset link is invalid or has expired', 'INVALID_RESET_TOKEN');
+    }
+
+    await passwordPolicyService.setPassword(user.id, newPassword);
+    await adapter.invalidatePasswordResetTokens(user.id);
+
+    // Proving control of the mailbox is enough to lift a lockout
+    await adapter.releaseAccountLockouts(user.id);
+    await accountLockoutService.clearFailedLogins(user.id);
+
+    if (this.config.signOutEverywhere) {
+      await adapter.invalidateAllUserSessions(user.id);
+    }
+
+    await emailService.send({
+      to: user.email,
+      subject: 'Your password was changed',
+      text: [
+        `Hi ${user.first_name || user.username || 'there'},`,
+        '',
+        'The password for your FutureLearner account was just reset.',
+        "If you didn't do this, reset it again right away and contact support."
+      ].join('\n')
+    });
+
+    await auditLogService.record({
+      user_id: user.id,
+      event_type: 'password_reset_complete',
+      event_category: 'authentication',
+      description: 'Password reset with an emailed link',
+      ip_address: context?.ip_address,
+      user_agent: context?.user_agent,
+      risk_level: 'medium',
+      success: true
+    });
+
+    return user;
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private async issueResetToken(identifier: string, context?: PasswordResetContext): Promise<void> {
+    const value = identifier.trim();
+    if (!value) return;
+
+    const adapter = await getDbAdapter();
+    const user = await adapter.getUserByEmail(value.toLowerCase()) || await adapter.getUserByUsername(value);
+    if (!user || !user.email || user.account_status !== 'active') return;
+
+    await adapter.invalidatePasswordResetTokens(user.id);
+
+    const token = randomBytes(32).toString('hex');
+    const now = new Date();
+    await adapter.createPasswordResetToken({
+      user_id: user.id,
+      token: this.hashToken(token),
+      expires_at: new Date(now.getTime() + this.config.tokenExpiryMinutes * 60 * 1000).toISOString(),
+      used: false,
+      created_at: now.toISOString(),
+      ip_address: context?.ip_address,
+      user_agent: context?.user_agent
+    });
+
+    // Not awaited: a slow mail server must not make matching requests slower
+    void this.sendResetEmail(user, token);
+    await auditLogService.record({
+      user_id: user.id,
+      event_type: 'password_reset_request',
+      event_category: 'authentication',
+      description: 'Password reset requested',
+      ip_address: context?.ip_address,
+      user_agent: context?.user_agent,
+      risk_level: 'low',
+      success: true
+    });
+  }
+
+  private async sendResetEmail(user: UserProfile, token: string): Promise<void> {
+    const link = emailService.buildUrl('/reset-password', { token });
+
+    await emailService.send({
+      to: user.email,
+      subject: emailConfig.templates.passwordReset.subject,
+      text: [
+        `Hi ${user.first_name || user.username || 'there'},`,
+        '',
+        'We received a request to reset the password for your FutureLearner account.',
+        `Choose a new password here: ${link}`,
+        '',
+        `This link works once and expires in ${this.config.tokenExpiryMinutes} minutes.`,
+        "If you didn't ask for a reset, you can ignore this email."
+      ].join('\n')
+    });
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
+
+// Create a singleton instance
+export const passwordResetService = new PasswordResetService();
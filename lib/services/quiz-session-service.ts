@@ -0,0 +1,352 @@
+/**
+ * Quiz Session Service
+ *
+ * Server-authoritative quiz flow. The server picks a session's questions
+ * with the smart question scheduler, scores every answer against the stored
+ * correct option and writes quiz_results / quiz_answers itself when the
+ * session is finalised. Clients never choose questions or submit scores, and
+ * correct answers are only returned by finalizeSession, so a student cannot
+ * learn them in one session and replay them in the next.
+ */
+
+import { dbManager, getDbAdapter } from '@/lib/database/database-manager';
+import { SupabaseSmartQuestionService } from '@/lib/services/supabase-smart-question-service';
+import {
+  QuizSession,
+  QuizSessionAnswer,
+  QuizSessionError,
+  QuizSessionQuestion,
+  QuizSessionSummary
+} from '@/types/quiz';
+
+export interface QuizSessionConfig {
+  sessionTtlMinutes: number;
+  defaultQuestionCount: number;
+  maxQuestionCount: number;
+}
+
+// Whether the answer was right, but not what the right answer is
+export interface AnswerResult {
+  questionId: string;
+  isCorrect: boolean;
+  answeredCount: number;
+  totalQuestions: number;
+}
+
+export interface StartedSession {
+  session: QuizSession;
+  questions: QuizSessionQuestion[];
+}
+
+export class QuizSessionService {
+  private config: QuizSessionConfig = {
+    sessionTtlMinutes: 60,
+    defaultQuestionCount: 5,
+    maxQuestionCount: 20
+  };
+
+  // The scheduler reads Supabase directly, so it is only created when Supabase is in use
+  private scheduler: SupabaseSmartQuestionService | null = null;
+
+  /**
+   * Issue a new session with questions picked by the smart question
+   * scheduler, or a random set when it cannot pick any. The count is
+   * clamped to 1..maxQuestionCount.
+   */
+  async startSession(userId: string, count?: number): Promise<StartedSession> {
+    const adapter = await getDbAdapter();
+    const requested = Math.min(Math.max(Math.floor(count ?? this.config.defaultQuestionCount), 1), this.config.maxQuestionCount);
+
+    let ids = await this.scheduleQuestions(userId, requested);
+    if (ids.length === 0) {
+      const questions = await adapter.getRandomQuestions(requested);
+      ids = questions.map(q => String(q.id));
+    }
+
+    if (ids.length === 0) {
+      throw new QuizSessionError('No questions available', 'NO_QUESTIONS', 404);
+    }
+
+    const now = new Date();
+    const [session, stored] = await Promise.all([
+      adapter.createQuizSession({
+        user_id: userId,
+        question_ids: ids,
+        status: 'active',
+        created_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + this.config.sessionTtlMinutes * 60 * 1000).toISOString()
+      }),
+      adapter.getQuestionsByIds(ids)
+    ]);
+
+    const questionsById = new Map<string, any>(stored.map(q => [String(q.id), q]));
+    return {
+      session,
+      questions: ids
+        .filter(id => questionsById.has(id))
+        .map(id => this.toSessionQuestion(questionsById.get(id)))
+    };
+  }
+
+  /**
+   * Score one answer. Each question can be answered once per session, so a
+   * replayed request cannot change the outcome.
+   */
+  async submitAnswer(
+    userId: string,
+    sessionId: string,
+    questionId: string,
+    selectedAnswer: string,
+    responseTimeMs?: number
+  ): Promise<AnswerResult> {
+    const adapter = await getDbAdapter();
+    const session = await this.getActiveSession(userId, sessionId);
+
+    if (!session.question_ids.includes(String(questionId))) {
+      throw new QuizSessionError('Question is not part of this session', 'QUESTION_NOT_IN_SESSION', 400);
+    }
+
+    const [question] = await adapter.getQuestionsByIds([String(questionId)]);
+    if (!question) {
+      throw new QuizSessionError('Question not found', 'UNKNOWN_QUESTION', 404);
+    }
+
+    const correctAnswer = this.getCorrectAnswer(question);
+    const answer = await adapter.createQuizSessionAnswer({
+      session_id: session.id,
+      question_id: String(questionId),
+      selected_answer: selectedAnswer,
+      correct_answer: correctAnswer,
+      is_correct: this.normalize(selectedAnswer) === this.normalize(correctAnswer),
+      answered_at: new Date().toISOString()
+    });
+
+    if (!answer) {
+      throw new QuizSessionError('Question already answered', 'ALREADY_ANSWERED', 409);
+    }
+
+    await this.recordHistory(userId, question, answer, responseTimeMs);
+    const answers = await adapter.getQuizSessionAnswers(session.id);
+
+    return {
+      questionId: answer.question_id,
+      isCorrect: answer.is_correct,
+      answeredCount: answers.length,
+      totalQuestions: session.question_ids.length
+    };
+  }
+
+  /**
+   * Write quiz_results and quiz_answers from the server-scored answers.
+   * Unanswered questions count as incorrect.
+   */
+  async finalizeSession(userId: string, sessionId: string): Promise<QuizSessionSummary> {
+    const adapter = await getDbAdapter();
+    const session = await this.getActiveSession(userId, sessionId);
+
+    // Claim the session first so a concurrent or replayed finalise fails
+    const completedAt = new Date();
+    const claimed = await adapter.updateQuizSession(
+      session.id,
+      { status: 'completed', completed_at: completedAt.toISOString() },
+      'active'
+    );
+    if (!claimed) {
+      throw new QuizSessionError('Quiz session already finalised', 'SESSION_COMPLETED', 409);
+    }
+
+    const [answers, questions] = await Promise.all([
+      adapter.getQuizSessionAnswers(session.id),
+      adapter.getQuestionsByIds(session.question_ids)
+    ]);
+
+    const answersByQuestion = new Map<string, QuizSessionAnswer>(answers.map(a => [a.question_id, a]));
+    const questionsById = new Map<string, any>(questions.map(q => [String(q.id), q]));
+    const totalQuestions = session.question_ids.length;
+    const correctAnswers = answers.filter(a => a.is_correct).length;
+    const score = Math.round((correctAnswers / totalQuestions) * 10000) / 100;
+
+    const quizResult = await adapter.createQuizResult({
+      user_id: userId,
+      score,
+      correct_answers: correctAnswers,
+      total_questions: totalQuestions,
+      started_at: session.created_at,
+      duration_seconds: this.secondsBetween(session.created_at, completedAt.toISOString())
+    });
+
+    const timeTaken = this.getTimePerAnswer(session, answers);
+    const review: QuizSessionSummary['answers'] = [];
+
+    for (const questionId of session.question_ids) {
+      const question = questionsById.get(questionId);
+      const answer = answersByQuestion.get(questionId);
+      const correctAnswer = question ? this.getCorrectAnswer(question) : answer?.correct_answer || '';
+
+      await adapter.createQuizAnswer({
+        quiz_result_id: quizResult.id,
+        question_id: questionId,
+        question_text: question?.question_text || '',
+        selected_answer: answer?.selected_answer || '',
+        correct_answer: correctAnswer,
+        is_correct: answer?.is_correct || false,
+        answered_at: answer?.answered_at,
+        time_taken_seconds: timeTaken.get(questionId)
+      });
+      review.push({
+        questionId,
+        selectedAnswer: answer?.selected_answer || '',
+        correctAnswer,
+        isCorrect: answer?.is_correct || false
+      });
+
+      if (!answer?.is_correct) {
+        await adapter.createIncorrectAnswer({
+          user_id: userId,
+          question_id: questionId,
+          question_text: question?.question_text || '',
+          selected_answer: answer?.selected_answer || '',
+          correct_answer: correctAnswer
+        });
+      }
+    }
+
+    await adapter.updateQuizSession(session.id, { quiz_result_id: quizResult.id }, 'completed');
+
+    return {
+      quizResultId: quizResult.id,
+      score,
+      correctAnswers,
+      totalQuestions,
+      answers: review
+    };
+  }
+
+  /**
+   * The stored correct option of a question row, also used by the AI tutor.
+   */
+  getCorrectAnswer(question: any): string {
+    if (question.correct_option) {
+      const option = question[`option_${question.correct_option}`];
+      if (option) return option;
+    }
+    return question.correct_word || '';
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private getScheduler(): SupabaseSmartQuestionService | null {
+    if (dbManager.getDatabaseType() === 'memory') return null;
+    if (!this.scheduler) {
+      this.scheduler = new SupabaseSmartQuestionService();
+    }
+    return this.scheduler;
+  }
+
+  /**
+   * IDs of the questions the scheduler picks for the user, recorded as
+   * presented. Empty when there is no scheduler or it fails.
+   */
+  private async scheduleQuestions(userId: string, count: number): Promise<string[]> {
+    const scheduler = this.getScheduler();
+    if (!scheduler) return [];
+
+    try {
+      const questions = await scheduler.getSmartQuestions(userId, count);
+      await scheduler.recordQuestionPresentation(userId, questions.map(q => q.uuid));
+      return questions.map(q => String(q.id));
+    } catch (error) {
+      console.error('Smart question scheduling failed, using random questions:', error);
+      return [];
+    }
+  }
+
+  // Feeds the scheduler's history with the server's verdict; the quiz does not depend on it
+  private async recordHistory(
+    userId: string,
+    question: any,
+    answer: QuizSessionAnswer,
+    responseTimeMs?: number
+  ): Promise<void> {
+    const scheduler = this.getScheduler();
+    if (!scheduler || !question.uuid) return;
+
+    try {
+      await scheduler.recordAnswer(
+        userId,
+        String(question.uuid),
+        answer.selected_answer,
+        answer.correct_answer,
+        answer.is_correct,
+        responseTimeMs,
+        answer.id
+      );
+    } catch (error) {
+      console.error('Error recording answer to question history:', error);
+    }
+  }
+
+  private toSessionQuestion(question: any): QuizSessionQuestion {
+    return {
+      id: String(question.id),
+      uuid: question.uuid ? String(question.uuid) : undefined,
+      question_text: question.question_text,
+      options: [question.option_1, question.option_2, question.option_3, question.option_4]
+        .filter((option: unknown): option is string => typeof option === 'string' && option.trim() !== ''),
+      difficulty_level: question.difficulty_level,
+      category: String(question.new_category_id || 'general')
+    };
+  }
+
+  private async getActiveSession(userId: string, sessionId: string): Promise<QuizSession> {
+    const adapter = await getDbAdapter();
+    const session = await adapter.getQuizSessionById(sessionId);
+
+    // Sessions of other users look the same as missing ones
+    if (!session || session.user_id !== userId) {
+      throw new QuizSessionError('Quiz session not found', 'SESSION_NOT_FOUND', 404);
+    }
+
+    if (session.status === 'completed') {
+      throw new QuizSessionError('Quiz session already finalised', 'SESSION_COMPLETED', 409);
+    }
+
+    if (session.status === 'expired' || new Date(session.expires_at) <= new Date()) {
+      if (session.status === 'active') {
+        await adapter.updateQuizSession(session.id, { status: 'expired' }, 'active');
+      }
+      throw new QuizSessionError('Quiz session expired', 'SESSION_EXPIRED', 410);
+    }
+
+    return session;
+  }
+
+  /**
+   * Time spent on each answered question: from the session start or the
+   * previous answer until this one was submitted.
+   */
+  private getTimePerAnswer(session: QuizSession, answers: QuizSessionAnswer[]): Map<string, number> {
+    const times = new Map<string, number>();
+    let previous = session.created_at;
+
+    for (const answer of [...answers].sort((a, b) => a.answered_at.localeCompare(b.answered_at))) {
+      times.set(answer.question_id, this.secondsBetween(previous, answer.answered_at));
+      previous = answer.answered_at;
+    }
+
+    return times;
+  }
+
+  private secondsBetween(from: string, to: string): number {
+    return Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / 1000));
+  }
+
+  private normalize(answer: string): string {
+    return String(answer ?? '').trim().toLowerCase();
+  }
+}
+
+// Create a singleton instance
+export const quizSessionService = new QuizSessionService();
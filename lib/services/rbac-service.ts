@@ -13,32 +13,19 @@
  */
 
 import { DatabaseManager } from '@/lib/database/database-manager';
-import { UserProfile, UserRole } from '@/types/auth';
-
-export interface Permission {
-  id: string;
-  name: string;
-  description: string;
-  resource: string;
-  action: string;
-  created_at: string;
-  updated_at: string;
-}
-
-export interface RolePermission {
-  role: UserRole;
-  permission_id: string;
-  granted_at: string;
-  granted_by: string;
-}
-
-export interface UserPermission {
-  user_id: string;
-  permission_id: string;
-  granted_at: string;
-  granted_by: string;
-  expires_at?: string;
-}
+import { AbstractDatabaseAdapter } from '@/lib/database/abstract-adapter';
+import { auditLogService } from '@/lib/services/audit-log-service';
+import {
+  DatabaseError,
+  Permission,
+  RBACError,
+  RolePermission,
+  UserPermission,
+  UserProfile,
+  UserRole
+} from '@/types/auth';
+
+export type { Permission, RolePermission, UserPermission };
 
 export interface AccessContext {
   user_id: string;
@@ -57,11 +44,29 @@ export interface AccessResult {
   expires_at?: string;
 }
 
+// Permissions every install starts with. Their role grants are only applied
+// when the permission itself is created, so defaults an admin revoked stay revoked.
+const DEFAULT_PERMISSIONS: Array<Pick<Permission, 'resource' | 'action' | 'description'> & { roles: UserRole[] }> = [
+  { resource: '*', action: '*', description: 'Full access to every resource', roles: ['admin'] },
+  { resource: 'users', action: 'read', description: 'View user accounts', roles: [] },
+  { resource: 'users', action: 'manage', description: 'Create, update and delete user accounts', roles: [] },
+  { resource: 'questions', action: 'read', description: 'View the question bank', roles: ['teacher'] },
+  { resource: 'questions', action: 'manage', description: 'Add, edit and remove questions', roles: ['teacher'] },
+  { resource: 'analytics', action: 'read', description: 'View platform statistics and student progress', roles: [] },
+  { resource: 'teacher_assignments', action: 'manage', description: 'Assign students to teachers', roles: [] },
+  { resource: 'permissions', action: 'manage', description: 'Edit role and user permission grants', roles: [] },
+  { resource: 'audit_logs', action: 'read', description: 'View the security audit log', roles: [] },
+  { resource: 'moderation', action: 'review', description: 'Review content blocked by the child-safety filter', roles: [] }
+];
+
+const ROLES: UserRole[] = ['student', 'parent', 'teacher', 'admin'];
+
 export class RBACService {
   private dbManager: DatabaseManager;
   private permissionCache: Map<string, Permission[]> = new Map();
   private cacheExpiry: number = 5 * 60 * 1000; // 5 minutes
   private lastCacheUpdate: number = 0;
+  private initialization: Promise<void> | null = null;
 
   constructor(dbManager: DatabaseManager) {
     this.dbManager = dbManager;
@@ -71,11 +76,27 @@ export class RBACService {
   // Database Initialization
   // ============================================================================
 
+  /**
+   * Create any missing default permissions. The Supabase migration seeds the
+   * same catalogue; this covers the memory store and older databases.
+   */
   async initializeTables(): Promise<void> {
     try {
-      // TODO: Implement with Supabase
-      console.warn('initializeTables: Supabase implementation needed');
-      console.log('RBAC tables initialization skipped - Supabase migration needed');
+      const adapter = await this.getAdapter();
+      const existing = new Set((await adapter.getPermissions()).map(p => p.name));
+      const now = new Date().toISOString();
+
+      for (const { roles, ...definition } of DEFAULT_PERMISSIONS) {
+        const name = this.toPermissionName(definition.resource, definition.action);
+        if (existing.has(name)) continue;
+
+        const permission = await adapter.createPermission({ ...definition, name, created_at: now, updated_at: now });
+        for (const role of roles) {
+          await adapter.grantRolePermission({ role, permission_id: permission.id, granted_at: now });
+        }
+      }
+
+      this.clearPermissionCache();
     } catch (error) {
       console.error('Error initializing RBAC tables:', error);
       throw error;
@@ -86,93 +107,157 @@ export class RBACService {
   // Permission Management
   // ============================================================================
 
-  async createPermission(permissionData: Omit<Permission, 'id' | 'created_at' | 'updated_at'>): Promise<Permission> {
-    // TODO: Implement with Supabase
-    console.warn('createPermission: Supabase implementation needed');
-    
-    const permission: Permission = {
-      id: this.generateId(),
-      ...permissionData,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    };
-
-    this.clearPermissionCache();
-    return permission;
-  }
+  async createPermission(
+    permissionData: Omit<Permission, 'id' | 'name' | 'created_at' | 'updated_at'>
+  ): Promise<Permission> {
+    const adapter = await this.getReadyAdapter();
+    const resource = permissionData.resource.trim().toLowerCase();
+    const action = permissionData.action.trim().toLowerCase();
 
-  async getPermissions(): Promise<Permission[]> {
-    if (this.isPermissionCacheValid()) {
-      return this.permissionCache.get('all') || [];
+    if (!resource || !action || resource.includes(':') || action.includes(':')) {
+      throw new RBACError('Resource and action are required and may not contain ":"', 'INVALID_PERMISSION');
     }
 
-    // TODO: Implement with Supabase
-    console.warn('getPermissions: Supabase implementation needed');
-    
-    const permissions: Permission[] = [];
+    const now = new Date().toISOString();
+    try {
+      const permission = await adapter.createPermission({
+        name: this.toPermissionName(resource, action),
+        description: permissionData.description.trim(),
+        resource,
+        action,
+        created_at: now,
+        updated_at: now
+      });
 
-    this.permissionCache.set('all', permissions);
-    this.lastCacheUpdate = Date.now();
+      this.clearPermissionCache();
+      return permission;
+    } catch (error) {
+      if (error instanceof DatabaseError && error.code === 'UNIQUE_VIOLATION') {
+        throw new RBACError('Permission already exists', 'PERMISSION_EXISTS', 409);
+      }
+      throw error;
+    }
+  }
 
-    return permissions;
+  async getPermissions(): Promise<Permission[]> {
+    return this.fromCache('all', async () => {
+      const adapter = await this.getReadyAdapter();
+      return adapter.getPermissions();
+    });
   }
 
-  async getPermissionsByRole(_role: UserRole): Promise<Permission[]> {
-    const cacheKey = `role_${_role}`;
-    
-    if (this.isPermissionCacheValid() && this.permissionCache.has(cacheKey)) {
-      return this.permissionCache.get(cacheKey) || [];
-    }
+  async getPermissionsByRole(role: UserRole): Promise<Permission[]> {
+    return this.fromCache(`role_${role}`, async () => {
+      const adapter = await this.getReadyAdapter();
+      const [permissions, grants] = await Promise.all([
+        this.getPermissions(),
+        adapter.getRolePermissions(role)
+      ]);
+
+      const grantedIds = new Set(grants.map(g => g.permission_id));
+      return permissions.filter(p => grantedIds.has(p.id));
+    });
+  }
 
-    // TODO: Implement with Supabase
-    console.warn('getPermissionsByRole: Supabase implementation needed');
-    
-    const permissions: Permission[] = [];
+  async getPermissionsByUser(userId: string): Promise<Permission[]> {
+    const adapter = await this.getReadyAdapter();
+    const user = await adapter.getUserById(userId);
+    if (!user) return [];
 
-    this.permissionCache.set(cacheKey, permissions);
-    return permissions;
+    return this.getEffectivePermissions(user.id, user.role);
   }
 
-  async getPermissionsByUser(_userId: string): Promise<Permission[]> {
-    // TODO: Implement with Supabase
-    console.warn('getPermissionsByUser: Supabase implementation needed');
-    
-    // For now, return empty array until Supabase implementation
-    const permissions: Permission[] = [];
-    return permissions;
+  /**
+   * Role permissions plus the user's unexpired direct grants.
+   */
+  async getEffectivePermissions(userId: string, role: UserRole): Promise<Permission[]> {
+    const adapter = await this.getReadyAdapter();
+    const [rolePermissions, permissions, userGrants] = await Promise.all([
+      this.getPermissionsByRole(role),
+      this.getPermissions(),
+      adapter.getUserPermissions(userId)
+    ]);
+
+    const grantedIds = new Set(userGrants.filter(g => this.isGrantActive(g)).map(g => g.permission_id));
+    const direct = permissions.filter(p => grantedIds.has(p.id) && !rolePermissions.some(r => r.id === p.id));
+
+    return [...rolePermissions, ...direct];
   }
 
   // ============================================================================
   // Role Management
   // ============================================================================
 
-  async assignRolePermission(_role: UserRole, _permissionId: string, _grantedBy: string): Promise<void> {
-    // TODO: Implement with Supabase
-    console.warn('assignRolePermission: Supabase implementation needed');
+  async getRoleGrants(): Promise<RolePermission[]> {
+    const adapter = await this.getReadyAdapter();
+    return adapter.getRolePermissions();
+  }
+
+  async assignRolePermission(role: UserRole, permissionId: string, grantedBy: string): Promise<void> {
+    const adapter = await this.getReadyAdapter();
+    this.assertRole(role);
+    await this.getPermissionOrThrow(permissionId);
+
+    await adapter.grantRolePermission({
+      role,
+      permission_id: permissionId,
+      granted_at: new Date().toISOString(),
+      granted_by: grantedBy
+    });
 
     this.clearPermissionCache();
   }
 
-  async revokeRolePermission(_role: UserRole, _permissionId: string): Promise<void> {
-    // TODO: Implement with Supabase
-    console.warn('revokeRolePermission: Supabase implementation needed');
+  async revokeRolePermission(role: UserRole, permissionId: string): Promise<void> {
+    const adapter = await this.getReadyAdapter();
+    this.assertRole(role);
+
+    // Admins must keep a way to edit grants, or nobody can restore them
+    if (role === 'admin') {
+      const remaining = (await this.getPermissionsByRole('admin')).filter(p => p.id !== permissionId);
+      if (!this.permits(remaining, 'permissions', 'manage')) {
+        throw new RBACError('The admin role must keep permission management', 'ADMIN_LOCKOUT', 409);
+      }
+    }
 
+    await adapter.revokeRolePermission(role, permissionId);
     this.clearPermissionCache();
   }
 
+  async getUserGrants(userId: string): Promise<UserPermission[]> {
+    const adapter = await this.getReadyAdapter();
+    return adapter.getUserPermissions(userId);
+  }
+
   async assignUserPermission(
-    _userId: string, 
-    _permissionId: string, 
-    _grantedBy: string, 
-    _expiresAt?: string
+    userId: string,
+    permissionId: string,
+    grantedBy: string,
+    expiresAt?: string
   ): Promise<void> {
-    // TODO: Implement with Supabase
-    console.warn('assignUserPermission: Supabase implementation needed');
+    const adapter = await this.getReadyAdapter();
+
+    if (!(await adapter.getUserById(userId))) {
+      throw new RBACError('User not found', 'USER_NOT_FOUND', 404);
+    }
+    await this.getPermissionOrThrow(permissionId);
+
+    if (expiresAt !== undefined && !(new Date(expiresAt).getTime() > Date.now())) {
+      throw new RBACError('Expiry must be a date in the future', 'INVALID_EXPIRY');
+    }
+
+    await adapter.grantUserPermission({
+      user_id: userId,
+      permission_id: permissionId,
+      granted_at: new Date().toISOString(),
+      granted_by: grantedBy,
+      expires_at: expiresAt ? new Date(expiresAt).toISOString() : undefined
+    });
   }
 
-  async revokeUserPermission(_userId: string, _permissionId: string): Promise<void> {
-    // TODO: Implement with Supabase
-    console.warn('revokeUserPermission: Supabase implementation needed');
+  async revokeUserPermission(userId: string, permissionId: string): Promise<void> {
+    const adapter = await this.getReadyAdapter();
+    await adapter.revokeUserPermission(userId, permissionId);
   }
 
   // ============================================================================
@@ -186,7 +271,8 @@ export class RBACService {
     context?: AccessContext
   ): Promise<AccessResult> {
     try {
-      const user = await this.dbManager.getAdapter().getUserById(userId);
+      const adapter = await this.getReadyAdapter();
+      const user = await adapter.getUserById(userId);
       if (!user) {
         await this.logAccessEvent({
           user_id: userId,
@@ -224,29 +310,8 @@ export class RBACService {
         };
       }
 
-      // Get user permissions
-      const userPermissions = await this.getPermissionsByUser(userId);
-      const permissionNames = userPermissions.map(p => p.name);
-
-      // Check for specific permission
-      const hasPermission = userPermissions.some(p => 
-        p.resource === resource && p.action === action
-      );
-
-      // Check for wildcard permissions
-      const hasWildcardResource = userPermissions.some(p => 
-        p.resource === '*' && p.action === action
-      );
-
-      const hasWildcardAction = userPermissions.some(p => 
-        p.resource === resource && p.action === '*'
-      );
-
-      const hasFullWildcard = userPermissions.some(p => 
-        p.resource === '*' && p.action === '*'
-      );
-
-      const granted = hasPermission || hasWildcardResource || hasWildcardAction || hasFullWildcard;
+      const userPermissions = await this.getEffectivePermissions(user.id, user.role);
+      const granted = this.permits(userPermissions, resource, action);
 
       await this.logAccessEvent({
         user_id: userId,
@@ -260,7 +325,7 @@ export class RBACService {
       return {
         granted,
         reason: granted ? 'Access granted' : 'Insufficient permissions',
-        permissions: permissionNames,
+        permissions: userPermissions.map(p => p.name),
         role: user.role
       };
 
@@ -300,6 +365,23 @@ export class RBACService {
     return results;
   }
 
+  /**
+   * Whether any of the permissions covers resource:action, honouring "*".
+   */
+  permits(permissions: Permission[], resource: string, action: string): boolean {
+    return permissions.some(p =>
+      (p.resource === '*' || p.resource === resource) && (p.action === '*' || p.action === action)
+    );
+  }
+
+  /**
+   * Same as permits, for a permission name such as "analytics:read".
+   */
+  permitsName(permissions: Permission[], name: string): boolean {
+    const [resource, action = '*'] = name.split(':');
+    return this.permits(permissions, resource, action);
+  }
+
   // ============================================================================
   // Role Hierarchy and Inheritance
   // ============================================================================
@@ -318,11 +400,30 @@ export class RBACService {
     return hierarchy[managerRole]?.includes(targetRole) || false;
   }
 
-  async getUsersWithPermission(_resource: string, _action: string): Promise<UserProfile[]> {
-    // TODO: Implement with Supabase
-    console.warn('getUsersWithPermission: Supabase implementation needed');
-    
-    return [];
+  async getUsersWithPermission(resource: string, action: string): Promise<UserProfile[]> {
+    const adapter = await this.getReadyAdapter();
+    const matching = (await this.getPermissions()).filter(p => this.permits([p], resource, action));
+    const matchingIds = new Set(matching.map(p => p.id));
+
+    const roles = Array.from(new Set(
+      (await adapter.getRolePermissions()).filter(g => matchingIds.has(g.permission_id)).map(g => g.role)
+    ));
+    const grants = (await adapter.getUserPermissionsByPermissionIds(Array.from(matchingIds)))
+      .filter(g => this.isGrantActive(g));
+
+    const users = new Map<string, UserProfile>();
+    for (const role of roles) {
+      for (const user of await adapter.getUsersByRole(role)) {
+        users.set(user.id, user);
+      }
+    }
+    for (const grant of grants) {
+      if (users.has(grant.user_id)) continue;
+      const user = await adapter.getUserById(grant.user_id);
+      if (user) users.set(user.id, user);
+    }
+
+    return Array.from(users.values());
   }
 
   // ============================================================================
@@ -372,11 +473,76 @@ export class RBACService {
     reason: string;
     context?: AccessContext;
   }): Promise<void> {
-    // TODO: Implement with Supabase
-    console.warn('logAccessEvent: Supabase implementation needed');
-    
-    // Log to console for now
-    console.log(`Access ${eventData.granted ? 'granted' : 'denied'} for ${eventData.resource}:${eventData.action} - ${eventData.reason}`);
+    // Granted checks happen on every request; only denials go to the audit log
+    if (eventData.granted) return;
+
+    await auditLogService.record({
+      user_id: eventData.user_id,
+      event_type: 'access_denied',
+      event_category: 'authorization',
+      description: `Access denied for ${eventData.resource}:${eventData.action} - ${eventData.reason}`,
+      ip_address: eventData.context?.ip_address,
+      user_agent: eventData.context?.user_agent,
+      session_id: eventData.context?.session_id,
+      resource_accessed: this.toPermissionName(eventData.resource, eventData.action),
+      risk_level: 'medium',
+      success: false
+    });
+  }
+
+  private async getAdapter(): Promise<AbstractDatabaseAdapter> {
+    await this.dbManager.initializeIfNeeded();
+    return this.dbManager.getAdapter();
+  }
+
+  /**
+   * Adapter with the default permissions in place, created once per process.
+   */
+  private async getReadyAdapter(): Promise<AbstractDatabaseAdapter> {
+    if (!this.initialization) {
+      this.initialization = this.initializeTables().catch(error => {
+        this.initialization = null;
+        throw error;
+      });
+    }
+    await this.initialization;
+    return this.getAdapter();
+  }
+
+  private async getPermissionOrThrow(permissionId: string): Promise<Permission> {
+    const permission = (await this.getPermissions()).find(p => p.id === permissionId);
+    if (!permission) {
+      throw new RBACError('Permission not found', 'PERMISSION_NOT_FOUND', 404);
+    }
+    return permission;
+  }
+
+  private assertRole(role: string): asserts role is UserRole {
+    if (!ROLES.includes(role as UserRole)) {
+      throw new RBACError(`Invalid role: ${role}`, 'INVALID_ROLE');
+    }
+  }
+
+  private isGrantActive(grant: UserPermission): boolean {
+    return !grant.expires_at || new Date(grant.expires_at).getTime() > Date.now();
+  }
+
+  private toPermissionName(resource: string, action: string): string {
+    return `${resource}:${action}`;
+  }
+
+  private async fromCache(key: string, load: () => Promise<Permission[]>): Promise<Permission[]> {
+    if (!this.isPermissionCacheValid()) {
+      this.permissionCache.clear();
+      this.lastCacheUpdate = Date.now();
+    }
+
+    const cached = this.permissionCache.get(key);
+    if (cached) return cached;
+
+    const permissions = await load();
+    this.permissionCache.set(key, permissions);
+    return permissions;
   }
 
   private isPermissionCacheValid(): boolean {
@@ -387,10 +553,6 @@ export class RBACService {
     this.permissionCache.clear();
     this.lastCacheUpdate = 0;
   }
-
-  private generateId(): string {
-    return Math.random().toString(36).substring(2) + Date.now().toString(36);
-  }
 }
 
 // Create and export a default instance
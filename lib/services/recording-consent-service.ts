@@ -0,0 +1,220 @@
+/**
+ * Recording Consent Service
+ *
+ * Parental consent for recording a child. A linked parent grants or revokes
+ * each scope; a grant counts while it is unrevoked, was given under the
+ * current policy version and its parent is still linked to the child. The
+ * recording upload and speech-to-text routes and face login enrolment refuse
+ * a student's capture unless every scope it covers has consent.
+ */
+
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { auditLogService } from '@/lib/services/audit-log-service';
+import { UserRole } from '@/types/auth';
+import {
+  RecordingConsent,
+  RecordingConsentError,
+  RecordingConsentScope,
+  RecordingConsentStatus,
+  RecordingKind
+} from '@/types/consent';
+
+export interface RecordingConsentContext {
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export const RECORDING_CONSENT_SCOPES: RecordingConsentScope[] = ['webcam', 'screen', 'voice'];
+
+// Both recorders capture the microphone along with the picture
+const UPLOAD_SCOPES: Record<RecordingKind, RecordingConsentScope[]> = {
+  webcam: ['webcam', 'voice'],
+  screen: ['screen', 'voice'],
+  voice: ['voice'],
+  face: ['webcam']
+};
+
+export class RecordingConsentService {
+  private config = {
+    // Bump when the consent form changes; earlier grants then stop counting
+    policyVersion: '2026-10',
+    subjectRoles: ['student'] as UserRole[] // whose recordings need parental consent
+  };
+
+  getPolicyVersion(): string {
+    return this.config.policyVersion;
+  }
+
+  isScope(value: unknown): value is RecordingConsentScope {
+    return RECORDING_CONSENT_SCOPES.includes(value as RecordingConsentScope);
+  }
+
+  /**
+   * Consent status of a linked child, for the parent dashboard.
+   */
+  async getStatusForParent(parentId: string, childId: string): Promise<RecordingConsentStatus> {
+    await this.assertLinked(parentId, childId);
+    return this.getStatus(childId);
+  }
+
+  async getStatus(childId: string): Promise<RecordingConsentStatus> {
+    const adapter = await getDbAdapter();
+    const consents = await adapter.getActiveRecordingConsents(childId);
+    const valid = await this.validConsents(consents);
+
+    const scopes = await Promise.all(RECORDING_CONSENT_SCOPES.map(async scope => {
+      const latest = consents.find(consent => consent.scope === scope);
+      const granted = valid.some(consent => consent.scope === scope);
+      const parent = granted && latest ? await adapter.getUserById(latest.parent_id) : null;
+
+      return {
+        scope,
+        granted,
+        outdated: Boolean(latest && latest.policy_version !== this.config.policyVersion),
+        grantedAt: granted && latest ? latest.granted_at : null,
+        grantedBy: parent ? parent.full_name || parent.username || parent.email : null
+      };
+    }));
+
+    return { childId, policyVersion: this.config.policyVersion, scopes };
+  }
+
+  /**
+   * Grant the scopes under the current policy, replacing earlier grants of
+   * the same scopes.
+   */
+  async grant(
+    parentId: string,
+    childId: string,
+    scopes: string[],
+    context?: RecordingConsentContext
+  ): Promise<RecordingConsentStatus> {
+    const requested = this.normalizeScopes(scopes);
+    await this.assertLinked(parentId, childId);
+
+    const adapter = await getDbAdapter();
+    await adapter.revokeRecordingConsents(childId, requested, parentId);
+
+    const now = new Date().toISOString();
+    for (const scope of requested) {
+      await adapter.createRecordingConsent({
+        child_id: childId,
+        parent_id: parentId,
+        scope,
+        policy_version: this.config.policyVersion,
+        granted_at: now,
+        ip_address: context?.ip_address,
+        user_agent: context?.user_agent
+      });
+    }
+
+    await this.recordChange('consent_granted', parentId, childId, requested, context);
+    return this.getStatus(childId);
+  }
+
+  /**
+   * Withdraw consent for the scopes, whichever linked parent gave it.
+   */
+  async revoke(
+    parentId: string,
+    childId: string,
+    scopes: string[],
+    context?: RecordingConsentContext
+  ): Promise<RecordingConsentStatus> {
+    const requested = this.normalizeScopes(scopes);
+    await this.assertLinked(parentId, childId);
+
+    const adapter = await getDbAdapter();
+    const revoked = await adapter.revokeRecordingConsents(childId, requested, parentId);
+
+    if (revoked > 0) {
+      await this.recordChange('consent_revoked', parentId, childId, requested, context);
+    }
+    return this.getStatus(childId);
+  }
+
+  /**
+   * The scopes of a recording the user may not upload yet. Only users in
+   * subjectRoles need consent.
+   */
+  async getMissingScopes(userId: string, role: UserRole | string, kind: RecordingKind): Promise<RecordingConsentScope[]> {
+    if (!this.config.subjectRoles.includes(role as UserRole)) return [];
+
+    const adapter = await getDbAdapter();
+    const valid = await this.validConsents(await adapter.getActiveRecordingConsents(userId));
+    return UPLOAD_SCOPES[kind].filter(scope => !valid.some(consent => consent.scope === scope));
+  }
+
+  /**
+   * Throws CONSENT_REQUIRED unless the user may upload this kind of recording.
+   */
+  async assertUploadAllowed(userId: string, role: UserRole | string, kind: RecordingKind): Promise<void> {
+    const missing = await this.getMissingScopes(userId, role, kind);
+    if (missing.length > 0) {
+      throw new RecordingConsentError(
+        `A parent has not consented to ${missing.join(' and ')} recording`,
+        'CONSENT_REQUIRED',
+        403
+      );
+    }
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  // Unlinked children look the same as missing ones
+  private async assertLinked(parentId: string, childId: string): Promise<void> {
+    const adapter = await getDbAdapter();
+    const link = await adapter.getParentChildLink(parentId, childId);
+    if (!link?.is_active) {
+      throw new RecordingConsentError('Child not found', 'CHILD_NOT_LINKED', 404);
+    }
+  }
+
+  private normalizeScopes(scopes: string[]): RecordingConsentScope[] {
+    const requested = Array.from(new Set(scopes));
+    if (requested.length === 0 || !requested.every(scope => this.isScope(scope))) {
+      throw new RecordingConsentError(
+        `scopes must list one or more of: ${RECORDING_CONSENT_SCOPES.join(', ')}`,
+        'INVALID_SCOPES'
+      );
+    }
+    return requested as RecordingConsentScope[];
+  }
+
+  // Grants under an older policy, or from a parent no longer linked, don't count
+  private async validConsents(consents: RecordingConsent[]): Promise<RecordingConsent[]> {
+    const adapter = await getDbAdapter();
+    const current = consents.filter(consent => consent.policy_version === this.config.policyVersion);
+
+    const linked = await Promise.all(current.map(async consent => {
+      const link = await adapter.getParentChildLink(consent.parent_id, consent.child_id);
+      return Boolean(link?.is_active);
+    }));
+    return current.filter((_, index) => linked[index]);
+  }
+
+  private async recordChange(
+    eventType: 'consent_granted' | 'consent_revoked',
+    parentId: string,
+    childId: string,
+    scopes: RecordingConsentScope[],
+    context?: RecordingConsentContext
+  ): Promise<void> {
+    await auditLogService.record({
+      user_id: childId,
+      event_type: eventType,
+      event_category: 'authorization',
+      description: `Recording consent ${eventType === 'consent_granted' ? 'granted' : 'revoked'} for ${scopes.join(', ')}`,
+      ip_address: context?.ip_address,
+      user_agent: context?.user_agent,
+      risk_level: 'low',
+      success: true,
+      metadata: JSON.stringify({ parent_id: parentId, scopes, policy_version: this.config.policyVersion })
+    });
+  }
+}
+
+// Create a singleton instance
+export const recordingConsentService = new RecordingConsentService();
@@ -17,6 +17,8 @@ import { Request, Response, NextFunction } from 'express';
 import rateLimit from 'express-rate-limit';
 import helmet from 'helmet';
 import { DatabaseManager } from '@/lib/database/database-manager';
+import { auditLogService } from './audit-log-service';
+import { passwordPolicyService } from './password-policy-service';
 
 
 export interface SecurityConfig {
@@ -124,24 +126,20 @@ export class SecurityMiddleware {
     };
   }
 
-  async checkPasswordHistory(_userId: string, _newPassword: string): Promise<boolean> {
+  /**
+   * Returns false when the password repeats the current one or one of the
+   * last preventReuse passwords.
+   */
+  async checkPasswordHistory(userId: string, newPassword: string): Promise<boolean> {
     if (this.config.password.preventReuse === 0) {
       return true; // No history check required
     }
 
-    // TODO: Implement with Supabase
-    console.warn('checkPasswordHistory: Supabase implementation needed');
-    
-    // For now, allow all passwords (no history check)
-    return true;
+    return !(await passwordPolicyService.isReused(userId, newPassword));
   }
 
-  async savePasswordHistory(_userId: string, _passwordHash: string): Promise<void> {
-    // TODO: Implement with Supabase
-    console.warn('savePasswordHistory: Supabase implementation needed');
-    
-    // Skip password history saving for now
-    return;
+  async savePasswordHistory(userId: string, passwordHash: string): Promise<void> {
+    await passwordPolicyService.recordHistory(userId, passwordHash);
   }
 
   // ============================================================================
@@ -443,14 +441,20 @@ export class SecurityMiddleware {
     request_data?: string;
     risk_level: 'low' | 'medium' | 'high';
   }): Promise<void> {
-    // TODO: Implement with Supabase
-    console.warn('logSecurityEvent: Supabase implementation needed');
-    
-    // Log to console for now
     console.log(`Security Event [${eventData.risk_level}]: ${eventData.type} - ${eventData.description}`);
-  }
-
 
+    await auditLogService.record({
+      event_type: 'suspicious_activity',
+      event_category: 'security_event',
+      description: eventData.description,
+      ip_address: eventData.ip_address,
+      user_agent: eventData.user_agent,
+      risk_level: eventData.risk_level,
+      success: false,
+      // Only the start of the request body; it can be large
+      metadata: JSON.stringify({ type: eventData.type, request_data: eventData.request_data?.slice(0, 1000) })
+    });
+  }
 
   // ============================================================================
   // Database Schema for Security Features
@@ -6,7 +6,8 @@
  */
 
 import { createHash, randomBytes, timingSafeEqual } from 'crypto';
-import { UserProfile } from '@/types/auth';
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { RateLimitBucket, UserProfile } from '@/types/auth';
 
 // ============================================================================
 // Security Configuration
@@ -304,41 +305,138 @@ export interface RateLimitEntry {
   blockUntil?: number;
 }
 
+/**
+ * Where rate limit counters live. The database store shares counters across
+ * server instances and restarts; the memory store only sees its own process.
+ */
+export interface RateLimitStore {
+  /** Count one hit, starting a new window once the current one has elapsed. */
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  block(key: string, until: number): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries: Map<string, RateLimitEntry> = new Map();
+
+  constructor() {
+    // Clean up expired entries every 5 minutes
+    setInterval(() => this.cleanup(), 5 * 60 * 1000);
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const now = Date.now();
+    let entry = this.entries.get(key);
+
+    if (!entry || now > entry.resetTime) {
+      // Blocks outlive the window they were set in
+      const blockUntil = entry?.blockUntil && now < entry.blockUntil ? entry.blockUntil : undefined;
+      entry = { count: 0, resetTime: now + windowMs, blocked: Boolean(blockUntil), blockUntil };
+      this.entries.set(key, entry);
+    }
+
+    entry.count++;
+    return { ...entry };
+  }
+
+  async block(key: string, until: number): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.blocked = true;
+      entry.blockUntil = until;
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+
+    const keysToDelete: string[] = [];
+    this.entries.forEach((entry, key) => {
+      if (now > entry.resetTime && (!entry.blockUntil || now > entry.blockUntil)) {
+        keysToDelete.push(key);
+      }
+    });
+
+    keysToDelete.forEach(key => this.entries.delete(key));
+  }
+}
+
+export class DatabaseRateLimitStore implements RateLimitStore {
+  private readonly cleanupIntervalMs = 60 * 60 * 1000; // 1 hour
+  private lastCleanup = 0;
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const adapter = await getDbAdapter();
+    const bucket = await adapter.incrementRateLimitBucket(key, windowMs);
+    this.cleanupIfDue();
+    return this.toEntry(bucket);
+  }
+
+  async block(key: string, until: number): Promise<void> {
+    const adapter = await getDbAdapter();
+    await adapter.blockRateLimitBucket(key, new Date(until).toISOString());
+  }
+
+  async reset(key: string): Promise<void> {
+    const adapter = await getDbAdapter();
+    await adapter.deleteRateLimitBucket(key);
+  }
+
+  // Expired buckets are removed opportunistically instead of on a timer
+  private cleanupIfDue(): void {
+    const now = Date.now();
+    if (now - this.lastCleanup < this.cleanupIntervalMs) return;
+    this.lastCleanup = now;
+
+    getDbAdapter()
+      .then(adapter => adapter.deleteExpiredRateLimitBuckets())
+      .catch(error => console.error('Failed to clean up rate limit buckets:', error));
+  }
+
+  private toEntry(bucket: RateLimitBucket): RateLimitEntry {
+    const blockUntil = bucket.blocked_until ? new Date(bucket.blocked_until).getTime() : undefined;
+    return {
+      count: bucket.count,
+      resetTime: new Date(bucket.reset_at).getTime(),
+      blocked: Boolean(blockUntil && blockUntil > Date.now()),
+      blockUntil
+    };
+  }
+}
+
+/**
+ * RATE_LIMIT_STORE=memory keeps counters in process; anything else shares
+ * them through the database.
+ */
+export function createRateLimitStore(): RateLimitStore {
+  return process.env.RATE_LIMIT_STORE === 'memory'
+    ? new MemoryRateLimitStore()
+    : new DatabaseRateLimitStore();
+}
+
 export class RateLimiter {
-  private attempts: Map<string, RateLimitEntry> = new Map();
+  private store: RateLimitStore;
+  private fallbackStore?: MemoryRateLimitStore;
   private config: SecurityConfig['rateLimit'];
 
-  constructor(config: SecurityConfig['rateLimit']) {
+  constructor(config: SecurityConfig['rateLimit'], store: RateLimitStore = createRateLimitStore()) {
     this.config = config;
-    
-    // Clean up expired entries every 5 minutes
-    setInterval(() => this.cleanup(), 5 * 60 * 1000);
+    this.store = store;
   }
 
-  checkLoginAttempt(identifier: string): {
+  async checkLoginAttempt(identifier: string): Promise<{
     allowed: boolean;
     remaining: number;
     resetTime: number;
     blockUntil?: number;
-  } {
+  }> {
     const now = Date.now();
     const key = `login:${identifier}`;
-    const entry = this.attempts.get(key);
-
-    if (!entry) {
-      // First attempt
-      this.attempts.set(key, {
-        count: 1,
-        resetTime: now + this.config.loginAttempts.windowMs,
-        blocked: false
-      });
-
-      return {
-        allowed: true,
-        remaining: this.config.loginAttempts.maxAttempts - 1,
-        resetTime: now + this.config.loginAttempts.windowMs
-      };
-    }
+    const entry = await this.useStore(store => store.increment(key, this.config.loginAttempts.windowMs));
 
     // Check if currently blocked
     if (entry.blocked && entry.blockUntil && now < entry.blockUntil) {
@@ -350,35 +448,16 @@ export class RateLimiter {
       };
     }
 
-    // Check if window has expired
-    if (now > entry.resetTime) {
-      // Reset window
-      this.attempts.set(key, {
-        count: 1,
-        resetTime: now + this.config.loginAttempts.windowMs,
-        blocked: false
-      });
-
-      return {
-        allowed: true,
-        remaining: this.config.loginAttempts.maxAttempts - 1,
-        resetTime: now + this.config.loginAttempts.windowMs
-      };
-    }
-
-    // Increment attempt count
-    entry.count++;
-
     if (entry.count > this.config.loginAttempts.maxAttempts) {
       // Block the identifier
-      entry.blocked = true;
-      entry.blockUntil = now + this.config.loginAttempts.blockDurationMs;
+      const blockUntil = now + this.config.loginAttempts.blockDurationMs;
+      await this.useStore(store => store.block(key, blockUntil));
 
       return {
         allowed: false,
         remaining: 0,
         resetTime: entry.resetTime,
-        blockUntil: entry.blockUntil
+        blockUntil
       };
     }
 
@@ -389,74 +468,40 @@ export class RateLimiter {
     };
   }
 
-  checkApiRequest(identifier: string): {
+  async checkApiRequest(identifier: string): Promise<{
     allowed: boolean;
     remaining: number;
     resetTime: number;
-  } {
-    const now = Date.now();
+  }> {
     const key = `api:${identifier}`;
-    const entry = this.attempts.get(key);
-
-    if (!entry) {
-      // First request
-      this.attempts.set(key, {
-        count: 1,
-        resetTime: now + this.config.apiRequests.windowMs,
-        blocked: false
-      });
-
-      return {
-        allowed: true,
-        remaining: this.config.apiRequests.maxRequests - 1,
-        resetTime: now + this.config.apiRequests.windowMs
-      };
-    }
-
-    // Check if window has expired
-    if (now > entry.resetTime) {
-      // Reset window
-      this.attempts.set(key, {
-        count: 1,
-        resetTime: now + this.config.apiRequests.windowMs,
-        blocked: false
-      });
-
-      return {
-        allowed: true,
-        remaining: this.config.apiRequests.maxRequests - 1,
-        resetTime: now + this.config.apiRequests.windowMs
-      };
-    }
-
-    // Increment request count
-    entry.count++;
-
-    const allowed = entry.count <= this.config.apiRequests.maxRequests;
+    const entry = await this.useStore(store => store.increment(key, this.config.apiRequests.windowMs));
 
     return {
-      allowed,
+      allowed: entry.count <= this.config.apiRequests.maxRequests,
       remaining: Math.max(0, this.config.apiRequests.maxRequests - entry.count),
       resetTime: entry.resetTime
     };
   }
 
-  resetAttempts(identifier: string, type: 'login' | 'api' = 'login'): void {
+  async resetAttempts(identifier: string, type: 'login' | 'api' = 'login'): Promise<void> {
     const key = `${type}:${identifier}`;
-    this.attempts.delete(key);
-  }
-
-  private cleanup(): void {
-    const now = Date.now();
-    
-    const keysToDelete: string[] = [];
-    this.attempts.forEach((entry, key) => {
-      if (now > entry.resetTime && (!entry.blockUntil || now > entry.blockUntil)) {
-        keysToDelete.push(key);
-      }
-    });
-    
-    keysToDelete.forEach(key => this.attempts.delete(key));
+    await this.useStore(store => store.reset(key));
+  }
+
+  /**
+   * Rate limiting must keep working when the shared store is unreachable, so
+   * failures fall back to in-process counters.
+   */
+  private async useStore<T>(operation: (store: RateLimitStore) => Promise<T>): Promise<T> {
+    try {
+      return await operation(this.store);
+    } catch (error) {
+      if (this.store instanceof MemoryRateLimitStore) throw error;
+
+      console.error('Rate limit store unavailable, using in-process counters:', error);
+      this.fallbackStore = this.fallbackStore || new MemoryRateLimitStore();
+      return operation(this.fallbackStore);
+    }
   }
 }
 
@@ -619,7 +664,7 @@ export class SecurityService {
   }
 
   resetRateLimit(identifier: string, type: 'login' | 'api' = 'login') {
-    this.rateLimiter.resetAttempts(identifier, type);
+    return this.rateLimiter.resetAttempts(identifier, type);
   }
 
   // CSRF protection
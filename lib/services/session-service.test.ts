@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { sessionService } from '@/lib/services/session-service'
+
+const USER_AGENTS = {
+  chromeWindows: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  edgeWindows: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.2210.91',
+  safariMac: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15',
+  firefoxLinux: 'Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0',
+  safariIPhone: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1',
+  chromeIPad: 'Mozilla/5.0 (iPad; CPU OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/120.0.6099.119 Mobile/15E148 Safari/604.1',
+  samsungPhone: 'Mozilla/5.0 (Linux; Android 14; SM-S918B) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/23.0 Chrome/115.0.0.0 Mobile Safari/537.36',
+  chromeAndroidTablet: 'Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  chromebook: 'Mozilla/5.0 (X11; CrOS x86_64 14541.0.0) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+}
+
+describe('sessionService.describeDevice', () => {
+  it('names desktop browsers and systems', () => {
+    expect(sessionService.describeDevice(USER_AGENTS.chromeWindows)).toEqual({ browser: 'Chrome', os: 'Windows', type: 'desktop' })
+    expect(sessionService.describeDevice(USER_AGENTS.safariMac)).toEqual({ browser: 'Safari', os: 'macOS', type: 'desktop' })
+    expect(sessionService.describeDevice(USER_AGENTS.firefoxLinux)).toEqual({ browser: 'Firefox', os: 'Linux', type: 'desktop' })
+    expect(sessionService.describeDevice(USER_AGENTS.chromebook)).toEqual({ browser: 'Chrome', os: 'ChromeOS', type: 'desktop' })
+  })
+
+  it('prefers the browser a user agent is built on top of', () => {
+    expect(sessionService.describeDevice(USER_AGENTS.edgeWindows).browser).toBe('Edge')
+    expect(sessionService.describeDevice(USER_AGENTS.samsungPhone).browser).toBe('Samsung Internet')
+    expect(sessionService.describeDevice(USER_AGENTS.chromeIPad).browser).toBe('Chrome')
+  })
+
+  it('tells phones from tablets', () => {
+    expect(sessionService.describeDevice(USER_AGENTS.safariIPhone)).toEqual({ browser: 'Safari', os: 'iOS', type: 'mobile' })
+    expect(sessionService.describeDevice(USER_AGENTS.samsungPhone)).toEqual({ browser: 'Samsung Internet', os: 'Android', type: 'mobile' })
+    expect(sessionService.describeDevice(USER_AGENTS.chromeIPad)).toEqual({ browser: 'Chrome', os: 'iOS', type: 'tablet' })
+    expect(sessionService.describeDevice(USER_AGENTS.chromeAndroidTablet)).toEqual({ browser: 'Chrome', os: 'Android', type: 'tablet' })
+  })
+
+  it('reports unknown parts instead of guessing', () => {
+    expect(sessionService.describeDevice(undefined)).toEqual({ browser: 'Unknown browser', os: 'Unknown OS', type: 'unknown' })
+    expect(sessionService.describeDevice('curl/8.4.0')).toEqual({ browser: 'Unknown browser', os: 'Unknown OS', type: 'desktop' })
+  })
+})
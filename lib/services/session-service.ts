@@ -0,0 +1,137 @@
+/**
+ * Session Service
+ *
+ * Lists the devices signed in to an account and ends their sessions, for the
+ * account owner and for admins responding to an incident. The auth
+ * middleware refuses a revoked session straight away instead of waiting for
+ * its access token to expire.
+ */
+
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { auditLogService } from '@/lib/services/audit-log-service';
+import { ActiveSessionView, LoginSession, SessionDevice, SessionError } from '@/types/auth';
+
+export interface SessionRevocationContext {
+  revokedBy: string; // user ID of whoever ended the session
+  currentSessionId?: string; // the caller's own session, kept by revokeAllSessions when asked
+  ip_address?: string;
+  user_agent?: string;
+}
+
+// Checked in order, so Edge is found before Chrome and Chrome before Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux']
+];
+
+export class SessionService {
+  async listSessions(userId: string, currentSessionId?: string): Promise<ActiveSessionView[]> {
+    const adapter = await getDbAdapter();
+    const sessions = await adapter.getActiveUserSessions(userId);
+    return sessions.map(session => this.toView(session, currentSessionId));
+  }
+
+  async revokeSession(userId: string, sessionId: string, context: SessionRevocationContext): Promise<void> {
+    const adapter = await getDbAdapter();
+    const session = await adapter.getSessionById(sessionId);
+
+    if (!session || session.user_id !== userId || !session.is_active) {
+      throw new SessionError('Session not found', 'SESSION_NOT_FOUND', 404);
+    }
+
+    await adapter.invalidateSessionById(session.id);
+    await this.recordRevocation(userId, 1, context);
+  }
+
+  /**
+   * End every active session of the user, except the caller's own when
+   * keepCurrent is set. Returns how many sessions were ended.
+   */
+  async revokeAllSessions(
+    userId: string,
+    context: SessionRevocationContext,
+    options: { keepCurrent?: boolean } = {}
+  ): Promise<number> {
+    const adapter = await getDbAdapter();
+    const sessions = await adapter.getActiveUserSessions(userId);
+    const targets = options.keepCurrent
+      ? sessions.filter(session => session.id !== context.currentSessionId)
+      : sessions;
+
+    for (const session of targets) {
+      await adapter.invalidateSessionById(session.id);
+    }
+
+    if (targets.length > 0) {
+      await this.recordRevocation(userId, targets.length, context);
+    }
+    return targets.length;
+  }
+
+  describeDevice(userAgent?: string): SessionDevice {
+    if (!userAgent) {
+      return { browser: 'Unknown browser', os: 'Unknown OS', type: 'unknown' };
+    }
+
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent));
+    const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent));
+    const type = /iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))
+      ? 'tablet'
+      : /Mobi|iPhone|iPod/.test(userAgent) ? 'mobile' : 'desktop';
+
+    return {
+      browser: browser ? browser[1] : 'Unknown browser',
+      os: os ? os[1] : 'Unknown OS',
+      type
+    };
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private toView(session: LoginSession, currentSessionId?: string): ActiveSessionView {
+    return {
+      id: session.id,
+      device: this.describeDevice(session.user_agent),
+      ip_address: session.ip_address || null,
+      login_method: session.login_method,
+      created_at: session.created_at,
+      last_activity: session.last_activity || session.created_at,
+      expires_at: session.expires_at,
+      current: session.id === currentSessionId
+    };
+  }
+
+  private async recordRevocation(userId: string, count: number, context: SessionRevocationContext): Promise<void> {
+    const byAdmin = context.revokedBy !== userId;
+
+    await auditLogService.record({
+      user_id: userId,
+      event_type: 'session_revoked',
+      event_category: byAdmin ? 'admin_action' : 'authentication',
+      description: `${count === 1 ? 'Session' : `${count} sessions`} signed out by ${byAdmin ? 'an administrator' : 'the user'}`,
+      ip_address: context.ip_address,
+      user_agent: context.user_agent,
+      risk_level: byAdmin ? 'medium' : 'low',
+      success: true,
+      metadata: byAdmin ? JSON.stringify({ revoked_by: context.revokedBy }) : undefined
+    });
+  }
+}
+
+// Create a singleton instance
+export const sessionService = new SessionService();
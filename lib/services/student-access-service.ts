@@ -0,0 +1,50 @@
+/**
+ * Student Access Service
+ *
+ * Decides whether a user may view a student's data: the student themselves,
+ * a linked parent with the matching permission, an assigned teacher or an
+ * admin.
+ */
+
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { ParentPermissions, UserRole } from '@/types/auth';
+
+export type StudentDataScope = 'progress' | 'quiz_results' | 'tutor_transcripts';
+
+// Parent link permission required for each kind of student data
+const PARENT_PERMISSION: Record<StudentDataScope, keyof ParentPermissions> = {
+  progress: 'view_progress',
+  quiz_results: 'view_quiz_results',
+  // Tutor chats show how a student is getting on, so they follow progress
+  tutor_transcripts: 'view_progress'
+};
+
+export class StudentAccessService {
+  async canViewStudentData(
+    viewerId: string,
+    viewerRole: UserRole | string,
+    studentId: string,
+    scope: StudentDataScope
+  ): Promise<boolean> {
+    if (viewerId === studentId || viewerRole === 'admin') {
+      return true;
+    }
+
+    const adapter = await getDbAdapter();
+
+    if (viewerRole === 'parent') {
+      const link = await adapter.getParentChildLink(viewerId, studentId);
+      return Boolean(link && link.is_active && link.permissions?.[PARENT_PERMISSION[scope]]);
+    }
+
+    if (viewerRole === 'teacher') {
+      const assignment = await adapter.getTeacherStudentAssignment(viewerId, studentId);
+      return Boolean(assignment);
+    }
+
+    return false;
+  }
+}
+
+// Create a singleton instance
+export const studentAccessService = new StudentAccessService();
@@ -17,6 +17,34 @@ export interface Question {
   type: string;
   difficulty_level: number;
   category?: string;
+  selection?: QuestionSelection;
+}
+
+/**
+ * Why the scheduler picked a question. Returned to the client so teachers
+ * can audit the selection.
+ */
+export type SelectionReasonCode = 'due_review' | 'new_item' | 'early_review';
+
+export interface QuestionSelection {
+  reason: SelectionReasonCode;
+  score: number;
+  due_at?: string;
+  last_seen?: string;
+  times_seen: number;
+  mastery_level: number;
+  factors: {
+    recency: number;
+    difficulty: number;
+    performance: number;
+    mastery: number;
+    variety: number;
+  };
+}
+
+export interface SmartQuestionFilters {
+  difficulty?: number;
+  category?: string;
 }
 
 export interface QuestionHistory {
@@ -37,6 +65,13 @@ export interface QuestionHistory {
   times_incorrect: number;
   priority_score: number;
   mastery_level: number;
+  last_answer_id?: string;
+}
+
+export interface AnswerRecordResult {
+  duplicate: boolean;
+  mastery_level: number;
+  priority_score: number;
 }
 
 export interface SmartQuestionConfig {
@@ -50,8 +85,19 @@ export interface SmartQuestionConfig {
   };
   masteryThreshold: number;
   minTimeBetweenRepeats: number;
+  newItemRatio: number;
+}
+
+interface ScheduledCandidate {
+  question: any;
+  history?: QuestionHistory;
+  dueAt?: Date;
+  baseFactors: Omit<QuestionSelection['factors'], 'variety'>;
 }
 
+// Reads of a history row before an answer gives up on concurrent writers
+const ANSWER_WRITE_ATTEMPTS = 3;
+
 export class SupabaseSmartQuestionService {
   private supabase;
   
@@ -66,7 +112,8 @@ export class SupabaseSmartQuestionService {
       variety: 0.05
     },
     masteryThreshold: 0.8,
-    minTimeBetweenRepeats: 1 // 1 hour
+    minTimeBetweenRepeats: 1, // 1 hour
+    newItemRatio: 0.4 // share of each session reserved for unseen questions
   };
 
   constructor() {
@@ -77,16 +124,33 @@ export class SupabaseSmartQuestionService {
   }
 
   /**
-   * Get smart question selection for a user
+   * Get smart question selection for a user.
+   *
+   * Uses an SM-2 style schedule over user_question_history: reviews that are
+   * due come first, a share of the session is kept for unseen questions, and
+   * anything seen within minTimeBetweenRepeats hours is skipped.
    */
-  async getSmartQuestions(_userId: string, requestedCount: number = 5): Promise<Question[]> {
+  async getSmartQuestions(
+    userId: string,
+    requestedCount: number = 5,
+    filters: SmartQuestionFilters = {}
+  ): Promise<Question[]> {
     try {
       // Get all available questions
-      const { data: allQuestions, error: questionsError } = await this.supabase
+      let questionsQuery = this.supabase
         .from('questions')
         .select('*')
         .not('uuid', 'is', null);
 
+      if (filters.difficulty !== undefined) {
+        questionsQuery = questionsQuery.eq('difficulty_level', filters.difficulty);
+      }
+      if (filters.category) {
+        questionsQuery = questionsQuery.eq('new_category_id', filters.category);
+      }
+
+      const { data: allQuestions, error: questionsError } = await questionsQuery;
+
       if (questionsError) {
         console.error('Error fetching questions:', questionsError);
         throw new Error('Failed to fetch questions from database');
@@ -96,23 +160,12 @@ export class SupabaseSmartQuestionService {
         throw new Error('No questions available in the database');
       }
 
-      // For now, return a simple random selection
-      // TODO: Implement smart selection based on user history
-      const shuffled = [...allQuestions].sort(() => Math.random() - 0.5);
-      const selected = shuffled.slice(0, Math.min(requestedCount, this.config.maxQuestionsPerSession));
+      const history = await this.getUserHistory(userId);
+      const count = Math.min(requestedCount, this.config.maxQuestionsPerSession);
 
-      return selected.map(q => ({
-        id: q.id,
-        uuid: q.uuid || q.id,
-        question_text: q.question_text,
-        option_1: q.option_1,
-        option_2: q.option_2,
-        option_3: q.option_3,
-        option_4: q.option_4,
-        correct_option: q.correct_option,
-        type: q.type || 'multiple_choice',
-        difficulty_level: q.difficulty_level || 2,
-        category: q.new_category_id || 'general'
+      return this.scheduleQuestions(allQuestions, history, count).map(({ question, selection }) => ({
+        ...this.mapQuestion(question),
+        selection
       }));
 
     } catch (error) {
@@ -121,14 +174,249 @@ export class SupabaseSmartQuestionService {
     }
   }
 
+  /**
+   * Load the user's history keyed by question UUID
+   */
+  private async getUserHistory(userId: string): Promise<Map<string, QuestionHistory>> {
+    const { data, error } = await this.supabase
+      .from('user_question_history')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching question history:', error);
+      throw new Error('Failed to fetch question history');
+    }
+
+    return new Map((data || []).map((row: QuestionHistory) => [row.question_uuid, row]));
+  }
+
+  /**
+   * Pick `count` questions: due reviews first, then new items up to
+   * newItemRatio, then whatever scores best among the rest.
+   */
+  private scheduleQuestions(
+    questions: any[],
+    history: Map<string, QuestionHistory>,
+    count: number
+  ): { question: any; selection: QuestionSelection }[] {
+    const now = new Date();
+    const minGapMs = this.config.minTimeBetweenRepeats * 60 * 60 * 1000;
+    const accuracy = this.getOverallAccuracy(history);
+    const maxDifficulty = Math.max(1, ...questions.map(q => q.difficulty_level || 1));
+
+    const due: ScheduledCandidate[] = [];
+    const fresh: ScheduledCandidate[] = [];
+    const early: ScheduledCandidate[] = [];
+
+    for (const question of questions) {
+      const record = history.get(question.uuid);
+
+      if (record && now.getTime() - new Date(record.last_seen).getTime() < minGapMs) {
+        continue;
+      }
+
+      const candidate: ScheduledCandidate = {
+        question,
+        history: record,
+        dueAt: record ? this.getNextReviewDate(record) : undefined,
+        baseFactors: this.getBaseFactors(question, record, now, accuracy, maxDifficulty)
+      };
+
+      if (!record) {
+        fresh.push(candidate);
+      } else if (candidate.dueAt!.getTime() <= now.getTime()) {
+        due.push(candidate);
+      } else {
+        early.push(candidate);
+      }
+    }
+
+    const selected: { question: any; selection: QuestionSelection }[] = [];
+    const usedCategories = new Set<string>();
+
+    const take = (pool: ScheduledCandidate[], limit: number, reason: SelectionReasonCode) => {
+      while (limit > 0 && pool.length > 0 && selected.length < count) {
+        // Re-score each round so the variety factor reflects what is already picked
+        let bestIndex = 0;
+        let bestSelection = this.buildSelection(pool[0], reason, usedCategories);
+
+        for (let index = 1; index < pool.length; index++) {
+          const selection = this.buildSelection(pool[index], reason, usedCategories);
+          if (selection.score > bestSelection.score) {
+            bestIndex = index;
+            bestSelection = selection;
+          }
+        }
+
+        const [picked] = pool.splice(bestIndex, 1);
+        usedCategories.add(String(picked.question.new_category_id || 'general'));
+        selected.push({ question: picked.question, selection: bestSelection });
+        limit--;
+      }
+    };
+
+    const newSlots = fresh.length > 0 ? Math.max(1, Math.round(count * this.config.newItemRatio)) : 0;
+
+    take(due, count - Math.min(newSlots, fresh.length), 'due_review');
+    take(fresh, count - selected.length, 'new_item');
+    take(due, count - selected.length, 'due_review');
+    take(early, count - selected.length, 'early_review');
+
+    return selected;
+  }
+
+  /**
+   * SM-2 style interval: the ease factor drops with every lapse and the
+   * interval grows geometrically with net successful reviews. A question
+   * answered wrong last time (or never answered) is due again after the
+   * minimum repeat gap.
+   */
+  private getNextReviewDate(history: QuestionHistory): Date {
+    const lastSeen = new Date(history.last_seen).getTime();
+    const ease = Math.max(1.3, 2.5 - 0.2 * (history.times_incorrect || 0));
+    const streak = Math.max(0, (history.times_correct || 0) - (history.times_incorrect || 0));
+
+    let intervalHours = this.config.minTimeBetweenRepeats;
+    if (history.is_correct && streak > 0) {
+      intervalHours = Math.max(intervalHours, 24 * Math.pow(ease, streak - 1));
+    }
+
+    return new Date(lastSeen + intervalHours * 60 * 60 * 1000);
+  }
+
+  private getBaseFactors(
+    question: any,
+    history: QuestionHistory | undefined,
+    now: Date,
+    accuracy: number,
+    maxDifficulty: number
+  ): Omit<QuestionSelection['factors'], 'variety'> {
+    // Harder questions suit students who answer more accurately
+    const normalizedDifficulty = (question.difficulty_level || 1) / maxDifficulty;
+    const difficulty = 1 - Math.abs(normalizedDifficulty - accuracy);
+
+    if (!history) {
+      return { recency: 1, difficulty, performance: 0.5, mastery: 1 };
+    }
+
+    const hoursSinceSeen = (now.getTime() - new Date(history.last_seen).getTime()) / (60 * 60 * 1000);
+    const answered = (history.times_correct || 0) + (history.times_incorrect || 0);
+
+    return {
+      // Saturates after a week without seeing the question
+      recency: Math.min(1, hoursSinceSeen / (24 * 7)),
+      difficulty,
+      performance: answered > 0 ? (history.times_incorrect || 0) / answered : 0.5,
+      mastery: 1 - Math.min(1, Number(history.mastery_level) || 0)
+    };
+  }
+
+  private buildSelection(
+    candidate: ScheduledCandidate,
+    reason: SelectionReasonCode,
+    usedCategories: Set<string>
+  ): QuestionSelection {
+    const weights = this.config.priorityWeights;
+    const category = String(candidate.question.new_category_id || 'general');
+    const factors = {
+      ...candidate.baseFactors,
+      variety: usedCategories.has(category) ? 0 : 1
+    };
+
+    const score =
+      weights.recency * factors.recency +
+      weights.difficulty * factors.difficulty +
+      weights.performance * factors.performance +
+      weights.mastery * factors.mastery +
+      weights.variety * factors.variety;
+
+    return {
+      reason,
+      score: Math.round(score * 1000) / 1000,
+      due_at: candidate.dueAt?.toISOString(),
+      last_seen: candidate.history?.last_seen,
+      times_seen: candidate.history?.times_seen || 0,
+      mastery_level: Number(candidate.history?.mastery_level) || 0,
+      factors: {
+        recency: Math.round(factors.recency * 1000) / 1000,
+        difficulty: Math.round(factors.difficulty * 1000) / 1000,
+        performance: Math.round(factors.performance * 1000) / 1000,
+        mastery: Math.round(factors.mastery * 1000) / 1000,
+        variety: factors.variety
+      }
+    };
+  }
+
+  private getOverallAccuracy(history: Map<string, QuestionHistory>): number {
+    let correct = 0;
+    let answered = 0;
+    history.forEach(record => {
+      correct += record.times_correct || 0;
+      answered += (record.times_correct || 0) + (record.times_incorrect || 0);
+    });
+    return answered > 0 ? correct / answered : 0.5;
+  }
+
+  private mapQuestion(q: any): Question {
+    return {
+      id: q.id,
+      uuid: q.uuid || q.id,
+      question_text: q.question_text,
+      option_1: q.option_1,
+      option_2: q.option_2,
+      option_3: q.option_3,
+      option_4: q.option_4,
+      correct_option: q.correct_option,
+      type: q.type || 'multiple_choice',
+      difficulty_level: q.difficulty_level || 2,
+      category: q.new_category_id || 'general'
+    };
+  }
+
   /**
    * Record question presentation to prevent immediate repetition
    */
   async recordQuestionPresentation(userId: string, questionUuids: string[]): Promise<void> {
+    if (questionUuids.length === 0) return;
+
     try {
-      // For now, just log the presentation
-      // TODO: Implement actual recording when user_question_history table is available
-      console.log(`Recording question presentation for user ${userId}:`, questionUuids);
+      const [{ data: questions, error: questionsError }, { data: existing, error: historyError }] = await Promise.all([
+        this.supabase
+          .from('questions')
+          .select('uuid, question_text, difficulty_level, new_category_id')
+          .in('uuid', questionUuids),
+        this.supabase
+          .from('user_question_history')
+          .select('question_uuid, times_seen')
+          .eq('user_id', userId)
+          .in('question_uuid', questionUuids)
+      ]);
+
+      if (questionsError) throw questionsError;
+      if (historyError) throw historyError;
+
+      const timesSeen = new Map<string, number>(
+        (existing || []).map(row => [row.question_uuid, row.times_seen || 0])
+      );
+      const now = new Date().toISOString();
+
+      const rows = (questions || []).map(q => ({
+        user_id: userId,
+        question_uuid: q.uuid,
+        question_text: q.question_text,
+        difficulty_level: q.difficulty_level,
+        category: String(q.new_category_id || 'general'),
+        presented_at: now,
+        last_seen: now,
+        times_seen: (timesSeen.get(q.uuid) || 0) + 1
+      }));
+
+      const { error } = await this.supabase
+        .from('user_question_history')
+        .upsert(rows, { onConflict: 'user_id,question_uuid' });
+
+      if (error) throw error;
     } catch (error) {
       console.error('Error recording question presentation:', error);
       // Don't throw error - this is not critical for functionality
@@ -136,7 +424,12 @@ export class SupabaseSmartQuestionService {
   }
 
   /**
-   * Record user answer for learning analytics
+   * Record user answer for learning analytics.
+   *
+   * Retries are detected through `answerId`: a client resending the same
+   * answer gets the stored state back without counting it twice. The row is
+   * only written if no other answer was counted since it was read, so two
+   * answers arriving together are both counted; the loser reads again.
    */
   async recordAnswer(
     userId: string,
@@ -144,21 +437,133 @@ export class SupabaseSmartQuestionService {
     userAnswer: string,
     correctAnswer: string,
     isCorrect: boolean,
-    responseTimeMs?: number
-  ): Promise<void> {
-    try {
-      // For now, just log the answer
-      // TODO: Implement actual recording when user_question_history table is available
-      console.log(`Recording answer for user ${userId}, question ${questionUuid}:`, {
-        userAnswer,
-        correctAnswer,
-        isCorrect,
-        responseTimeMs
-      });
-    } catch (error) {
-      console.error('Error recording answer:', error);
-      // Don't throw error - this is not critical for functionality
+    responseTimeMs?: number,
+    answerId?: string
+  ): Promise<AnswerRecordResult> {
+    for (let attempt = 0; attempt < ANSWER_WRITE_ATTEMPTS; attempt++) {
+      const { data: existing, error: historyError } = await this.supabase
+        .from('user_question_history')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('question_uuid', questionUuid)
+        .maybeSingle();
+
+      if (historyError) {
+        console.error('Error fetching question history:', historyError);
+        throw new Error('Failed to record answer');
+      }
+
+      if (existing && answerId && existing.last_answer_id === answerId) {
+        return {
+          duplicate: true,
+          mastery_level: Number(existing.mastery_level) || 0,
+          priority_score: Number(existing.priority_score) || 0
+        };
+      }
+
+      const timesCorrect = (existing?.times_correct || 0) + (isCorrect ? 1 : 0);
+      const timesIncorrect = (existing?.times_incorrect || 0) + (isCorrect ? 0 : 1);
+      const masteryLevel = this.computeMastery(Number(existing?.mastery_level) || 0, isCorrect, responseTimeMs);
+      const priorityScore = this.computePriority(masteryLevel, timesCorrect, timesIncorrect);
+      const result = { duplicate: false, mastery_level: masteryLevel, priority_score: priorityScore };
+
+      const answerFields = {
+        user_answer: userAnswer,
+        correct_answer: correctAnswer,
+        is_correct: isCorrect,
+        response_time_ms: responseTimeMs ?? null,
+        last_seen: new Date().toISOString(),
+        times_correct: timesCorrect,
+        times_incorrect: timesIncorrect,
+        mastery_level: masteryLevel,
+        priority_score: priorityScore,
+        last_answer_id: answerId ?? null
+      };
+
+      if (existing) {
+        // The counters change with every answer, so they tell whether the row moved on
+        let update = this.supabase
+          .from('user_question_history')
+          .update(answerFields)
+          .eq('user_id', userId)
+          .eq('question_uuid', questionUuid);
+        for (const column of ['times_correct', 'times_incorrect'] as const) {
+          update = existing[column] === null ? update.is(column, null) : update.eq(column, existing[column]);
+        }
+
+        const { data: updated, error } = await update.select('id');
+        if (error) {
+          console.error('Error recording answer:', error);
+          throw new Error('Failed to record answer');
+        }
+        if (updated && updated.length > 0) return result;
+        continue;
+      }
+
+      const { data: question } = await this.supabase
+        .from('questions')
+        .select('question_text, difficulty_level, new_category_id')
+        .eq('uuid', questionUuid)
+        .maybeSingle();
+
+      if (!question) {
+        throw new Error(`Unknown question: ${questionUuid}`);
+      }
+
+      const { error } = await this.supabase
+        .from('user_question_history')
+        .insert([{
+          user_id: userId,
+          question_uuid: questionUuid,
+          question_text: question.question_text,
+          difficulty_level: question.difficulty_level,
+          category: String(question.new_category_id || 'general'),
+          presented_at: new Date().toISOString(),
+          times_seen: 1,
+          ...answerFields
+        }]);
+
+      if (!error) return result;
+      // 23505: another request created the row first; count this answer on top of it
+      if (error.code !== '23505') {
+        console.error('Error recording answer:', error);
+        throw new Error('Failed to record answer');
+      }
     }
+
+    console.error(`Error recording answer: history for ${questionUuid} kept changing`);
+    throw new Error('Failed to record answer');
+  }
+
+  /**
+   * Exponential moving average towards 1 on a correct answer and towards 0
+   * on a wrong one. Slow correct answers count for less than quick ones.
+   */
+  private computeMastery(previous: number, isCorrect: boolean, responseTimeMs?: number): number {
+    const learningRate = 0.3;
+    let outcome = isCorrect ? 1 : 0;
+
+    if (isCorrect && responseTimeMs && responseTimeMs > 30000) {
+      outcome = 0.7;
+    }
+
+    const mastery = previous + learningRate * (outcome - previous);
+    return Math.round(Math.min(1, Math.max(0, mastery)) * 1000) / 1000;
+  }
+
+  /**
+   * Higher means the question needs more practice
+   */
+  private computePriority(masteryLevel: number, timesCorrect: number, timesIncorrect: number): number {
+    const answered = timesCorrect + timesIncorrect;
+    const errorRate = answered > 0 ? timesIncorrect / answered : 0.5;
+    let priority = 0.7 * (1 - masteryLevel) + 0.3 * errorRate;
+
+    if (masteryLevel >= this.config.masteryThreshold) {
+      priority *= 0.5;
+    }
+
+    return Math.round(Math.max(0.01, priority) * 1000) / 1000;
   }
 
   /**
@@ -176,19 +581,7 @@ export class SupabaseSmartQuestionService {
         return [];
       }
 
-      return questions?.map(q => ({
-        id: q.id,
-        uuid: q.uuid || q.id,
-        question_text: q.question_text,
-        option_1: q.option_1,
-        option_2: q.option_2,
-        option_3: q.option_3,
-        option_4: q.option_4,
-        correct_option: q.correct_option,
-        type: q.type || 'multiple_choice',
-        difficulty_level: q.difficulty_level || 2,
-        category: q.new_category_id || 'general'
-      })) || [];
+      return questions?.map(q => this.mapQuestion(q)) || [];
     } catch (error) {
       console.error('Error in getFallbackQuestions:', error);
       return [];
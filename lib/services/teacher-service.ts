@@ -0,0 +1,194 @@
+/**
+ * Teacher Service
+ *
+ * Class rosters built from TeacherStudentAssignment rows. A teacher only ever
+ * sees students assigned to them; assignments are managed by admins.
+ */
+
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { DatabaseError, TeacherStudentAssignment } from '@/types/auth';
+import {
+  RosterStudent,
+  StudentQuizSummary,
+  TeacherAssignmentError,
+  TeacherClass,
+  WeakArea
+} from '@/types/teacher';
+
+export interface AssignStudentInput {
+  teacherId: string;
+  studentId: string;
+  className?: string;
+  subject?: string;
+  academicYear?: string;
+}
+
+export interface TeacherServiceConfig {
+  recentQuizCount: number;
+  weakAreaAccuracy: number; // Categories below this accuracy (0-100) are weak
+  weakAreaMinAttempts: number;
+  maxWeakAreas: number;
+}
+
+export class TeacherService {
+  private config: TeacherServiceConfig = {
+    recentQuizCount: 5,
+    weakAreaAccuracy: 70,
+    weakAreaMinAttempts: 2,
+    maxWeakAreas: 3
+  };
+
+  /**
+   * The teacher's classes with each student's quiz history and weak areas.
+   */
+  async getClasses(teacherId: string): Promise<TeacherClass[]> {
+    const adapter = await getDbAdapter();
+    const assignments = await adapter.getTeacherAssignments(teacherId);
+    if (assignments.length === 0) return [];
+
+    const studentIds = Array.from(new Set(assignments.map(a => a.student_id)));
+    const [students, results] = await Promise.all([
+      Promise.all(studentIds.map(id => adapter.getUserById(id))),
+      adapter.getQuizResultsByUserIds(studentIds)
+    ]);
+    const answers = await adapter.getQuizAnswersByResultIds(results.map(r => r.id));
+    const questionIds = Array.from(new Set(answers.map(a => a.question_id).filter(Boolean)));
+    const questions = await adapter.getQuestionsByIds(questionIds);
+
+    const studentsById = new Map(students.filter(Boolean).map(s => [s!.id, s!]));
+    const categoryByQuestion = new Map<string, string>(
+      questions.map(q => [String(q.id), String(q.new_category_id || 'general')])
+    );
+    const resultOwner = new Map<string, string>(results.map(r => [r.id, r.user_id]));
+
+    const classes = new Map<string, TeacherClass>();
+    for (const assignment of assignments) {
+      const student = studentsById.get(assignment.student_id);
+      if (!student) continue;
+
+      const key = this.getClassKey(assignment);
+      if (!classes.has(key)) {
+        classes.set(key, {
+          key,
+          className: assignment.class_name || 'Unassigned',
+          subject: assignment.subject,
+          academicYear: assignment.academic_year,
+          students: []
+        });
+      }
+
+      const studentResults = results.filter(r => r.user_id === student.id);
+      const studentAnswers = answers.filter(a => resultOwner.get(a.quiz_result_id) === student.id);
+      const totalScore = studentResults.reduce((sum, r) => sum + (Number(r.score) || 0), 0);
+
+      const rosterStudent: RosterStudent = {
+        id: student.id,
+        assignmentId: assignment.id,
+        name: student.full_name || student.username || student.email,
+        email: student.email,
+        totalQuizzes: studentResults.length,
+        averageScore: studentResults.length > 0 ? Math.round(totalScore / studentResults.length) : 0,
+        lastQuizAt: studentResults[0]?.completed_at || null,
+        recentQuizzes: studentResults.slice(0, this.config.recentQuizCount).map(r => this.toQuizSummary(r)),
+        weakAreas: this.getWeakAreas(studentAnswers, categoryByQuestion)
+      };
+
+      classes.get(key)!.students.push(rosterStudent);
+    }
+
+    return Array.from(classes.values());
+  }
+
+  async listAssignments(teacherId?: string): Promise<TeacherStudentAssignment[]> {
+    const adapter = await getDbAdapter();
+    return adapter.getTeacherAssignments(teacherId);
+  }
+
+  async assignStudent(input: AssignStudentInput): Promise<TeacherStudentAssignment> {
+    const adapter = await getDbAdapter();
+    const [teacher, student] = await Promise.all([
+      adapter.getUserById(input.teacherId),
+      adapter.getUserById(input.studentId)
+    ]);
+
+    if (!teacher || teacher.role !== 'teacher') {
+      throw new TeacherAssignmentError('Teacher not found', 'TEACHER_NOT_FOUND', 404);
+    }
+    if (!student || student.role !== 'student') {
+      throw new TeacherAssignmentError('Student not found', 'STUDENT_NOT_FOUND', 404);
+    }
+
+    try {
+      return await adapter.createTeacherStudentAssignment({
+        teacher_id: teacher.id,
+        student_id: student.id,
+        subject: input.subject?.trim() || 'general',
+        class_name: input.className?.trim() || undefined,
+        academic_year: input.academicYear?.trim() || String(new Date().getFullYear()),
+        is_active: true,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      });
+    } catch (error) {
+      if (error instanceof DatabaseError && error.code === 'UNIQUE_VIOLATION') {
+        throw new TeacherAssignmentError('Student is already assigned to this teacher', 'ALREADY_ASSIGNED', 409);
+      }
+      throw error;
+    }
+  }
+
+  async removeAssignment(id: string): Promise<void> {
+    const adapter = await getDbAdapter();
+    const removed = await adapter.deleteTeacherStudentAssignment(id);
+    if (!removed) {
+      throw new TeacherAssignmentError('Assignment not found', 'ASSIGNMENT_NOT_FOUND', 404);
+    }
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  /**
+   * Grammar categories where the student answers below the accuracy
+   * threshold, worst first.
+   */
+  private getWeakAreas(answers: any[], categoryByQuestion: Map<string, string>): WeakArea[] {
+    const totals = new Map<string, { attempts: number; correct: number }>();
+
+    for (const answer of answers) {
+      const category = categoryByQuestion.get(String(answer.question_id)) || 'general';
+      const total = totals.get(category) || { attempts: 0, correct: 0 };
+      total.attempts++;
+      if (answer.is_correct) total.correct++;
+      totals.set(category, total);
+    }
+
+    return Array.from(totals.entries())
+      .map(([category, total]) => ({
+        category,
+        attempts: total.attempts,
+        accuracy: Math.round((total.correct / total.attempts) * 100)
+      }))
+      .filter(area => area.attempts >= this.config.weakAreaMinAttempts && area.accuracy < this.config.weakAreaAccuracy)
+      .sort((a, b) => a.accuracy - b.accuracy)
+      .slice(0, this.config.maxWeakAreas);
+  }
+
+  private toQuizSummary(result: any): StudentQuizSummary {
+    return {
+      id: result.id,
+      score: Math.round(Number(result.score) || 0),
+      correctAnswers: result.correct_answers,
+      totalQuestions: result.total_questions,
+      completedAt: result.completed_at
+    };
+  }
+
+  private getClassKey(assignment: TeacherStudentAssignment): string {
+    return [assignment.class_name || '', assignment.subject, assignment.academic_year].join('|');
+  }
+}
+
+// Create a singleton instance
+export const teacherService = new TeacherService();
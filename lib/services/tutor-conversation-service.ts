@@ -0,0 +1,155 @@
+/**
+ * Tutor Conversation Service
+ *
+ * Stores the student's chats with the AI tutor. /api/ai-tutor records each
+ * message as it is sent and answered, so a chat can be resumed after a
+ * refresh. Anyone studentAccessService lets see a student's tutor
+ * transcripts can list and read them, but only the student can add to them.
+ */
+
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { studentAccessService } from '@/lib/services/student-access-service';
+import { UserRole } from '@/types/auth';
+import {
+  TutorConversation,
+  TutorError,
+  TutorMessage,
+  TutorTranscript
+} from '@/types/tutor';
+
+export interface TutorViewer {
+  userId: string;
+  role: UserRole | string;
+}
+
+export class TutorConversationService {
+  private config = {
+    defaultListLimit: 20,
+    maxListLimit: 100,
+    // Database IDs are UUIDs; anything else cannot be a stored conversation
+    idPattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+  };
+
+  /**
+   * The student's conversation with this ID, or a new one when no ID is
+   * given. Someone else's conversation looks the same as a missing one.
+   */
+  async resolveConversation(userId: string, conversationId?: string): Promise<TutorConversation> {
+    const adapter = await getDbAdapter();
+
+    if (conversationId === undefined || conversationId === null || conversationId === '') {
+      const now = new Date().toISOString();
+      return adapter.createTutorConversation({
+        user_id: userId,
+        message_count: 0,
+        created_at: now,
+        updated_at: now
+      });
+    }
+
+    const conversation = await this.findConversation(conversationId);
+    if (!conversation || conversation.user_id !== userId) {
+      throw new TutorError('Tutor conversation not found', 'CONVERSATION_NOT_FOUND', 404);
+    }
+    return conversation;
+  }
+
+  async recordMessage(
+    conversationId: string,
+    message: Pick<TutorMessage, 'role' | 'content' | 'question_id' | 'hint_stage'>
+  ): Promise<TutorMessage> {
+    const adapter = await getDbAdapter();
+    return adapter.addTutorMessage({
+      conversation_id: conversationId,
+      ...message,
+      created_at: new Date().toISOString()
+    });
+  }
+
+  /**
+   * A student's conversations, most recently active first. Without a
+   * studentId the viewer's own are listed.
+   */
+  async listForViewer(
+    viewer: TutorViewer,
+    studentId?: string,
+    limit?: number
+  ): Promise<{ student: { id: string; name: string }; conversations: TutorConversation[] }> {
+    const targetId = studentId || viewer.userId;
+    await this.assertCanView(viewer, targetId);
+
+    const adapter = await getDbAdapter();
+    const requested = Number.isFinite(limit) && (limit as number) > 0 ? Math.floor(limit as number) : this.config.defaultListLimit;
+    const [student, conversations] = await Promise.all([
+      this.getStudent(targetId),
+      adapter.getTutorConversations(targetId, Math.min(requested, this.config.maxListLimit))
+    ]);
+
+    return { student, conversations };
+  }
+
+  /**
+   * Every message of a conversation, oldest first, with the text of the quiz
+   * question each one was about. Read-only unless the student is reading it.
+   */
+  async getTranscript(viewer: TutorViewer, conversationId: string): Promise<TutorTranscript> {
+    const conversation = await this.findConversation(conversationId);
+    if (!conversation) {
+      throw new TutorError('Tutor conversation not found', 'CONVERSATION_NOT_FOUND', 404);
+    }
+    await this.assertCanView(viewer, conversation.user_id);
+
+    const adapter = await getDbAdapter();
+    const messages = await adapter.getTutorMessages(conversation.id);
+
+    // Questions the tutor could not find in the database have no ID to look up
+    const questionIds = Array.from(new Set(
+      messages.map(message => message.question_id).filter((id): id is string => Boolean(id))
+    ));
+    const questions = questionIds.length > 0 ? await adapter.getQuestionsByIds(questionIds) : [];
+    const questionText = new Map<string, string>(questions.map(question => [String(question.id), question.question_text]));
+
+    return {
+      conversation,
+      student: await this.getStudent(conversation.user_id),
+      messages: messages.map(message => ({
+        ...message,
+        question_text: message.question_id ? questionText.get(message.question_id) : undefined
+      })),
+      readOnly: viewer.userId !== conversation.user_id
+    };
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private async findConversation(conversationId: string): Promise<TutorConversation | null> {
+    if (typeof conversationId !== 'string' || !this.config.idPattern.test(conversationId)) {
+      return null;
+    }
+    const adapter = await getDbAdapter();
+    return adapter.getTutorConversationById(conversationId);
+  }
+
+  private async assertCanView(viewer: TutorViewer, studentId: string): Promise<void> {
+    const allowed = await studentAccessService.canViewStudentData(
+      viewer.userId,
+      viewer.role,
+      studentId,
+      'tutor_transcripts'
+    );
+    if (!allowed) {
+      throw new TutorError('Forbidden', 'FORBIDDEN', 403);
+    }
+  }
+
+  private async getStudent(studentId: string): Promise<{ id: string; name: string }> {
+    const adapter = await getDbAdapter();
+    const user = await adapter.getUserById(studentId);
+    return { id: studentId, name: user ? user.full_name || user.username || user.email : 'Deleted user' };
+  }
+}
+
+// Create a singleton instance
+export const tutorConversationService = new TutorConversationService();
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { tutorService } from '@/lib/services/tutor-service'
+import { TutorError, TutorQuestion, TutorQuestionState } from '@/types/tutor'
+
+// vi.mock is hoisted above the imports, so the service only ever sees this adapter.
+// Question states keyed by user, conversation and question, as the adapters store them
+const states = new Map<string, Omit<TutorQuestionState, 'id'>>()
+const stateKey = (userId: string, conversationId: string, questionId: string) =>
+  `${userId}:${conversationId}:${questionId}`
+
+vi.mock('@/lib/database/database-manager', () => ({
+  dbManager: {},
+  getDbAdapter: async () => ({
+    getTutorQuestionState: async (userId: string, conversationId: string, questionId: string) => {
+      const state = states.get(stateKey(userId, conversationId, questionId))
+      return state ? { id: 'state', ...state } : null
+    },
+    saveTutorQuestionState: async (state: Omit<TutorQuestionState, 'id'>) => {
+      states.set(stateKey(state.user_id, state.conversation_id, state.question_id), { ...state })
+      return { id: 'state', ...state }
+    }
+  })
+}))
+
+const question: TutorQuestion = {
+  id: 'q1',
+  text: 'I have lived here ___ 2015.',
+  options: ['for', 'since', 'from', 'during'],
+  correctIndex: 1
+}
+
+describe('tutorService.planTurn', () => {
+  beforeEach(() => states.clear())
+
+  it('explains until the first wrong answer, then hints, then reveals', async () => {
+    const first = await tutorService.planTurn('u1', 'c1', question, 'What does this mean?')
+    expect(first).toEqual({ stage: 'explain', answer: null, wrongAnswers: [], correctAnswer: undefined })
+
+    const hint = await tutorService.planTurn('u1', 'c1', question, 'is it for?')
+    expect(hint.stage).toBe('hint')
+    expect(hint.wrongAnswers).toEqual(['for'])
+    expect(hint.correctAnswer).toBeUndefined()
+
+    const reveal = await tutorService.planTurn('u1', 'c1', question, 'C')
+    expect(reveal.stage).toBe('reveal')
+    expect(reveal.wrongAnswers).toEqual(['for', 'from'])
+    expect(reveal.correctAnswer).toEqual({ index: 1, letter: 'B', option: 'since' })
+  })
+
+  it('stays correct once the question is solved', async () => {
+    const solved = await tutorService.planTurn('u1', 'c1', question, 'option b')
+    expect(solved.stage).toBe('correct')
+    expect(solved.correctAnswer).toEqual({ index: 1, letter: 'B', option: 'since' })
+
+    const later = await tutorService.planTurn('u1', 'c1', question, 'a')
+    expect(later.stage).toBe('correct')
+    expect(later.wrongAnswers).toEqual([])
+  })
+
+  it('keeps attempts apart per conversation and per student', async () => {
+    await tutorService.planTurn('u1', 'c1', question, 'a')
+    await tutorService.planTurn('u1', 'c1', question, 'c')
+
+    expect((await tutorService.planTurn('u1', 'c2', question, 'hello')).stage).toBe('explain')
+    expect((await tutorService.planTurn('u2', 'c1', question, 'hello')).stage).toBe('explain')
+    expect((await tutorService.planTurn('u1', 'c1', question, 'hello')).stage).toBe('reveal')
+  })
+
+  it('only explains a question without a known correct answer', async () => {
+    const turn = await tutorService.planTurn('u1', 'c1', { ...question, correctIndex: -1 }, 'a')
+    expect(turn).toEqual({ stage: 'explain', answer: { index: 0, letter: 'A', option: 'for' }, wrongAnswers: [] })
+    expect(states.size).toBe(0)
+  })
+
+  it('rejects malformed conversation IDs', async () => {
+    await expect(tutorService.planTurn('u1', '../other', question, 'a')).rejects.toBeInstanceOf(TutorError)
+  })
+})
+
+describe('tutorService.parseAnswer', () => {
+  const options = question.options
+
+  it('reads letters, named options and option text', () => {
+    expect(tutorService.parseAnswer('b', options)?.option).toBe('since')
+    expect(tutorService.parseAnswer('B)', options)?.option).toBe('since')
+    expect(tutorService.parseAnswer('I think option d', options)?.option).toBe('during')
+    expect(tutorService.parseAnswer('is it since?', options)?.option).toBe('since')
+    expect(tutorService.parseAnswer('I lived here since then', options)?.option).toBe('since')
+  })
+
+  it('does not treat questions or ambiguous replies as answers', () => {
+    expect(tutorService.parseAnswer('why is it since?', options)).toBeNull()
+    expect(tutorService.parseAnswer('for or from', options)).toBeNull()
+    expect(tutorService.parseAnswer('e', options)).toBeNull()
+    expect(tutorService.parseAnswer('', options)).toBeNull()
+  })
+
+  it('leaves a lone letter alone when another option reads the same', () => {
+    expect(tutorService.parseAnswer('a', ['an', 'the', 'a'])).toBeNull()
+  })
+})
@@ -0,0 +1,205 @@
+/**
+ * Tutor Service
+ *
+ * Server-side state machine for the AI tutor on quiz questions. The
+ * student's latest message is parsed into an option without the model,
+ * wrong attempts are counted per question and conversation, and the
+ * resulting stage says how much help the model may give. The correct answer
+ * is only handed to the prompt at the reveal and correct stages, so the
+ * model cannot give it away earlier.
+ */
+
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { quizSessionService } from '@/lib/services/quiz-session-service';
+import {
+  ParsedAnswer,
+  TutorError,
+  TutorQuestion,
+  TutorQuestionState,
+  TutorStage,
+  TutorTurn
+} from '@/types/tutor';
+
+export interface TutorQuestionInput {
+  id?: string | number;
+  text: string;
+  options: string[];
+}
+
+// Ways of saying which option is meant before naming it: "is it", "I pick", ...
+const ANSWER_LEAD = /^(?:(?:i think|i guess|maybe|um+|uh+|ok|okay|so|well)\s+)*(?:(?:is it|it's|it is|its|the answer is|my answer is|answer is|i choose|i pick|i select|i say|i go with|i'll go with|i will go with|i'll pick|i will pick)\s+)?/;
+
+// "option b", "answer b", "letter b" name an option by letter anywhere in the reply
+const LETTER_REFERENCE = /\b(?:option|answer|choice|letter)\s+(?:is\s+)?([a-z])\b/;
+
+// Replies asking about the question are not answers, even when they name an option
+const HELP_REQUEST = /\b(?:what|why|how|mean|means|meaning|explain|help|hint|understand|teach|difference|don't know|dont know|not sure)\b/;
+
+export class TutorService {
+  private config = {
+    // Wrong attempts after which the tutor gives the answer
+    revealAfterWrongAttempts: 2,
+    defaultConversationId: 'default',
+    maxConversationIdLength: 100
+  };
+
+  /**
+   * The question as stored, when it has an ID the database knows; otherwise
+   * the text and options the client sent, without a correct answer.
+   */
+  async resolveQuestion(input: TutorQuestionInput): Promise<TutorQuestion> {
+    if (input.id !== undefined && input.id !== null && String(input.id) !== '') {
+      const adapter = await getDbAdapter();
+      const [stored] = await adapter.getQuestionsByIds([String(input.id)]);
+
+      if (stored) {
+        const options = [stored.option_1, stored.option_2, stored.option_3, stored.option_4]
+          .filter((option: unknown): option is string => typeof option === 'string' && option.trim() !== '');
+        const resolvedOptions = options.length > 0 ? options : input.options;
+        const correctAnswer = this.normalize(quizSessionService.getCorrectAnswer(stored));
+
+        return {
+          id: String(stored.id),
+          text: stored.question_text || input.text,
+          options: resolvedOptions,
+          correctIndex: resolvedOptions.findIndex(option => this.normalize(option) === correctAnswer)
+        };
+      }
+    }
+
+    return {
+      id: `text:${this.normalize(input.text)}`.slice(0, 500),
+      text: input.text,
+      options: input.options,
+      correctIndex: -1
+    };
+  }
+
+  /**
+   * Grades the student's latest message and moves the question to its next
+   * stage. Without a known correct answer nothing can be graded and the
+   * tutor only explains.
+   */
+  async planTurn(
+    userId: string,
+    conversationId: string | undefined,
+    question: TutorQuestion,
+    latestMessage: string
+  ): Promise<TutorTurn> {
+    const answer = this.parseAnswer(latestMessage, question.options);
+    if (question.correctIndex < 0) {
+      return { stage: 'explain', answer, wrongAnswers: [] };
+    }
+
+    const conversation = this.validateConversationId(conversationId);
+    const adapter = await getDbAdapter();
+    const now = new Date().toISOString();
+    const state: Omit<TutorQuestionState, 'id'> = await adapter.getTutorQuestionState(userId, conversation, question.id) || {
+      user_id: userId,
+      conversation_id: conversation,
+      question_id: question.id,
+      wrong_answers: [],
+      solved: false,
+      created_at: now,
+      updated_at: now
+    };
+
+    if (answer && !state.solved) {
+      if (answer.index === question.correctIndex) {
+        state.solved = true;
+      } else {
+        state.wrong_answers = [...state.wrong_answers, answer.option];
+      }
+      state.updated_at = now;
+      await adapter.saveTutorQuestionState(state);
+    }
+
+    const stage = this.getStage(state);
+    return {
+      stage,
+      answer,
+      wrongAnswers: state.wrong_answers,
+      correctAnswer: stage === 'reveal' || stage === 'correct'
+        ? this.toParsedAnswer(question.correctIndex, question.options)
+        : undefined
+    };
+  }
+
+  /**
+   * Reads which option a reply chooses: a lone letter ("b", "B)"), a letter
+   * named as an option ("option B", "I think b") or the option's text
+   * ("is it since?"). Returns null for questions about the task and for
+   * replies that could mean more than one option.
+   */
+  parseAnswer(reply: string, options: string[]): ParsedAnswer | null {
+    const text = this.normalize(reply).replace(/[^a-z0-9' ]+/g, ' ').replace(/\s+/g, ' ').trim();
+    if (!text || options.length === 0 || HELP_REQUEST.test(text)) return null;
+
+    const letterIndex = (letter: string) => {
+      const index = letter.charCodeAt(0) - 97;
+      return index >= 0 && index < options.length ? index : -1;
+    };
+    const optionIndex = (value: string) => options.findIndex(option => this.normalize(option) === value);
+
+    const named = text.match(LETTER_REFERENCE);
+    if (named && letterIndex(named[1]) !== -1) {
+      return this.toParsedAnswer(letterIndex(named[1]), options);
+    }
+
+    const remainder = text.replace(ANSWER_LEAD, '').trim();
+
+    // A single letter is the option with that letter, unless another option reads the same ("a")
+    if (/^[a-z]$/.test(remainder) && letterIndex(remainder) !== -1) {
+      const sameText = optionIndex(remainder);
+      if (sameText !== -1 && sameText !== letterIndex(remainder)) return null;
+      return this.toParsedAnswer(letterIndex(remainder), options);
+    }
+
+    if (optionIndex(remainder) !== -1) {
+      return this.toParsedAnswer(optionIndex(remainder), options);
+    }
+
+    // Otherwise exactly one option has to appear in the reply as whole words
+    const mentioned = options
+      .map((option, index) => ({ index, words: this.normalize(option) }))
+      .filter(({ words }) => words && new RegExp(`(^| )${this.escapeRegExp(words)}( |$)`).test(remainder));
+    return mentioned.length === 1 ? this.toParsedAnswer(mentioned[0].index, options) : null;
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private getStage(state: Omit<TutorQuestionState, 'id'>): TutorStage {
+    if (state.solved) return 'correct';
+    if (state.wrong_answers.length >= this.config.revealAfterWrongAttempts) return 'reveal';
+    return state.wrong_answers.length > 0 ? 'hint' : 'explain';
+  }
+
+  private validateConversationId(conversationId: string | undefined): string {
+    if (conversationId === undefined || conversationId === '') {
+      return this.config.defaultConversationId;
+    }
+    if (typeof conversationId !== 'string' ||
+        conversationId.length > this.config.maxConversationIdLength ||
+        !/^[\w-]+$/.test(conversationId)) {
+      throw new TutorError('Invalid conversationId', 'INVALID_CONVERSATION_ID', 400);
+    }
+    return conversationId;
+  }
+
+  private toParsedAnswer(index: number, options: string[]): ParsedAnswer {
+    return { index, letter: String.fromCharCode(65 + index), option: options[index] };
+  }
+
+  private normalize(value: string): string {
+    return String(value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
+
+// Create a singleton instance
+export const tutorService = new TutorService();
@@ -0,0 +1,360 @@
+/**
+ * Two-Factor Authentication Service
+ *
+ * RFC 6238 TOTP enrolment and verification with one-time backup codes.
+ * Roles in twoFactorConfig.requiredRoles cannot finish a login without a
+ * second factor; until they have enrolled, login hands out a short-lived
+ * challenge token that only the enrolment endpoints accept. TOTP secrets are
+ * stored encrypted with AES-256-GCM under a key that is not in the database.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { getDbAdapter } from '@/lib/database/database-manager';
+import { jwtConfig, twoFactorConfig } from '@/lib/config/auth-config';
+import { auditLogService } from '@/lib/services/audit-log-service';
+import { TwoFactorAuth, TwoFactorError, UserProfile, UserRole } from '@/types/auth';
+
+export type TwoFactorLoginResult = 'passed' | 'code_required' | 'setup_required' | 'invalid_code';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  eligible: boolean;
+  backupCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string; // Render as a QR code for authenticator apps
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Prefix of an encrypted secret: enc:v1:<iv>:<auth tag>:<ciphertext>, base64 parts
+const ENCRYPTED_SECRET_PREFIX = 'enc:v1:';
+
+export class TwoFactorService {
+  private config = {
+    issuer: twoFactorConfig.issuer,
+    window: twoFactorConfig.window,
+    digits: twoFactorConfig.digits,
+    period: twoFactorConfig.period,
+    backupCodeCount: twoFactorConfig.backupCodeCount,
+    challengeExpiry: twoFactorConfig.challengeExpiry,
+    eligibleRoles: twoFactorConfig.eligibleRoles,
+    requiredRoles: twoFactorConfig.requiredRoles,
+    // Separate from the access token secret so a challenge token never works as a session
+    challengeSecret: `${jwtConfig.accessTokenSecret}:2fa-challenge`,
+    // Encrypts stored TOTP secrets
+    secretKey: crypto.createHash('sha256').update(twoFactorConfig.secretEncryptionKey).digest()
+  };
+
+  isRequired(role: UserRole | string): boolean {
+    return this.config.requiredRoles.includes(role as UserRole);
+  }
+
+  isEligible(role: UserRole | string): boolean {
+    return this.config.eligibleRoles.includes(role as UserRole) || this.isRequired(role);
+  }
+
+  async getStatus(userId: string, role: UserRole | string): Promise<TwoFactorStatus> {
+    const adapter = await getDbAdapter();
+    const record = await adapter.getTwoFactorAuth(userId);
+    const enabled = Boolean(record?.is_enabled);
+
+    return {
+      enabled,
+      required: this.isRequired(role),
+      eligible: this.isEligible(role),
+      backupCodesRemaining: enabled ? record!.backup_codes.length : 0
+    };
+  }
+
+  /**
+   * Decide whether a password-verified login may continue. A missing code
+   * asks for one; required roles without 2FA must enrol first.
+   */
+  async checkLogin(user: UserProfile, code?: string): Promise<TwoFactorLoginResult> {
+    const adapter = await getDbAdapter();
+    const record = await adapter.getTwoFactorAuth(user.id);
+
+    if (!record?.is_enabled) {
+      return this.isRequired(user.role) ? 'setup_required' : 'passed';
+    }
+
+    if (typeof code !== 'string' || !code.trim()) return 'code_required';
+    return await this.verifyCode(record, code) ? 'passed' : 'invalid_code';
+  }
+
+  /**
+   * Start (or restart) enrolment with a fresh secret. The secret only takes
+   * effect once confirmEnrollment sees a valid code from it.
+   */
+  async beginEnrollment(user: UserProfile): Promise<TwoFactorEnrollment> {
+    if (!this.isEligible(user.role)) {
+      throw new TwoFactorError('Two-factor authentication is not available for this account', 'NOT_ELIGIBLE', 403);
+    }
+
+    const adapter = await getDbAdapter();
+    const existing = await adapter.getTwoFactorAuth(user.id);
+    if (existing?.is_enabled) {
+      throw new TwoFactorError('Two-factor authentication is already enabled', 'ALREADY_ENABLED', 409);
+    }
+
+    const secret = this.base32Encode(crypto.randomBytes(20));
+    const now = new Date().toISOString();
+    await adapter.saveTwoFactorAuth({
+      user_id: user.id,
+      secret: this.encryptSecret(secret),
+      backup_codes: [],
+      is_enabled: false,
+      created_at: now,
+      updated_at: now
+    });
+
+    return { secret, otpauthUri: this.buildOtpauthUri(user, secret) };
+  }
+
+  /**
+   * Enable 2FA after the first valid code. Returns the backup codes, which
+   * are only ever shown this once.
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const adapter = await getDbAdapter();
+    const record = await adapter.getTwoFactorAuth(userId);
+
+    if (!record) {
+      throw new TwoFactorError('Start two-factor setup first', 'NO_PENDING_ENROLLMENT', 404);
+    }
+    if (record.is_enabled) {
+      throw new TwoFactorError('Two-factor authentication is already enabled', 'ALREADY_ENABLED', 409);
+    }
+
+    const step = this.findMatchingStep(this.decryptSecret(record.secret), code);
+    if (step === null || !(await adapter.claimTwoFactorStep(userId, step))) {
+      throw new TwoFactorError('Invalid verification code', 'INVALID_CODE');
+    }
+
+    const backupCodes = this.generateBackupCodes();
+    await adapter.updateTwoFactorAuth(userId, {
+      is_enabled: true,
+      backup_codes: backupCodes.map(c => this.hashBackupCode(c))
+    });
+
+    await auditLogService.record({
+      user_id: userId,
+      event_type: '2fa_enabled',
+      event_category: 'authentication',
+      description: 'Two-factor authentication enabled',
+      risk_level: 'low',
+      success: true
+    });
+
+    return backupCodes;
+  }
+
+  async regenerateBackupCodes(userId: string, code: string): Promise<string[]> {
+    const record = await this.getEnabledRecord(userId);
+    if (!(await this.verifyCode(record, code))) {
+      throw new TwoFactorError('Invalid verification code', 'INVALID_CODE');
+    }
+
+    const adapter = await getDbAdapter();
+    const backupCodes = this.generateBackupCodes();
+    await adapter.updateTwoFactorAuth(userId, { backup_codes: backupCodes.map(c => this.hashBackupCode(c)) });
+
+    return backupCodes;
+  }
+
+  async disable(userId: string, role: UserRole | string, code: string): Promise<void> {
+    if (this.isRequired(role)) {
+      throw new TwoFactorError('Two-factor authentication is required for this account', 'REQUIRED_FOR_ROLE', 403);
+    }
+
+    const record = await this.getEnabledRecord(userId);
+    if (!(await this.verifyCode(record, code))) {
+      throw new TwoFactorError('Invalid verification code', 'INVALID_CODE');
+    }
+
+    const adapter = await getDbAdapter();
+    await adapter.deleteTwoFactorAuth(userId);
+
+    await auditLogService.record({
+      user_id: userId,
+      event_type: '2fa_disabled',
+      event_category: 'authentication',
+      description: 'Two-factor authentication disabled',
+      risk_level: 'medium',
+      success: true
+    });
+  }
+
+  // ============================================================================
+  // Challenge Tokens
+  // ============================================================================
+
+  /**
+   * Short-lived token proving the password step succeeded, so a user who
+   * must enrol can reach the enrolment endpoints without a session.
+   */
+  createChallengeToken(userId: string): string {
+    return jwt.sign({ userId, purpose: '2fa_challenge' }, this.config.challengeSecret, {
+      expiresIn: this.config.challengeExpiry,
+      issuer: 'futurelearner'
+    } as jwt.SignOptions);
+  }
+
+  verifyChallengeToken(token: string): string | null {
+    try {
+      const payload = jwt.verify(token, this.config.challengeSecret, { issuer: 'futurelearner' }) as any;
+      return payload.purpose === '2fa_challenge' && typeof payload.userId === 'string' ? payload.userId : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private async getEnabledRecord(userId: string): Promise<TwoFactorAuth> {
+    const adapter = await getDbAdapter();
+    const record = await adapter.getTwoFactorAuth(userId);
+    if (!record?.is_enabled) {
+      throw new TwoFactorError('Two-factor authentication is not enabled', 'NOT_ENABLED', 404);
+    }
+    return record;
+  }
+
+  /**
+   * Accepts a TOTP code once per time step, or an unused backup code, which
+   * is removed on success. Both are claimed atomically, so a code replayed
+   * concurrently only works once.
+   */
+  private async verifyCode(record: TwoFactorAuth, code: string): Promise<boolean> {
+    const adapter = await getDbAdapter();
+    const step = this.findMatchingStep(this.decryptSecret(record.secret), code);
+    if (step !== null) {
+      return adapter.claimTwoFactorStep(record.user_id, step);
+    }
+
+    return adapter.consumeTwoFactorBackupCode(record.user_id, this.hashBackupCode(code));
+  }
+
+  private encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.config.secretKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return ENCRYPTED_SECRET_PREFIX + [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+  }
+
+  private decryptSecret(stored: string): string {
+    if (!stored.startsWith(ENCRYPTED_SECRET_PREFIX)) {
+      throw new TwoFactorError('Stored two-factor secret is not encrypted', 'INVALID_SECRET', 500);
+    }
+
+    const [iv, tag, ciphertext] = stored.slice(ENCRYPTED_SECRET_PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.config.secretKey, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+
+  private findMatchingStep(secret: string, code: string): number | null {
+    const normalized = code.replace(/\s/g, '');
+    if (!new RegExp(`^\\d{${this.config.digits}}$`).test(normalized)) return null;
+
+    const key = this.base32Decode(secret);
+    const current = Math.floor(Date.now() / 1000 / this.config.period);
+
+    for (let offset = -this.config.window; offset <= this.config.window; offset++) {
+      const expected = this.generateTotp(key, current + offset);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+        return current + offset;
+      }
+    }
+    return null;
+  }
+
+  // HOTP (RFC 4226) over the time step counter
+  private generateTotp(key: Buffer, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeUInt32BE(Math.floor(step / 0x100000000), 0);
+    counter.writeUInt32BE(step % 0x100000000, 4);
+
+    const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = ((hmac[offset] & 0x7f) << 24) |
+      (hmac[offset + 1] << 16) |
+      (hmac[offset + 2] << 8) |
+      hmac[offset + 3];
+
+    return (binary % 10 ** this.config.digits).toString().padStart(this.config.digits, '0');
+  }
+
+  private buildOtpauthUri(user: UserProfile, secret: string): string {
+    const account = user.email || user.username || user.id;
+    const label = encodeURIComponent(`${this.config.issuer}:${account}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: this.config.issuer,
+      algorithm: 'SHA1',
+      digits: String(this.config.digits),
+      period: String(this.config.period)
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  private generateBackupCodes(): string[] {
+    return Array.from({ length: this.config.backupCodeCount }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  private hashBackupCode(code: string): string {
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (let i = 0; i < buffer.length; i++) {
+      value = (value << 8) | buffer[i];
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+  }
+
+  private base32Decode(input: string): Buffer {
+    const clean = input.replace(/=+$/, '').toUpperCase();
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (let i = 0; i < clean.length; i++) {
+      const index = BASE32_ALPHABET.indexOf(clean[i]);
+      if (index === -1) continue;
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+    return Buffer.from(bytes);
+  }
+}
+
+// Create a singleton instance
+export const twoFactorService = new TwoFactorService();
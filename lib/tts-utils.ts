@@ -297,6 +297,8 @@ export async function playTextToSpeech(
     // Check if we got an empty blob (from browser TTS that already played)
     if (audioBlob.size === 0) {
       console.log('[TTS] Browser TTS already handled playback')
+      // It has finished speaking by now; callers waiting for onEnd would otherwise hang
+      if (onEnd) onEnd()
       return
     }
     
@@ -0,0 +1,183 @@
+/**
+ * Client side of the /api/ai-tutor Server-Sent Events stream.
+ *
+ * The route sends one `data:` event per model chunk ({ type: 'token', text }),
+ * then { type: 'done', provider } or, if the model fails part way through,
+ * { type: 'error', error }. The helpers here turn that into a reply that
+ * grows as it arrives, with the [HIGHLIGHT]...[/HIGHLIGHT] hint pulled out,
+ * and into whole sentences that can be spoken while the rest is still coming.
+ */
+
+import type { TutorStreamEvent } from '@/types/llm'
+
+export interface TutorReply {
+  // The reply without the highlight markers; the hint's text stays in place
+  content: string
+  // The first highlighted block, possibly still open while streaming
+  highlightedHint?: string
+}
+
+export interface TutorStreamHandlers {
+  onUpdate?: (reply: TutorReply) => void
+  onSentence?: (sentence: string) => void
+}
+
+const HIGHLIGHT_OPEN = '[HIGHLIGHT]'
+const HIGHLIGHT_CLOSE = '[/HIGHLIGHT]'
+
+// A sentence is only complete once the whitespace after its punctuation has
+// arrived, so "3.5" or "Great job!!" are not cut in the middle
+export const SENTENCE_END = /[.!?]+["')\]]*\s+/
+
+/**
+ * Splits raw tutor text into what to show and the highlighted hint. While
+ * streaming, a tag that has only partly arrived (e.g. "[HIGH") is held back
+ * so it never flashes on screen; the content therefore only ever grows.
+ */
+export function parseTutorReply(raw: string, streaming = false): TutorReply {
+  let text = raw
+  if (streaming) {
+    const lastBracket = text.lastIndexOf('[')
+    if (lastBracket !== -1) {
+      const tail = text.slice(lastBracket)
+      if (HIGHLIGHT_OPEN.startsWith(tail) || HIGHLIGHT_CLOSE.startsWith(tail)) {
+        text = text.slice(0, lastBracket)
+      }
+    }
+  }
+
+  let highlightedHint: string | undefined
+  const openAt = text.indexOf(HIGHLIGHT_OPEN)
+  if (openAt !== -1) {
+    const hintStart = openAt + HIGHLIGHT_OPEN.length
+    const closeAt = text.indexOf(HIGHLIGHT_CLOSE, hintStart)
+    highlightedHint = closeAt === -1 ? text.slice(hintStart) : text.slice(hintStart, closeAt)
+  }
+
+  return {
+    content: text.split(HIGHLIGHT_OPEN).join('').split(HIGHLIGHT_CLOSE).join(''),
+    highlightedHint: highlightedHint?.trim() ? highlightedHint : undefined
+  }
+}
+
+/**
+ * Reads an /api/ai-tutor response to the end, calling onUpdate with the reply
+ * so far after every chunk and onSentence with each sentence once it is
+ * complete. Resolves with the final reply; rejects if the request or the
+ * stream fails.
+ */
+export async function readTutorStream(response: Response, handlers: TutorStreamHandlers = {}): Promise<TutorReply> {
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`Failed to get AI response: ${response.status} ${response.statusText} - ${errorText}`)
+  }
+  if (!response.body) {
+    throw new Error('No response body received')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let raw = ''
+  let spokenLength = 0
+  let finished = false
+
+  const emitSentences = (content: string, flush: boolean) => {
+    if (!handlers.onSentence) return
+
+    let rest = content.slice(spokenLength)
+    let match = rest.match(SENTENCE_END)
+    while (match && match.index !== undefined) {
+      const end = match.index + match[0].length
+      const sentence = rest.slice(0, end).trim()
+      if (sentence) handlers.onSentence(sentence)
+      spokenLength += end
+      rest = rest.slice(end)
+      match = rest.match(SENTENCE_END)
+    }
+
+    if (flush && rest.trim()) {
+      handlers.onSentence(rest.trim())
+      spokenLength = content.length
+    }
+  }
+
+  const handleEvent = (event: TutorStreamEvent) => {
+    if (event.type === 'error') {
+      throw new Error(event.error)
+    }
+    if (event.type === 'done') {
+      finished = true
+      return
+    }
+
+    raw += event.text
+    const reply = parseTutorReply(raw, true)
+    handlers.onUpdate?.(reply)
+    emitSentences(reply.content, false)
+  }
+
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+
+      // Events are separated by a blank line; keep any partial one for the next read
+      const events = buffer.split('\n\n')
+      buffer = events.pop() || ''
+      for (const event of events) {
+        const data = event
+          .split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trim())
+          .join('\n')
+        if (data) handleEvent(JSON.parse(data) as TutorStreamEvent)
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+
+  if (!finished) {
+    throw new Error('The AI response ended unexpectedly')
+  }
+
+  const reply = parseTutorReply(raw)
+  handlers.onUpdate?.(reply)
+  emitSentences(reply.content, true)
+  return reply
+}
+
+/**
+ * Speaks sentences one after another in the order they are pushed. speak
+ * must resolve once its sentence has finished playing. After a sentence
+ * fails to play the rest are dropped, so one broken voice does not produce
+ * an error for every sentence. finish() resolves once everything pushed so
+ * far has been spoken; cancel() drops whatever has not started yet.
+ */
+export function createSentenceQueue(speak: (sentence: string) => Promise<void>) {
+  let chain: Promise<void> = Promise.resolve()
+  let stopped = false
+
+  return {
+    push(sentence: string) {
+      chain = chain.then(async () => {
+        if (stopped) return
+        try {
+          await speak(sentence)
+        } catch (error) {
+          console.error('[TTS] Failed to speak sentence, skipping the rest of the reply:', error)
+          stopped = true
+        }
+      })
+    },
+    finish(): Promise<void> {
+      return chain
+    },
+    cancel() {
+      stopped = true
+    }
+  }
+}
@@ -2,12 +2,12 @@ import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 import { jwtVerify } from 'jose'
 import { createClient } from '@supabase/supabase-js'
-
-// Define user roles
-type UserRole = 'admin' | 'student' | 'parent'
+import type { UserRole } from '@/types/auth'
+import { FORBIDDEN_ROUTE, getAllowedRoles, isRole } from '@/lib/config/route-access'
+import { jwtConfig } from '@/lib/config/auth-config'
 
 // JWT secret for token verification
-const JWT_SECRET = process.env.JWT_SECRET || 'your-jwt-secret-key'
+const JWT_SECRET = jwtConfig.accessTokenSecret
 
 // Supabase configuration
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://gffbcefjrnizipnflqjw.supabase.co'
@@ -17,12 +17,9 @@ const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'eyJhbGci
 const ROUTES = {
   HOME: '/',
   LOGIN: '/login',
-  TUTORIAL: '/tutorial',
-  ADMIN_DASHBOARD: '/admin-dashboard',
-  PARENT_DASHBOARD: '/parent-dashboard',
-  QUIZ: '/quiz',
-  QUIZ_ASSESSMENT: '/quiz-assessment',
-  GRAMMAR_PRACTICE: '/grammar-practice'
+  UNLOCK_ACCOUNT: '/unlock-account',
+  RESET_PASSWORD: '/reset-password',
+  VERIFY_EMAIL: '/verify-email'
 }
 
 export async function middleware(request: NextRequest) {
@@ -36,14 +33,15 @@ export async function middleware(request: NextRequest) {
     pathname.startsWith('/images') ||
     pathname.startsWith('/icons') ||
     pathname.startsWith('/logo') ||
+    pathname.startsWith('/models') ||
     pathname.startsWith('/video') ||
     pathname.startsWith('/voice')
   ) {
     return NextResponse.next()
   }
 
-  // Always allow access to the home page, login page, quiz page, and quiz assessment (for testing)
-  if (pathname === ROUTES.HOME || pathname === ROUTES.LOGIN || pathname === ROUTES.QUIZ || pathname.startsWith(ROUTES.QUIZ_ASSESSMENT)) {
+  // Always allow access to the home page and the login, unlock, password reset and email verification pages
+  if (pathname === ROUTES.HOME || pathname === ROUTES.LOGIN || pathname === ROUTES.UNLOCK_ACCOUNT || pathname === ROUTES.RESET_PASSWORD || pathname === ROUTES.VERIFY_EMAIL) {
     return NextResponse.next()
   }
 
@@ -59,8 +57,8 @@ export async function middleware(request: NextRequest) {
   if (authToken) {
     try {
       const { payload } = await jwtVerify(authToken, new TextEncoder().encode(JWT_SECRET))
-      if (payload) {
-        userRole = payload.role as UserRole
+      if (payload && isRole(payload.role)) {
+        userRole = payload.role
         userId = payload.userId?.toString() || ''
         userEmail = payload.email?.toString() || ''
       }
@@ -102,8 +100,8 @@ export async function middleware(request: NextRequest) {
           // Get user role from user metadata or database
           // First check user metadata
           const userMetadata = user.user_metadata || user.app_metadata
-          if (userMetadata && userMetadata.role) {
-            userRole = userMetadata.role as UserRole
+          if (userMetadata && isRole(userMetadata.role)) {
+            userRole = userMetadata.role
           } else {
             // Fallback: query the users table to get the role
             try {
@@ -113,8 +111,8 @@ export async function middleware(request: NextRequest) {
                 .eq('supabase_id', user.id)
                 .single()
               
-              if (userData && !userError) {
-                userRole = userData.role as UserRole
+              if (userData && !userError && isRole(userData.role)) {
+                userRole = userData.role
               } else {
                 // Default fallback
                 userRole = 'student'
@@ -140,32 +138,6 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(new URL(ROUTES.LOGIN, request.url))
   }
 
-    // Check if the user has the correct role for the requested page
-    if (pathname.startsWith(ROUTES.ADMIN_DASHBOARD) && userRole !== 'admin') {
-      return NextResponse.redirect(new URL(ROUTES.TUTORIAL, request.url))
-    }
-
-    if (pathname.startsWith(ROUTES.TUTORIAL) && userRole !== 'student') {
-      return NextResponse.redirect(new URL(ROUTES.ADMIN_DASHBOARD, request.url))
-    }
-
-    // Handle parent dashboard access
-    if (pathname.startsWith(ROUTES.PARENT_DASHBOARD) && userRole !== 'parent') {
-      // Redirect based on user role
-      if (userRole === 'admin') {
-        return NextResponse.redirect(new URL(ROUTES.ADMIN_DASHBOARD, request.url))
-      } else {
-        return NextResponse.redirect(new URL(ROUTES.TUTORIAL, request.url))
-      }
-    }
-
-    // Allow access to quiz and quiz-assessment routes for students and admins
-    const isQuizRoute = pathname.startsWith(ROUTES.QUIZ) || 
-                       pathname.startsWith(ROUTES.QUIZ_ASSESSMENT)
-    if (isQuizRoute && !['student', 'admin'].includes(userRole)) {
-      return NextResponse.redirect(new URL(ROUTES.LOGIN, request.url))
-    }
-
   // Add user data to request headers for downstream use
   const requestHeaders = new Headers(request.headers)
   requestHeaders.set('x-user-id', userId || '')
@@ -173,6 +145,17 @@ export async function middleware(request: NextRequest) {
   requestHeaders.set('x-user-email', userEmail || '')
   requestHeaders.set('x-session-id', '') // Session ID not available for Supabase auth
 
+  // Signed-in users outside the page's roles get a 403 page linking back to their own home
+  const allowedRoles = getAllowedRoles(pathname)
+  if (allowedRoles && !allowedRoles.includes(userRole)) {
+    return NextResponse.rewrite(new URL(FORBIDDEN_ROUTE, request.url), {
+      status: 403,
+      request: {
+        headers: requestHeaders,
+      },
+    })
+  }
+
   return NextResponse.next({
     request: {
       headers: requestHeaders,
@@ -192,9 +175,10 @@ export const config = {
      * - images (static images)
      * - icons (static icons)
      * - logo (static logos)
+     * - models (face recognition model weights)
      * - video (static videos)
      * - voice (static voice files)
      */
-    '/((?!api|_next/static|_next/image|favicon.ico|images|icons|logo|video|voice).*)',
+    '/((?!api|_next/static|_next/image|favicon.ico|images|icons|logo|models|video|voice).*)',
   ],
 }
\ No newline at end of file
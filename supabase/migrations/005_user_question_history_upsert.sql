@@ -0,0 +1,19 @@
+-- ============================================================================
+-- USER_QUESTION_HISTORY UPSERT SUPPORT
+-- ============================================================================
+-- One history row per user and question so presentations and answers can be
+-- upserted, plus the id of the last recorded answer for idempotent retries.
+
+-- Merge any duplicate rows created before the constraint existed, keeping
+-- the most recently seen one; rows seen at the same time are told apart by id
+DELETE FROM user_question_history a
+USING user_question_history b
+WHERE a.user_id = b.user_id
+  AND a.question_uuid = b.question_uuid
+  AND (COALESCE(a.last_seen, '-infinity'), a.id) < (COALESCE(b.last_seen, '-infinity'), b.id);
+
+ALTER TABLE user_question_history
+  ADD CONSTRAINT user_question_history_user_question_key UNIQUE (user_id, question_uuid);
+
+ALTER TABLE user_question_history
+  ADD COLUMN IF NOT EXISTS last_answer_id TEXT;
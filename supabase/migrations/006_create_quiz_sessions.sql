@@ -0,0 +1,59 @@
+-- ============================================================================
+-- QUIZ SESSIONS MIGRATION
+-- ============================================================================
+-- Server-authoritative quiz sessions. The server issues the question set,
+-- scores each answer and writes quiz_results / quiz_answers on finalise.
+
+CREATE TABLE IF NOT EXISTS quiz_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  question_ids JSONB NOT NULL DEFAULT '[]',
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'expired')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  quiz_result_id UUID REFERENCES quiz_results(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS quiz_session_answers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES quiz_sessions(id) ON DELETE CASCADE,
+  question_id TEXT NOT NULL,
+  selected_answer TEXT,
+  correct_answer TEXT NOT NULL,
+  is_correct BOOLEAN NOT NULL,
+  answered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Replay protection: one answer per question per session
+  UNIQUE (session_id, question_id)
+);
+
+-- Link stored answers back to the question they belong to
+ALTER TABLE quiz_answers ADD COLUMN IF NOT EXISTS question_id TEXT;
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_user_id ON quiz_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_status ON quiz_sessions(status);
+CREATE INDEX IF NOT EXISTS idx_quiz_session_answers_session_id ON quiz_session_answers(session_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+-- Sessions are only written through the service role from API routes
+
+ALTER TABLE quiz_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_session_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own quiz sessions" ON quiz_sessions
+    FOR SELECT USING (auth.uid()::text = user_id::text);
+
+CREATE POLICY "Users can view their own quiz session answers" ON quiz_session_answers
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM quiz_sessions
+            WHERE quiz_sessions.id = quiz_session_answers.session_id
+            AND auth.uid()::text = quiz_sessions.user_id::text
+        )
+    );
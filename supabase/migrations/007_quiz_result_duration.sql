@@ -0,0 +1,11 @@
+-- ============================================================================
+-- QUIZ RESULT DURATION MIGRATION
+-- ============================================================================
+-- Record when a quiz started and how long it and each answer took, so the
+-- assessment view can show real timings.
+
+ALTER TABLE quiz_results ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE quiz_results ADD COLUMN IF NOT EXISTS duration_seconds INTEGER;
+
+ALTER TABLE quiz_answers ADD COLUMN IF NOT EXISTS answered_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE quiz_answers ADD COLUMN IF NOT EXISTS time_taken_seconds INTEGER;
@@ -0,0 +1,35 @@
+-- ============================================================================
+-- TEACHER STUDENT ASSIGNMENTS MIGRATION
+-- ============================================================================
+-- Which teacher is responsible for which student. Used to decide whether a
+-- teacher may view a student's quiz results.
+
+CREATE TABLE IF NOT EXISTS teacher_student_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id UUID NOT NULL REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  subject VARCHAR(100) NOT NULL DEFAULT 'general',
+  class_name VARCHAR(100),
+  academic_year VARCHAR(20) NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (teacher_id, student_id, subject, academic_year)
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_teacher_student_assignments_teacher_id ON teacher_student_assignments(teacher_id);
+CREATE INDEX IF NOT EXISTS idx_teacher_student_assignments_student_id ON teacher_student_assignments(student_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+-- Assignments are managed through the service role from API routes
+
+ALTER TABLE teacher_student_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view their own assignments" ON teacher_student_assignments
+    FOR SELECT USING (auth.uid()::text = teacher_id::text);
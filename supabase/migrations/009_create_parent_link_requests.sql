@@ -0,0 +1,39 @@
+-- ============================================================================
+-- PARENT LINK REQUESTS MIGRATION
+-- ============================================================================
+-- A parent asks to be linked to a child account. An admin or the child's
+-- primary guardian approves it, which creates the parent_child_relationships row.
+
+CREATE TABLE IF NOT EXISTS parent_link_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id UUID NOT NULL REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  child_id UUID NOT NULL REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  relationship_type VARCHAR(20) NOT NULL DEFAULT 'parent' CHECK (relationship_type IN ('parent', 'guardian', 'caregiver')),
+  message TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  decided_at TIMESTAMP WITH TIME ZONE,
+  decided_by UUID REFERENCES users_enhanced(id) ON DELETE SET NULL
+);
+
+-- Only one open request per parent and child
+CREATE UNIQUE INDEX IF NOT EXISTS idx_parent_link_requests_pending
+  ON parent_link_requests(parent_id, child_id) WHERE status = 'pending';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_parent_link_requests_parent_id ON parent_link_requests(parent_id);
+CREATE INDEX IF NOT EXISTS idx_parent_link_requests_child_id ON parent_link_requests(child_id);
+CREATE INDEX IF NOT EXISTS idx_parent_link_requests_status ON parent_link_requests(status);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+-- Requests are written through the service role from API routes
+
+ALTER TABLE parent_link_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parents can view their own link requests" ON parent_link_requests
+    FOR SELECT USING (auth.uid()::text = parent_id::text);
@@ -0,0 +1,81 @@
+-- ============================================================================
+-- RBAC PERMISSIONS MIGRATION
+-- ============================================================================
+-- Permissions are named "resource:action", where "*" matches anything. Roles
+-- receive permissions through role_permissions; individual users can get
+-- extra, optionally expiring, grants through user_permissions.
+
+CREATE TABLE IF NOT EXISTS permissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL UNIQUE,
+  description TEXT NOT NULL DEFAULT '',
+  resource VARCHAR(50) NOT NULL,
+  action VARCHAR(50) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (resource, action)
+);
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  role VARCHAR(20) NOT NULL CHECK (role IN ('student', 'parent', 'teacher', 'admin')),
+  permission_id UUID NOT NULL REFERENCES permissions(id) ON DELETE CASCADE,
+  granted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  granted_by UUID REFERENCES users_enhanced(id) ON DELETE SET NULL,
+  UNIQUE (role, permission_id)
+);
+
+CREATE TABLE IF NOT EXISTS user_permissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  permission_id UUID NOT NULL REFERENCES permissions(id) ON DELETE CASCADE,
+  granted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  granted_by UUID REFERENCES users_enhanced(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (user_id, permission_id)
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_role_permissions_role ON role_permissions(role);
+CREATE INDEX IF NOT EXISTS idx_user_permissions_user_id ON user_permissions(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_permissions_permission_id ON user_permissions(permission_id);
+
+-- ============================================================================
+-- DEFAULT PERMISSIONS
+-- ============================================================================
+
+INSERT INTO permissions (name, description, resource, action) VALUES
+  ('*:*', 'Full access to every resource', '*', '*'),
+  ('users:read', 'View user accounts', 'users', 'read'),
+  ('users:manage', 'Create, update and delete user accounts', 'users', 'manage'),
+  ('questions:read', 'View the question bank', 'questions', 'read'),
+  ('questions:manage', 'Add, edit and remove questions', 'questions', 'manage'),
+  ('analytics:read', 'View platform statistics and student progress', 'analytics', 'read'),
+  ('teacher_assignments:manage', 'Assign students to teachers', 'teacher_assignments', 'manage'),
+  ('permissions:manage', 'Edit role and user permission grants', 'permissions', 'manage')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission_id)
+SELECT grants.role, p.id
+FROM (VALUES
+  ('admin', '*:*'),
+  ('teacher', 'questions:read'),
+  ('teacher', 'questions:manage')
+) AS grants(role, name)
+JOIN permissions p ON p.name = grants.name
+ON CONFLICT (role, permission_id) DO NOTHING;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+-- Grants are read and edited through the service role from API routes
+
+ALTER TABLE permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own permission grants" ON user_permissions
+    FOR SELECT USING (auth.uid()::text = user_id::text);
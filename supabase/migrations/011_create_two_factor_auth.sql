@@ -0,0 +1,26 @@
+-- ============================================================================
+-- TWO FACTOR AUTHENTICATION MIGRATION
+-- ============================================================================
+-- RFC 6238 TOTP secrets for staff accounts, encrypted by the application
+-- with AES-256-GCM (TWO_FACTOR_ENCRYPTION_KEY). Backup codes are stored as
+-- SHA-256 hashes and removed once used. last_used_step rejects a code that
+-- was already accepted within its time window.
+
+CREATE TABLE IF NOT EXISTS two_factor_auth (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL,
+  backup_codes TEXT[] NOT NULL DEFAULT '{}',
+  is_enabled BOOLEAN NOT NULL DEFAULT false,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  last_used_step BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+-- Secrets are only read through the service role; no client policies
+
+ALTER TABLE two_factor_auth ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,43 @@
+-- ============================================================================
+-- SECURITY AUDIT LOG MIGRATION
+-- ============================================================================
+-- Authentication, authorization and suspicious-request events. Rows older
+-- than the configured retention period are purged by the application.
+
+CREATE TABLE IF NOT EXISTS security_audit_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Kept when the user is deleted so the trail stays intact
+  user_id UUID REFERENCES users_enhanced(id) ON DELETE SET NULL,
+  event_type VARCHAR(50) NOT NULL,
+  event_category VARCHAR(30) NOT NULL CHECK (event_category IN (
+    'authentication', 'authorization', 'data_access', 'admin_action', 'security_event'
+  )),
+  description TEXT NOT NULL,
+  ip_address VARCHAR(64),
+  user_agent TEXT,
+  session_id VARCHAR(255),
+  resource_accessed VARCHAR(255),
+  old_values TEXT,
+  new_values TEXT,
+  risk_level VARCHAR(10) NOT NULL DEFAULT 'low' CHECK (risk_level IN ('low', 'medium', 'high', 'critical')),
+  success BOOLEAN NOT NULL DEFAULT false,
+  metadata TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_audit_logs_created_at ON security_audit_logs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_audit_logs_user_id ON security_audit_logs(user_id);
+CREATE INDEX IF NOT EXISTS idx_security_audit_logs_event_type ON security_audit_logs(event_type);
+CREATE INDEX IF NOT EXISTS idx_security_audit_logs_risk_level ON security_audit_logs(risk_level);
+
+-- Admins hold this through *:*; grant it to other roles from the permission editor
+INSERT INTO permissions (name, description, resource, action) VALUES
+  ('audit_logs:read', 'View the security audit log', 'audit_logs', 'read')
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+-- Written and read through the service role only
+
+ALTER TABLE security_audit_logs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,77 @@
+-- ============================================================================
+-- LOGIN SECURITY MIGRATION
+-- ============================================================================
+-- Failed login attempts, account lockouts and rate limit counters, stored in
+-- the database so every server instance sees the same state.
+
+CREATE TABLE IF NOT EXISTS failed_login_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  identifier VARCHAR(255) NOT NULL,
+  ip_address VARCHAR(64) NOT NULL,
+  user_agent TEXT,
+  attempt_time TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  failure_reason VARCHAR(30) NOT NULL CHECK (failure_reason IN (
+    'invalid_credentials', 'account_locked', 'account_suspended', 'too_many_attempts'
+  )),
+  blocked_until TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_failed_login_attempts_identifier ON failed_login_attempts(identifier, attempt_time DESC);
+CREATE INDEX IF NOT EXISTS idx_failed_login_attempts_ip ON failed_login_attempts(ip_address, attempt_time DESC);
+
+CREATE TABLE IF NOT EXISTS account_lockouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  locked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  reason VARCHAR(30) NOT NULL CHECK (reason IN (
+    'failed_attempts', 'admin_action', 'security_breach', 'suspicious_activity'
+  )),
+  locked_by UUID REFERENCES users_enhanced(id) ON DELETE SET NULL,
+  -- SHA-256 of the token emailed to the user
+  unlock_token VARCHAR(64) UNIQUE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  unlocked_at TIMESTAMP WITH TIME ZONE,
+  unlocked_by UUID REFERENCES users_enhanced(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_lockouts_active ON account_lockouts(user_id) WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key VARCHAR(255) PRIMARY KEY,
+  count INTEGER NOT NULL DEFAULT 0,
+  reset_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  blocked_until TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_reset_at ON rate_limit_buckets(reset_at);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Count one hit in a single statement so concurrent requests cannot lose
+-- updates. An elapsed window starts over; an unexpired block is kept.
+CREATE OR REPLACE FUNCTION increment_rate_limit_bucket(p_key VARCHAR, p_window_ms INTEGER)
+RETURNS SETOF rate_limit_buckets
+LANGUAGE sql
+AS $$
+  INSERT INTO rate_limit_buckets AS b (key, count, reset_at)
+  VALUES (p_key, 1, NOW() + p_window_ms * INTERVAL '1 millisecond')
+  ON CONFLICT (key) DO UPDATE SET
+    count = CASE WHEN b.reset_at <= NOW() THEN 1 ELSE b.count + 1 END,
+    reset_at = CASE WHEN b.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE b.reset_at END,
+    blocked_until = CASE WHEN b.blocked_until > NOW() THEN b.blocked_until ELSE NULL END
+  RETURNING b.*;
+$$;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+-- Written and read through the service role only
+
+ALTER TABLE failed_login_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE account_lockouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
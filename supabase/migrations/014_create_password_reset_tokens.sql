@@ -0,0 +1,26 @@
+-- ============================================================================
+-- PASSWORD RESET TOKENS MIGRATION
+-- ============================================================================
+-- Single-use, expiring password reset tokens. Only the SHA-256 hash of the
+-- emailed token is stored.
+
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  token VARCHAR(64) NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  used_at TIMESTAMP WITH TIME ZONE,
+  ip_address VARCHAR(64),
+  user_agent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_unused ON password_reset_tokens(user_id) WHERE NOT used;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+-- Written and read through the service role only
+
+ALTER TABLE password_reset_tokens ENABLE ROW LEVEL SECURITY;
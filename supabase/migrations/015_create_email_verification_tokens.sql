@@ -0,0 +1,27 @@
+-- ============================================================================
+-- EMAIL VERIFICATION TOKENS MIGRATION
+-- ============================================================================
+-- Single-use, expiring email verification tokens. Only the SHA-256 hash of
+-- the emailed token is stored.
+
+CREATE TABLE IF NOT EXISTS email_verification_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  token VARCHAR(64) NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  verified BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  verified_at TIMESTAMP WITH TIME ZONE,
+  ip_address VARCHAR(64),
+  user_agent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_verification_tokens_user_pending ON email_verification_tokens(user_id, created_at DESC) WHERE NOT verified;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+-- Written and read through the service role only
+
+ALTER TABLE email_verification_tokens ENABLE ROW LEVEL SECURITY;
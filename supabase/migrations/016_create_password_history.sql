@@ -0,0 +1,30 @@
+-- ============================================================================
+-- PASSWORD HISTORY MIGRATION
+-- ============================================================================
+-- bcrypt hashes of the passwords each user has set, checked so a new password
+-- cannot repeat one of the last prevent_reuse_count, and the time of the last
+-- change, which drives password expiry.
+
+ALTER TABLE users_enhanced ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE TABLE IF NOT EXISTS password_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  password_hash VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_history_user_created ON password_history(user_id, created_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+-- Written and read through the service role only
+
+ALTER TABLE password_history ENABLE ROW LEVEL SECURITY;
+
+-- Existing passwords start the history
+INSERT INTO password_history (user_id, password_hash, created_at)
+SELECT id, password_hash, NOW() FROM users_enhanced
+WHERE password_hash IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM password_history h WHERE h.user_id = users_enhanced.id);
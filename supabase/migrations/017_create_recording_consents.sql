@@ -0,0 +1,40 @@
+-- ============================================================================
+-- RECORDING CONSENTS MIGRATION
+-- ============================================================================
+-- Parental consent for recording a child, one row per grant and scope. A
+-- grant counts while it is unrevoked and was given under the current policy
+-- version; revoked grants are kept as a record of who consented and when.
+
+CREATE TABLE IF NOT EXISTS recording_consents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  child_id UUID NOT NULL REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  parent_id UUID NOT NULL REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  scope VARCHAR(20) NOT NULL CHECK (scope IN ('webcam', 'screen', 'voice')),
+  policy_version VARCHAR(20) NOT NULL,
+  granted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_by UUID REFERENCES users_enhanced(id) ON DELETE SET NULL,
+  ip_address VARCHAR(64),
+  user_agent TEXT
+);
+
+-- Only one active grant per child and scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recording_consents_active
+  ON recording_consents(child_id, scope) WHERE revoked_at IS NULL;
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_recording_consents_child_id ON recording_consents(child_id);
+CREATE INDEX IF NOT EXISTS idx_recording_consents_parent_id ON recording_consents(parent_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+-- Consents are written through the service role from API routes
+
+ALTER TABLE recording_consents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parents can view consents they gave" ON recording_consents
+    FOR SELECT USING (auth.uid()::text = parent_id::text);
@@ -0,0 +1,24 @@
+-- ============================================================================
+-- FACE RECOGNITION DATA MIGRATION
+-- ============================================================================
+-- Enrolled faces for face login, one per user. face_encoding is the
+-- face-api.js descriptor (128 float32 values) in base64; a login matches
+-- when 1 - its distance from the stored descriptor reaches
+-- confidence_threshold.
+
+CREATE TABLE IF NOT EXISTS face_recognition_data (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  face_encoding TEXT NOT NULL,
+  confidence_threshold NUMERIC(4, 3) NOT NULL DEFAULT 0.5,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+-- Face data is biometric and only read through the service role; no client policies
+
+ALTER TABLE face_recognition_data ENABLE ROW LEVEL SECURITY;
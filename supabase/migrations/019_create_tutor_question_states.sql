@@ -0,0 +1,26 @@
+-- ============================================================================
+-- TUTOR QUESTION STATES MIGRATION
+-- ============================================================================
+-- How far the AI tutor has got with a quiz question in one conversation:
+-- the options the student chose wrongly and whether they found the answer.
+-- The server grades replies and picks the tutor's stage from this row, so
+-- the model is only given the correct answer once it may be said.
+
+CREATE TABLE IF NOT EXISTS tutor_question_states (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  conversation_id VARCHAR(100) NOT NULL,
+  question_id TEXT NOT NULL,
+  wrong_answers JSONB NOT NULL DEFAULT '[]',
+  solved BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, conversation_id, question_id)
+);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+-- Written through the service role from /api/ai-tutor; no client policies
+
+ALTER TABLE tutor_question_states ENABLE ROW LEVEL SECURITY;
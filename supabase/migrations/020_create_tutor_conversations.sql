@@ -0,0 +1,41 @@
+-- ============================================================================
+-- TUTOR CONVERSATIONS MIGRATION
+-- ============================================================================
+-- Chats with the AI tutor and their messages. Students resume their own
+-- chats; admins, assigned teachers and parents allowed to view progress read
+-- them as transcripts. Messages record the quiz question they were about and
+-- the hint stage a reply was written under (see tutor_question_states).
+
+CREATE TABLE IF NOT EXISTS tutor_conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS tutor_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES tutor_conversations(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  question_id TEXT,
+  hint_stage VARCHAR(20) CHECK (hint_stage IN ('explain', 'hint', 'reveal', 'correct')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_tutor_conversations_user_updated ON tutor_conversations(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tutor_messages_conversation ON tutor_messages(conversation_id, created_at);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+-- Read and written through the service role from the tutor API routes, which
+-- check who may see each transcript; no client policies
+
+ALTER TABLE tutor_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tutor_messages ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,40 @@
+-- ============================================================================
+-- MODERATION INCIDENTS MIGRATION
+-- ============================================================================
+-- Student messages and model replies the child-safety filter blocked on
+-- /api/ai-tutor and /api/chat. Staff review them; incidents in categories
+-- parents should hear about (self-harm by default) are passed to the parent
+-- notifiers, and parents_notified_at records when one accepted it.
+
+CREATE TABLE IF NOT EXISTS moderation_incidents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users_enhanced(id) ON DELETE CASCADE,
+  route VARCHAR(20) NOT NULL CHECK (route IN ('ai-tutor', 'chat')),
+  direction VARCHAR(10) NOT NULL CHECK (direction IN ('input', 'output')),
+  categories JSONB NOT NULL DEFAULT '[]',
+  severity VARCHAR(10) NOT NULL CHECK (severity IN ('low', 'medium', 'high')),
+  source VARCHAR(10) NOT NULL CHECK (source IN ('rules', 'provider')),
+  content TEXT NOT NULL,
+  conversation_id UUID REFERENCES tutor_conversations(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reviewed', 'dismissed')),
+  reviewed_by UUID REFERENCES users_enhanced(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  parents_notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_incidents_status_created ON moderation_incidents(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_incidents_user_id ON moderation_incidents(user_id);
+
+-- Admins hold this through *:*; grant it to other roles from the permission editor
+INSERT INTO permissions (name, description, resource, action) VALUES
+  ('moderation:review', 'Review content blocked by the child-safety filter', 'moderation', 'review')
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+-- Written and read through the service role only
+
+ALTER TABLE moderation_incidents ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,22 @@
+-- ============================================================================
+-- FACE CHALLENGES MIGRATION
+-- ============================================================================
+-- Nonces of the signed liveness challenges issued for face login and
+-- enrolment. A capture claims its challenge's nonce by setting used_at, so a
+-- recorded request cannot be sent again while the challenge is unexpired.
+
+CREATE TABLE IF NOT EXISTS face_challenges (
+  nonce VARCHAR(64) PRIMARY KEY,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_face_challenges_expires_at ON face_challenges(expires_at);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+-- Written and read through the service role only
+
+ALTER TABLE face_challenges ENABLE ROW LEVEL SECURITY;
@@ -5,6 +5,8 @@
  * Designed to be compatible with both SQLite and Supabase implementations.
  */
 
+import type { NextRequest } from 'next/server';
+
 // ============================================================================
 // Core User Types
 // ============================================================================
@@ -31,7 +33,7 @@ export interface SessionData {
   aud?: string; // JWT audience
 }
 
-export interface AuthenticatedRequest extends Request {
+export interface AuthenticatedRequest extends NextRequest {
   auth?: {
     user: SessionData;
     session?: any;
@@ -56,6 +58,7 @@ export interface BaseUser {
   login_attempts: number;
   password_reset_token?: string;
   password_reset_expires?: string;
+  password_changed_at?: string; // ISO timestamp, drives password expiry
   email_verified: boolean;
   phone?: string;
   avatar_url?: string;
@@ -111,6 +114,7 @@ export interface AuthCredentials {
   password: string;
   role?: UserRole;
   remember_me?: boolean;
+  two_factor_code?: string; // TOTP or backup code, sent once the first attempt asks for it
 }
 
 export interface FaceRecognitionData {
@@ -130,12 +134,31 @@ export interface LoginSession {
   refresh_token?: string;
   expires_at: string;
   created_at: string;
+  last_activity?: string;
   ip_address?: string;
   user_agent?: string;
   is_active: boolean;
   login_method: LoginMethod;
 }
 
+export interface SessionDevice {
+  browser: string;
+  os: string;
+  type: 'desktop' | 'mobile' | 'tablet' | 'unknown';
+}
+
+// A LoginSession as shown to its owner or an admin; tokens never leave the server
+export interface ActiveSessionView {
+  id: string;
+  device: SessionDevice;
+  ip_address: string | null;
+  login_method: LoginMethod;
+  created_at: string;
+  last_activity: string;
+  expires_at: string;
+  current: boolean;
+}
+
 export interface PasswordPolicy {
   min_length: number;
   require_uppercase: boolean;
@@ -189,7 +212,7 @@ export interface TeacherStudentAssignment {
 export interface PasswordResetToken {
   id: string;
   user_id: string;
-  token: string;
+  token: string; // SHA-256 hash of the emailed token
   expires_at: string;
   used: boolean;
   created_at: string;
@@ -215,12 +238,22 @@ export interface AccountLockout {
   locked_until?: string;
   reason: 'failed_attempts' | 'admin_action' | 'security_breach' | 'suspicious_activity';
   locked_by?: string; // admin user id if manually locked
-  unlock_token?: string;
+  unlock_token?: string; // SHA-256 hash of the emailed token
   is_active: boolean;
+  unlocked_at?: string;
+  unlocked_by?: string; // admin user id, absent when unlocked by token
   created_at: string;
   updated_at: string;
 }
 
+// Fixed-window counter shared by every server instance
+export interface RateLimitBucket {
+  key: string;
+  count: number;
+  reset_at: string;
+  blocked_until?: string;
+}
+
 // Security event types for audit logging
 export type SecurityEventType = 
   | 'login_success'
@@ -234,6 +267,7 @@ export type SecurityEventType =
   | 'account_unlocked'
   | 'profile_update'
   | 'permission_change'
+  | 'access_denied'
   | 'admin_action'
   | 'suspicious_activity'
   | 'data_export'
@@ -241,7 +275,13 @@ export type SecurityEventType =
   | 'account_deletion'
   | '2fa_enabled'
   | '2fa_disabled'
-  | 'session_expired';
+  | 'session_expired'
+  | 'session_revoked'
+  | 'consent_granted'
+  | 'consent_revoked'
+  | 'face_enrolled'
+  | 'face_removed'
+  | 'moderation_reviewed';
 
 export interface SecurityAuditLog {
   id: string;
@@ -261,11 +301,19 @@ export interface SecurityAuditLog {
   metadata?: string; // JSON string for additional context
 }
 
+export interface SecurityAuditLogFilter {
+  userId?: string;
+  eventType?: SecurityEventType;
+  riskLevel?: SecurityAuditLog['risk_level'];
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, inclusive
+}
+
 export interface EmailVerificationToken {
   id: string;
   user_id: string;
-  email: string;
-  token: string;
+  email: string; // the address the link was sent to
+  token: string; // SHA-256 hash of the emailed token
   expires_at: string;
   verified: boolean;
   created_at: string;
@@ -274,13 +322,21 @@ export interface EmailVerificationToken {
   user_agent?: string;
 }
 
+export interface PasswordHistoryEntry {
+  id: string;
+  user_id: string;
+  password_hash: string; // bcrypt hash of a password the user has set
+  created_at: string;
+}
+
 export interface TwoFactorAuth {
   id: string;
   user_id: string;
-  secret: string;
-  backup_codes: string[]; // Array of backup codes
-  is_enabled: boolean;
+  secret: string; // Base32 TOTP secret
+  backup_codes: string[]; // SHA-256 hashes of the unused backup codes
+  is_enabled: boolean; // False while enrolment awaits its first code
   last_used_at?: string;
+  last_used_step?: number; // TOTP time step of the last accepted code, to reject replays
   created_at: string;
   updated_at: string;
 }
@@ -318,7 +374,11 @@ export interface AuthResponse {
 export interface LoginResponse extends AuthResponse {
   redirect_url?: string;
   requires_2fa?: boolean;
+  requires_2fa_setup?: boolean;
+  challenge_token?: string; // Lets the user enrol in 2FA before they have a session
   requires_password_change?: boolean;
+  password_change_token?: string; // Lets a user with an expired password set a new one before they have a session
+  requires_verification?: boolean; // Password was right but the email address is unverified
 }
 
 export interface RegisterResponse extends AuthResponse {
@@ -400,7 +460,7 @@ export interface AuthConfig {
 }
 
 export interface DatabaseConfig {
-  type: 'sqlite' | 'supabase';
+  type: 'sqlite' | 'supabase' | 'memory';
   connection_string?: string;
   supabase_url?: string;
   supabase_anon_key?: string;
@@ -434,6 +494,83 @@ export class DatabaseError extends Error {
   }
 }
 
+export class RBACError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'RBACError';
+  }
+}
+
+export class TwoFactorError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'TwoFactorError';
+  }
+}
+
+export class AccountLockoutError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'AccountLockoutError';
+  }
+}
+
+export class PasswordResetError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'PasswordResetError';
+  }
+}
+
+export class SessionError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+export class PasswordChangeError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'PasswordChangeError';
+  }
+}
+
+export class EmailVerificationError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'EmailVerificationError';
+  }
+}
+
 // ============================================================================
 // Service Request/Response Types
 // ============================================================================
@@ -515,13 +652,13 @@ export interface PasswordChangeRequest {
 // RBAC Types
 // ============================================================================
 
+// Permissions are named "resource:action"; "*" matches any resource or action
 export interface Permission {
   id: string;
   name: string;
   description: string;
   resource: string;
   action: string;
-  conditions?: string; // JSON string for complex conditions
   created_at: string;
   updated_at: string;
 }
@@ -538,21 +675,20 @@ export interface Role {
 
 export interface RolePermission {
   id: string;
-  role_id: string;
+  role: UserRole;
   permission_id: string;
-  granted: boolean;
-  created_at: string;
-  updated_at: string;
+  granted_at: string;
+  granted_by?: string;
 }
 
+// A direct grant on top of the user's role; ignored once expires_at has passed
 export interface UserPermission {
   id: string;
   user_id: string;
   permission_id: string;
-  granted: boolean;
+  granted_at: string;
+  granted_by?: string;
   expires_at?: string;
-  created_at: string;
-  updated_at: string;
 }
 
 export interface AccessContext {
@@ -0,0 +1,58 @@
+/**
+ * Recording Consent Types
+ *
+ * A linked parent grants consent per child and per scope. Each grant records
+ * who gave it, when, and under which version of the consent policy; revoking
+ * it keeps the row for the record. Recording uploads of a student need an
+ * unrevoked grant under the current policy for every scope they capture.
+ */
+
+export type RecordingConsentScope = 'webcam' | 'screen' | 'voice';
+
+// What an upload captures; webcam and screen recordings both include the
+// microphone, voice is audio alone such as speech sent for transcription, and
+// face is the camera picture a face login enrolment stores
+export type RecordingKind = 'webcam' | 'screen' | 'voice' | 'face';
+
+export interface RecordingConsent {
+  id: string;
+  child_id: string;
+  parent_id: string;
+  scope: RecordingConsentScope;
+  policy_version: string;
+  granted_at: string;
+  revoked_at?: string;
+  revoked_by?: string;
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export interface RecordingConsentScopeStatus {
+  scope: RecordingConsentScope;
+  granted: boolean;
+  // Set when the last grant was made under an older policy and no longer counts
+  outdated: boolean;
+  grantedAt: string | null;
+  grantedBy: string | null; // name of the consenting parent
+}
+
+export interface RecordingConsentStatus {
+  childId: string;
+  policyVersion: string;
+  scopes: RecordingConsentScopeStatus[];
+}
+
+// ============================================================================
+// Error Types
+// ============================================================================
+
+export class RecordingConsentError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'RecordingConsentError';
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Face Login Types
+ *
+ * The browser runs face-api.js and sends what it saw, frame by frame: the 68
+ * face landmarks and, for some frames, the 128-number face descriptor. The
+ * server checks the frames for the liveness action it asked for, then
+ * compares their descriptors with the one stored at enrolment.
+ */
+
+import type { RecordingConsentScope } from './consent';
+
+// What the person has to do on camera to show they are not a photo
+export type FaceLivenessAction = 'blink' | 'turn_head';
+
+export type FacePoint = [number, number];
+
+export interface FaceFrame {
+  t: number; // milliseconds since capture started
+  landmarks: FacePoint[]; // the 68-point face-api.js layout
+  descriptor?: number[];
+}
+
+export interface FaceChallenge {
+  challenge_token: string;
+  action: FaceLivenessAction;
+  expires_in: number; // seconds
+}
+
+export interface FaceEnrollmentStatus {
+  eligible: boolean;
+  enrolled: boolean;
+  updatedAt: string | null;
+  missingConsent: RecordingConsentScope[]; // parental consent enrolment still needs
+}
+
+// An issued challenge, claimed by the first capture that answers it
+export interface FaceChallengeRecord {
+  nonce: string;
+  expires_at: string;
+  used_at?: string;
+  created_at: string;
+}
+
+export interface FaceMatchResult {
+  matched: boolean;
+  confidence: number;
+  threshold: number;
+}
+
+export class FaceRecognitionError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'FaceRecognitionError';
+  }
+}
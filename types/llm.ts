@@ -0,0 +1,54 @@
+/**
+ * LLM Provider Types
+ *
+ * The AI routes talk to language models through LLM providers. Each route
+ * has an ordered list of providers; when one keeps failing, the next one
+ * answers instead.
+ */
+
+export type LLMProviderName = 'openai' | 'groq' | 'google' | 'mock';
+
+// The API routes that call a language model
+export type LLMRoute = 'ai-tutor' | 'chat';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+}
+
+export interface LLMCompletion {
+  text: string;
+  provider: LLMProviderName;
+}
+
+export interface LLMStream {
+  chunks: AsyncIterable<string>;
+  provider: LLMProviderName;
+}
+
+// One Server-Sent Event from /api/ai-tutor: a chunk of the reply, then done
+// or, if the model fails part way through, error. done has no provider when
+// the safety filter answered instead of a model
+export type TutorStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'done'; provider?: LLMProviderName }
+  | { type: 'error'; error: string };
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 502
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Moderation Types
+ *
+ * What students type to the AI routes and what the model answers is
+ * screened before it reaches the model or is shown and spoken to the child.
+ * A local rule-based classifier always runs; a provider moderation API can
+ * be added on top. Blocked content is replaced with a safe response and
+ * logged as an incident for staff to review.
+ */
+
+// pii, profanity and self_harm come from the local rules; the others only
+// from a provider
+export type ModerationCategory =
+  | 'pii'
+  | 'profanity'
+  | 'self_harm'
+  | 'sexual'
+  | 'violence'
+  | 'hate'
+  | 'harassment'
+  | 'illicit';
+
+export type ModerationSeverity = 'low' | 'medium' | 'high';
+
+// input: what the student sent; output: what the model answered
+export type ModerationDirection = 'input' | 'output';
+
+export type ModerationSource = 'rules' | 'provider';
+
+// The AI routes that are moderated
+export type ModeratedRoute = 'ai-tutor' | 'chat';
+
+export interface ModerationResult {
+  flagged: boolean;
+  categories: ModerationCategory[];
+  severity: ModerationSeverity | null;
+  source: ModerationSource | null;
+}
+
+export type ModerationIncidentStatus = 'open' | 'reviewed' | 'dismissed';
+
+export interface ModerationIncident {
+  id: string;
+  user_id: string;
+  route: ModeratedRoute;
+  direction: ModerationDirection;
+  categories: ModerationCategory[];
+  severity: ModerationSeverity;
+  source: ModerationSource;
+  // The blocked text, kept for staff review only
+  content: string;
+  conversation_id?: string;
+  status: ModerationIncidentStatus;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  review_note?: string;
+  // Set once a parent notifier accepted the incident
+  parents_notified_at?: string;
+  created_at: string;
+}
+
+export interface ModerationIncidentFilter {
+  status?: ModerationIncidentStatus;
+  userId?: string;
+  direction?: ModerationDirection;
+}
+
+export interface ModerationIncidentView extends ModerationIncident {
+  userName: string;
+}
+
+// Told about incidents a student's parents should hear of; see
+// moderationService.registerParentNotifier
+export interface ParentNotifier {
+  notify(incident: ModerationIncident, student: { id: string; name: string }): Promise<boolean>;
+}
+
+// ============================================================================
+// Error Types
+// ============================================================================
+
+export class ModerationError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'ModerationError';
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Parent Dashboard Types
+ *
+ * Parents see linked children through ParentChildRelationship rows; each
+ * dashboard section is gated by the link's ParentPermissions. New links
+ * start as a ParentLinkRequest that an admin or the child's primary guardian
+ * approves.
+ */
+
+import { ParentChildRelationship, ParentPermissions } from './auth';
+
+export type ParentLinkRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ParentLinkRequest {
+  id: string;
+  parent_id: string;
+  child_id: string;
+  relationship_type: ParentChildRelationship['relationship_type'];
+  message?: string;
+  status: ParentLinkRequestStatus;
+  created_at: string;
+  decided_at?: string;
+  decided_by?: string;
+}
+
+export interface ParentLinkRequestFilter {
+  parentId?: string;
+  childIds?: string[];
+  status?: ParentLinkRequestStatus;
+}
+
+export interface LinkedChild {
+  id: string;
+  name: string;
+  username?: string;
+  relationshipId: string;
+  relationshipType: ParentChildRelationship['relationship_type'];
+  isPrimary: boolean;
+  permissions: ParentPermissions;
+}
+
+export interface ChildNotification {
+  id: string;
+  type: 'quiz_completed' | 'low_score' | 'inactive';
+  message: string;
+  timestamp: string;
+}
+
+// ============================================================================
+// Error Types
+// ============================================================================
+
+export class ParentLinkError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'ParentLinkError';
+  }
+}
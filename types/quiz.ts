@@ -0,0 +1,71 @@
+/**
+ * Quiz Session Types
+ *
+ * Server-authoritative quiz sessions: the server picks the question set,
+ * scores each answer itself and writes the final quiz result. Correct
+ * answers are only handed out once the session is finalised.
+ */
+
+export type QuizSessionStatus = 'active' | 'completed' | 'expired';
+
+export interface QuizSession {
+  id: string;
+  user_id: string;
+  question_ids: string[]; // Ordered question IDs issued for this session
+  status: QuizSessionStatus;
+  created_at: string;
+  expires_at: string;
+  completed_at?: string;
+  quiz_result_id?: string;
+}
+
+export interface QuizSessionAnswer {
+  id: string;
+  session_id: string;
+  question_id: string;
+  selected_answer: string;
+  correct_answer: string;
+  is_correct: boolean;
+  answered_at: string;
+}
+
+// A session question as the student sees it, without its answer
+export interface QuizSessionQuestion {
+  id: string;
+  uuid?: string;
+  question_text: string;
+  options: string[];
+  difficulty_level?: number;
+  category?: string;
+}
+
+// The outcome of one question, only given out once the session is finalised
+export interface QuizSessionReviewItem {
+  questionId: string;
+  selectedAnswer: string;
+  correctAnswer: string;
+  isCorrect: boolean;
+}
+
+export interface QuizSessionSummary {
+  quizResultId: string;
+  score: number;
+  correctAnswers: number;
+  totalQuestions: number;
+  answers: QuizSessionReviewItem[];
+}
+
+// ============================================================================
+// Error Types
+// ============================================================================
+
+export class QuizSessionError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'QuizSessionError';
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Teacher Dashboard Types
+ *
+ * Classes are the active TeacherStudentAssignment rows of one teacher grouped
+ * by class name, subject and academic year.
+ */
+
+export interface WeakArea {
+  category: string;
+  attempts: number;
+  accuracy: number; // 0-100
+}
+
+export interface StudentQuizSummary {
+  id: string;
+  score: number;
+  correctAnswers: number;
+  totalQuestions: number;
+  completedAt: string;
+}
+
+export interface RosterStudent {
+  id: string;
+  assignmentId: string;
+  name: string;
+  email: string;
+  totalQuizzes: number;
+  averageScore: number;
+  lastQuizAt: string | null;
+  recentQuizzes: StudentQuizSummary[];
+  weakAreas: WeakArea[];
+}
+
+export interface TeacherClass {
+  key: string;
+  className: string;
+  subject: string;
+  academicYear: string;
+  students: RosterStudent[];
+}
+
+// ============================================================================
+// Error Types
+// ============================================================================
+
+export class TeacherAssignmentError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'TeacherAssignmentError';
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Tutor Types
+ *
+ * The AI tutor grades a student's reply to a quiz question on the server and
+ * counts wrong attempts per question and conversation. From that it picks the
+ * stage of help the model may give; the model only learns the correct answer
+ * once the stage allows it to be said.
+ *
+ * Conversations and their messages are stored, so a student can resume a
+ * chat and staff or permitted parents can read the help that was given.
+ */
+
+// explain: no wrong attempt yet; hint: one wrong attempt;
+// reveal: wrong often enough to be told; correct: the student found it
+export type TutorStage = 'explain' | 'hint' | 'reveal' | 'correct';
+
+export interface TutorQuestionState {
+  id: string;
+  user_id: string;
+  conversation_id: string;
+  question_id: string;
+  // Options chosen wrongly, in order; the same option counts each time
+  wrong_answers: string[];
+  solved: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TutorQuestion {
+  id: string;
+  text: string;
+  options: string[];
+  // Index into options; -1 when the question is not in the database
+  correctIndex: number;
+}
+
+export interface ParsedAnswer {
+  index: number;
+  letter: string; // 'A', 'B', ...
+  option: string;
+}
+
+export interface TutorTurn {
+  stage: TutorStage;
+  // The option the latest message chose, if it was an answer
+  answer: ParsedAnswer | null;
+  wrongAnswers: string[];
+  // Only set for the reveal and correct stages
+  correctAnswer?: ParsedAnswer;
+}
+
+// A chat with the tutor, kept so the student can pick it up again and staff
+// or permitted parents can read what help was given
+export interface TutorConversation {
+  id: string;
+  user_id: string;
+  message_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TutorMessage {
+  id: string;
+  conversation_id: string;
+  role: 'user' | 'assistant';
+  // Assistant replies are stored as the model wrote them, [HIGHLIGHT] markers included
+  content: string;
+  question_id?: string;
+  // The stage the reply was written under
+  hint_stage?: TutorStage;
+  created_at: string;
+}
+
+export interface TutorTranscript {
+  conversation: TutorConversation;
+  student: { id: string; name: string };
+  messages: (TutorMessage & { question_text?: string })[];
+  // True when someone other than the student is reading it
+  readOnly: boolean;
+}
+
+// ============================================================================
+// Error Types
+// ============================================================================
+
+export class TutorError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'TutorError';
+  }
+}